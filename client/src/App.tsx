@@ -1,41 +1,80 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, Redirect } from "wouter";
 import { queryClient } from "./lib/queryClient";
-import { QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider, useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import type { AppSettings } from "@shared/schema";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/not-found";
 import Dashboard from "@/pages/dashboard";
 import Predictions from "@/pages/predictions";
 import Inventory from "@/pages/inventory";
+import Purchasing from "@/pages/purchasing";
 import Analytics from "@/pages/analytics";
 import DataInput from "@/pages/data-input";
 import Settings from "@/pages/settings";
 import AppLayout from "@/components/layout/app-layout";
+import AuthPage from "@/pages/auth-page";
+import { SelectedLocationProvider } from "@/hooks/use-selected-location";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
+
+const DASHBOARD_VIEW_PATHS: Record<AppSettings["defaultDashboardView"], string> = {
+  overview: "/dashboard",
+  analytics: "/analytics",
+  predictions: "/predictions",
+  inventory: "/inventory",
+};
+
+// "/" opens the view chosen in the display settings
+function DefaultView() {
+  const { data: settings, isLoading } = useQuery<AppSettings>({ queryKey: ["/api/settings"] });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-[50vh]">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return <Redirect to={DASHBOARD_VIEW_PATHS[settings?.defaultDashboardView ?? "overview"]} />;
+}
 
 function Router() {
   return (
-    <AppLayout>
-      <Switch>
-        <Route path="/" component={Dashboard} />
-        <Route path="/dashboard" component={Dashboard} />
-        <Route path="/predictions" component={Predictions} />
-        <Route path="/inventory" component={Inventory} />
-        <Route path="/analytics" component={Analytics} />
-        <Route path="/data-input" component={DataInput} />
-        <Route path="/settings" component={Settings} />
-        <Route component={NotFound} />
-      </Switch>
-    </AppLayout>
+    <Switch>
+      <Route path="/auth" component={AuthPage} />
+      <Route>
+        <AppLayout>
+          <Switch>
+            <ProtectedRoute path="/" component={DefaultView} />
+            <ProtectedRoute path="/dashboard" component={Dashboard} />
+            <ProtectedRoute path="/predictions" component={Predictions} />
+            <ProtectedRoute path="/inventory" component={Inventory} />
+            <ProtectedRoute path="/purchasing" component={Purchasing} />
+            <ProtectedRoute path="/analytics" component={Analytics} />
+            <ProtectedRoute path="/data-input" component={DataInput} minimumRole="manager" />
+            <ProtectedRoute path="/settings" component={Settings} minimumRole="admin" />
+            <Route component={NotFound} />
+          </Switch>
+        </AppLayout>
+      </Route>
+    </Switch>
   );
 }
 
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <SelectedLocationProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Router />
+          </TooltipProvider>
+        </SelectedLocationProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -0,0 +1,327 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useQuery } from "@tanstack/react-query";
+import { useSelectedLocation } from "@/hooks/use-selected-location";
+import { ScatterChart, Scatter, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Cell } from 'recharts';
+import { ArrowDown, ArrowRight, ArrowUp, Grid2x2 } from "lucide-react";
+import { useState } from "react";
+
+type MenuClass = "star" | "plowhorse" | "puzzle" | "dog";
+
+interface Position {
+  quantity: number;
+  menuMix: number;
+  popularityIndex: number;
+  unitMargin: number | null;
+  contributionMargin: number | null;
+  classification: MenuClass | null;
+}
+
+interface Period extends Position {
+  startDate: string;
+  endDate: string;
+}
+
+interface EngineeringItem extends Position {
+  menuItemId: string;
+  sku: string;
+  name: string;
+  category: string;
+  revenue: number;
+  averagePrice: number | null;
+  foodCost: number | null;
+  history: Period[];
+  movement: "new" | "unchanged" | "up" | "down" | null;
+  projection: Position | null;
+}
+
+interface EngineeringAnalysis {
+  startDate: string;
+  endDate: string;
+  totalQuantity: number;
+  popularityThreshold: number;
+  marginThreshold: number | null;
+  items: EngineeringItem[];
+  projection: { startDate: string; endDate: string; totalQuantity: number; marginThreshold: number | null } | null;
+  uncostedItems: string[];
+}
+
+const classStyles: Record<MenuClass, { label: string; color: string; advice: string }> = {
+  star: { label: "Star", color: "#388E3C", advice: "Popular and profitable: keep it prominent and protect its quality." },
+  plowhorse: { label: "Plowhorse", color: "#1976D2", advice: "Popular but low margin: trim portion cost or nudge the price." },
+  puzzle: { label: "Puzzle", color: "#F57C00", advice: "Profitable but slow: reposition it on the menu or promote it." },
+  dog: { label: "Dog", color: "#D32F2F", advice: "Neither popular nor profitable: rework it or take it off the menu." },
+};
+
+function toDateInput(date: Date) {
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+}
+
+function ClassBadge({ classification }: { classification: MenuClass | null }) {
+  if (!classification) return <Badge variant="secondary">Unclassified</Badge>;
+  const style = classStyles[classification];
+  return <Badge style={{ backgroundColor: style.color, color: "white" }}>{style.label}</Badge>;
+}
+
+function MovementIcon({ movement }: { movement: EngineeringItem["movement"] }) {
+  if (movement === "up") return <ArrowUp className="h-4 w-4 text-secondary" />;
+  if (movement === "down") return <ArrowDown className="h-4 w-4 text-error" />;
+  if (movement === "unchanged") return <ArrowRight className="h-4 w-4 text-onSurfaceSecondary" />;
+  if (movement === "new") return <Badge variant="outline">New</Badge>;
+  return null;
+}
+
+export default function MenuEngineeringView() {
+  const { locationId } = useSelectedLocation();
+  const [endDate, setEndDate] = useState(() => toDateInput(new Date()));
+  const [startDate, setStartDate] = useState(() => toDateInput(new Date(Date.now() - 29 * 24 * 60 * 60 * 1000)));
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const { data: analysis, isLoading, error } = useQuery<EngineeringAnalysis>({
+    queryKey: ["/api/analytics/menu-engineering", { locationId, startDate, endDate }],
+  });
+
+  const points = analysis?.items.filter(item => item.classification !== null) ?? [];
+  const selected = analysis?.items.find(item => item.menuItemId === selectedId) ?? null;
+
+  return (
+    <div>
+      <Card className="card-shadow mb-6" data-testid="card-menu-engineering">
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+            <CardTitle className="flex items-center space-x-2">
+              <Grid2x2 className="h-5 w-5 text-primary" />
+              <span>Menu Engineering</span>
+            </CardTitle>
+            <div className="flex gap-3">
+              <div>
+                <Label>From</Label>
+                <Input type="date" value={startDate} max={endDate} onChange={(e) => setStartDate(e.target.value)} data-testid="input-engineering-start" />
+              </div>
+              <div>
+                <Label>To</Label>
+                <Input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} data-testid="input-engineering-end" />
+              </div>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="animate-pulse h-80 bg-gray-200 rounded"></div>
+          ) : error || !analysis ? (
+            <div className="text-center py-8 text-error">{(error as Error | null)?.message ?? "Analysis unavailable"}</div>
+          ) : points.length === 0 ? (
+            <div className="text-center py-8 text-onSurfaceSecondary">
+              No costed menu item sales in this range
+            </div>
+          ) : (
+            <>
+              <div className="h-96">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ScatterChart margin={{ top: 16, right: 24, bottom: 24, left: 8 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="rgba(0,0,0,0.05)" />
+                    <XAxis
+                      type="number"
+                      dataKey="popularityIndex"
+                      name="Popularity"
+                      tick={{ fill: '#757575', fontSize: 12 }}
+                      label={{ value: "Popularity (1 = even share)", position: "insideBottom", offset: -12, fill: '#757575', fontSize: 12 }}
+                    />
+                    <YAxis
+                      type="number"
+                      dataKey="unitMargin"
+                      name="Margin"
+                      tick={{ fill: '#757575', fontSize: 12 }}
+                      tickFormatter={(value: number) => `$${value}`}
+                    />
+                    <ReferenceLine x={analysis.popularityThreshold} stroke="#9E9E9E" strokeDasharray="4 4" />
+                    {analysis.marginThreshold !== null && (
+                      <ReferenceLine y={analysis.marginThreshold} stroke="#9E9E9E" strokeDasharray="4 4" />
+                    )}
+                    <Tooltip
+                      cursor={{ strokeDasharray: '3 3' }}
+                      content={({ payload }) => {
+                        const item = payload?.[0]?.payload as EngineeringItem | undefined;
+                        if (!item) return null;
+                        return (
+                          <div className="bg-white border rounded-lg p-3 shadow text-sm">
+                            <p className="font-medium text-onSurface">{item.name}</p>
+                            <p className="text-onSurfaceSecondary">{item.quantity} sold · {(item.menuMix * 100).toFixed(1)}% of mix</p>
+                            <p className="text-onSurfaceSecondary">${item.unitMargin?.toFixed(2)} margin per portion</p>
+                          </div>
+                        );
+                      }}
+                    />
+                    <Scatter
+                      data={points}
+                      onClick={(point: { payload?: EngineeringItem }) => setSelectedId(point.payload?.menuItemId ?? null)}
+                      className="cursor-pointer"
+                    >
+                      {points.map(item => (
+                        <Cell
+                          key={item.menuItemId}
+                          fill={classStyles[item.classification!].color}
+                          stroke={item.menuItemId === selectedId ? "#212121" : undefined}
+                          strokeWidth={2}
+                        />
+                      ))}
+                    </Scatter>
+                  </ScatterChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="flex flex-wrap gap-3 mt-2 text-xs text-onSurfaceSecondary">
+                {(Object.keys(classStyles) as MenuClass[]).map(classification => (
+                  <span key={classification} className="flex items-center gap-1">
+                    <span className="w-3 h-3 rounded-full inline-block" style={{ backgroundColor: classStyles[classification].color }}></span>
+                    {classStyles[classification].label}
+                  </span>
+                ))}
+                <span>
+                  Lines: popular from {analysis.popularityThreshold} of an even share
+                  {analysis.marginThreshold !== null && `, average margin $${analysis.marginThreshold.toFixed(2)}`}
+                </span>
+              </div>
+              {analysis.uncostedItems.length > 0 && (
+                <p className="mt-2 text-xs text-warning">
+                  Not plotted without a food cost: {analysis.uncostedItems.join(", ")}
+                </p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && analysis && (
+        <Card className="card-shadow mb-6" data-testid="card-menu-item-detail">
+          <CardHeader>
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+              <CardTitle className="flex items-center space-x-2">
+                <span>{selected.name}</span>
+                <ClassBadge classification={selected.classification} />
+              </CardTitle>
+              <span className="text-sm text-onSurfaceSecondary">{selected.sku} · {selected.category}</span>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {selected.classification && (
+              <p className="text-sm text-onSurfaceSecondary mb-4">{classStyles[selected.classification].advice}</p>
+            )}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+              <div>
+                <p className="text-sm text-onSurfaceSecondary">Sold</p>
+                <p className="text-xl font-bold text-onSurface">{selected.quantity}</p>
+                <p className="text-xs text-onSurfaceSecondary">{(selected.menuMix * 100).toFixed(1)}% of menu mix</p>
+              </div>
+              <div>
+                <p className="text-sm text-onSurfaceSecondary">Average Price</p>
+                <p className="text-xl font-bold text-onSurface">{selected.averagePrice === null ? "—" : `$${selected.averagePrice.toFixed(2)}`}</p>
+              </div>
+              <div>
+                <p className="text-sm text-onSurfaceSecondary">Margin per Portion</p>
+                <p className="text-xl font-bold text-onSurface">{selected.unitMargin === null ? "—" : `$${selected.unitMargin.toFixed(2)}`}</p>
+                <p className="text-xs text-onSurfaceSecondary">Food cost {selected.foodCost === null ? "unknown" : `$${selected.foodCost.toFixed(2)}`}</p>
+              </div>
+              <div>
+                <p className="text-sm text-onSurfaceSecondary">Contribution</p>
+                <p className="text-xl font-bold text-onSurface">{selected.contributionMargin === null ? "—" : `$${selected.contributionMargin.toFixed(2)}`}</p>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Period</th>
+                    <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Sold</th>
+                    <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Popularity</th>
+                    <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Margin</th>
+                    <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Class</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {selected.history.map(period => (
+                    <tr key={period.startDate}>
+                      <td className="py-3 px-4 text-onSurfaceSecondary">
+                        {new Date(period.startDate).toLocaleDateString()} – {new Date(period.endDate).toLocaleDateString()}
+                      </td>
+                      <td className="py-3 px-4 text-onSurfaceSecondary">{period.quantity}</td>
+                      <td className="py-3 px-4 text-onSurfaceSecondary">{period.popularityIndex.toFixed(2)}</td>
+                      <td className="py-3 px-4 text-onSurfaceSecondary">{period.unitMargin === null ? "—" : `$${period.unitMargin.toFixed(2)}`}</td>
+                      <td className="py-3 px-4"><ClassBadge classification={period.classification} /></td>
+                    </tr>
+                  ))}
+                  {selected.projection && analysis.projection && (
+                    <tr className="bg-gray-50">
+                      <td className="py-3 px-4 text-onSurfaceSecondary">
+                        Forecast {new Date(analysis.projection.startDate).toLocaleDateString()} – {new Date(analysis.projection.endDate).toLocaleDateString()}
+                      </td>
+                      <td className="py-3 px-4 text-onSurfaceSecondary">{selected.projection.quantity}</td>
+                      <td className="py-3 px-4 text-onSurfaceSecondary">{selected.projection.popularityIndex.toFixed(2)}</td>
+                      <td className="py-3 px-4 text-onSurfaceSecondary">
+                        {selected.projection.unitMargin === null ? "—" : `$${selected.projection.unitMargin.toFixed(2)}`}
+                      </td>
+                      <td className="py-3 px-4"><ClassBadge classification={selected.projection.classification} /></td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {analysis && analysis.items.length > 0 && (
+        <Card className="card-shadow mb-6">
+          <CardHeader>
+            <CardTitle>Items</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Item</th>
+                    <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Class</th>
+                    <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Trend</th>
+                    <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Sold</th>
+                    <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Margin</th>
+                    <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Contribution</th>
+                    <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Projected</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {analysis.items.map(item => (
+                    <tr
+                      key={item.menuItemId}
+                      className={`cursor-pointer hover:bg-gray-50 ${item.menuItemId === selectedId ? 'bg-gray-50' : ''}`}
+                      onClick={() => setSelectedId(item.menuItemId)}
+                      data-testid={`row-engineering-${item.sku.toLowerCase()}`}
+                    >
+                      <td className="py-3 px-4">
+                        <div className="font-medium text-onSurface">{item.name}</div>
+                        <div className="text-sm text-onSurfaceSecondary">{item.category}</div>
+                      </td>
+                      <td className="py-3 px-4"><ClassBadge classification={item.classification} /></td>
+                      <td className="py-3 px-4"><MovementIcon movement={item.movement} /></td>
+                      <td className="py-3 px-4 text-onSurfaceSecondary">{item.quantity}</td>
+                      <td className="py-3 px-4 text-onSurfaceSecondary">{item.unitMargin === null ? "—" : `$${item.unitMargin.toFixed(2)}`}</td>
+                      <td className="py-3 px-4 text-onSurfaceSecondary">
+                        {item.contributionMargin === null ? "—" : `$${item.contributionMargin.toFixed(2)}`}
+                      </td>
+                      <td className="py-3 px-4">
+                        {item.projection ? <ClassBadge classification={item.projection.classification} /> : <span className="text-onSurfaceSecondary">—</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
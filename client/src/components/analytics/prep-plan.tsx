@@ -0,0 +1,148 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useQuery } from "@tanstack/react-query";
+import { useSelectedLocation } from "@/hooks/use-selected-location";
+import { ChefHat } from "lucide-react";
+import { useState } from "react";
+
+interface PrepPlanItem {
+  itemName: string;
+  category: string;
+  forecast: number;
+  demandStdDev: number;
+  uncertaintySource: "interval" | "confidence";
+  confidence: number;
+  underageCost: number | null;
+  overageCost: number | null;
+  criticalRatio: number;
+  targetQuantity: number;
+  onHand: number;
+  prepQuantity: number;
+  expectedWaste: number;
+  expectedShortage: number;
+  expectedCost: number | null;
+}
+
+function toDateInput(date: Date) {
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+}
+
+export default function PrepPlanCard() {
+  const { locationId } = useSelectedLocation();
+  const [date, setDate] = useState(() => toDateInput(new Date()));
+  const [underageCost, setUnderageCost] = useState("");
+  const [overageCost, setOverageCost] = useState("");
+
+  const { data: plan, isLoading } = useQuery<PrepPlanItem[]>({
+    queryKey: ["/api/forecasting/prep-plan", {
+      locationId,
+      date,
+      underageCost: underageCost || undefined,
+      overageCost: overageCost || undefined,
+    }],
+  });
+
+  return (
+    <Card className="card-shadow mb-6" data-testid="card-prep-plan">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+          <CardTitle className="flex items-center space-x-2">
+            <ChefHat className="h-5 w-5 text-primary" />
+            <span>Waste-Aware Prep Plan</span>
+          </CardTitle>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-6">
+          <div>
+            <Label>Date</Label>
+            <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} data-testid="input-prep-date" />
+          </div>
+          <div>
+            <Label>Stockout cost per portion</Label>
+            <Input
+              type="number"
+              min="0"
+              step="any"
+              placeholder="Price less food cost"
+              value={underageCost}
+              onChange={(e) => setUnderageCost(e.target.value)}
+              data-testid="input-underage-cost"
+            />
+          </div>
+          <div>
+            <Label>Waste cost per portion</Label>
+            <Input
+              type="number"
+              min="0"
+              step="any"
+              placeholder="Food cost"
+              value={overageCost}
+              onChange={(e) => setOverageCost(e.target.value)}
+              data-testid="input-overage-cost"
+            />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="animate-pulse h-32 bg-gray-200 rounded"></div>
+        ) : !plan || plan.length === 0 ? (
+          <div className="text-center py-8 text-onSurfaceSecondary">
+            No forecasts for this date
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Item</th>
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Forecast</th>
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Critical Ratio</th>
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Target</th>
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">On Hand</th>
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Prep</th>
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Expected Waste / Short</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {plan.map(item => (
+                  <tr key={item.itemName} data-testid={`row-prep-${item.itemName.toLowerCase().replace(/\s+/g, '-')}`}>
+                    <td className="py-3 px-4">
+                      <div className="font-medium text-onSurface">{item.itemName}</div>
+                      <div className="text-sm text-onSurfaceSecondary">{item.category}</div>
+                    </td>
+                    <td className="py-3 px-4 text-onSurfaceSecondary">
+                      {item.forecast} ± {item.demandStdDev.toFixed(1)}
+                      <Badge variant="secondary" className="ml-2">
+                        {item.uncertaintySource === "interval" ? "P10-P90" : `${Math.round(item.confidence * 100)}% confidence`}
+                      </Badge>
+                    </td>
+                    <td className="py-3 px-4 text-onSurfaceSecondary">
+                      {(item.criticalRatio * 100).toFixed(0)}%
+                      {(item.underageCost === null || item.overageCost === null) && (
+                        <span className="ml-1 text-xs text-warning">(no costs)</span>
+                      )}
+                    </td>
+                    <td className="py-3 px-4 text-onSurfaceSecondary">{item.targetQuantity}</td>
+                    <td className="py-3 px-4 text-onSurfaceSecondary">{item.onHand}</td>
+                    <td className="py-3 px-4 font-medium text-onSurface">{item.prepQuantity}</td>
+                    <td className="py-3 px-4 text-sm text-onSurfaceSecondary">
+                      {item.expectedWaste.toFixed(1)} / {item.expectedShortage.toFixed(1)}
+                      {item.expectedCost !== null && ` ($${item.expectedCost.toFixed(2)})`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-3 text-xs text-onSurfaceSecondary">
+              Target quantities balance the cost of running out against the cost of wasting a portion.
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,289 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuery } from "@tanstack/react-query";
+import { useSelectedLocation } from "@/hooks/use-selected-location";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
+import { Trash2, DollarSign, Percent } from "lucide-react";
+import { useState } from "react";
+
+interface WasteItemSummary {
+  inventoryId: string;
+  itemName: string;
+  category: string;
+  unit: string;
+  isIngredient: boolean;
+  wastedQuantity: number;
+  wasteCost: number | null;
+  soldQuantity: number;
+  wasteToSalesRatio: number | null;
+  wasteByReason: Record<string, number>;
+  forecastOnWasteDays: number | null;
+  salesOnWasteDays: number | null;
+}
+
+interface WasteBreakdown {
+  key: string;
+  label: string;
+  wasteCost: number;
+  revenue: number;
+  wasteToSalesRatio: number | null;
+  records: number;
+}
+
+interface WasteReport {
+  days: number;
+  totals: {
+    wasteCost: number;
+    revenue: number;
+    wasteToSalesRatio: number | null;
+    records: number;
+    uncostedRecords: number;
+  };
+  byItem: WasteItemSummary[];
+  byCategory: WasteBreakdown[];
+  byDayOfWeek: WasteBreakdown[];
+  byReason: WasteBreakdown[];
+}
+
+const COLORS = ['#D32F2F', '#F57C00', '#7B1FA2', '#1976D2', '#388E3C'];
+
+const tooltipStyle = {
+  backgroundColor: 'white',
+  border: '1px solid #e0e0e0',
+  borderRadius: '8px',
+  boxShadow: '0 4px 8px rgba(0,0,0,0.1)'
+};
+
+function formatRatio(ratio: number | null) {
+  return ratio === null ? "—" : `${(ratio * 100).toFixed(1)}%`;
+}
+
+export default function WasteReportView() {
+  const { locationId } = useSelectedLocation();
+  const [days, setDays] = useState("30");
+
+  const { data: report, isLoading } = useQuery<WasteReport>({
+    queryKey: ["/api/analytics/waste", { locationId, days }],
+  });
+
+  if (isLoading || !report) {
+    return <div className="animate-pulse h-64 bg-gray-200 rounded mb-6"></div>;
+  }
+
+  const reasonData = report.byReason.filter(reason => reason.wasteCost > 0);
+
+  return (
+    <div>
+      <div className="flex justify-end mb-4">
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-40" data-testid="select-waste-period">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="7">Last 7 days</SelectItem>
+            <SelectItem value="30">Last 30 days</SelectItem>
+            <SelectItem value="90">Last 90 days</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+        <Card className="card-shadow">
+          <CardContent className="p-4">
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-error/10 rounded-lg flex items-center justify-center">
+                <DollarSign className="h-5 w-5 text-error" />
+              </div>
+              <div>
+                <p className="text-sm text-onSurfaceSecondary">Waste Cost</p>
+                <p className="text-2xl font-bold text-onSurface" data-testid="text-waste-cost">${report.totals.wasteCost.toFixed(2)}</p>
+                {report.totals.uncostedRecords > 0 && (
+                  <p className="text-xs text-warning">{report.totals.uncostedRecords} record(s) without a cost</p>
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="card-shadow">
+          <CardContent className="p-4">
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-warning/10 rounded-lg flex items-center justify-center">
+                <Percent className="h-5 w-5 text-warning" />
+              </div>
+              <div>
+                <p className="text-sm text-onSurfaceSecondary">Waste to Sales</p>
+                <p className="text-2xl font-bold text-onSurface" data-testid="text-waste-ratio">{formatRatio(report.totals.wasteToSalesRatio)}</p>
+                <p className="text-xs text-onSurfaceSecondary">of ${report.totals.revenue.toFixed(2)} revenue</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="card-shadow">
+          <CardContent className="p-4">
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 bg-primary/10 rounded-lg flex items-center justify-center">
+                <Trash2 className="h-5 w-5 text-primary" />
+              </div>
+              <div>
+                <p className="text-sm text-onSurfaceSecondary">Waste Records</p>
+                <p className="text-2xl font-bold text-onSurface">{report.totals.records}</p>
+                <p className="text-xs text-onSurfaceSecondary">last {report.days} days</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-6 mb-6">
+        <Card className="card-shadow">
+          <CardHeader>
+            <CardTitle>Waste Cost by Day of Week</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={report.byDayOfWeek.map(day => ({ ...day, label: day.label.slice(0, 3) }))}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="rgba(0,0,0,0.05)" />
+                  <XAxis dataKey="label" tick={{ fill: '#757575', fontSize: 12 }} />
+                  <YAxis tick={{ fill: '#757575', fontSize: 12 }} />
+                  <Tooltip contentStyle={tooltipStyle} formatter={(value: number) => `$${value.toFixed(2)}`} />
+                  <Bar dataKey="wasteCost" fill="#D32F2F" name="Waste Cost" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="card-shadow">
+          <CardHeader>
+            <CardTitle>Waste Cost by Cause</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="h-72 flex items-center justify-center">
+              {reasonData.length === 0 ? (
+                <p className="text-onSurfaceSecondary">No costed waste recorded</p>
+              ) : (
+                <ResponsiveContainer width="100%" height="100%">
+                  <PieChart>
+                    <Pie
+                      data={reasonData}
+                      cx="50%"
+                      cy="50%"
+                      labelLine={false}
+                      label={({ label, percent }) => `${label} ${(percent * 100).toFixed(0)}%`}
+                      outerRadius={80}
+                      dataKey="wasteCost"
+                      nameKey="label"
+                    >
+                      {reasonData.map((entry, index) => (
+                        <Cell key={entry.key} fill={COLORS[index % COLORS.length]} />
+                      ))}
+                    </Pie>
+                    <Tooltip formatter={(value: number) => `$${value.toFixed(2)}`} />
+                  </PieChart>
+                </ResponsiveContainer>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="card-shadow mb-6">
+        <CardHeader>
+          <CardTitle>Waste by Category</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {report.byCategory.length === 0 ? (
+            <div className="text-center py-8 text-onSurfaceSecondary">No waste recorded</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Category</th>
+                    <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Records</th>
+                    <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Waste Cost</th>
+                    <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Revenue</th>
+                    <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Waste to Sales</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {report.byCategory.map(category => (
+                    <tr key={category.key}>
+                      <td className="py-3 px-4 font-medium text-onSurface">{category.label}</td>
+                      <td className="py-3 px-4 text-onSurfaceSecondary">{category.records}</td>
+                      <td className="py-3 px-4 text-onSurfaceSecondary">${category.wasteCost.toFixed(2)}</td>
+                      <td className="py-3 px-4 text-onSurfaceSecondary">${category.revenue.toFixed(2)}</td>
+                      <td className="py-3 px-4 text-onSurfaceSecondary">{formatRatio(category.wasteToSalesRatio)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="card-shadow mb-6">
+        <CardHeader>
+          <CardTitle>Waste by Item</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {report.byItem.length === 0 ? (
+            <div className="text-center py-8 text-onSurfaceSecondary">No waste recorded</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Item</th>
+                    <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Wasted</th>
+                    <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Cost</th>
+                    <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Waste to Sales</th>
+                    <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Causes</th>
+                    <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Forecast vs Sold</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {report.byItem.map(item => (
+                    <tr key={item.inventoryId} data-testid={`row-waste-${item.itemName.toLowerCase().replace(/\s+/g, '-')}`}>
+                      <td className="py-3 px-4">
+                        <div className="font-medium text-onSurface">{item.itemName}</div>
+                        <div className="text-sm text-onSurfaceSecondary">{item.category}</div>
+                      </td>
+                      <td className="py-3 px-4 text-onSurfaceSecondary">{item.wastedQuantity} {item.unit}</td>
+                      <td className="py-3 px-4 text-onSurfaceSecondary">
+                        {item.wasteCost === null ? "—" : `$${item.wasteCost.toFixed(2)}`}
+                      </td>
+                      <td className="py-3 px-4 text-onSurfaceSecondary">{formatRatio(item.wasteToSalesRatio)}</td>
+                      <td className="py-3 px-4">
+                        <div className="flex flex-wrap gap-1">
+                          {Object.entries(item.wasteByReason).map(([reason, quantity]) => (
+                            <Badge key={reason} variant="outline" className="capitalize">{reason}: {quantity}</Badge>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="py-3 px-4 text-sm text-onSurfaceSecondary">
+                        {item.forecastOnWasteDays === null ? "—" : (
+                          <span className={item.forecastOnWasteDays > (item.salesOnWasteDays ?? 0) ? 'text-warning' : ''}>
+                            {item.forecastOnWasteDays} forecast / {item.salesOnWasteDays} sold
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="mt-3 text-xs text-onSurfaceSecondary">
+                Forecast vs sold compares the forecast with actual sales on the days each dish was wasted.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,20 +1,24 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useQuery } from "@tanstack/react-query";
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { useState } from "react";
+import { useSelectedLocation } from "@/hooks/use-selected-location";
 
 interface TrendData {
   actual: number[];
   predicted: number[];
+  lower: number[];
+  upper: number[];
   labels: string[];
 }
 
 export default function DemandChart() {
   const [period, setPeriod] = useState('7');
+  const { locationId } = useSelectedLocation();
   
   const { data: trends, isLoading } = useQuery<TrendData>({
-    queryKey: ["/api/dashboard/trends", { days: period }],
+    queryKey: ["/api/dashboard/trends", { days: period, locationId }],
   });
 
   if (isLoading) {
@@ -51,6 +55,7 @@ export default function DemandChart() {
     day: label,
     actual: trends.actual[index] || 0,
     predicted: trends.predicted[index] || 0,
+    range: [trends.lower[index] || 0, trends.upper[index] || 0],
   }));
 
   return (
@@ -92,7 +97,7 @@ export default function DemandChart() {
       <CardContent>
         <div className="h-64 lg:h-80">
           <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={chartData}>
+            <ComposedChart data={chartData}>
               <CartesianGrid strokeDasharray="3 3" stroke="rgba(0,0,0,0.05)" />
               <XAxis
                 dataKey="day"
@@ -112,6 +117,14 @@ export default function DemandChart() {
                 }}
               />
               <Legend />
+              <Area
+                type="monotone"
+                dataKey="range"
+                stroke="none"
+                fill="hsl(135.5, 49.4%, 39.8%)"
+                fillOpacity={0.15}
+                name="P10–P90 Range"
+              />
               <Line
                 type="monotone"
                 dataKey="actual"
@@ -130,7 +143,7 @@ export default function DemandChart() {
                 name="Predicted Demand"
                 dot={{ r: 4 }}
               />
-            </LineChart>
+            </ComposedChart>
           </ResponsiveContainer>
         </div>
       </CardContent>
@@ -1,6 +1,7 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { TrendingUp, Target, Crown, DollarSign, BarChart3 } from "lucide-react";
 import { useQuery } from "@tanstack/react-query";
+import { useSelectedLocation } from "@/hooks/use-selected-location";
 
 interface DashboardMetrics {
   todayDemand: number;
@@ -12,8 +13,9 @@ interface DashboardMetrics {
 }
 
 export default function MetricsCards() {
+  const { locationId } = useSelectedLocation();
   const { data: metrics, isLoading } = useQuery<DashboardMetrics>({
-    queryKey: ["/api/dashboard/metrics"],
+    queryKey: ["/api/dashboard/metrics", { locationId }],
   });
 
   if (isLoading) {
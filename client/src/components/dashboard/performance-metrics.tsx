@@ -4,11 +4,8 @@ import { useQuery } from "@tanstack/react-query";
 
 interface ModelMetrics {
   modelName: string;
-  accuracy: number;
-  rmse: number;
-  f1Score: number;
-  precision: number;
-  recall: number;
+  accuracy: number; // 1 - WAPE on each item's held-out last period
+  rmse: number; // Units
   lastTraining: string;
 }
 
@@ -63,28 +60,19 @@ export default function PerformanceMetrics() {
       <CardContent>
         <div className="space-y-4">
           <div className="flex justify-between items-center">
-            <span className="text-onSurfaceSecondary">Accuracy (RMSE)</span>
-            <span className="font-medium text-onSurface" data-testid="text-rmse">
-              {metrics.rmse.toFixed(3)}
+            <span className="text-onSurfaceSecondary">Holdout Accuracy</span>
+            <span className="font-medium text-onSurface" data-testid="text-accuracy">
+              {Math.round(metrics.accuracy * 100)}%
             </span>
           </div>
           <Progress value={metrics.accuracy * 100} className="w-full h-2" />
           
           <div className="flex justify-between items-center">
-            <span className="text-onSurfaceSecondary">F1-Score</span>
-            <span className="font-medium text-onSurface" data-testid="text-f1-score">
-              {metrics.f1Score.toFixed(3)}
-            </span>
-          </div>
-          <Progress value={metrics.f1Score * 100} className="w-full h-2" />
-          
-          <div className="flex justify-between items-center">
-            <span className="text-onSurfaceSecondary">Precision</span>
-            <span className="font-medium text-onSurface" data-testid="text-precision">
-              {metrics.precision.toFixed(3)}
+            <span className="text-onSurfaceSecondary">RMSE</span>
+            <span className="font-medium text-onSurface" data-testid="text-rmse">
+              {metrics.rmse.toFixed(2)} units
             </span>
           </div>
-          <Progress value={metrics.precision * 100} className="w-full h-2" />
           
           <div className="mt-4 p-3 bg-secondary/10 rounded-lg">
             <p className="text-sm text-onSurface font-medium">
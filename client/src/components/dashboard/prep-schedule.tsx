@@ -0,0 +1,170 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { useQuery } from "@tanstack/react-query";
+import { useSelectedLocation } from "@/hooks/use-selected-location";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Clock } from "lucide-react";
+import { useState } from "react";
+
+interface IntradayForecast {
+  date: string;
+  interval: 15 | 60;
+  items: { itemName: string; profileSource: string | null }[];
+  totals: { start: string; quantity: number }[];
+}
+
+interface PrepWave {
+  itemName: string;
+  category: string;
+  locationId: string | null;
+  period: string;
+  readyBy: string | null;
+  cookBy: string | null;
+  expectedDemand: number;
+  quantity: number;
+}
+
+interface PrepSchedule {
+  date: string;
+  leadMinutes: number;
+  waves: PrepWave[];
+}
+
+function toDateInput(date: Date) {
+  const offset = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 10);
+}
+
+function formatTime(value: string) {
+  return new Date(value).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+}
+
+export default function PrepSchedule() {
+  const { locationId } = useSelectedLocation();
+  const [dayOffset, setDayOffset] = useState(0);
+  const [slotMinutes, setSlotMinutes] = useState<15 | 60>(60);
+  const date = toDateInput(new Date(Date.now() + dayOffset * 24 * 60 * 60 * 1000));
+
+  const { data: forecast, isLoading: forecastLoading } = useQuery<IntradayForecast>({
+    queryKey: ["/api/forecasting/intraday", { locationId, date, interval: slotMinutes }],
+  });
+  const { data: schedule, isLoading: scheduleLoading } = useQuery<PrepSchedule>({
+    queryKey: ["/api/forecasting/prep-schedule", { locationId, date }],
+  });
+
+  // Trim the quiet hours either side of service so the curve fills the chart
+  const busy = forecast?.totals.map((slot, index) => slot.quantity > 0 ? index : -1).filter(index => index >= 0) ?? [];
+  const chartData = busy.length === 0 ? [] : forecast!.totals.slice(busy[0], busy[busy.length - 1] + 1).map(slot => ({
+    time: formatTime(slot.start),
+    quantity: slot.quantity,
+  }));
+  const unprofiled = forecast?.items.filter(item => item.profileSource === null).map(item => item.itemName) ?? [];
+  const periods = Array.from(new Set(schedule?.waves.map(wave => wave.period) ?? []));
+
+  return (
+    <Card className="card-shadow mb-6" data-testid="card-prep-schedule">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+          <CardTitle className="flex items-center space-x-2">
+            <Clock className="h-5 w-5 text-primary" />
+            <span>Prep Schedule</span>
+          </CardTitle>
+          <div className="flex space-x-2">
+            {[0, 1].map(offset => (
+              <Button
+                key={offset}
+                variant={dayOffset === offset ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setDayOffset(offset)}
+                className="px-3 py-1 text-sm rounded-full"
+                data-testid={`button-prep-day-${offset}`}
+              >
+                {offset === 0 ? "Today" : "Tomorrow"}
+              </Button>
+            ))}
+            {([60, 15] as const).map(minutes => (
+              <Button
+                key={minutes}
+                variant={slotMinutes === minutes ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setSlotMinutes(minutes)}
+                className="px-3 py-1 text-sm rounded-full"
+                data-testid={`button-prep-interval-${minutes}`}
+              >
+                {minutes === 60 ? "Hourly" : "15 min"}
+              </Button>
+            ))}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {forecastLoading || scheduleLoading ? (
+          <div className="animate-pulse h-64 bg-gray-200 rounded"></div>
+        ) : !schedule || schedule.waves.length === 0 ? (
+          <div className="text-center py-8 text-onSurfaceSecondary">
+            No forecasts for this day yet
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div>
+              <p className="text-sm font-medium text-onSurfaceSecondary mb-2">Forecast portions sold</p>
+              {chartData.length === 0 ? (
+                <div className="h-56 flex items-center justify-center text-sm text-onSurfaceSecondary">
+                  Record sales with a time of day to see when demand peaks
+                </div>
+              ) : (
+                <div className="h-56">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="rgba(0,0,0,0.05)" />
+                      <XAxis dataKey="time" tick={{ fill: '#757575', fontSize: 11 }} interval="preserveStartEnd" />
+                      <YAxis tick={{ fill: '#757575', fontSize: 12 }} />
+                      <Tooltip formatter={(value: number) => [value.toFixed(1), "Portions"]} />
+                      <Bar dataKey="quantity" fill="#1976D2" radius={[2, 2, 0, 0]} />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+              {unprofiled.length > 0 && (
+                <p className="mt-2 text-xs text-warning">No timed sales yet: {unprofiled.join(", ")}</p>
+              )}
+            </div>
+
+            <div className="space-y-4">
+              {periods.map(period => (
+                <div key={period} data-testid={`prep-wave-${period.toLowerCase().replace(/\s+/g, '-')}`}>
+                  <p className="text-sm font-medium text-onSurface mb-1">{period}</p>
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left py-2 px-4 font-medium text-onSurfaceSecondary">Cook By</th>
+                        <th className="text-left py-2 px-4 font-medium text-onSurfaceSecondary">Item</th>
+                        <th className="text-left py-2 px-4 font-medium text-onSurfaceSecondary">Cook</th>
+                        <th className="text-left py-2 px-4 font-medium text-onSurfaceSecondary">Demand</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {schedule.waves.filter(wave => wave.period === period).map(wave => (
+                        <tr key={`${wave.locationId}-${wave.itemName}`}>
+                          <td className="py-2 px-4 text-onSurfaceSecondary">{wave.cookBy ? formatTime(wave.cookBy) : "—"}</td>
+                          <td className="py-2 px-4 font-medium text-onSurface">{wave.itemName}</td>
+                          <td className={`py-2 px-4 font-medium ${wave.quantity > 0 ? 'text-primary' : 'text-onSurfaceSecondary'}`}>
+                            {wave.quantity > 0 ? wave.quantity : "From stock"}
+                          </td>
+                          <td className="py-2 px-4 text-onSurfaceSecondary">{wave.expectedDemand.toFixed(1)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+              <p className="text-xs text-onSurfaceSecondary">
+                Cook-by times allow {schedule.leadMinutes} minutes before each wave's first expected sale.
+              </p>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,12 +3,16 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useQuery } from "@tanstack/react-query";
 import { useState } from "react";
+import { useSelectedLocation } from "@/hooks/use-selected-location";
 
 interface Recommendation {
   id: string;
   itemName: string;
   category: string;
+  ingredientId: string | null;
+  unit: string;
   currentStock: number;
+  minimumStock: number;
   predictedDemand: number;
   confidence: number;
   needsRestock: boolean;
@@ -21,20 +25,23 @@ const iconMap: Record<string, string> = {
   "fish": "🐟", 
   "seedling": "🌱",
   "pizza-slice": "🍕",
+  "coffee": "☕",
+  "ice-cream": "🍨",
   "utensils": "🍽️",
 };
 
 export default function RecommendationsTable() {
   const [filter, setFilter] = useState('All');
+  const { locationId } = useSelectedLocation();
   
   const { data: recommendations, isLoading } = useQuery<Recommendation[]>({
-    queryKey: ["/api/inventory/recommendations"],
+    queryKey: ["/api/inventory/recommendations", { locationId }],
   });
 
   const filteredRecommendations = recommendations?.filter(item => {
     if (filter === 'All') return true;
     if (filter === 'High Demand') return item.predictedDemand > item.currentStock;
-    if (filter === 'Low Stock') return item.currentStock < 50;
+    if (filter === 'Low Stock') return item.currentStock <= item.minimumStock;
     if (filter === 'Trending') return item.confidence > 0.8;
     return true;
   }) || [];
@@ -101,14 +108,15 @@ export default function RecommendationsTable() {
                           <span className="text-sm">{iconMap[item.icon] || iconMap["utensils"]}</span>
                         </div>
                         <span className="font-medium text-onSurface">{item.itemName}</span>
+                        {item.ingredientId && <Badge variant="outline">Ingredient</Badge>}
                       </div>
                     </td>
                     <td className="py-3 px-4 text-onSurfaceSecondary">
-                      {item.currentStock} units
+                      {item.currentStock} {item.unit}
                     </td>
                     <td className="py-3 px-4">
                       <span className={`font-medium ${item.needsRestock ? 'text-error' : 'text-secondary'}`}>
-                        {item.predictedDemand} units
+                        {item.predictedDemand} {item.unit}
                       </span>
                       <span className={`text-sm ml-1 ${item.needsRestock ? 'text-error' : 'text-secondary'}`}>
                         {item.needsRestock ? '↑' : '→'}
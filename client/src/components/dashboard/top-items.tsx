@@ -1,5 +1,6 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useQuery } from "@tanstack/react-query";
+import { useSelectedLocation } from "@/hooks/use-selected-location";
 
 interface TopItem {
   itemName: string;
@@ -15,12 +16,15 @@ const iconMap: Record<string, string> = {
   "fish": "🐟", 
   "seedling": "🌱",
   "pizza-slice": "🍕",
+  "coffee": "☕",
+  "ice-cream": "🍨",
   "utensils": "🍽️",
 };
 
 export default function TopItems() {
+  const { locationId } = useSelectedLocation();
   const { data: topItems, isLoading } = useQuery<TopItem[]>({
-    queryKey: ["/api/dashboard/top-items"],
+    queryKey: ["/api/dashboard/top-items", { locationId }],
   });
 
   if (isLoading) {
@@ -0,0 +1,121 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useSelectedLocation } from "@/hooks/use-selected-location";
+import { Wheat } from "lucide-react";
+
+interface IngredientTotal {
+  ingredientId: string;
+  ingredientName: string;
+  unit: string;
+  quantity: number;
+  lowerBound: number;
+  upperBound: number;
+  estimatedCost: number | null;
+}
+
+interface IngredientRequirements {
+  source: "baseline" | "advanced";
+  startDate: string;
+  days: number;
+  requirements: { date: string; ingredientId: string; quantity: number }[];
+  totals: IngredientTotal[];
+  unmappedItems: string[];
+}
+
+export default function IngredientRequirementsCard() {
+  const [source, setSource] = useState("baseline");
+  const [days, setDays] = useState("7");
+  const { locationId } = useSelectedLocation();
+
+  const { data, isLoading } = useQuery<IngredientRequirements>({
+    queryKey: ["/api/ingredients/requirements", { source, days, locationId }],
+  });
+
+  const totalCost = data?.totals.reduce((sum, total) => sum + (total.estimatedCost ?? 0), 0) ?? 0;
+
+  return (
+    <Card className="card-shadow mb-6" data-testid="card-ingredient-requirements">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+          <CardTitle className="flex items-center space-x-2">
+            <Wheat className="h-5 w-5 text-primary" />
+            <span>Ingredient Requirements</span>
+          </CardTitle>
+          <div className="flex items-center space-x-2">
+            <Select value={source} onValueChange={setSource}>
+              <SelectTrigger className="w-40" data-testid="select-requirements-source">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="baseline">Baseline forecast</SelectItem>
+                <SelectItem value="advanced">Ensemble forecast</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={days} onValueChange={setDays}>
+              <SelectTrigger className="w-28" data-testid="select-requirements-days">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">1 day</SelectItem>
+                <SelectItem value="7">7 days</SelectItem>
+                <SelectItem value="14">14 days</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="animate-pulse h-32 bg-gray-200 rounded"></div>
+        ) : !data || data.totals.length === 0 ? (
+          <div className="text-center py-8 text-onSurfaceSecondary">
+            No forecast demand maps to a recipe for this period
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Ingredient</th>
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Required</th>
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Range (P10-P90)</th>
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Est. Cost</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {data.totals.map((total) => (
+                  <tr key={total.ingredientId} data-testid={`row-requirement-${total.ingredientName.toLowerCase().replace(/\s+/g, '-')}`}>
+                    <td className="py-3 px-4 font-medium text-onSurface">{total.ingredientName}</td>
+                    <td className="py-3 px-4 text-onSurface">
+                      {total.quantity.toFixed(2)} {total.unit}
+                    </td>
+                    <td className="py-3 px-4 text-onSurfaceSecondary">
+                      {total.lowerBound.toFixed(2)} - {total.upperBound.toFixed(2)} {total.unit}
+                    </td>
+                    <td className="py-3 px-4 text-onSurfaceSecondary">
+                      {total.estimatedCost === null ? "-" : `$${total.estimatedCost.toFixed(2)}`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="flex flex-wrap items-center justify-between gap-2 mt-4 text-sm text-onSurfaceSecondary">
+              <span>Estimated spend over {data.days} day{data.days === 1 ? "" : "s"}: ${totalCost.toFixed(2)}</span>
+              {data.unmappedItems.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1">
+                  <span>No recipe:</span>
+                  {data.unmappedItems.map(item => (
+                    <Badge key={item} variant="outline">{item}</Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
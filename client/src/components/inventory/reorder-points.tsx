@@ -0,0 +1,166 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useSelectedLocation } from "@/hooks/use-selected-location";
+import { ShieldCheck } from "lucide-react";
+import { Fragment, useState } from "react";
+
+interface ReorderPoint {
+  inventoryId: string;
+  itemName: string;
+  unit: string;
+  currentStock: number;
+  minimumStock: number;
+  dailyDemand: number;
+  demandStdDev: number;
+  errorSource: "realised" | "interval" | "sales" | "recipe" | "none";
+  leadTimeDays: number;
+  serviceLevel: number;
+  safetyStock: number;
+  reorderPoint: number;
+  belowReorderPoint: boolean;
+  explanation: string;
+}
+
+const errorSourceLabels: Record<ReorderPoint["errorSource"], string> = {
+  realised: "Realised errors",
+  interval: "Forecast interval",
+  sales: "Sales variation",
+  recipe: "Via recipes",
+  none: "No data",
+};
+
+export default function ReorderPointsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { hasRole } = useAuth();
+  const { locationId } = useSelectedLocation();
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const { data: reorderPoints, isLoading } = useQuery<ReorderPoint[]>({
+    queryKey: ["/api/inventory/reorder-points", { locationId }],
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async (inventoryIds?: string[]) => {
+      const res = await apiRequest("POST", "/api/inventory/reorder-points/apply", { locationId, inventoryIds });
+      return res.json() as Promise<unknown[]>;
+    },
+    onSuccess: (updated) => {
+      toast({
+        title: "Minimum stock updated",
+        description: `${updated.length} item(s) now use their calculated reorder point.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/reorder-points"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update minimum stock. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const serviceLevel = reorderPoints?.[0]?.serviceLevel;
+
+  return (
+    <Card className="card-shadow mb-6" data-testid="card-reorder-points">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+          <CardTitle className="flex items-center space-x-2">
+            <ShieldCheck className="h-5 w-5 text-primary" />
+            <span>Safety Stock & Reorder Points</span>
+            {serviceLevel !== undefined && (
+              <Badge variant="outline">{(serviceLevel * 100).toFixed(1)}% service level</Badge>
+            )}
+          </CardTitle>
+          {hasRole("manager") && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => applyMutation.mutate(undefined)}
+              disabled={applyMutation.isPending || !reorderPoints?.length}
+              data-testid="button-apply-reorder-points"
+            >
+              Use as Minimum Stock
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="animate-pulse h-32 bg-gray-200 rounded"></div>
+        ) : !reorderPoints || reorderPoints.length === 0 ? (
+          <div className="text-center py-8 text-onSurfaceSecondary">
+            No inventory to plan
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Item</th>
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Daily Demand</th>
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Lead Time</th>
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Safety Stock</th>
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Reorder Point</th>
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Minimum Stock</th>
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Uncertainty</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {reorderPoints.map((point) => (
+                  <Fragment key={point.inventoryId}>
+                    <tr
+                      className="cursor-pointer hover:bg-gray-50"
+                      onClick={() => setExpanded(expanded === point.inventoryId ? null : point.inventoryId)}
+                      data-testid={`row-reorder-${point.itemName.toLowerCase().replace(/\s+/g, '-')}`}
+                    >
+                      <td className="py-3 px-4 font-medium text-onSurface">{point.itemName}</td>
+                      <td className="py-3 px-4 text-onSurfaceSecondary">
+                        {point.dailyDemand.toFixed(2)} ± {point.demandStdDev.toFixed(2)} {point.unit}
+                      </td>
+                      <td className="py-3 px-4 text-onSurfaceSecondary">
+                        {point.leadTimeDays} day{point.leadTimeDays === 1 ? "" : "s"}
+                      </td>
+                      <td className="py-3 px-4 text-onSurfaceSecondary">
+                        {point.safetyStock.toFixed(2)} {point.unit}
+                      </td>
+                      <td className="py-3 px-4">
+                        <span className={`font-medium ${point.belowReorderPoint ? 'text-error' : 'text-onSurface'}`}>
+                          {point.reorderPoint.toFixed(2)} {point.unit}
+                        </span>
+                      </td>
+                      <td className="py-3 px-4 text-onSurfaceSecondary">
+                        {point.minimumStock} {point.unit}
+                      </td>
+                      <td className="py-3 px-4">
+                        <Badge variant={point.errorSource === "realised" ? "default" : "secondary"}>
+                          {errorSourceLabels[point.errorSource]}
+                        </Badge>
+                      </td>
+                    </tr>
+                    {expanded === point.inventoryId && (
+                      <tr>
+                        <td colSpan={7} className="px-4 pb-3 text-sm text-onSurfaceSecondary">
+                          {point.explanation}
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-3 text-xs text-onSurfaceSecondary">Select a row to see how its reorder point was calculated.</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
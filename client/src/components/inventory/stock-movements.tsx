@@ -0,0 +1,303 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useSelectedLocation } from "@/hooks/use-selected-location";
+import { ArrowLeftRight } from "lucide-react";
+import { useState } from "react";
+
+type MovementType = "opening" | "receipt" | "sale" | "waste" | "transfer_in" | "transfer_out" | "count";
+type EntryType = "receipt" | "waste" | "count" | "transfer";
+
+interface InventoryItem {
+  id: string;
+  itemName: string;
+  unit: string;
+  currentStock: number;
+}
+
+interface InventoryMovement {
+  id: string;
+  inventoryId: string;
+  type: MovementType;
+  quantity: number;
+  balanceAfter: number;
+  reason: string | null;
+  reference: string | null;
+  notes: string | null;
+  occurredAt: string;
+}
+
+interface ShrinkageSummary {
+  inventoryId: string;
+  itemName: string;
+  unit: string;
+  sold: number;
+  wasted: number;
+  countVariance: number;
+  shrinkage: number;
+  shrinkageRate: number | null;
+  shrinkageCost: number | null;
+}
+
+const movementLabels: Record<MovementType, string> = {
+  opening: "Opening balance",
+  receipt: "Receipt",
+  sale: "Sale",
+  waste: "Waste",
+  transfer_in: "Transfer in",
+  transfer_out: "Transfer out",
+  count: "Count",
+};
+
+const wasteReasons = ["spoilage", "expired", "damaged", "overproduction", "other"];
+
+export default function StockMovementsCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { hasRole } = useAuth();
+  const { locationId } = useSelectedLocation();
+  const [entryType, setEntryType] = useState<EntryType>("waste");
+  const [inventoryId, setInventoryId] = useState("");
+  const [toInventoryId, setToInventoryId] = useState("");
+  const [quantity, setQuantity] = useState("");
+  const [reason, setReason] = useState("spoilage");
+  const [expiresAt, setExpiresAt] = useState("");
+
+  const { data: inventory } = useQuery<InventoryItem[]>({
+    queryKey: ["/api/inventory", { locationId }],
+  });
+
+  const { data: movements, isLoading } = useQuery<InventoryMovement[]>({
+    queryKey: ["/api/inventory/movements", { locationId, limit: 20 }],
+  });
+
+  const { data: shrinkage } = useQuery<ShrinkageSummary[]>({
+    queryKey: ["/api/inventory/shrinkage", { locationId, days: 30 }],
+  });
+
+  const itemsById = new Map((inventory ?? []).map(item => [item.id, item]));
+  const selectedItem = itemsById.get(inventoryId);
+  const shrinkageCost = shrinkage?.reduce((sum, item) => sum + (item.shrinkageCost ?? 0), 0) ?? 0;
+  const topShrinkage = shrinkage?.filter(item => item.shrinkage > 0).slice(0, 3) ?? [];
+
+  const recordMutation = useMutation({
+    mutationFn: async () => {
+      const amount = parseFloat(quantity);
+      const body = entryType === "count"
+        ? { type: entryType, inventoryId, countedQuantity: amount }
+        : entryType === "waste"
+          ? { type: entryType, inventoryId, quantity: amount, reason }
+          : entryType === "transfer"
+            ? { type: entryType, inventoryId, toInventoryId, quantity: amount }
+            : { type: entryType, inventoryId, quantity: amount, expiresAt: expiresAt || undefined };
+      const res = await apiRequest("POST", "/api/inventory/movements", body);
+      return res.json() as Promise<InventoryMovement[]>;
+    },
+    onSuccess: () => {
+      toast({
+        title: "Stock updated",
+        description: `${selectedItem?.itemName ?? "Item"}: ${entryType} recorded.`,
+      });
+      setQuantity("");
+      setExpiresAt("");
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/movements"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/shrinkage"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/freshness"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics/waste"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSubmit = inventoryId && quantity !== "" && parseFloat(quantity) >= 0
+    && (entryType !== "transfer" || (toInventoryId && toInventoryId !== inventoryId));
+
+  return (
+    <Card className="card-shadow mb-6" data-testid="card-stock-movements">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+          <CardTitle className="flex items-center space-x-2">
+            <ArrowLeftRight className="h-5 w-5 text-primary" />
+            <span>Stock Movements</span>
+          </CardTitle>
+          {shrinkageCost > 0 && (
+            <Badge variant="outline">Shrinkage (30 days): ${shrinkageCost.toFixed(2)}</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {hasRole("manager") && (
+          <form
+            className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end mb-6"
+            onSubmit={(e) => {
+              e.preventDefault();
+              recordMutation.mutate();
+            }}
+          >
+            <div>
+              <Label>Movement</Label>
+              <Select value={entryType} onValueChange={(value) => setEntryType(value as EntryType)}>
+                <SelectTrigger data-testid="select-movement-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="waste">Waste</SelectItem>
+                  <SelectItem value="count">Stock count</SelectItem>
+                  <SelectItem value="receipt">Receipt</SelectItem>
+                  <SelectItem value="transfer">Transfer</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Item</Label>
+              <Select value={inventoryId} onValueChange={setInventoryId}>
+                <SelectTrigger data-testid="select-movement-item">
+                  <SelectValue placeholder="Select item" />
+                </SelectTrigger>
+                <SelectContent>
+                  {inventory?.map(item => (
+                    <SelectItem key={item.id} value={item.id}>{item.itemName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>{entryType === "count" ? "Counted" : "Quantity"}{selectedItem ? ` (${selectedItem.unit})` : ""}</Label>
+              <Input
+                type="number"
+                min="0"
+                step="any"
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                data-testid="input-movement-quantity"
+              />
+            </div>
+            {entryType === "waste" && (
+              <div>
+                <Label>Reason</Label>
+                <Select value={reason} onValueChange={setReason}>
+                  <SelectTrigger data-testid="select-waste-reason">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {wasteReasons.map(option => (
+                      <SelectItem key={option} value={option} className="capitalize">{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {entryType === "receipt" && (
+              <div>
+                <Label>Use By</Label>
+                <Input
+                  type="date"
+                  value={expiresAt}
+                  onChange={(e) => setExpiresAt(e.target.value)}
+                  data-testid="input-receipt-expiry"
+                />
+              </div>
+            )}
+            {entryType === "transfer" && (
+              <div>
+                <Label>To</Label>
+                <Select value={toInventoryId} onValueChange={setToInventoryId}>
+                  <SelectTrigger data-testid="select-transfer-destination">
+                    <SelectValue placeholder="Destination" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {inventory?.filter(item => item.id !== inventoryId && item.unit === selectedItem?.unit).map(item => (
+                      <SelectItem key={item.id} value={item.id}>{item.itemName}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <Button type="submit" disabled={!canSubmit || recordMutation.isPending} data-testid="button-record-movement">
+              Record
+            </Button>
+          </form>
+        )}
+
+        {topShrinkage.length > 0 && (
+          <div className="mb-6 space-y-1 text-sm">
+            {topShrinkage.map(item => (
+              <div key={item.inventoryId} className="flex justify-between text-onSurfaceSecondary">
+                <span className="font-medium text-onSurface">{item.itemName}</span>
+                <span>
+                  {item.shrinkage} {item.unit} lost
+                  {item.shrinkageRate !== null && ` (${(item.shrinkageRate * 100).toFixed(1)}% of usage)`}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="animate-pulse h-32 bg-gray-200 rounded"></div>
+        ) : !movements || movements.length === 0 ? (
+          <div className="text-center py-8 text-onSurfaceSecondary">
+            No stock movements recorded
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Date</th>
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Item</th>
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Movement</th>
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Change</th>
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Balance</th>
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Details</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {movements.map(movement => {
+                  const item = itemsById.get(movement.inventoryId);
+                  return (
+                    <tr key={movement.id}>
+                      <td className="py-3 px-4 text-onSurfaceSecondary">
+                        {new Date(movement.occurredAt).toLocaleDateString()}
+                      </td>
+                      <td className="py-3 px-4 font-medium text-onSurface">{item?.itemName ?? "Unknown item"}</td>
+                      <td className="py-3 px-4">
+                        <Badge variant={movement.type === "waste" ? "destructive" : "outline"}>
+                          {movementLabels[movement.type]}
+                        </Badge>
+                      </td>
+                      <td className="py-3 px-4">
+                        <span className={`font-medium ${movement.quantity < 0 ? 'text-error' : 'text-secondary'}`}>
+                          {movement.quantity > 0 ? "+" : ""}{movement.quantity} {item?.unit}
+                        </span>
+                      </td>
+                      <td className="py-3 px-4 text-onSurfaceSecondary">
+                        {movement.balanceAfter} {item?.unit}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-onSurfaceSecondary">
+                        {movement.reason ? <span className="capitalize">{movement.reason}</span> : movement.reference ?? movement.notes ?? ""}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,18 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import Navigation from "./navigation";
-import { Bell, Menu, X } from "lucide-react";
+import { Bell, LogOut, MapPin, Menu, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuery } from "@tanstack/react-query";
+import { useSelectedLocation } from "@/hooks/use-selected-location";
+import { useAuth } from "@/hooks/use-auth";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
+
+interface Location {
+  id: string;
+  name: string;
+  code: string;
+}
 
 interface AppLayoutProps {
   children: React.ReactNode;
@@ -9,6 +20,33 @@ interface AppLayoutProps {
 
 export default function AppLayout({ children }: AppLayoutProps) {
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  const { locationId, setLocationId } = useSelectedLocation();
+  const { user, logoutMutation } = useAuth();
+
+  const { data: locations } = useQuery<Location[]>({
+    queryKey: ["/api/locations"],
+    enabled: !!user,
+  });
+
+  const { data: notificationSummary } = useQuery<{ total: number }>({
+    queryKey: ["/api/notifications/summary", { locationId }],
+    enabled: !!user,
+  });
+
+  // Only administrators and users granted every location get the all-locations view; keep
+  // everyone else on one of their assigned locations
+  const limitedToLocations = !!user && user.role !== "admin" && !user.allLocations;
+  useEffect(() => {
+    if (limitedToLocations && locations?.length && !locations.some((location) => location.id === locationId)) {
+      setLocationId(locations[0].id);
+    }
+  }, [limitedToLocations, locations, locationId]);
+
+  // Live pushes keep every cached query fresh while someone is signed in
+  const { connected } = useLiveUpdates(!!user);
+
+  const initials = user?.username.slice(0, 2).toUpperCase() ?? "";
+  const unreadCount = notificationSummary?.total ?? 0;
 
   return (
     <div className="min-h-screen bg-backgroundLight">
@@ -33,6 +71,26 @@ export default function AppLayout({ children }: AppLayoutProps) {
             </div>
           </div>
           <div className="flex items-center space-x-4">
+            <Select
+              value={locationId ?? "all"}
+              onValueChange={(value) => setLocationId(value === "all" ? undefined : value)}
+            >
+              <SelectTrigger
+                className="w-44 bg-primary-dark border-none text-primary-foreground"
+                data-testid="select-location"
+              >
+                <MapPin className="h-4 w-4 mr-2 shrink-0" />
+                <SelectValue placeholder="All Locations" />
+              </SelectTrigger>
+              <SelectContent>
+                {!limitedToLocations && <SelectItem value="all">All Locations</SelectItem>}
+                {locations?.map((location) => (
+                  <SelectItem key={location.id} value={location.id}>
+                    {location.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             <Button
               variant="ghost"
               size="icon"
@@ -40,13 +98,34 @@ export default function AppLayout({ children }: AppLayoutProps) {
               data-testid="button-notifications"
             >
               <Bell className="h-5 w-5" />
-              <span className="absolute -top-1 -right-1 bg-error text-xs rounded-full h-4 w-4 flex items-center justify-center text-white">
-                3
-              </span>
+              {unreadCount > 0 && (
+                <span className="absolute -top-1 -right-1 bg-error text-xs rounded-full h-4 min-w-4 px-1 flex items-center justify-center text-white">
+                  {unreadCount > 99 ? "99+" : unreadCount}
+                </span>
+              )}
             </Button>
-            <div className="w-8 h-8 bg-primary-dark rounded-full flex items-center justify-center">
-              <span className="text-sm font-medium">JD</span>
+            <div
+              className="w-8 h-8 bg-primary-dark rounded-full flex items-center justify-center"
+              title={user ? `${user.username} (${user.role})` : undefined}
+              data-testid="avatar-user"
+            >
+              <span className="text-sm font-medium">{initials}</span>
             </div>
+            <span
+              className={`h-2 w-2 rounded-full ${connected ? "bg-secondary" : "bg-gray-400"}`}
+              title={connected ? "Live updates connected" : "Live updates offline"}
+              data-testid="status-live-updates"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-primary-foreground hover:bg-primary-dark"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+              data-testid="button-logout"
+            >
+              <LogOut className="h-5 w-5" />
+            </Button>
           </div>
         </div>
       </header>
@@ -4,27 +4,31 @@ import {
   BarChart3, 
   Brain, 
   Boxes, 
+  ClipboardList, 
   ChartBar, 
   Upload, 
   Settings 
 } from "lucide-react";
+import { useAuth, type UserRole } from "@/hooks/use-auth";
 
 interface NavigationProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
-const navigationItems = [
-  { href: "/dashboard", label: "Dashboard", icon: BarChart3 },
-  { href: "/predictions", label: "Predictions", icon: Brain },
-  { href: "/inventory", label: "Inventory", icon: Boxes },
-  { href: "/analytics", label: "Analytics", icon: ChartBar },
-  { href: "/data-input", label: "Data Input", icon: Upload },
-  { href: "/settings", label: "Settings", icon: Settings },
+const navigationItems: { href: string; label: string; icon: typeof BarChart3; minimumRole: UserRole }[] = [
+  { href: "/dashboard", label: "Dashboard", icon: BarChart3, minimumRole: "viewer" },
+  { href: "/predictions", label: "Predictions", icon: Brain, minimumRole: "viewer" },
+  { href: "/inventory", label: "Inventory", icon: Boxes, minimumRole: "viewer" },
+  { href: "/purchasing", label: "Purchasing", icon: ClipboardList, minimumRole: "viewer" },
+  { href: "/analytics", label: "Analytics", icon: ChartBar, minimumRole: "viewer" },
+  { href: "/data-input", label: "Data Input", icon: Upload, minimumRole: "manager" },
+  { href: "/settings", label: "Settings", icon: Settings, minimumRole: "admin" },
 ];
 
 export default function Navigation({ isOpen, onClose }: NavigationProps) {
   const [location] = useLocation();
+  const { hasRole } = useAuth();
 
   return (
     <aside
@@ -34,7 +38,7 @@ export default function Navigation({ isOpen, onClose }: NavigationProps) {
       )}
     >
       <nav className="p-4 space-y-2">
-        {navigationItems.map((item) => {
+        {navigationItems.filter((item) => hasRole(item.minimumRole)).map((item) => {
           const Icon = item.icon;
           const isActive = location === item.href || (item.href === "/dashboard" && location === "/");
           
@@ -0,0 +1,246 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { menuItemIcons } from "@shared/schema";
+import { BookOpen } from "lucide-react";
+import { useState } from "react";
+
+export interface MenuItem {
+  id: string;
+  sku: string;
+  name: string;
+  category: string;
+  price: number;
+  foodCost: number | null;
+  aliases: string[];
+  icon: string;
+  activeFrom: string | null;
+  activeUntil: string | null;
+  recipeFoodCost: number | null;
+  effectiveFoodCost: number | null;
+  unitMargin: number | null;
+  marginPercent: number | null;
+  active: boolean;
+}
+
+const emptyForm = { sku: "", name: "", category: "", price: "", foodCost: "", aliases: "", icon: "utensils" };
+
+export default function MenuCatalogCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { hasRole } = useAuth();
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: menuItems, isLoading } = useQuery<MenuItem[]>({
+    queryKey: ["/api/menu-items"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/menu-items"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/sales"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/analytics/menu-optimization"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/analytics/menu-engineering"] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/menu-items", {
+        sku: form.sku,
+        name: form.name,
+        category: form.category,
+        price: parseFloat(form.price),
+        foodCost: form.foodCost === "" ? null : parseFloat(form.foodCost),
+        aliases: form.aliases.split(",").map(alias => alias.trim()).filter(Boolean),
+        icon: form.icon,
+      });
+      return res.json() as Promise<MenuItem>;
+    },
+    onSuccess: (item) => {
+      toast({
+        title: "Menu item added",
+        description: `${item.name} is now in the catalog.`,
+      });
+      setForm(emptyForm);
+      invalidate();
+    },
+    onError,
+  });
+
+  // Retiring makes yesterday the item's last day on the menu
+  const activeMutation = useMutation({
+    mutationFn: (item: MenuItem) => apiRequest("PATCH", `/api/menu-items/${item.id}`, {
+      activeUntil: item.active ? new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString() : null,
+    }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const canSubmit = form.sku.trim() && form.name.trim() && form.category.trim() && parseFloat(form.price) >= 0;
+
+  return (
+    <Card className="card-shadow mt-6" data-testid="card-menu-catalog">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <BookOpen className="h-5 w-5" />
+          <span>Menu Catalog</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {hasRole("manager") && (
+          <form
+            className="grid grid-cols-1 md:grid-cols-4 lg:grid-cols-8 gap-3 items-end mb-6"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate();
+            }}
+          >
+            <div>
+              <Label>SKU</Label>
+              <Input value={form.sku} onChange={(e) => setForm({ ...form, sku: e.target.value })} data-testid="input-menu-sku" />
+            </div>
+            <div className="lg:col-span-2">
+              <Label>Name</Label>
+              <Input value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} data-testid="input-menu-name" />
+            </div>
+            <div>
+              <Label>Category</Label>
+              <Input value={form.category} onChange={(e) => setForm({ ...form, category: e.target.value })} data-testid="input-menu-category" />
+            </div>
+            <div>
+              <Label>Price ($)</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.price}
+                onChange={(e) => setForm({ ...form, price: e.target.value })}
+                data-testid="input-menu-price"
+              />
+            </div>
+            <div>
+              <Label>Food Cost ($)</Label>
+              <Input
+                type="number"
+                min="0"
+                step="0.01"
+                placeholder="From recipe"
+                value={form.foodCost}
+                onChange={(e) => setForm({ ...form, foodCost: e.target.value })}
+                data-testid="input-menu-food-cost"
+              />
+            </div>
+            <div>
+              <Label>Icon</Label>
+              <Select value={form.icon} onValueChange={(icon) => setForm({ ...form, icon })}>
+                <SelectTrigger data-testid="select-menu-icon">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {menuItemIcons.map(icon => (
+                    <SelectItem key={icon} value={icon}>{icon}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button type="submit" disabled={!canSubmit || createMutation.isPending} data-testid="button-add-menu-item">
+              Add Item
+            </Button>
+            <div className="md:col-span-4 lg:col-span-8">
+              <Label>Aliases</Label>
+              <Input
+                placeholder="Other names used by your POS, separated by commas"
+                value={form.aliases}
+                onChange={(e) => setForm({ ...form, aliases: e.target.value })}
+                data-testid="input-menu-aliases"
+              />
+            </div>
+          </form>
+        )}
+
+        {isLoading ? (
+          <div className="animate-pulse h-32 bg-gray-200 rounded"></div>
+        ) : !menuItems || menuItems.length === 0 ? (
+          <div className="text-center py-8 text-onSurfaceSecondary">
+            No menu items yet
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">SKU</th>
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Item</th>
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Price</th>
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Food Cost</th>
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Margin</th>
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Also Sold As</th>
+                  <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {menuItems.map(item => (
+                  <tr key={item.id} data-testid={`row-menu-${item.sku.toLowerCase()}`}>
+                    <td className="py-3 px-4 text-onSurfaceSecondary">{item.sku}</td>
+                    <td className="py-3 px-4">
+                      <div className="font-medium text-onSurface">{item.name}</div>
+                      <div className="text-sm text-onSurfaceSecondary">{item.category}</div>
+                    </td>
+                    <td className="py-3 px-4 text-onSurfaceSecondary">${item.price.toFixed(2)}</td>
+                    <td className="py-3 px-4 text-onSurfaceSecondary">
+                      {item.effectiveFoodCost === null ? "—" : `$${item.effectiveFoodCost.toFixed(2)}`}
+                      {item.foodCost === null && item.recipeFoodCost !== null && (
+                        <Badge variant="secondary" className="ml-2">Recipe</Badge>
+                      )}
+                    </td>
+                    <td className="py-3 px-4">
+                      {item.unitMargin === null ? (
+                        <span className="text-onSurfaceSecondary">—</span>
+                      ) : (
+                        <span className={`font-medium ${item.unitMargin < 0 ? 'text-error' : 'text-onSurface'}`}>
+                          ${item.unitMargin.toFixed(2)}
+                          {item.marginPercent !== null && ` (${(item.marginPercent * 100).toFixed(0)}%)`}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-3 px-4 text-sm text-onSurfaceSecondary">{item.aliases.join(", ") || "—"}</td>
+                    <td className="py-3 px-4">
+                      {hasRole("manager") ? (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => activeMutation.mutate(item)}
+                          disabled={activeMutation.isPending}
+                          data-testid={`button-toggle-menu-${item.sku.toLowerCase()}`}
+                        >
+                          {item.active ? "Retire" : "Reinstate"}
+                        </Button>
+                      ) : (
+                        <Badge variant={item.active ? "default" : "secondary"}>{item.active ? "Active" : "Retired"}</Badge>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,192 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useSelectedLocation } from "@/hooks/use-selected-location";
+import { FlaskConical, RefreshCw } from "lucide-react";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+
+interface ForecastErrorMetrics {
+  mae: number;
+  mape: number | null; // null when every actual was zero
+  smape: number;
+  rmse: number;
+  mase: number;
+  bias: number;
+  count: number;
+}
+
+interface ModelBacktest {
+  model: string;
+  type: string;
+  steps: (ForecastErrorMetrics & { step: number })[];
+  overall: ForecastErrorMetrics;
+}
+
+interface BacktestReport {
+  period: "daily" | "weekly" | "monthly";
+  horizon: number;
+  folds: number;
+  generatedAt: string;
+  summary: ModelBacktest[];
+  items: { itemName: string; folds: number }[];
+  skippedItems: string[];
+  omittedItems: string[];
+}
+
+const modelColors = ["#3B82F6", "#10B981", "#F59E0B", "#8B5CF6", "#EF4444"];
+
+export default function BacktestResults() {
+  const [horizon, setHorizon] = useState("7");
+  const { locationId } = useSelectedLocation();
+
+  const { data: report, isFetching, refetch } = useQuery<BacktestReport>({
+    queryKey: ["/api/forecasting/backtest", { horizon, folds: 5, locationId }],
+    enabled: false, // Backtests refit every model per fold, so only run on demand
+  });
+
+  const scored = (report?.summary || []).filter(model => model.overall.count > 0);
+  const bestModel = scored.reduce<ModelBacktest | undefined>(
+    (best, model) => (!best || model.overall.mase < best.overall.mase ? model : best),
+    undefined,
+  );
+
+  const chartData = Array.from({ length: report?.horizon || 0 }, (_, i) => {
+    const point: Record<string, number | string | null> = { step: `h+${i + 1}` };
+    scored.forEach(model => {
+      const { mape } = model.steps[i];
+      point[model.model] = mape === null ? null : Number((mape * 100).toFixed(1));
+    });
+    return point;
+  });
+
+  return (
+    <Card className="card-shadow" data-testid="card-backtest">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+          <CardTitle className="flex items-center space-x-2">
+            <FlaskConical className="h-5 w-5 text-primary" />
+            <span>Backtest Accuracy</span>
+          </CardTitle>
+          <div className="flex items-center space-x-2">
+            <Select value={horizon} onValueChange={setHorizon}>
+              <SelectTrigger className="w-32" data-testid="select-backtest-horizon">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">1 step</SelectItem>
+                <SelectItem value="7">7 steps</SelectItem>
+                <SelectItem value="14">14 steps</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => refetch()}
+              disabled={isFetching}
+              className="flex items-center space-x-2"
+              data-testid="button-run-backtest"
+            >
+              <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+              <span>Run Backtest</span>
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm text-onSurfaceSecondary">
+          Rolling-origin cross-validation: each model is refit on past data only and scored on the periods that followed.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!report && !isFetching && (
+          <p className="text-sm text-onSurfaceSecondary text-center py-6">
+            Run a backtest to compare out-of-sample accuracy before enabling or disabling algorithms.
+          </p>
+        )}
+
+        {isFetching && (
+          <div className="animate-pulse text-onSurfaceSecondary text-center py-6">Running backtest...</div>
+        )}
+
+        {report && !isFetching && scored.length === 0 && (
+          <p className="text-sm text-onSurfaceSecondary text-center py-6">
+            Not enough {report.period} sales history to backtest a {report.horizon}-step horizon.
+          </p>
+        )}
+
+        {report && !isFetching && scored.length > 0 && (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="text-left py-2 px-3 font-medium">Model</th>
+                    <th className="text-right py-2 px-3 font-medium">MAE</th>
+                    <th className="text-right py-2 px-3 font-medium">MAPE</th>
+                    <th className="text-right py-2 px-3 font-medium">sMAPE</th>
+                    <th className="text-right py-2 px-3 font-medium">RMSE</th>
+                    <th className="text-right py-2 px-3 font-medium">MASE</th>
+                    <th className="text-right py-2 px-3 font-medium">Bias</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {scored.map(model => (
+                    <tr key={model.model} data-testid={`row-backtest-${model.type}`}>
+                      <td className="py-2 px-3">
+                        <span className="font-medium">{model.model}</span>
+                        {model === bestModel && <Badge className="ml-2">Best</Badge>}
+                      </td>
+                      <td className="text-right py-2 px-3">{model.overall.mae.toFixed(2)}</td>
+                      <td className="text-right py-2 px-3">{model.overall.mape === null ? "n/a" : `${(model.overall.mape * 100).toFixed(1)}%`}</td>
+                      <td className="text-right py-2 px-3">{(model.overall.smape * 100).toFixed(1)}%</td>
+                      <td className="text-right py-2 px-3">{model.overall.rmse.toFixed(2)}</td>
+                      <td className={`text-right py-2 px-3 ${model.overall.mase < 1 ? 'text-secondary' : 'text-warning'}`}>
+                        {model.overall.mase.toFixed(2)}
+                      </td>
+                      <td className="text-right py-2 px-3">
+                        {model.overall.bias > 0 ? '+' : ''}{model.overall.bias.toFixed(2)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-onSurfaceSecondary mt-2">
+                {report.items.length} items, up to {report.folds} folds each, run {new Date(report.generatedAt).toLocaleString()}.
+                MASE below 1 beats a seasonal naive forecast; positive bias means over-forecasting.
+                {report.skippedItems.length > 0 && ` Skipped for short history: ${report.skippedItems.join(", ")}.`}
+                {report.omittedItems.length > 0 && ` Only the best sellers are backtested; left out: ${report.omittedItems.join(", ")}.`}
+              </p>
+            </div>
+
+            {report.horizon > 1 && (
+              <div>
+                <div className="text-sm font-medium mb-2">MAPE by horizon step</div>
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="step" />
+                      <YAxis unit="%" />
+                      <Tooltip />
+                      <Legend />
+                      {scored.map((model, index) => (
+                        <Line
+                          key={model.model}
+                          type="monotone"
+                          dataKey={model.model}
+                          stroke={modelColors[index % modelColors.length]}
+                          strokeWidth={2}
+                        />
+                      ))}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,113 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { useQuery, useMutation, type UseMutationResult } from "@tanstack/react-query";
+import { getQueryFn, apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export type UserRole = "viewer" | "manager" | "admin";
+
+const roleOrder: UserRole[] = ["viewer", "manager", "admin"];
+
+export interface AuthUser {
+  id: string;
+  username: string;
+  role: UserRole;
+  locationIds: string[]; // Assigned locations
+  allLocations: boolean; // Every location, as administrators have
+}
+
+interface Credentials {
+  username: string;
+  password: string;
+}
+
+interface AuthContextValue {
+  user: AuthUser | null;
+  isLoading: boolean;
+  hasRole: (minimumRole: UserRole) => boolean;
+  loginMutation: UseMutationResult<AuthUser, Error, Credentials>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+  registerMutation: UseMutationResult<AuthUser, Error, Credentials>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  const { data: user, isLoading } = useQuery<AuthUser | null>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const onAuthenticated = (authUser: AuthUser) => {
+    // Drop anything cached for a previous session before showing the new user's data
+    queryClient.clear();
+    queryClient.setQueryData(["/api/user"], authUser);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest("POST", "/api/login", credentials);
+      return (await res.json()) as AuthUser;
+    },
+    onSuccess: onAuthenticated,
+    onError: () => {
+      toast({
+        title: "Login failed",
+        description: "Invalid username or password.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      const res = await apiRequest("POST", "/api/register", credentials);
+      return (await res.json()) as AuthUser;
+    },
+    onSuccess: onAuthenticated,
+    onError: (error: Error) => {
+      toast({
+        title: "Registration failed",
+        description: error.message.replace(/^\d+:\s*/, ""),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      queryClient.setQueryData(["/api/user"], null);
+    },
+  });
+
+  const hasRole = (minimumRole: UserRole) =>
+    !!user && roleOrder.indexOf(user.role) >= roleOrder.indexOf(minimumRole);
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        hasRole,
+        loginMutation,
+        logoutMutation,
+        registerMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,100 @@
+import { useEffect, useState } from "react";
+import { liveTopics, type LiveTopic } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+// Sent by the server when the user's role or locations change
+const ACCESS_CHANGED_CLOSE_CODE = 4001;
+
+// Queries whose data is stale once an event arrives on a topic
+const invalidatedQueries: Record<LiveTopic, string[]> = {
+  metrics: ["/api/analytics/metrics-history", "/api/analytics/performance-insights"],
+  sales: ["/api/sales", "/api/dashboard/metrics", "/api/dashboard/trends", "/api/dashboard/top-items", "/api/analytics/menu-engineering", "/api/forecasting/intraday-profiles", "/api/forecasting/intraday", "/api/forecasting/prep-schedule"],
+  inventory: ["/api/inventory", "/api/inventory/recommendations", "/api/inventory/reorder-points", "/api/inventory/movements", "/api/inventory/shrinkage", "/api/inventory/freshness", "/api/analytics/waste", "/api/forecasting/prep-plan", "/api/forecasting/prep-schedule"],
+  predictions: ["/api/predictions", "/api/dashboard/metrics", "/api/inventory/recommendations", "/api/ingredients/requirements", "/api/inventory/freshness", "/api/forecasting/prep-plan", "/api/forecasting/intraday", "/api/forecasting/prep-schedule"],
+  kpis: ["/api/analytics/real-time/kpis"],
+  "external-data": ["/api/external-data/sources"],
+  notifications: ["/api/notifications", "/api/notifications/summary", "/api/notifications/history"],
+};
+
+interface LiveEvent {
+  type: "event";
+  topic: LiveTopic;
+  data: unknown;
+  timestamp: string;
+}
+
+function applyEvent(event: LiveEvent) {
+  // Metrics snapshots are complete, so they replace the cached value instead of refetching;
+  // each one belongs to a location, or to the all-locations roll-up when its locationId is null
+  if (event.topic === "metrics" && event.data) {
+    const { locationId } = event.data as { locationId: string | null };
+    queryClient.setQueryData(["/api/analytics/real-time/metrics", { locationId: locationId ?? undefined }], event.data);
+  }
+
+  invalidatedQueries[event.topic]?.forEach((path) => {
+    queryClient.invalidateQueries({ queryKey: [path] });
+  });
+}
+
+/**
+ * Keep the React Query cache current from the /ws push channel while `enabled`,
+ * reconnecting with exponential backoff when the connection drops
+ */
+export function useLiveUpdates(enabled: boolean, topics: readonly LiveTopic[] = liveTopics) {
+  const [connected, setConnected] = useState(false);
+  const topicKey = topics.join(",");
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let closed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+
+      socket.onopen = () => {
+        attempts = 0;
+        setConnected(true);
+        socket?.send(JSON.stringify({ type: "subscribe", topics: topicKey.split(",") }));
+      };
+
+      socket.onmessage = (message) => {
+        try {
+          const payload = JSON.parse(message.data);
+          if (payload.type === "event") {
+            applyEvent(payload as LiveEvent);
+          }
+        } catch {
+          // Ignore malformed frames
+        }
+      };
+
+      socket.onclose = (event) => {
+        setConnected(false);
+        // Everything cached was read under the old access, starting with the user itself
+        if (event.code === ACCESS_CHANGED_CLOSE_CODE) queryClient.invalidateQueries();
+        if (closed) return;
+        const delay = Math.min(RECONNECT_BASE_MS * 2 ** attempts, RECONNECT_MAX_MS);
+        attempts++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+      setConnected(false);
+    };
+  }, [enabled, topicKey]);
+
+  return { connected };
+}
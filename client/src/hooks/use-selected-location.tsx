@@ -0,0 +1,40 @@
+import { createContext, useContext, useState, type ReactNode } from "react";
+
+const STORAGE_KEY = "foodcast:selected-location";
+
+interface SelectedLocationContextValue {
+  // undefined means "All Locations" (the HQ roll-up)
+  locationId: string | undefined;
+  setLocationId: (locationId: string | undefined) => void;
+}
+
+const SelectedLocationContext = createContext<SelectedLocationContextValue | null>(null);
+
+export function SelectedLocationProvider({ children }: { children: ReactNode }) {
+  const [locationId, setLocationIdState] = useState<string | undefined>(
+    () => localStorage.getItem(STORAGE_KEY) || undefined,
+  );
+
+  const setLocationId = (id: string | undefined) => {
+    if (id) {
+      localStorage.setItem(STORAGE_KEY, id);
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+    setLocationIdState(id);
+  };
+
+  return (
+    <SelectedLocationContext.Provider value={{ locationId, setLocationId }}>
+      {children}
+    </SelectedLocationContext.Provider>
+  );
+}
+
+export function useSelectedLocation() {
+  const context = useContext(SelectedLocationContext);
+  if (!context) {
+    throw new Error("useSelectedLocation must be used within a SelectedLocationProvider");
+  }
+  return context;
+}
@@ -3,6 +3,8 @@
  * Provides data processing, validation, and basic forecasting calculations
  */
 
+import { buildSeries, addPeriods, seasonPosition, type SeriesCalendar } from "@shared/time-series";
+
 export interface SalesDataPoint {
   date: Date;
   quantity: number;
@@ -13,6 +15,7 @@ export interface SalesDataPoint {
 
 export interface ForecastOptions {
   period: 'daily' | 'weekly' | 'monthly';
+  calendar?: SeriesCalendar; // Time zone, gap filling and closed days used to bucket the data
   confidence?: number;
   seasonalAdjustment?: boolean;
   trendAnalysis?: boolean;
@@ -154,39 +157,22 @@ export function calculateTrend(values: number[]): {
 }
 
 /**
- * Calculate seasonal factors based on day of week or month
+ * Calculate seasonal factors per day of week, week of year or month, from period totals
  */
 export function calculateSeasonalFactors(
   data: SalesDataPoint[], 
-  type: 'daily' | 'weekly' | 'monthly' = 'daily'
+  type: 'daily' | 'weekly' | 'monthly' = 'daily',
+  calendar: SeriesCalendar = {}
 ): Record<string, number> {
   const groups: Record<string, number[]> = {};
   
-  data.forEach(point => {
-    let key: string;
-    
-    switch (type) {
-      case 'daily':
-        key = point.date.getDay().toString(); // 0-6 for Sunday-Saturday
-        break;
-      case 'weekly':
-        const weekOfYear = Math.floor(
-          (point.date.getTime() - new Date(point.date.getFullYear(), 0, 1).getTime()) 
-          / (7 * 24 * 60 * 60 * 1000)
-        );
-        key = (weekOfYear % 4).toString(); // 0-3 for weeks in month
-        break;
-      case 'monthly':
-        key = point.date.getMonth().toString(); // 0-11 for January-December
-        break;
-      default:
-        key = '0';
-    }
-    
+  buildSeries(data, { ...calendar, period: type }).forEach(bucket => {
+    if (bucket.closed) return;
+    const key = seasonPosition(bucket.start, type, calendar.timeZone).toString();
     if (!groups[key]) {
       groups[key] = [];
     }
-    groups[key].push(point.quantity);
+    groups[key].push(bucket.quantity);
   });
 
   // Calculate average for each group
@@ -224,9 +210,11 @@ export function generateSimpleForecast(
     };
   }
 
-  const quantities = data.map(d => d.quantity);
+  // One total per period, so several sales on a day count once and quiet days count at all
+  const series = buildSeries(data, { ...options.calendar, period: options.period });
+  const quantities = series.map(bucket => bucket.quantity);
   
-  // Calculate moving average (use last 7 days or available data)
+  // Calculate moving average (use last 7 periods or available data)
   const windowSize = Math.min(7, quantities.length);
   const movingAvg = calculateMovingAverage(quantities, windowSize);
   const lastMovingAvg = movingAvg[movingAvg.length - 1] || quantities[quantities.length - 1];
@@ -244,30 +232,11 @@ export function generateSimpleForecast(
 
   // Calculate seasonal factor if enabled
   let seasonalFactor = 1;
-  if (options.seasonalAdjustment && data.length >= 7) {
-    const factors = calculateSeasonalFactors(data, options.period);
-    const today = new Date();
-    let key: string;
-    
-    switch (options.period) {
-      case 'daily':
-        key = today.getDay().toString();
-        break;
-      case 'weekly':
-        const weekOfYear = Math.floor(
-          (today.getTime() - new Date(today.getFullYear(), 0, 1).getTime()) 
-          / (7 * 24 * 60 * 60 * 1000)
-        );
-        key = (weekOfYear % 4).toString();
-        break;
-      case 'monthly':
-        key = today.getMonth().toString();
-        break;
-      default:
-        key = '0';
-    }
-    
-    seasonalFactor = factors[key] || 1;
+  if (options.seasonalAdjustment && quantities.length >= 7) {
+    const factors = calculateSeasonalFactors(data, options.period, options.calendar);
+    const timeZone = options.calendar?.timeZone;
+    const nextPeriod = addPeriods(series[series.length - 1].start, options.period, 1, timeZone);
+    seasonalFactor = factors[seasonPosition(nextPeriod, options.period, timeZone).toString()] || 1;
   }
 
   // Combine predictions
@@ -307,23 +276,19 @@ function calculateConfidence(historicalData: number[], prediction: number): numb
 }
 
 /**
- * Find gaps in date series
+ * Find runs of days without any sales, as the first and last missing day
  */
 function findDateGaps(data: SalesDataPoint[]): { start: Date; end: Date }[] {
-  if (data.length < 2) return [];
-  
-  const sortedData = [...data].sort((a, b) => a.date.getTime() - b.date.getTime());
   const gaps: { start: Date; end: Date }[] = [];
   
-  for (let i = 1; i < sortedData.length; i++) {
-    const prev = sortedData[i - 1].date;
-    const current = sortedData[i].date;
-    const daysDiff = (current.getTime() - prev.getTime()) / (24 * 60 * 60 * 1000);
-    
-    if (daysDiff > 1.5) { // More than 1 day gap
-      gaps.push({ start: prev, end: current });
+  buildSeries(data, { period: 'daily' }).forEach((bucket, i, series) => {
+    if (bucket.observed) return;
+    if (i > 0 && !series[i - 1].observed) {
+      gaps[gaps.length - 1].end = bucket.start;
+    } else {
+      gaps.push({ start: bucket.start, end: bucket.start });
     }
-  }
+  });
   
   return gaps;
 }
@@ -364,14 +329,12 @@ export function formatForecastData(
   const historicalValues: number[] = [];
   const predictedValues: number[] = [];
   
-  // Get last N days of historical data
-  const sortedHistorical = [...historical]
-    .sort((a, b) => a.date.getTime() - b.date.getTime())
-    .slice(-days);
+  // Get last N days of historical data, one total per day
+  const dailyHistorical = buildSeries(historical, { period: 'daily' }).slice(-days);
   
-  sortedHistorical.forEach(point => {
-    labels.push(point.date.toLocaleDateString('en-US', { weekday: 'short' }));
-    historicalValues.push(point.quantity);
+  dailyHistorical.forEach(bucket => {
+    labels.push(bucket.start.toLocaleDateString('en-US', { weekday: 'short' }));
+    historicalValues.push(bucket.quantity);
     predictedValues.push(0); // No predictions for historical dates
   });
   
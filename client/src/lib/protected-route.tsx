@@ -0,0 +1,48 @@
+import { Redirect, Route } from "wouter";
+import { Loader2, ShieldAlert } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { useAuth, type UserRole } from "@/hooks/use-auth";
+
+interface ProtectedRouteProps {
+  path: string;
+  component: () => React.JSX.Element;
+  minimumRole?: UserRole;
+}
+
+export function ProtectedRoute({ path, component: Component, minimumRole = "viewer" }: ProtectedRouteProps) {
+  const { user, isLoading, hasRole } = useAuth();
+
+  return (
+    <Route path={path}>
+      {() => {
+        if (isLoading) {
+          return (
+            <div className="flex items-center justify-center min-h-[50vh]">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          );
+        }
+
+        if (!user) {
+          return <Redirect to="/auth" />;
+        }
+
+        if (!hasRole(minimumRole)) {
+          return (
+            <Card className="card-shadow max-w-lg mx-auto mt-12" data-testid="card-access-denied">
+              <CardContent className="p-6 text-center">
+                <ShieldAlert className="h-12 w-12 mx-auto mb-4 text-warning" />
+                <p className="font-medium text-onSurface">Access restricted</p>
+                <p className="text-sm text-onSurfaceSecondary">
+                  This page requires the {minimumRole} role. Ask an administrator for access.
+                </p>
+              </CardContent>
+            </Card>
+          );
+        }
+
+        return <Component />;
+      }}
+    </Route>
+  );
+}
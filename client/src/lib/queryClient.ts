@@ -23,13 +23,35 @@ export async function apiRequest(
   return res;
 }
 
+/**
+ * Builds a request URL from a query key: string segments form the path and
+ * object segments become query parameters (undefined/null values are skipped)
+ */
+export function buildQueryUrl(queryKey: readonly unknown[]): string {
+  const path = queryKey.filter((part) => typeof part !== "object").join("/");
+  const params = new URLSearchParams();
+
+  queryKey
+    .filter((part): part is Record<string, unknown> => typeof part === "object" && part !== null)
+    .forEach((part) => {
+      Object.entries(part).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          params.set(key, String(value));
+        }
+      });
+    });
+
+  const search = params.toString();
+  return search ? `${path}?${search}` : path;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
+    const res = await fetch(buildQueryUrl(queryKey), {
       credentials: "include",
     });
 
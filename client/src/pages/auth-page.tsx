@@ -0,0 +1,106 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { registerUserSchema } from "@shared/schema";
+import { z } from "zod";
+import { Redirect } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+
+const loginSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+type LoginFormData = z.infer<typeof loginSchema>;
+type RegisterFormData = z.infer<typeof registerUserSchema>;
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+
+  const loginForm = useForm<LoginFormData>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  const registerForm = useForm<RegisterFormData>({
+    resolver: zodResolver(registerUserSchema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  if (user) {
+    return <Redirect to="/" />;
+  }
+
+  return (
+    <div className="min-h-screen bg-backgroundLight flex items-center justify-center p-4">
+      <Card className="card-shadow w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <span className="text-lg">🍽️</span>
+            <span>FoodCast AI</span>
+          </CardTitle>
+          <p className="text-sm text-onSurfaceSecondary">Sign in to view forecasts and manage your kitchen</p>
+        </CardHeader>
+        <CardContent>
+          <Tabs defaultValue="login" className="space-y-4">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="login" data-testid="tab-login">Sign In</TabsTrigger>
+              <TabsTrigger value="register" data-testid="tab-register">Create Account</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="login">
+              <form onSubmit={loginForm.handleSubmit((data) => loginMutation.mutate(data))} className="space-y-4">
+                <div>
+                  <Label htmlFor="login-username">Username</Label>
+                  <Input id="login-username" {...loginForm.register("username")} data-testid="input-login-username" />
+                  {loginForm.formState.errors.username && (
+                    <p className="text-sm text-error mt-1">{loginForm.formState.errors.username.message}</p>
+                  )}
+                </div>
+                <div>
+                  <Label htmlFor="login-password">Password</Label>
+                  <Input id="login-password" type="password" {...loginForm.register("password")} data-testid="input-login-password" />
+                  {loginForm.formState.errors.password && (
+                    <p className="text-sm text-error mt-1">{loginForm.formState.errors.password.message}</p>
+                  )}
+                </div>
+                <Button type="submit" className="w-full" disabled={loginMutation.isPending} data-testid="button-login">
+                  {loginMutation.isPending ? "Signing in..." : "Sign In"}
+                </Button>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="register">
+              <form onSubmit={registerForm.handleSubmit((data) => registerMutation.mutate(data))} className="space-y-4">
+                <div>
+                  <Label htmlFor="register-username">Username</Label>
+                  <Input id="register-username" {...registerForm.register("username")} data-testid="input-register-username" />
+                  {registerForm.formState.errors.username && (
+                    <p className="text-sm text-error mt-1">{registerForm.formState.errors.username.message}</p>
+                  )}
+                </div>
+                <div>
+                  <Label htmlFor="register-password">Password</Label>
+                  <Input id="register-password" type="password" {...registerForm.register("password")} data-testid="input-register-password" />
+                  {registerForm.formState.errors.password && (
+                    <p className="text-sm text-error mt-1">{registerForm.formState.errors.password.message}</p>
+                  )}
+                </div>
+                <p className="text-xs text-onSurfaceSecondary">
+                  New accounts start with read-only access. An administrator can grant manager or admin rights.
+                </p>
+                <Button type="submit" className="w-full" disabled={registerMutation.isPending} data-testid="button-register">
+                  {registerMutation.isPending ? "Creating account..." : "Create Account"}
+                </Button>
+              </form>
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import DemandChart from "@/components/dashboard/demand-chart";
 import TopItems from "@/components/dashboard/top-items";
 import PerformanceMetrics from "@/components/dashboard/performance-metrics";
 import RecommendationsTable from "@/components/dashboard/recommendations-table";
+import PrepSchedule from "@/components/dashboard/prep-schedule";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { AlertTriangle, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -46,6 +47,9 @@ export default function Dashboard() {
         <TopItems />
       </div>
 
+      {/* What to cook and when */}
+      <PrepSchedule />
+
       {/* Model Performance & Data Input Section */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
         <PerformanceMetrics />
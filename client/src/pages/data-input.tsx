@@ -8,23 +8,38 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { insertSalesDataSchema } from "@shared/schema";
 import { z } from "zod";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useSelectedLocation } from "@/hooks/use-selected-location";
 import { Upload, FileText, Plus } from "lucide-react";
 import { useState } from "react";
+import MenuCatalogCard, { type MenuItem } from "@/components/menu/menu-catalog";
 
 const formSchema = insertSalesDataSchema.extend({
   date: z.string().min(1, "Date is required"),
+  time: z.string().optional(),
 });
 
 type FormData = z.infer<typeof formSchema>;
 
+// Sales with a time of day are read in local time; date-only sales stay at midnight
+function toSaleDate(date: string, time?: string) {
+  if (time) return new Date(`${date}T${time}`);
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) ? new Date(date) : new Date(date.replace(" ", "T"));
+}
+
 export default function DataInput() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { locationId } = useSelectedLocation();
   const [bulkData, setBulkData] = useState("");
 
+  const { data: menuItems } = useQuery<MenuItem[]>({
+    queryKey: ["/api/menu-items"],
+  });
+  const categories = Array.from(new Set(["Main Dishes", "Appetizers", "Beverages", "Desserts", ...(menuItems ?? []).map(item => item.category)]));
+
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
     defaultValues: {
@@ -33,14 +48,16 @@ export default function DataInput() {
       quantity: 1,
       revenue: 0,
       date: new Date().toISOString().split('T')[0],
+      time: "",
     },
   });
 
   const createSalesDataMutation = useMutation({
-    mutationFn: (data: FormData) => {
+    mutationFn: ({ time, ...data }: FormData) => {
       const salesData = {
         ...data,
-        date: new Date(data.date),
+        locationId,
+        date: toSaleDate(data.date, time),
       };
       return apiRequest("POST", "/api/sales", salesData);
     },
@@ -63,7 +80,7 @@ export default function DataInput() {
   });
 
   const bulkUploadMutation = useMutation({
-    mutationFn: (data: FormData[]) => apiRequest("POST", "/api/sales/bulk", data),
+    mutationFn: (data: FormData[]) => apiRequest("POST", "/api/sales/bulk", data.map(item => ({ ...item, locationId, date: toSaleDate(item.date) }))),
     onSuccess: () => {
       toast({
         title: "Success",
@@ -134,8 +151,15 @@ export default function DataInput() {
                   id="itemName"
                   {...form.register("itemName")}
                   placeholder="e.g., Grilled Chicken"
+                  list="menu-item-names"
                   data-testid="input-item-name"
                 />
+                <datalist id="menu-item-names">
+                  {menuItems?.filter(item => item.active).map(item => (
+                    <option key={item.id} value={item.name} />
+                  ))}
+                </datalist>
+                <p className="text-xs text-onSurfaceSecondary mt-1">Items in the menu catalog are matched by name or alias and use the catalog's category.</p>
                 {form.formState.errors.itemName && (
                   <p className="text-sm text-error mt-1">{form.formState.errors.itemName.message}</p>
                 )}
@@ -148,10 +172,9 @@ export default function DataInput() {
                     <SelectValue placeholder="Select category" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="Main Dishes">Main Dishes</SelectItem>
-                    <SelectItem value="Appetizers">Appetizers</SelectItem>
-                    <SelectItem value="Beverages">Beverages</SelectItem>
-                    <SelectItem value="Desserts">Desserts</SelectItem>
+                    {categories.map(category => (
+                      <SelectItem key={category} value={category}>{category}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -187,17 +210,29 @@ export default function DataInput() {
                 </div>
               </div>
 
-              <div>
-                <Label htmlFor="date">Date</Label>
-                <Input
-                  id="date"
-                  type="date"
-                  {...form.register("date")}
-                  data-testid="input-date"
-                />
-                {form.formState.errors.date && (
-                  <p className="text-sm text-error mt-1">{form.formState.errors.date.message}</p>
-                )}
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="date">Date</Label>
+                  <Input
+                    id="date"
+                    type="date"
+                    {...form.register("date")}
+                    data-testid="input-date"
+                  />
+                  {form.formState.errors.date && (
+                    <p className="text-sm text-error mt-1">{form.formState.errors.date.message}</p>
+                  )}
+                </div>
+
+                <div>
+                  <Label htmlFor="time">Time (optional)</Label>
+                  <Input
+                    id="time"
+                    type="time"
+                    {...form.register("time")}
+                    data-testid="input-time"
+                  />
+                </div>
               </div>
 
               <Button
@@ -225,11 +260,11 @@ export default function DataInput() {
               <div>
                 <Label htmlFor="bulkData">CSV Data</Label>
                 <p className="text-sm text-onSurfaceSecondary mb-2">
-                  Format: Item Name, Category, Quantity, Revenue, Date (YYYY-MM-DD)
+                  Format: Item Name, Category, Quantity, Revenue, Date (YYYY-MM-DD, or YYYY-MM-DD HH:MM with the time of sale)
                 </p>
                 <Textarea
                   id="bulkData"
-                  placeholder="Grilled Chicken, Main Dishes, 25, 375.00, 2024-01-15&#10;Salmon Bowl, Main Dishes, 18, 324.00, 2024-01-15"
+                  placeholder="Grilled Chicken, Main Dishes, 25, 375.00, 2024-01-15&#10;Salmon Bowl, Main Dishes, 18, 324.00, 2024-01-15 12:30"
                   rows={8}
                   value={bulkData}
                   onChange={(e) => setBulkData(e.target.value)}
@@ -273,6 +308,8 @@ export default function DataInput() {
           </div>
         </CardContent>
       </Card>
+
+      <MenuCatalogCard />
     </div>
   );
 }
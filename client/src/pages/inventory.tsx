@@ -3,21 +3,41 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { useQuery } from "@tanstack/react-query";
 import { Package, AlertTriangle, CheckCircle } from "lucide-react";
+import { useSelectedLocation } from "@/hooks/use-selected-location";
+import IngredientRequirementsCard from "@/components/inventory/ingredient-requirements";
+import ReorderPointsCard from "@/components/inventory/reorder-points";
+import StockMovementsCard from "@/components/inventory/stock-movements";
 
 interface InventoryItem {
   id: string;
+  locationId: string | null;
+  ingredientId: string | null;
   itemName: string;
   category: string;
+  unit: string;
   currentStock: number;
   minimumStock: number;
   maxStock: number;
   updatedAt: string;
 }
 
+interface ItemFreshness {
+  inventoryId: string;
+  daysOfFreshness: number | null;
+  expiredQuantity: number;
+  projectedWaste: number;
+}
+
 export default function Inventory() {
+  const { locationId } = useSelectedLocation();
   const { data: inventory, isLoading } = useQuery<InventoryItem[]>({
-    queryKey: ["/api/inventory"],
+    queryKey: ["/api/inventory", { locationId }],
+  });
+
+  const { data: freshness } = useQuery<ItemFreshness[]>({
+    queryKey: ["/api/inventory/freshness", { locationId }],
   });
+  const freshnessById = new Map((freshness ?? []).map(item => [item.inventoryId, item]));
 
   const getStockStatus = (item: InventoryItem) => {
     if (item.currentStock <= item.minimumStock) return 'low';
@@ -36,6 +56,24 @@ export default function Inventory() {
     }
   };
 
+  const getFreshnessLabel = (item: ItemFreshness | undefined) => {
+    if (!item) return <span className="text-onSurfaceSecondary">-</span>;
+    if (item.expiredQuantity > 0) {
+      return <span className="font-medium text-error">{item.expiredQuantity} expired</span>;
+    }
+    if (item.daysOfFreshness === null) return <span className="text-onSurfaceSecondary">Non-perishable</span>;
+
+    const label = item.daysOfFreshness === 0 ? "Expires today" : `${item.daysOfFreshness} day${item.daysOfFreshness === 1 ? "" : "s"}`;
+    return (
+      <div>
+        <span className={`font-medium ${item.daysOfFreshness <= 1 ? 'text-warning' : 'text-onSurface'}`}>{label}</span>
+        {item.projectedWaste > 0 && (
+          <p className="text-xs text-error">{item.projectedWaste} likely to expire unused</p>
+        )}
+      </div>
+    );
+  };
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'low':
@@ -103,6 +141,12 @@ export default function Inventory() {
         </Card>
       </div>
 
+      <IngredientRequirementsCard />
+
+      <ReorderPointsCard />
+
+      <StockMovementsCard />
+
       {/* Inventory Table */}
       <Card className="card-shadow">
         <CardHeader>
@@ -128,6 +172,7 @@ export default function Inventory() {
                     <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Category</th>
                     <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Current Stock</th>
                     <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Min/Max</th>
+                    <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Freshness</th>
                     <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Status</th>
                     <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Last Updated</th>
                     <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Action</th>
@@ -142,6 +187,7 @@ export default function Inventory() {
                           <div className="flex items-center space-x-3">
                             {getStatusIcon(status)}
                             <span className="font-medium text-onSurface">{item.itemName}</span>
+                            {item.ingredientId && <Badge variant="outline">Ingredient</Badge>}
                           </div>
                         </td>
                         <td className="py-3 px-4 text-onSurfaceSecondary">
@@ -149,11 +195,14 @@ export default function Inventory() {
                         </td>
                         <td className="py-3 px-4">
                           <span className="font-medium text-onSurface">
-                            {item.currentStock} units
+                            {item.currentStock} {item.unit}
                           </span>
                         </td>
                         <td className="py-3 px-4 text-onSurfaceSecondary">
-                          {item.minimumStock} / {item.maxStock}
+                          {item.minimumStock} / {item.maxStock} {item.unit}
+                        </td>
+                        <td className="py-3 px-4">
+                          {getFreshnessLabel(freshnessById.get(item.id))}
                         </td>
                         <td className="py-3 px-4">
                           {getStatusBadge(status)}
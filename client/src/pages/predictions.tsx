@@ -4,17 +4,22 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Progress } from "@/components/ui/progress";
+import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useSelectedLocation } from "@/hooks/use-selected-location";
 import { RefreshCw, TrendingUp, Brain, AlertTriangle, BarChart3, Zap, Eye } from "lucide-react";
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar } from 'recharts';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, BarChart, Bar } from 'recharts';
 
 interface Prediction {
   id: string;
+  locationId: string | null;
   itemName: string;
   category: string;
   predictedQuantity: number;
+  lowerBound: number | null;
+  upperBound: number | null;
   confidence: number;
   predictionDate: string;
   forecastPeriod: string;
@@ -27,6 +32,7 @@ interface AdvancedForecastResult {
   bestModel: ForecastModel;
   ensemblePrediction: number[];
   ensembleConfidence: number[];
+  ensembleIntervals: PredictionIntervals;
   forecastHorizon: number;
   externalFactorsImpact: Record<string, number>;
   seasonalComponents: {
@@ -41,20 +47,26 @@ interface AdvancedForecastResult {
   }[];
 }
 
+interface PredictionIntervals {
+  p10: number[];
+  p50: number[];
+  p90: number[];
+}
+
 interface ForecastModel {
   name: string;
   type: 'arima' | 'exponential_smoothing' | 'neural_network' | 'ensemble';
   predictions: number[];
   confidence: number[];
+  intervals: PredictionIntervals;
+  // Errors on the held-out last periods of the series
   metrics: {
     mae: number;
-    mape: number;
+    mape: number | null;
     rmse: number;
-    r2: number;
+    r2: number | null;
+    aic: number | null;
     accuracy: number;
-    precision: number;
-    recall: number;
-    f1Score: number;
   };
   hyperparameters: Record<string, any>;
 }
@@ -62,18 +74,21 @@ interface ForecastModel {
 export default function Predictions() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { locationId } = useSelectedLocation();
+  const [horizon, setHorizon] = useState(7);
 
   const { data: predictions, isLoading } = useQuery<Prediction[]>({
-    queryKey: ["/api/predictions"],
+    queryKey: ["/api/predictions", { locationId }],
   });
 
   const { data: advancedForecasts, isLoading: advancedLoading } = useQuery<AdvancedForecastResult[]>({
-    queryKey: ["/api/forecasting/advanced"],
+    queryKey: ["/api/forecasting/advanced", { locationId, horizon }],
     queryFn: async () => {
       const response = await fetch("/api/forecasting/advanced", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ options: { period: 'daily', horizon: 7, ensembleMethod: 'weighted' } })
+        // Everything except the horizon comes from the saved forecasting settings
+        body: JSON.stringify({ options: { horizon }, locationId })
       });
       return response.json();
     },
@@ -81,7 +96,7 @@ export default function Predictions() {
   });
 
   const generatePredictionsMutation = useMutation({
-    mutationFn: () => apiRequest("POST", "/api/predictions/generate"),
+    mutationFn: () => apiRequest("POST", "/api/predictions/generate", { locationId }),
     onSuccess: () => {
       toast({
         title: "Predictions Generated",
@@ -101,13 +116,16 @@ export default function Predictions() {
   });
 
   const generateAdvancedForecastsMutation = useMutation({
-    mutationFn: (options: any) => apiRequest("POST", "/api/forecasting/advanced", { options }),
-    onSuccess: () => {
+    mutationFn: async (options: any) => {
+      const res = await apiRequest("POST", "/api/forecasting/advanced", { options, locationId });
+      return (await res.json()) as AdvancedForecastResult[];
+    },
+    onSuccess: (results) => {
       toast({
         title: "Advanced Forecasts Generated",
         description: "ML ensemble forecasts with ARIMA, Neural Networks, and seasonal analysis completed.",
       });
-      queryClient.invalidateQueries({ queryKey: ["/api/forecasting/advanced"] });
+      queryClient.setQueryData(["/api/forecasting/advanced", { locationId, horizon }], results);
     },
     onError: () => {
       toast({
@@ -126,6 +144,16 @@ export default function Predictions() {
           <p className="text-onSurfaceSecondary">ARIMA, Neural Networks, and Ensemble Model Predictions</p>
         </div>
         <div className="flex space-x-2">
+          <Select value={horizon.toString()} onValueChange={(value) => setHorizon(parseInt(value))}>
+            <SelectTrigger className="w-32" data-testid="select-forecast-horizon">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">7 days</SelectItem>
+              <SelectItem value="14">14 days</SelectItem>
+              <SelectItem value="30">30 days</SelectItem>
+            </SelectContent>
+          </Select>
           <Button
             onClick={() => generatePredictionsMutation.mutate()}
             disabled={generatePredictionsMutation.isPending}
@@ -137,13 +165,7 @@ export default function Predictions() {
             <span>Basic Predictions</span>
           </Button>
           <Button
-            onClick={() => generateAdvancedForecastsMutation.mutate({ 
-              period: 'daily', 
-              horizon: 7, 
-              ensembleMethod: 'weighted',
-              includeSeasonality: true,
-              includeHolidays: true 
-            })}
+            onClick={() => generateAdvancedForecastsMutation.mutate({ horizon })}
             disabled={generateAdvancedForecastsMutation.isPending}
             className="flex items-center space-x-2"
             data-testid="button-generate-advanced-predictions"
@@ -250,46 +272,42 @@ export default function Predictions() {
                   <CardHeader>
                     <CardTitle className="flex items-center space-x-2">
                       <Zap className="h-5 w-5" />
-                      <span>7-Day Ensemble Forecast - {advancedForecasts[0].itemName}</span>
+                      <span>{advancedForecasts[0].forecastHorizon}-Day Ensemble Forecast - {advancedForecasts[0].itemName}</span>
                     </CardTitle>
                   </CardHeader>
                   <CardContent>
                     <div className="h-80">
                       <ResponsiveContainer width="100%" height="100%">
-                        <LineChart data={(advancedForecasts[0]?.ensemblePrediction || []).map((pred: number, index: number) => ({
+                        <ComposedChart data={(advancedForecasts[0]?.ensemblePrediction || []).map((pred: number, index: number) => ({
                           day: `Day ${index + 1}`,
                           prediction: Math.round(pred),
                           confidence: Math.round((advancedForecasts[0]?.ensembleConfidence[index] || 0) * 100),
-                          upper: Math.round(pred * 1.2),
-                          lower: Math.round(pred * 0.8)
+                          range: [
+                            Math.round(advancedForecasts[0]?.ensembleIntervals?.p10[index] ?? pred),
+                            Math.round(advancedForecasts[0]?.ensembleIntervals?.p90[index] ?? pred)
+                          ]
                         }))}>
                           <CartesianGrid strokeDasharray="3 3" />
                           <XAxis dataKey="day" />
                           <YAxis />
                           <Tooltip />
                           <Legend />
+                          <Area 
+                            type="monotone" 
+                            dataKey="range" 
+                            stroke="none" 
+                            fill="#93C5FD" 
+                            fillOpacity={0.4}
+                            name="P10–P90 Range"
+                          />
                           <Line 
                             type="monotone" 
                             dataKey="prediction" 
                             stroke="#3B82F6" 
                             strokeWidth={3}
-                            name="Ensemble Prediction"
-                          />
-                          <Line 
-                            type="monotone" 
-                            dataKey="upper" 
-                            stroke="#93C5FD" 
-                            strokeDasharray="5 5"
-                            name="Upper Bound"
-                          />
-                          <Line 
-                            type="monotone" 
-                            dataKey="lower" 
-                            stroke="#93C5FD" 
-                            strokeDasharray="5 5"
-                            name="Lower Bound"
+                            name="Ensemble Prediction (P50)"
                           />
-                        </LineChart>
+                        </ComposedChart>
                       </ResponsiveContainer>
                     </div>
                   </CardContent>
@@ -329,7 +347,7 @@ export default function Predictions() {
                           {/* Model Performance Metrics */}
                           <div className="space-y-2">
                             <div className="flex justify-between">
-                              <span className="text-sm">Accuracy:</span>
+                              <span className="text-sm">Holdout Accuracy:</span>
                               <span className="text-sm font-medium">
                                 {Math.round(model.metrics.accuracy * 100)}%
                               </span>
@@ -350,12 +368,12 @@ export default function Predictions() {
                             </div>
                             <div className="space-y-1">
                               <div className="flex justify-between">
-                                <span>Precision:</span>
-                                <span>{Math.round(model.metrics.precision * 100)}%</span>
+                                <span>MAPE:</span>
+                                <span>{model.metrics.mape === null ? '—' : `${Math.round(model.metrics.mape * 100)}%`}</span>
                               </div>
                               <div className="flex justify-between">
-                                <span>F1-Score:</span>
-                                <span>{Math.round(model.metrics.f1Score * 100)}%</span>
+                                <span>R²:</span>
+                                <span>{model.metrics.r2 === null ? '—' : model.metrics.r2.toFixed(2)}</span>
                               </div>
                             </div>
                           </div>
@@ -497,6 +515,11 @@ export default function Predictions() {
                         <span className="font-medium text-onSurface">
                           {prediction.predictedQuantity} units
                         </span>
+                        {prediction.lowerBound != null && prediction.upperBound != null && (
+                          <p className="text-xs text-onSurfaceSecondary" data-testid={`text-prediction-range-${prediction.id}`}>
+                            P10–P90: {Math.round(prediction.lowerBound)}–{Math.round(prediction.upperBound)}
+                          </p>
+                        )}
                       </td>
                       <td className="py-3 px-4">
                         <Badge 
@@ -0,0 +1,409 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, buildQueryUrl } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { useSelectedLocation } from "@/hooks/use-selected-location";
+import { ClipboardList, FileDown, Plus, Truck, Wand2 } from "lucide-react";
+import { useState } from "react";
+
+type PurchaseOrderStatus = "draft" | "approved" | "sent" | "received";
+
+interface Supplier {
+  id: string;
+  name: string;
+  contactName: string | null;
+  email: string | null;
+  phone: string | null;
+  leadTimeDays: number;
+}
+
+interface PurchaseOrderLine {
+  id: string;
+  inventoryId: string;
+  itemName: string;
+  unit: string;
+  packSize: number;
+  quantity: number;
+  unitCost: number | null;
+  receivedQuantity: number | null;
+}
+
+interface PurchaseOrder {
+  id: string;
+  orderNumber: string;
+  locationId: string | null;
+  supplierId: string;
+  status: PurchaseOrderStatus;
+  notes: string | null;
+  expectedDeliveryDate: string | null;
+  createdAt: string;
+  lines: PurchaseOrderLine[];
+  supplier: Supplier | null;
+}
+
+// The action that moves an order on from each status
+const nextAction: Partial<Record<PurchaseOrderStatus, { label: string; path: string }>> = {
+  draft: { label: "Approve", path: "approve" },
+  approved: { label: "Mark Sent", path: "send" },
+  sent: { label: "Receive", path: "receive" },
+};
+
+const statusFilters: ("all" | PurchaseOrderStatus)[] = ["all", "draft", "approved", "sent", "received"];
+
+function getStatusBadge(status: PurchaseOrderStatus) {
+  switch (status) {
+    case "draft":
+      return <Badge variant="outline">Draft</Badge>;
+    case "approved":
+      return <Badge variant="secondary">Approved</Badge>;
+    case "sent":
+      return <Badge>Sent</Badge>;
+    default:
+      return <Badge className="bg-secondary text-secondary-foreground">Received</Badge>;
+  }
+}
+
+function orderTotal(order: PurchaseOrder): number | null {
+  const priced = order.lines.filter(line => line.unitCost !== null);
+  return priced.length > 0 ? priced.reduce((sum, line) => sum + line.quantity * line.unitCost!, 0) : null;
+}
+
+export default function Purchasing() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { hasRole } = useAuth();
+  const { locationId } = useSelectedLocation();
+  const canEdit = hasRole("manager");
+  const [statusFilter, setStatusFilter] = useState<"all" | PurchaseOrderStatus>("all");
+  const [supplierName, setSupplierName] = useState("");
+  const [supplierEmail, setSupplierEmail] = useState("");
+  const [leadTimeDays, setLeadTimeDays] = useState("1");
+
+  const { data: orders, isLoading } = useQuery<PurchaseOrder[]>({
+    queryKey: ["/api/purchase-orders", { locationId, status: statusFilter === "all" ? undefined : statusFilter }],
+  });
+
+  const { data: suppliers } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const invalidateOrders = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/purchase-orders"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/inventory"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/inventory/recommendations"] });
+  };
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/purchase-orders/generate", { locationId });
+      return res.json() as Promise<{ orders: PurchaseOrder[]; unassignedItems: string[] }>;
+    },
+    onSuccess: ({ orders: created, unassignedItems }) => {
+      toast({
+        title: created.length > 0 ? "Draft orders created" : "Nothing to order",
+        description: unassignedItems.length > 0
+          ? `${created.length} draft order(s). No supplier for: ${unassignedItems.join(", ")}`
+          : `${created.length} draft order(s) created from the restock recommendations.`,
+      });
+      invalidateOrders();
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to generate purchase orders. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const advanceMutation = useMutation({
+    mutationFn: ({ id, path }: { id: string; path: string }) => apiRequest("POST", `/api/purchase-orders/${id}/${path}`, {}),
+    onSuccess: invalidateOrders,
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest("DELETE", `/api/purchase-orders/${id}`),
+    onSuccess: invalidateOrders,
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const createSupplierMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/suppliers", {
+      name: supplierName.trim(),
+      email: supplierEmail.trim() || null,
+      leadTimeDays: parseInt(leadTimeDays) || 0,
+    }),
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Supplier has been added.",
+      });
+      setSupplierName("");
+      setSupplierEmail("");
+      setLeadTimeDays("1");
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div>
+      <div className="mb-6 flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-onSurface">Purchasing</h1>
+          <p className="text-onSurfaceSecondary">Turn restock recommendations into supplier orders</p>
+        </div>
+        {canEdit && (
+          <Button
+            onClick={() => generateMutation.mutate()}
+            disabled={generateMutation.isPending}
+            data-testid="button-generate-orders"
+          >
+            <Wand2 className="h-4 w-4 mr-2" />
+            {generateMutation.isPending ? "Generating..." : "Generate Draft Orders"}
+          </Button>
+        )}
+      </div>
+
+      {/* Purchase Orders */}
+      <Card className="card-shadow mb-6">
+        <CardHeader>
+          <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-2">
+            <CardTitle className="flex items-center space-x-2">
+              <ClipboardList className="h-5 w-5 text-primary" />
+              <span>Purchase Orders</span>
+            </CardTitle>
+            <div className="flex flex-wrap gap-2">
+              {statusFilters.map(status => (
+                <Button
+                  key={status}
+                  variant={statusFilter === status ? "default" : "outline"}
+                  size="sm"
+                  onClick={() => setStatusFilter(status)}
+                  className="px-3 py-1 text-sm rounded-full capitalize"
+                  data-testid={`button-filter-${status}`}
+                >
+                  {status}
+                </Button>
+              ))}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="animate-pulse space-y-4">
+              {[...Array(3)].map((_, i) => (
+                <div key={i} className="h-16 bg-gray-200 rounded"></div>
+              ))}
+            </div>
+          ) : !orders || orders.length === 0 ? (
+            <div className="text-center py-8 text-onSurfaceSecondary">
+              No purchase orders yet
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {orders.map(order => {
+                const total = orderTotal(order);
+                const action = nextAction[order.status];
+                return (
+                  <div key={order.id} className="border rounded-lg p-4" data-testid={`card-order-${order.orderNumber}`}>
+                    <div className="flex flex-col md:flex-row md:items-center justify-between gap-2 mb-3">
+                      <div className="flex items-center space-x-3">
+                        <span className="font-medium text-onSurface">{order.orderNumber}</span>
+                        {getStatusBadge(order.status)}
+                        <span className="text-sm text-onSurfaceSecondary">{order.supplier?.name ?? "Unknown supplier"}</span>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2">
+                        {["csv", "pdf"].map(format => (
+                          <Button key={format} variant="outline" size="sm" asChild>
+                            <a
+                              href={buildQueryUrl([`/api/purchase-orders/${order.id}/export`, { format }])}
+                              data-testid={`link-export-${format}-${order.orderNumber}`}
+                            >
+                              <FileDown className="h-4 w-4 mr-1" />
+                              {format.toUpperCase()}
+                            </a>
+                          </Button>
+                        ))}
+                        {canEdit && order.status === "draft" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => deleteMutation.mutate(order.id)}
+                            disabled={deleteMutation.isPending}
+                            data-testid={`button-delete-${order.orderNumber}`}
+                          >
+                            Delete
+                          </Button>
+                        )}
+                        {canEdit && action && (
+                          <Button
+                            size="sm"
+                            onClick={() => advanceMutation.mutate({ id: order.id, path: action.path })}
+                            disabled={advanceMutation.isPending}
+                            data-testid={`button-${action.path}-${order.orderNumber}`}
+                          >
+                            {action.label}
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="border-b">
+                            <th className="text-left py-2 px-2 font-medium text-onSurfaceSecondary">Item</th>
+                            <th className="text-left py-2 px-2 font-medium text-onSurfaceSecondary">Quantity</th>
+                            <th className="text-left py-2 px-2 font-medium text-onSurfaceSecondary">Packs</th>
+                            <th className="text-left py-2 px-2 font-medium text-onSurfaceSecondary">Unit Cost</th>
+                            <th className="text-left py-2 px-2 font-medium text-onSurfaceSecondary">Received</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y">
+                          {order.lines.map(line => (
+                            <tr key={line.id}>
+                              <td className="py-2 px-2 text-onSurface">{line.itemName}</td>
+                              <td className="py-2 px-2 text-onSurface">{line.quantity} {line.unit}</td>
+                              <td className="py-2 px-2 text-onSurfaceSecondary">
+                                {Math.round(line.quantity / (line.packSize || 1))} × {line.packSize}
+                              </td>
+                              <td className="py-2 px-2 text-onSurfaceSecondary">
+                                {line.unitCost === null ? "-" : `$${line.unitCost.toFixed(2)}`}
+                              </td>
+                              <td className="py-2 px-2 text-onSurfaceSecondary">
+                                {line.receivedQuantity === null ? "-" : `${line.receivedQuantity} ${line.unit}`}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                    <div className="flex flex-wrap justify-between gap-2 mt-3 text-sm text-onSurfaceSecondary">
+                      <span>
+                        Expected delivery: {order.expectedDeliveryDate ? new Date(order.expectedDeliveryDate).toLocaleDateString() : "-"}
+                      </span>
+                      <span className="font-medium text-onSurface">
+                        Total: {total === null ? "-" : `$${total.toFixed(2)}`}
+                      </span>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Suppliers */}
+      <Card className="card-shadow">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Truck className="h-5 w-5 text-primary" />
+            <span>Suppliers</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!suppliers || suppliers.length === 0 ? (
+            <div className="text-center py-4 text-onSurfaceSecondary">No suppliers yet</div>
+          ) : (
+            <div className="overflow-x-auto mb-6">
+              <table className="w-full">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Name</th>
+                    <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Email</th>
+                    <th className="text-left py-3 px-4 font-medium text-onSurfaceSecondary">Lead Time</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {suppliers.map(supplier => (
+                    <tr key={supplier.id} data-testid={`row-supplier-${supplier.name.toLowerCase().replace(/\s+/g, '-')}`}>
+                      <td className="py-3 px-4 font-medium text-onSurface">{supplier.name}</td>
+                      <td className="py-3 px-4 text-onSurfaceSecondary">{supplier.email ?? "-"}</td>
+                      <td className="py-3 px-4 text-onSurfaceSecondary">
+                        {supplier.leadTimeDays} day{supplier.leadTimeDays === 1 ? "" : "s"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {canEdit && (
+            <form
+              className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end"
+              onSubmit={(event) => {
+                event.preventDefault();
+                createSupplierMutation.mutate();
+              }}
+            >
+              <div>
+                <Label htmlFor="supplierName">Name</Label>
+                <Input
+                  id="supplierName"
+                  value={supplierName}
+                  onChange={(event) => setSupplierName(event.target.value)}
+                  data-testid="input-supplier-name"
+                />
+              </div>
+              <div>
+                <Label htmlFor="supplierEmail">Email</Label>
+                <Input
+                  id="supplierEmail"
+                  type="email"
+                  value={supplierEmail}
+                  onChange={(event) => setSupplierEmail(event.target.value)}
+                  data-testid="input-supplier-email"
+                />
+              </div>
+              <div>
+                <Label htmlFor="leadTimeDays">Lead time (days)</Label>
+                <Input
+                  id="leadTimeDays"
+                  type="number"
+                  min="0"
+                  value={leadTimeDays}
+                  onChange={(event) => setLeadTimeDays(event.target.value)}
+                  data-testid="input-supplier-lead-time"
+                />
+              </div>
+              <Button
+                type="submit"
+                disabled={!supplierName.trim() || createSupplierMutation.isPending}
+                data-testid="button-add-supplier"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Supplier
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -8,124 +8,79 @@ import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Slider } from "@/components/ui/slider";
-import { useForm } from "react-hook-form";
+import { useForm, type FieldErrors } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { z } from "zod";
+import { appSettingsSchema, defaultAppSettings, type AppSettings } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { useState } from "react";
+import { useEffect } from "react";
+import BacktestResults from "@/components/settings/backtest-results";
 import { Settings as SettingsIcon, Bell, Brain, Clock, Save, RefreshCw, Database, Cloud, Zap, Shield, AlertTriangle, CheckCircle } from "lucide-react";
 
-const settingsSchema = z.object({
-  // Advanced ML Settings
-  defaultForecastPeriod: z.string().min(1, "Forecast period is required"),
-  forecastHorizon: z.number().min(1).max(30, "Horizon must be between 1-30 days"),
-  confidenceThreshold: z.number().min(0).max(1, "Confidence threshold must be between 0 and 1"),
-  ensembleMethod: z.string().min(1, "Ensemble method is required"),
-  seasonalAdjustment: z.boolean(),
-  trendAnalysis: z.boolean(),
-  includeHolidays: z.boolean(),
-  includeWeather: z.boolean(),
-  enableAnomalyDetection: z.boolean(),
-  
-  // Model Configuration
-  enableARIMA: z.boolean(),
-  enableNeuralNetwork: z.boolean(),
-  enableExponentialSmoothing: z.boolean(),
-  trainingFrequency: z.string().min(1, "Training frequency is required"),
-  dataRetentionDays: z.number().min(30, "Minimum retention is 30 days"),
-  autoRetraining: z.boolean(),
-  modelDriftThreshold: z.number().min(0).max(1, "Drift threshold must be between 0 and 1"),
-  
-  // Notification Settings
-  enableNotifications: z.boolean(),
-  inventoryAlerts: z.boolean(),
-  demandSpikeAlerts: z.boolean(),
-  modelDriftAlerts: z.boolean(),
-  dailyReports: z.boolean(),
-  lowStockThreshold: z.number().min(1, "Threshold must be at least 1"),
-  demandSpikeMultiplier: z.number().min(1, "Multiplier must be at least 1"),
-  
-  // Display Settings
-  defaultDashboardView: z.string().min(1, "Dashboard view is required"),
-  chartAnimations: z.boolean(),
-  darkMode: z.boolean(),
-  refreshInterval: z.number().min(10, "Minimum refresh interval is 10 seconds"),
-});
-
-type SettingsFormData = z.infer<typeof settingsSchema>;
+type SettingsFormData = AppSettings;
 
 export default function Settings() {
   const { toast } = useToast();
-  const [isLoading, setIsLoading] = useState(false);
+  const queryClient = useQueryClient();
+
+  const { data: savedSettings } = useQuery<AppSettings>({
+    queryKey: ["/api/settings"],
+  });
 
   const form = useForm<SettingsFormData>({
-    resolver: zodResolver(settingsSchema),
-    defaultValues: {
-      // Advanced ML Settings
-      defaultForecastPeriod: "daily",
-      forecastHorizon: 7,
-      confidenceThreshold: 0.8,
-      ensembleMethod: "weighted",
-      seasonalAdjustment: true,
-      trendAnalysis: true,
-      includeHolidays: true,
-      includeWeather: false,
-      enableAnomalyDetection: true,
-      
-      // Model Configuration
-      enableARIMA: true,
-      enableNeuralNetwork: true,
-      enableExponentialSmoothing: true,
-      trainingFrequency: "daily",
-      dataRetentionDays: 365,
-      autoRetraining: true,
-      modelDriftThreshold: 0.1,
-      
-      // Notification Settings
-      enableNotifications: true,
-      inventoryAlerts: true,
-      demandSpikeAlerts: true,
-      modelDriftAlerts: true,
-      dailyReports: false,
-      lowStockThreshold: 20,
-      demandSpikeMultiplier: 2.0,
-      
-      // Display Settings
-      defaultDashboardView: "overview",
-      chartAnimations: true,
-      darkMode: false,
-      refreshInterval: 30,
-    },
+    resolver: zodResolver(appSettingsSchema),
+    defaultValues: defaultAppSettings,
   });
 
-  const onSubmit = async (data: SettingsFormData) => {
-    setIsLoading(true);
-    try {
-      // Simulate API call to save settings
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
+  // Show the saved configuration once it has loaded
+  useEffect(() => {
+    if (savedSettings) {
+      form.reset(savedSettings);
+    }
+  }, [savedSettings, form]);
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async (data: SettingsFormData) => {
+      const res = await apiRequest("PUT", "/api/settings", data);
+      return (await res.json()) as AppSettings;
+    },
+    onSuccess: (settings) => {
+      queryClient.setQueryData(["/api/settings"], settings);
+      queryClient.invalidateQueries({ queryKey: ["/api/scheduler/jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications/rules"] });
       toast({
         title: "Settings Saved",
         description: "Your preferences have been updated successfully.",
       });
-    } catch (error) {
+    },
+    onError: () => {
       toast({
         title: "Error",
         description: "Failed to save settings. Please try again.",
         variant: "destructive",
       });
-    } finally {
-      setIsLoading(false);
-    }
+    },
+  });
+
+  const onSubmit = (data: SettingsFormData) => {
+    saveSettingsMutation.mutate(data);
+  };
+
+  const onInvalid = (errors: FieldErrors<SettingsFormData>) => {
+    const [firstError] = Object.values(errors);
+    toast({
+      title: "Invalid Settings",
+      description: firstError?.message || "Please check the highlighted values.",
+      variant: "destructive",
+    });
   };
 
   const handleResetToDefaults = () => {
-    form.reset();
+    form.reset(defaultAppSettings);
     toast({
       title: "Settings Reset",
-      description: "All settings have been reset to default values.",
+      description: "Default values restored. Save to apply them.",
     });
   };
 
@@ -147,7 +102,7 @@ export default function Settings() {
           <TabsTrigger value="system" data-testid="tab-system">System</TabsTrigger>
         </TabsList>
 
-        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <form onSubmit={form.handleSubmit(onSubmit, onInvalid)} className="space-y-6">
           {/* ML Models Configuration */}
           <TabsContent value="models" className="space-y-6">
             <Card className="card-shadow">
@@ -205,17 +160,16 @@ export default function Settings() {
                   <div>
                     <Label htmlFor="ensembleMethod">Ensemble Method</Label>
                     <Select 
-                      onValueChange={(value) => form.setValue("ensembleMethod", value)} 
-                      defaultValue="weighted"
+                      value={form.watch("ensembleMethod")}
+                      onValueChange={(value) => form.setValue("ensembleMethod", value as AppSettings["ensembleMethod"])}
                     >
                       <SelectTrigger data-testid="select-ensemble-method">
                         <SelectValue placeholder="Select method" />
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="weighted">Weighted Average</SelectItem>
-                        <SelectItem value="voting">Majority Voting</SelectItem>
-                        <SelectItem value="stacking">Stacking</SelectItem>
-                        <SelectItem value="boosting">Gradient Boosting</SelectItem>
+                        <SelectItem value="average">Simple Average</SelectItem>
+                        <SelectItem value="best_performer">Best Performer</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
@@ -253,7 +207,7 @@ export default function Settings() {
                         data-testid="slider-confidence"
                       />
                       <div className="text-sm text-onSurfaceSecondary text-center">
-                        {Math.round(form.watch("confidenceThreshold") * 100)}%
+                        {Math.round(form.watch("confidenceThreshold") * 100)}% — models below this are left out of the ensemble
                       </div>
                     </div>
                   </div>
@@ -329,6 +283,80 @@ export default function Settings() {
                 </div>
               </CardContent>
             </Card>
+
+            <Card className="card-shadow">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Clock className="h-5 w-5 text-primary" />
+                  <span>Sales Calendar</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div>
+                    <Label htmlFor="timeZone">Time Zone</Label>
+                    <Input
+                      id="timeZone"
+                      placeholder="Server local time, e.g. Europe/London"
+                      {...form.register("timeZone")}
+                      data-testid="input-time-zone"
+                    />
+                    <p className="text-sm text-onSurfaceSecondary mt-1">Where each trading day starts and ends</p>
+                    {form.formState.errors.timeZone && (
+                      <p className="text-sm text-error mt-1">{form.formState.errors.timeZone.message}</p>
+                    )}
+                  </div>
+
+                  <div>
+                    <Label htmlFor="gapFill">Days Without Sales</Label>
+                    <Select
+                      value={form.watch("gapFill")}
+                      onValueChange={(value) => form.setValue("gapFill", value as AppSettings["gapFill"])}
+                    >
+                      <SelectTrigger data-testid="select-gap-fill">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="zero">Count as zero demand</SelectItem>
+                        <SelectItem value="interpolate">Interpolate from neighbouring days</SelectItem>
+                        <SelectItem value="closed">Treat as closed</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div>
+                  <Label className="text-base font-medium">Closed Days</Label>
+                  <p className="text-sm text-onSurfaceSecondary mb-2">
+                    Closed days don't count as days without demand, and are forecast at zero
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"].map((day, weekday) => {
+                      const closed = form.watch("closedWeekdays").includes(weekday);
+                      return (
+                        <Button
+                          key={day}
+                          type="button"
+                          variant={closed ? "default" : "outline"}
+                          size="sm"
+                          onClick={() => form.setValue(
+                            "closedWeekdays",
+                            closed
+                              ? form.getValues("closedWeekdays").filter(value => value !== weekday)
+                              : [...form.getValues("closedWeekdays"), weekday].sort(),
+                          )}
+                          data-testid={`button-closed-${day.toLowerCase()}`}
+                        >
+                          {day}
+                        </Button>
+                      );
+                    })}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <BacktestResults />
           </TabsContent>
 
           {/* Notifications Configuration */}
@@ -429,7 +457,7 @@ export default function Settings() {
                   <Label className="text-base font-medium">Alert Thresholds</Label>
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                     <div>
-                      <Label htmlFor="lowStockThreshold">Low Stock Threshold (units)</Label>
+                      <Label htmlFor="lowStockThreshold">Low Stock Threshold (% of max stock)</Label>
                       <Input
                         type="number"
                         {...form.register("lowStockThreshold", { valueAsNumber: true })}
@@ -455,6 +483,41 @@ export default function Settings() {
                     </div>
                   </div>
                 </div>
+
+                {/* Reorder Points */}
+                <div className="space-y-4">
+                  <Label className="text-base font-medium">Reorder Points</Label>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div>
+                      <Label htmlFor="serviceLevel">Target Service Level</Label>
+                      <div className="space-y-2">
+                        <Slider
+                          value={[form.watch("serviceLevel")]}
+                          onValueChange={(value) => form.setValue("serviceLevel", value[0])}
+                          max={0.995}
+                          min={0.8}
+                          step={0.005}
+                          className="w-full"
+                          data-testid="slider-service-level"
+                        />
+                        <div className="text-sm text-onSurfaceSecondary text-center">
+                          {(form.watch("serviceLevel") * 100).toFixed(1)}% chance of no stockout during the lead time
+                        </div>
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-between p-4 border rounded-lg">
+                      <div>
+                        <div className="font-medium">Update Minimum Stock</div>
+                        <div className="text-sm text-onSurfaceSecondary">Replace minimum stock with the calculated reorder point on each monitoring check</div>
+                      </div>
+                      <Switch 
+                        checked={form.watch("autoUpdateMinimumStock")}
+                        onCheckedChange={(checked) => form.setValue("autoUpdateMinimumStock", checked)}
+                        data-testid="switch-auto-minimum-stock"
+                      />
+                    </div>
+                  </div>
+                </div>
               </CardContent>
             </Card>
           </TabsContent>
@@ -549,8 +612,8 @@ export default function Settings() {
                     <div>
                       <Label htmlFor="trainingFrequency">Training Frequency</Label>
                       <Select 
-                        onValueChange={(value) => form.setValue("trainingFrequency", value)} 
-                        defaultValue="daily"
+                        value={form.watch("trainingFrequency")}
+                        onValueChange={(value) => form.setValue("trainingFrequency", value as AppSettings["trainingFrequency"])}
                       >
                         <SelectTrigger data-testid="select-training-frequency">
                           <SelectValue placeholder="Select frequency" />
@@ -584,8 +647,8 @@ export default function Settings() {
                     <div>
                       <Label htmlFor="defaultDashboardView">Default Dashboard View</Label>
                       <Select 
-                        onValueChange={(value) => form.setValue("defaultDashboardView", value)} 
-                        defaultValue="overview"
+                        value={form.watch("defaultDashboardView")}
+                        onValueChange={(value) => form.setValue("defaultDashboardView", value as AppSettings["defaultDashboardView"])}
                       >
                         <SelectTrigger data-testid="select-dashboard-view">
                           <SelectValue placeholder="Select view" />
@@ -607,6 +670,15 @@ export default function Settings() {
                         data-testid="input-refresh-interval"
                       />
                     </div>
+
+                    <div>
+                      <Label htmlFor="metricsResolutionMinutes">Metrics History Resolution (minutes)</Label>
+                      <Input
+                        type="number"
+                        {...form.register("metricsResolutionMinutes", { valueAsNumber: true })}
+                        data-testid="input-metrics-resolution"
+                      />
+                    </div>
                   </div>
 
                   <div className="flex items-center justify-between">
@@ -639,10 +711,10 @@ export default function Settings() {
             
             <Button
               type="submit"
-              disabled={isLoading}
+              disabled={saveSettingsMutation.isPending}
               data-testid="button-save-settings"
             >
-              {isLoading ? (
+              {saveSettingsMutation.isPending ? (
                 <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
               ) : (
                 <Save className="h-4 w-4 mr-2" />
@@ -0,0 +1,305 @@
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import type { Express, RequestHandler } from "express";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { EventEmitter } from "events";
+import { storage } from "./storage";
+import { registerUserSchema, userRoles, type User as SelectUser, type UserRole } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+/**
+ * Emits 'access-changed' with the user's id after an admin changes their role or locations,
+ * so long-lived connections can drop the access they captured
+ */
+export const userAccessEvents = new EventEmitter();
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+export async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+/**
+ * Strip the password hash before a user leaves the server
+ */
+export function toPublicUser(user: SelectUser): Omit<SelectUser, "password"> {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+}
+
+function createSessionStore(): session.Store {
+  if (process.env.DATABASE_URL) {
+    const PostgresStore = connectPg(session);
+    return new PostgresStore({
+      conString: process.env.DATABASE_URL,
+      createTableIfMissing: true,
+    });
+  }
+
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+/**
+ * Install sessions, passport and the auth routes; returns the session middleware so
+ * non-Express handlers (WebSocket upgrades) can read the same session
+ */
+export function setupAuth(app: Express): RequestHandler {
+  const sessionSecret = process.env.SESSION_SECRET;
+  if (!sessionSecret && app.get("env") === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  app.set("trust proxy", 1);
+  const sessionMiddleware = session({
+    secret: sessionSecret || "foodcast-dev-secret",
+    resave: false,
+    saveUninitialized: false,
+    store: createSessionStore(),
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 7 * 24 * 60 * 60 * 1000,
+    },
+  });
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const result = registerUserSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0]?.message || "Invalid registration data" });
+      }
+
+      const existingUser = await storage.getUserByUsername(result.data.username);
+      if (existingUser) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+
+      // The first account bootstraps the installation as its administrator
+      const isFirstUser = (await storage.getUsers()).length === 0;
+      const user = await storage.createUser({
+        username: result.data.username,
+        password: await hashPassword(result.data.password),
+        role: isFirstUser ? "admin" : "viewer",
+      });
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.status(200).json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.sendStatus(200);
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    res.json(toPublicUser(req.user));
+  });
+
+  // User administration
+  app.get("/api/users", requireRole("admin"), async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.patch("/api/users/:id/role", requireRole("admin"), async (req, res) => {
+    try {
+      const { role } = req.body;
+      if (!userRoles.includes(role)) {
+        return res.status(400).json({ message: `Role must be one of: ${userRoles.join(", ")}` });
+      }
+
+      const user = await storage.updateUserRole(req.params.id, role);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      userAccessEvents.emit('access-changed', user.id);
+      res.json(toPublicUser(user));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update user role" });
+    }
+  });
+
+  app.patch("/api/users/:id/locations", requireRole("admin"), async (req, res) => {
+    try {
+      const { locationIds, allLocations = false } = req.body ?? {};
+      if (!Array.isArray(locationIds) || !locationIds.every(id => typeof id === "string")) {
+        return res.status(400).json({ message: "locationIds must be an array of location ids" });
+      }
+      if (typeof allLocations !== "boolean") {
+        return res.status(400).json({ message: "allLocations must be true or false" });
+      }
+
+      const known = new Set((await storage.getLocations()).map(location => location.id));
+      const unknown = locationIds.find(id => !known.has(id));
+      if (unknown) {
+        return res.status(400).json({ message: `Unknown location: ${unknown}` });
+      }
+
+      const user = await storage.updateUserLocations(req.params.id, Array.from(new Set<string>(locationIds)), allLocations);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      userAccessEvents.emit('access-changed', user.id);
+      res.json(toPublicUser(user));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update user locations" });
+    }
+  });
+
+  return sessionMiddleware;
+}
+
+export function hasRole(user: Pick<SelectUser, "role"> | undefined, minimumRole: UserRole): boolean {
+  if (!user) return false;
+  return userRoles.indexOf(user.role as UserRole) >= userRoles.indexOf(minimumRole);
+}
+
+export type LocationAccess = Pick<SelectUser, "role" | "locationIds" | "allLocations">;
+
+/**
+ * Locations the user is limited to, or undefined when they may see every location.
+ * Only administrators and users granted all locations are not limited; a user without
+ * assigned locations (such as a fresh self-registration) sees no location data.
+ */
+export function assignedLocations(user: LocationAccess | undefined): string[] | undefined {
+  if (!user) return [];
+  if (user.role === "admin" || user.allLocations) return undefined;
+  return user.locationIds;
+}
+
+/**
+ * Whether the user may see records of the given location; records without a location
+ * belong to the whole chain and are hidden from users limited to particular locations
+ */
+export function canAccessLocation(user: LocationAccess | undefined, locationId: string | null | undefined): boolean {
+  const assigned = assignedLocations(user);
+  return !assigned || (!!locationId && assigned.includes(locationId));
+}
+
+/**
+ * Reject unauthenticated requests with 401
+ */
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  next();
+};
+
+/**
+ * Reject requests for a location outside the user's assigned locations with 403
+ */
+export const requireLocationAccess: RequestHandler = (req, res, next) => {
+  const requested = req.query.locationId ?? req.body?.locationId;
+  if (requested && requested !== "all" && !canAccessLocation(req.user, String(requested))) {
+    return res.status(403).json({ message: "No access to this location" });
+  }
+  next();
+};
+
+/**
+ * For routes scoped to one location: a user limited to particular locations must name one of
+ * them unless they have exactly one. 403 without any assigned location, 400 when the choice is
+ * ambiguous; the named location itself is checked by requireLocationAccess.
+ */
+export const requireLocationChoice: RequestHandler = (req, res, next) => {
+  const assigned = assignedLocations(req.user);
+  const requested = req.query.locationId ?? req.body?.locationId;
+  if (!assigned || (requested && requested !== "all")) return next();
+  if (assigned.length === 0) {
+    return res.status(403).json({ message: "No location access" });
+  }
+  if (assigned.length > 1) {
+    return res.status(400).json({ message: "Choose one of your locations" });
+  }
+  next();
+};
+
+/**
+ * Allow the request only for users at or above the given role (viewer < manager < admin)
+ */
+export function requireRole(minimumRole: UserRole): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (!hasRole(req.user, minimumRole)) {
+      return res.status(403).json({ message: `Requires ${minimumRole} role` });
+    }
+    next();
+  };
+}
@@ -0,0 +1,20 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Any Postgres-backed Drizzle database built with the shared schema.
+ * Typed against the pg-core base class so that a local node-postgres or
+ * PGlite instance (as in the storage tests) can be passed to DatabaseStorage
+ * in place of Neon.
+ */
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export function createDatabase(connectionString: string): Database {
+  const pool = new Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
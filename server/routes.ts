@@ -1,16 +1,64 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { setupAuth, requireAuth, requireRole, requireLocationAccess, requireLocationChoice, assignedLocations, canAccessLocation } from "./auth";
+import { setupWebSocket } from "./websocket";
 import { forecastingService } from "./services/forecasting";
 import { advancedForecastingService } from "./services/advanced-forecasting";
+import { backtestingService } from "./services/backtesting";
+import { forecastAccuracyService } from "./services/forecast-accuracy";
 import { notificationService } from "./services/notification-service";
 import { realTimeAnalyticsService } from "./services/real-time-analytics";
-import { insertSalesDataSchema, insertPredictionSchema, insertInventorySchema } from "@shared/schema";
+import { schedulerService } from "./services/scheduler";
+import { settingsService } from "./services/settings";
+import { billOfMaterialsService, DEMAND_SOURCES, type DemandSource } from "./services/bill-of-materials";
+import { inventoryPlanningService } from "./services/inventory-planning";
+import { purchaseOrderService, canTransition } from "./services/purchase-orders";
+import { safetyStockService } from "./services/safety-stock";
+import { inventoryLedgerService } from "./services/inventory-ledger";
+import { expiryTrackingService } from "./services/expiry-tracking";
+import { wasteAnalyticsService } from "./services/waste-analytics";
+import { prepPlanningService, type PrepCostOverrides } from "./services/prep-planning";
+import { menuCatalogService } from "./services/menu-catalog";
+import { intradayForecastingService, intradayIntervals, MAX_PROFILE_DAYS, MAX_PREP_LEAD_MINUTES, type IntradayInterval } from "./services/intraday-forecasting";
+import { menuEngineeringService, MAX_ENGINEERING_DAYS } from "./services/menu-engineering";
+import { purchaseOrderToCsv, purchaseOrderToPdf } from "./services/purchase-order-export";
+import { regeneratePredictions, reconcileForecasts, runMonitoringCheck, refreshAlertCount } from "./services/scheduled-jobs";
+import { insertMenuItemSchema, updateMenuItemSchema, insertSalesDataSchema, insertPredictionSchema, insertInventorySchema, updateInventorySchema, recordInventoryMovementSchema, inventoryMovementTypes, insertLocationSchema, insertIngredientSchema, insertRecipeSchema, insertSupplierSchema, insertPurchaseOrderSchema, receivePurchaseOrderSchema, purchaseOrderStatuses, appSettingsSchema, backtestQuerySchema, type RecipeLine, type PurchaseOrderStatus, type PurchaseOrderWithLines, type InventoryMovementType, type RecordInventoryMovement } from "@shared/schema";
+
+// Dashboard icon for items that aren't in the menu catalog
+const DEFAULT_ITEM_ICON = "utensils";
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Session, login/logout/register and user routes
+  const sessionMiddleware = setupAuth(app);
+
+  // Everything else under /api requires a signed-in user with access to the requested location;
+  // writes are further gated by role
+  app.use("/api", requireAuth, requireLocationAccess);
+
+  // Locations
+  app.get("/api/locations", async (req, res) => {
+    try {
+      const locations = (await storage.getLocations()).filter(location => canAccessLocation(req.user, location.id));
+      res.json(locations);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch locations" });
+    }
+  });
+
+  app.post("/api/locations", requireRole("admin"), async (req, res) => {
+    try {
+      const validatedData = insertLocationSchema.parse(req.body);
+      const location = await storage.createLocation(validatedData);
+      res.json(location);
+    } catch (error) {
+      res.status(400).json({ message: "Invalid location data format" });
+    }
+  });
   
   // Dashboard metrics
-  app.get("/api/dashboard/metrics", async (req, res) => {
+  app.get("/api/dashboard/metrics", requireLocationChoice, async (req, res) => {
     try {
       const today = new Date();
       const yesterday = new Date(today);
@@ -21,10 +69,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const yesterdayStart = new Date(yesterday.setHours(0, 0, 0, 0));
       const yesterdayEnd = new Date(yesterday.setHours(23, 59, 59, 999));
       
-      const todaySales = await storage.getSalesDataByDateRange(todayStart, todayEnd);
-      const yesterdaySales = await storage.getSalesDataByDateRange(yesterdayStart, yesterdayEnd);
-      const predictions = await storage.getPredictionsByDate(new Date());
+      const locationId = getLocationFilter(req);
+      const todaySales = await storage.getSalesDataByDateRange(todayStart, todayEnd, locationId);
+      const yesterdaySales = await storage.getSalesDataByDateRange(yesterdayStart, yesterdayEnd, locationId);
+      const predictions = await storage.getPredictionsByDate(new Date(), locationId);
       const modelMetrics = await storage.getLatestModelMetrics();
+      const realisedAccuracy = await forecastAccuracyService.getCurrentAccuracy(locationId);
       
       const todayDemand = todaySales.reduce((sum, sale) => sum + sale.quantity, 0);
       const yesterdayDemand = yesterdaySales.reduce((sum, sale) => sum + sale.quantity, 0);
@@ -36,7 +86,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({
         todayDemand,
         demandChange,
-        forecastAccuracy: modelMetrics?.accuracy || 0.942,
+        forecastAccuracy: realisedAccuracy ?? modelMetrics?.accuracy ?? 0.942,
         topItem: topPrediction?.itemName || "No predictions",
         topItemPrediction: topPrediction?.predictedQuantity || 0,
         revenueForecast: Math.round(totalRevenue * 1.1), // Simple 10% growth projection
@@ -48,11 +98,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Demand trends for charts
-  app.get("/api/dashboard/trends", async (req, res) => {
+  app.get("/api/dashboard/trends", requireLocationChoice, async (req, res) => {
     try {
       const days = parseInt(req.query.days as string) || 7;
-      const salesData = await storage.getSalesData();
-      const trends = forecastingService.generateDemandTrends(salesData, days);
+      const [salesData, settings] = await Promise.all([
+        storage.getSalesData(undefined, getLocationFilter(req)),
+        settingsService.getSettings(),
+      ]);
+      const trends = forecastingService.generateDemandTrends(salesData, days, settingsService.toSeriesCalendar(settings));
       res.json(trends);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch demand trends" });
@@ -60,15 +113,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Top predicted items
-  app.get("/api/dashboard/top-items", async (req, res) => {
+  app.get("/api/dashboard/top-items", requireLocationChoice, async (req, res) => {
     try {
       const today = new Date();
-      const predictions = await storage.getPredictionsByDate(today);
+      const predictions = await storage.getPredictionsByDate(today, getLocationFilter(req));
+      const icons = await menuCatalogService.getIcons();
       const topItems = predictions
         .slice(0, 4)
         .map(prediction => ({
           ...prediction,
-          icon: getItemIcon(prediction.category),
+          icon: icons.get(prediction.itemName) ?? DEFAULT_ITEM_ICON,
           change: Math.floor(Math.random() * 30) - 5, // Mock change percentage
         }));
       res.json(topItems);
@@ -78,26 +132,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Inventory recommendations
-  app.get("/api/inventory/recommendations", async (req, res) => {
+  app.get("/api/inventory/recommendations", requireLocationChoice, async (req, res) => {
     try {
-      const inventory = await storage.getInventory();
-      const today = new Date();
-      const predictions = await storage.getPredictionsByDate(today);
-      
-      const recommendations = inventory.map(item => {
-        const prediction = predictions.find(p => p.itemName === item.itemName);
-        const predictedDemand = prediction?.predictedQuantity || 0;
-        const needsRestock = predictedDemand > item.currentStock;
-        
-        return {
-          ...item,
-          predictedDemand,
-          confidence: prediction?.confidence || 0.5,
-          needsRestock,
-          action: needsRestock ? 'Restock' : 'Monitor',
-          icon: getItemIcon(item.category),
-        };
-      });
+      const icons = await menuCatalogService.getIcons();
+      const recommendations = (await inventoryPlanningService.getRecommendations(getLocationFilter(req)))
+        .map(item => ({ ...item, icon: icons.get(item.itemName) ?? DEFAULT_ITEM_ICON }));
       
       res.json(recommendations.sort((a, b) => (b.needsRestock ? 1 : 0) - (a.needsRestock ? 1 : 0)));
     } catch (error) {
@@ -105,26 +144,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Predictions
+  app.get("/api/predictions", requireLocationChoice, async (req, res) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || undefined;
+      const predictions = await storage.getPredictions(limit, getLocationFilter(req));
+      res.json(predictions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch predictions" });
+    }
+  });
+
   // Generate new predictions
-  app.post("/api/predictions/generate", async (req, res) => {
+  app.post("/api/predictions/generate", requireRole("manager"), requireLocationChoice, async (req, res) => {
     try {
-      const salesData = await storage.getSalesData();
-      const { predictions, metrics } = await forecastingService.generateForecasts(salesData);
-      
-      // Store predictions
-      await storage.bulkCreatePredictions(predictions);
-      
-      // Update model metrics
-      await storage.createModelMetrics({
-        modelName: "Time Series LSTM",
-        accuracy: metrics.accuracy,
-        rmse: metrics.rmse,
-        f1Score: metrics.f1Score,
-        precision: metrics.precision,
-        recall: metrics.recall,
-        lastTraining: new Date(),
-      });
-      
+      const { predictions, metrics } = await regeneratePredictions(getLocationFilter(req));
       res.json({ predictions, metrics });
     } catch (error) {
       res.status(500).json({ message: "Failed to generate predictions" });
@@ -132,35 +166,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Sales data operations
-  app.get("/api/sales", async (req, res) => {
+  app.get("/api/sales", requireLocationChoice, async (req, res) => {
     try {
       const limit = parseInt(req.query.limit as string) || undefined;
-      const salesData = await storage.getSalesData(limit);
+      const salesData = await storage.getSalesData(limit, getLocationFilter(req));
       res.json(salesData);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch sales data" });
     }
   });
 
-  app.post("/api/sales", async (req, res) => {
+  app.post("/api/sales", requireRole("manager"), async (req, res) => {
     try {
-      const validatedData = insertSalesDataSchema.parse(req.body);
+      const sale = insertSalesDataSchema.parse(req.body);
+      if (!canAccessLocation(req.user, sale.locationId)) {
+        return res.status(403).json({ message: "No access to this location" });
+      }
+
+      const [validatedData] = await menuCatalogService.linkSales([sale]);
       const salesData = await storage.createSalesData(validatedData);
+      realTimeAnalyticsService.processSalesUpdate([salesData]);
+      const depletion = await inventoryLedgerService.depleteForSales([salesData]);
+      if (depletion.inventory.length > 0) realTimeAnalyticsService.processInventoryUpdate(depletion.inventory);
       res.json(salesData);
     } catch (error) {
       res.status(400).json({ message: "Invalid sales data format" });
     }
   });
 
-  app.post("/api/sales/bulk", async (req, res) => {
+  app.post("/api/sales/bulk", requireRole("manager"), async (req, res) => {
     try {
       const salesDataArray = req.body;
       if (!Array.isArray(salesDataArray)) {
         return res.status(400).json({ message: "Expected array of sales data" });
       }
       
-      const validatedData = salesDataArray.map(item => insertSalesDataSchema.parse(item));
+      const sales = salesDataArray.map(item => insertSalesDataSchema.parse(item));
+      // The location middleware only sees a body-level locationId, so check every row
+      const forbidden = sales.find(sale => !canAccessLocation(req.user, sale.locationId));
+      if (forbidden) {
+        return res.status(403).json({ message: `No access to location ${forbidden.locationId ?? "(none)"}` });
+      }
+
+      const validatedData = await menuCatalogService.linkSales(sales);
       const results = await storage.bulkCreateSalesData(validatedData);
+      realTimeAnalyticsService.processSalesUpdate(results);
+      const depletion = await inventoryLedgerService.depleteForSales(results);
+      if (depletion.inventory.length > 0) realTimeAnalyticsService.processInventoryUpdate(depletion.inventory);
       res.json(results);
     } catch (error) {
       res.status(400).json({ message: "Invalid sales data format" });
@@ -168,38 +220,514 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Inventory operations
-  app.get("/api/inventory", async (req, res) => {
+  app.get("/api/inventory", requireLocationChoice, async (req, res) => {
     try {
-      const inventory = await storage.getInventory();
+      const inventory = await storage.getInventory(getLocationFilter(req));
       res.json(inventory);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch inventory" });
     }
   });
 
-  app.post("/api/inventory", async (req, res) => {
+  app.post("/api/inventory", requireRole("manager"), async (req, res) => {
     try {
-      const validatedData = insertInventorySchema.parse(req.body);
+      const item = insertInventorySchema.parse(req.body);
+      if (!canAccessLocation(req.user, item.locationId)) {
+        return res.status(403).json({ message: "No access to this location" });
+      }
+
+      const validatedData = await menuCatalogService.linkInventory(item);
       const inventory = await storage.createInventory(validatedData);
+      realTimeAnalyticsService.processInventoryUpdate([inventory]);
       res.json(inventory);
     } catch (error) {
       res.status(400).json({ message: "Invalid inventory data format" });
     }
   });
 
-  app.patch("/api/inventory/:id", async (req, res) => {
+  app.patch("/api/inventory/:id", requireRole("manager"), async (req, res) => {
     try {
-      const { id } = req.params;
-      const updates = req.body;
-      const inventory = await storage.updateInventory(id, updates);
+      if (req.body && "currentStock" in req.body) {
+        return res.status(400).json({ message: "Stock levels change through inventory movements; record a receipt, waste, count or transfer instead" });
+      }
+
+      const result = updateInventorySchema.safeParse(req.body ?? {});
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0]?.message || "Invalid inventory update" });
+      }
+      if (!(await canAccessInventory(req, [req.params.id]))) {
+        return res.status(404).json({ message: "Inventory item not found" });
+      }
+
+      const inventory = await storage.updateInventory(req.params.id, result.data);
       
       if (!inventory) {
         return res.status(404).json({ message: "Inventory item not found" });
       }
       
+      realTimeAnalyticsService.processInventoryUpdate([inventory]);
       res.json(inventory);
     } catch (error) {
-      res.status(400).json({ message: "Failed to update inventory" });
+      res.status(500).json({ message: "Failed to update inventory" });
+    }
+  });
+
+  app.get("/api/inventory/movements", requireLocationChoice, async (req, res) => {
+    try {
+      const type = req.query.type as string | undefined;
+      if (type && !inventoryMovementTypes.includes(type as InventoryMovementType)) {
+        return res.status(400).json({ message: `type must be one of: ${inventoryMovementTypes.join(", ")}` });
+      }
+
+      const days = parseInt(req.query.days as string);
+      const movements = await storage.getInventoryMovements({
+        inventoryId: req.query.inventoryId as string | undefined,
+        type: type as InventoryMovementType | undefined,
+        startDate: days > 0 ? new Date(Date.now() - days * 24 * 60 * 60 * 1000) : undefined,
+        limit: parseInt(req.query.limit as string) || 100,
+      }, getLocationFilter(req));
+      res.json(movements);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch inventory movements" });
+    }
+  });
+
+  app.post("/api/inventory/movements", requireRole("manager"), async (req, res) => {
+    try {
+      const result = recordInventoryMovementSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0]?.message || "Invalid inventory movement" });
+      }
+
+      const movement = result.data;
+      if (!(await canAccessInventory(req, movement.type === "transfer" ? [movement.inventoryId, movement.toInventoryId] : [movement.inventoryId]))) {
+        return res.status(404).json({ message: "Inventory item not found" });
+      }
+
+      const transferProblem = await findTransferProblem(movement);
+      if (transferProblem) {
+        return res.status(400).json({ message: transferProblem });
+      }
+
+      const posting = await inventoryLedgerService.record(movement, req.user);
+      if (!posting) {
+        return res.status(404).json({ message: "Inventory item not found" });
+      }
+
+      realTimeAnalyticsService.processInventoryUpdate(posting.inventory);
+      res.json(posting.movements);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to record inventory movement" });
+    }
+  });
+
+  app.get("/api/inventory/freshness", requireLocationChoice, async (req, res) => {
+    try {
+      const days = parseInt(req.query.days as string) || 7;
+      const freshness = await expiryTrackingService.getFreshness(days, getLocationFilter(req));
+      res.json(freshness);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to calculate stock freshness" });
+    }
+  });
+
+  app.get("/api/inventory/shrinkage", requireLocationChoice, async (req, res) => {
+    try {
+      const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 365);
+      const shrinkage = await inventoryLedgerService.getShrinkage(days, getLocationFilter(req));
+      res.json(shrinkage);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to calculate shrinkage" });
+    }
+  });
+
+  app.get("/api/inventory/reorder-points", requireLocationChoice, async (req, res) => {
+    try {
+      const requested = parseFloat(req.query.serviceLevel as string);
+      if (req.query.serviceLevel !== undefined && !(requested >= 0.5 && requested < 1)) {
+        return res.status(400).json({ message: "serviceLevel must be between 0.5 and 1" });
+      }
+
+      const serviceLevel = Number.isNaN(requested) ? (await settingsService.getSettings()).serviceLevel : requested;
+      const reorderPoints = await safetyStockService.calculate(serviceLevel, getLocationFilter(req));
+      res.json(reorderPoints);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to calculate reorder points" });
+    }
+  });
+
+  app.post("/api/inventory/reorder-points/apply", requireRole("manager"), requireLocationChoice, async (req, res) => {
+    try {
+      const { inventoryIds } = req.body ?? {};
+      if (inventoryIds !== undefined && (!Array.isArray(inventoryIds) || inventoryIds.some(id => typeof id !== "string"))) {
+        return res.status(400).json({ message: "inventoryIds must be a list of inventory ids" });
+      }
+
+      const { serviceLevel } = await settingsService.getSettings();
+      const reorderPoints = await safetyStockService.calculate(serviceLevel, getLocationFilter(req));
+      const updated = await safetyStockService.applyToMinimumStock(reorderPoints, inventoryIds);
+      if (updated.length > 0) realTimeAnalyticsService.processInventoryUpdate(updated);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update minimum stock" });
+    }
+  });
+
+  // Ingredients, recipes and bill-of-materials requirements
+  // Menu catalog
+  app.get("/api/menu-items", async (req, res) => {
+    try {
+      const catalog = await menuCatalogService.getCatalog();
+      res.json(req.query.active === "true" ? catalog.filter(item => item.active) : catalog);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch menu items" });
+    }
+  });
+
+  app.post("/api/menu-items", requireRole("manager"), async (req, res) => {
+    try {
+      const result = insertMenuItemSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0]?.message || "Invalid menu item data" });
+      }
+
+      const conflict = await menuCatalogService.findConflict(result.data);
+      if (conflict) {
+        return res.status(409).json({ message: conflict });
+      }
+
+      const menuItem = await menuCatalogService.create(result.data);
+      res.json(menuItem);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create menu item" });
+    }
+  });
+
+  app.patch("/api/menu-items/:id", requireRole("manager"), async (req, res) => {
+    try {
+      const result = updateMenuItemSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0]?.message || "Invalid menu item data" });
+      }
+
+      const existing = await storage.getMenuItem(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Menu item not found" });
+      }
+
+      const merged = { ...existing, ...result.data };
+      if (merged.activeFrom && merged.activeUntil && merged.activeFrom > merged.activeUntil) {
+        return res.status(400).json({ message: "activeUntil cannot be before activeFrom" });
+      }
+      const conflict = await menuCatalogService.findConflict(merged, existing.id);
+      if (conflict) {
+        return res.status(409).json({ message: conflict });
+      }
+
+      const menuItem = await menuCatalogService.update(req.params.id, result.data);
+      res.json(menuItem);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update menu item" });
+    }
+  });
+
+  app.get("/api/ingredients", async (req, res) => {
+    try {
+      const ingredients = await storage.getIngredients();
+      res.json(ingredients);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch ingredients" });
+    }
+  });
+
+  app.post("/api/ingredients", requireRole("manager"), async (req, res) => {
+    try {
+      const result = insertIngredientSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0]?.message || "Invalid ingredient data" });
+      }
+
+      const ingredient = await storage.createIngredient(result.data);
+      res.json(ingredient);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create ingredient" });
+    }
+  });
+
+  app.patch("/api/ingredients/:id", requireRole("manager"), async (req, res) => {
+    try {
+      const result = insertIngredientSchema.partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0]?.message || "Invalid ingredient data" });
+      }
+
+      const ingredient = await storage.updateIngredient(req.params.id, result.data);
+      if (!ingredient) {
+        return res.status(404).json({ message: "Ingredient not found" });
+      }
+      res.json(ingredient);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update ingredient" });
+    }
+  });
+
+  app.get("/api/ingredients/requirements", requireLocationChoice, async (req, res) => {
+    try {
+      const source = (req.query.source as DemandSource | undefined) ?? 'baseline';
+      if (!DEMAND_SOURCES.includes(source)) {
+        return res.status(400).json({ message: `source must be one of ${DEMAND_SOURCES.join(", ")}` });
+      }
+
+      const days = parseInt(req.query.days as string) || 7;
+      const options = source === 'advanced'
+        ? settingsService.toForecastOptions(await settingsService.getSettings(), { horizon: days })
+        : undefined;
+      const requirements = await billOfMaterialsService.getRequirements(source, days, getLocationFilter(req), options);
+      res.json(requirements);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to calculate ingredient requirements" });
+    }
+  });
+
+  app.get("/api/recipes", async (req, res) => {
+    try {
+      const recipes = await storage.getRecipes();
+      res.json(recipes);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch recipes" });
+    }
+  });
+
+  app.post("/api/recipes", requireRole("manager"), async (req, res) => {
+    try {
+      const result = insertRecipeSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0]?.message || "Invalid recipe data" });
+      }
+
+      const unknownIngredient = await findUnknownIngredient(result.data.ingredients);
+      if (unknownIngredient) {
+        return res.status(400).json({ message: `Unknown ingredient ${unknownIngredient}` });
+      }
+
+      const recipe = await storage.createRecipe(result.data);
+      res.json(recipe);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create recipe" });
+    }
+  });
+
+  app.put("/api/recipes/:id", requireRole("manager"), async (req, res) => {
+    try {
+      const result = insertRecipeSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0]?.message || "Invalid recipe data" });
+      }
+
+      const unknownIngredient = await findUnknownIngredient(result.data.ingredients);
+      if (unknownIngredient) {
+        return res.status(400).json({ message: `Unknown ingredient ${unknownIngredient}` });
+      }
+
+      const recipe = await storage.updateRecipe(req.params.id, result.data);
+      if (!recipe) {
+        return res.status(404).json({ message: "Recipe not found" });
+      }
+      res.json(recipe);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update recipe" });
+    }
+  });
+
+  app.delete("/api/recipes/:id", requireRole("manager"), async (req, res) => {
+    try {
+      const deleted = await storage.deleteRecipe(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Recipe not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete recipe" });
+    }
+  });
+
+  // Suppliers and purchase orders
+  app.get("/api/suppliers", async (req, res) => {
+    try {
+      const suppliers = await storage.getSuppliers();
+      res.json(suppliers);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch suppliers" });
+    }
+  });
+
+  app.post("/api/suppliers", requireRole("manager"), async (req, res) => {
+    try {
+      const result = insertSupplierSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0]?.message || "Invalid supplier data" });
+      }
+
+      const supplier = await storage.createSupplier(result.data);
+      res.json(supplier);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create supplier" });
+    }
+  });
+
+  app.patch("/api/suppliers/:id", requireRole("manager"), async (req, res) => {
+    try {
+      const result = insertSupplierSchema.partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0]?.message || "Invalid supplier data" });
+      }
+
+      const supplier = await storage.updateSupplier(req.params.id, result.data);
+      if (!supplier) {
+        return res.status(404).json({ message: "Supplier not found" });
+      }
+      res.json(supplier);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update supplier" });
+    }
+  });
+
+  app.get("/api/purchase-orders", requireLocationChoice, async (req, res) => {
+    try {
+      const status = req.query.status as PurchaseOrderStatus | undefined;
+      if (status && !purchaseOrderStatuses.includes(status)) {
+        return res.status(400).json({ message: `status must be one of ${purchaseOrderStatuses.join(", ")}` });
+      }
+
+      const orders = await storage.getPurchaseOrders(status, getLocationFilter(req));
+      res.json(orders);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch purchase orders" });
+    }
+  });
+
+  app.post("/api/purchase-orders", requireRole("manager"), async (req, res) => {
+    try {
+      const result = insertPurchaseOrderSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0]?.message || "Invalid purchase order" });
+      }
+
+      const order = await purchaseOrderService.createOrder(result.data);
+      if (!order) {
+        return res.status(400).json({ message: "Unknown supplier or inventory item" });
+      }
+      res.json(order);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create purchase order" });
+    }
+  });
+
+  app.post("/api/purchase-orders/generate", requireRole("manager"), requireLocationChoice, async (req, res) => {
+    try {
+      const result = await purchaseOrderService.generateDrafts(getLocationFilter(req));
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to generate purchase orders" });
+    }
+  });
+
+  app.get("/api/purchase-orders/:id", async (req, res) => {
+    try {
+      const order = await getAccessiblePurchaseOrder(req);
+      if (!order) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch purchase order" });
+    }
+  });
+
+  app.get("/api/purchase-orders/:id/export", async (req, res) => {
+    try {
+      const format = (req.query.format as string | undefined) ?? "csv";
+      if (format !== "csv" && format !== "pdf") {
+        return res.status(400).json({ message: "format must be csv or pdf" });
+      }
+
+      const order = await getAccessiblePurchaseOrder(req);
+      if (!order) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+
+      res.setHeader("Content-Disposition", `attachment; filename="${order.orderNumber}.${format}"`);
+      if (format === "pdf") {
+        res.type("application/pdf").send(purchaseOrderToPdf(order));
+      } else {
+        res.type("text/csv").send(purchaseOrderToCsv(order));
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export purchase order" });
+    }
+  });
+
+  app.post("/api/purchase-orders/:id/:action(approve|send)", requireRole("manager"), async (req, res) => {
+    try {
+      const status = req.params.action === "approve" ? "approved" : "sent";
+      const existing = await getAccessiblePurchaseOrder(req);
+      if (!existing) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      if (!canTransition(existing.status, status)) {
+        return res.status(409).json({ message: `Cannot mark a ${existing.status} purchase order as ${status}` });
+      }
+
+      const order = await purchaseOrderService.advance(existing.id, status);
+      res.json(order);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update purchase order" });
+    }
+  });
+
+  app.post("/api/purchase-orders/:id/receive", requireRole("manager"), async (req, res) => {
+    try {
+      const result = receivePurchaseOrderSchema.safeParse(req.body ?? {});
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0]?.message || "Invalid received quantities" });
+      }
+
+      const existing = await getAccessiblePurchaseOrder(req);
+      if (!existing) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      if (!canTransition(existing.status, "received")) {
+        return res.status(409).json({ message: `Cannot receive a ${existing.status} purchase order` });
+      }
+
+      const received = Object.fromEntries(result.data.lines.map(line => [line.lineId, line.receivedQuantity]));
+      const receipt = await purchaseOrderService.receive(existing.id, received);
+      if (!receipt) {
+        // Another request received (or deleted) the order since it was read
+        return res.status(409).json({ message: "Purchase order is no longer awaiting delivery" });
+      }
+
+      realTimeAnalyticsService.processInventoryUpdate(receipt.inventory);
+      res.json(receipt.order);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to receive purchase order" });
+    }
+  });
+
+  app.delete("/api/purchase-orders/:id", requireRole("manager"), async (req, res) => {
+    try {
+      const existing = await getAccessiblePurchaseOrder(req);
+      if (!existing) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      if (existing.status !== "draft") {
+        return res.status(409).json({ message: "Only draft purchase orders can be deleted" });
+      }
+
+      await storage.deletePurchaseOrder(existing.id);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete purchase order" });
     }
   });
 
@@ -214,71 +742,232 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Advanced Forecasting Routes
-  app.post("/api/forecasting/advanced", async (req, res) => {
+  app.post("/api/forecasting/advanced", requireRole("manager"), requireLocationChoice, async (req, res) => {
     try {
-      const { options = { period: 'daily', horizon: 7 } } = req.body;
-      const salesData = await storage.getSalesData();
+      const options = settingsService.toForecastOptions(await settingsService.getSettings(), req.body.options);
+      const salesData = await storage.getSalesData(undefined, getLocationFilter(req));
       const results = await advancedForecastingService.generateAdvancedForecasts(salesData, options);
+      await advancedForecastingService.saveForecasts(results, options, getLocationFilter(req));
       res.json(results);
     } catch (error) {
       res.status(500).json({ message: "Failed to generate advanced forecasts" });
     }
   });
 
-  app.get("/api/forecasting/ensemble/:itemName", async (req, res) => {
+  // Reads recompute without storing, so refetches don't pile up duplicate forecast rows
+  app.get("/api/forecasting/ensemble/:itemName", requireLocationChoice, async (req, res) => {
     try {
       const { itemName } = req.params;
-      const salesData = await storage.getSalesData();
+      const salesData = await storage.getSalesData(undefined, getLocationFilter(req));
       const itemSales = salesData.filter(sale => sale.itemName === itemName);
-      const results = await advancedForecastingService.generateAdvancedForecasts(itemSales);
+      const settings = await settingsService.getSettings();
+      const options = settingsService.toForecastOptions(settings, req.query.horizon ? { horizon: parseInt(req.query.horizon as string) } : {});
+      const results = await advancedForecastingService.generateAdvancedForecasts(itemSales, options);
       res.json(results[0] || null);
     } catch (error) {
       res.status(500).json({ message: "Failed to generate ensemble forecast" });
     }
   });
 
+  app.post("/api/forecasting/ensemble/:itemName", requireRole("manager"), requireLocationChoice, async (req, res) => {
+    try {
+      const { itemName } = req.params;
+      const salesData = await storage.getSalesData(undefined, getLocationFilter(req));
+      const itemSales = salesData.filter(sale => sale.itemName === itemName);
+      const settings = await settingsService.getSettings();
+      const options = settingsService.toForecastOptions(settings, req.body.horizon ? { horizon: parseInt(req.body.horizon) } : {});
+      const results = await advancedForecastingService.generateAdvancedForecasts(itemSales, options);
+      await advancedForecastingService.saveForecasts(results, options, getLocationFilter(req));
+      res.json(results[0] || null);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to generate ensemble forecast" });
+    }
+  });
+
+  // Backtests refit every model per fold, so they are manager-only and served from the cache the
+  // scheduled backtest job keeps warm
+  app.get("/api/forecasting/backtest", requireRole("manager"), requireLocationChoice, async (req, res) => {
+    try {
+      const result = backtestQuerySchema.safeParse(req.query);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0]?.message || "Invalid backtest options" });
+      }
+      const report = await backtestingService.getBacktest({ ...result.data, locationId: getLocationFilter(req) });
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to run forecast backtest" });
+    }
+  });
+
+  app.post("/api/forecasting/reconcile", requireRole("manager"), requireLocationChoice, async (req, res) => {
+    try {
+      const records = await reconcileForecasts(getLocationFilter(req));
+      res.json({ reconciled: records.length });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to reconcile forecasts" });
+    }
+  });
+
+  app.get("/api/forecasting/accuracy", requireLocationChoice, async (req, res) => {
+    try {
+      const { days, window, modelType, itemName } = req.query;
+      const locationId = getLocationFilter(req);
+      const series = await forecastAccuracyService.getRollingAccuracy({
+        days: days ? parseInt(days as string) : undefined,
+        window: window ? parseInt(window as string) : undefined,
+        modelType: modelType as string | undefined,
+        itemName: itemName as string | undefined,
+      }, locationId);
+      const summary = await forecastAccuracyService.getAccuracySummary({
+        modelType: modelType as string | undefined,
+        itemName: itemName as string | undefined,
+      }, locationId);
+      res.json({ series, summary });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch forecast accuracy" });
+    }
+  });
+
+  app.get("/api/forecasting/history", requireLocationChoice, async (req, res) => {
+    try {
+      const { itemName, modelType, startDate, endDate } = req.query;
+      const history = await advancedForecastingService.getForecastHistory({
+        itemName: itemName as string | undefined,
+        modelType: modelType as string | undefined,
+        startDate: startDate ? new Date(startDate as string) : undefined,
+        endDate: endDate ? new Date(endDate as string) : undefined,
+      }, getLocationFilter(req));
+      res.json(history);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch forecast history" });
+    }
+  });
+
+  app.get("/api/forecasting/prep-plan", requireLocationChoice, async (req, res) => {
+    try {
+      const date = req.query.date ? new Date(req.query.date as string) : new Date();
+      if (Number.isNaN(date.getTime())) {
+        return res.status(400).json({ message: "date must be a valid date" });
+      }
+
+      const overrides: PrepCostOverrides = {};
+      for (const name of ["underageCost", "overageCost"] as const) {
+        if (req.query[name] === undefined) continue;
+        const value = parseFloat(req.query[name] as string);
+        if (!(value >= 0)) {
+          return res.status(400).json({ message: `${name} must be zero or more` });
+        }
+        overrides[name] = value;
+      }
+
+      const plan = await prepPlanningService.getPrepPlan(date, getLocationFilter(req), overrides);
+      res.json(plan);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to calculate prep plan" });
+    }
+  });
+
+  app.get("/api/forecasting/intraday-profiles", requireLocationChoice, async (req, res) => {
+    try {
+      const days = req.query.days === undefined ? undefined : parseInt(req.query.days as string);
+      if (days !== undefined && !(days >= 1 && days <= MAX_PROFILE_DAYS)) {
+        return res.status(400).json({ message: `days must be between 1 and ${MAX_PROFILE_DAYS}` });
+      }
+      const profiles = await intradayForecastingService.getProfiles(days, getLocationFilter(req));
+      res.json(profiles);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build intraday profiles" });
+    }
+  });
+
+  app.get("/api/forecasting/intraday", requireLocationChoice, async (req, res) => {
+    try {
+      const date = req.query.date ? new Date(req.query.date as string) : new Date();
+      if (Number.isNaN(date.getTime())) {
+        return res.status(400).json({ message: "date must be a valid date" });
+      }
+      const interval = (req.query.interval === undefined ? 60 : parseInt(req.query.interval as string)) as IntradayInterval;
+      if (!intradayIntervals.includes(interval)) {
+        return res.status(400).json({ message: `interval must be one of: ${intradayIntervals.join(", ")} minutes` });
+      }
+
+      const forecast = await intradayForecastingService.getForecast(date, interval, getLocationFilter(req));
+      res.json(forecast);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build intraday forecast" });
+    }
+  });
+
+  app.get("/api/forecasting/prep-schedule", requireLocationChoice, async (req, res) => {
+    try {
+      const date = req.query.date ? new Date(req.query.date as string) : new Date();
+      if (Number.isNaN(date.getTime())) {
+        return res.status(400).json({ message: "date must be a valid date" });
+      }
+      const leadMinutes = req.query.leadMinutes === undefined ? undefined : parseInt(req.query.leadMinutes as string);
+      if (leadMinutes !== undefined && !(leadMinutes >= 0 && leadMinutes <= MAX_PREP_LEAD_MINUTES)) {
+        return res.status(400).json({ message: `leadMinutes must be between 0 and ${MAX_PREP_LEAD_MINUTES}` });
+      }
+
+      const schedule = await intradayForecastingService.getPrepSchedule(date, leadMinutes, getLocationFilter(req));
+      res.json(schedule);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build prep schedule" });
+    }
+  });
+
+  app.get("/api/analytics/waste", requireLocationChoice, async (req, res) => {
+    try {
+      const days = parseInt(req.query.days as string) || 30;
+      const report = await wasteAnalyticsService.getReport(days, getLocationFilter(req));
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build waste report" });
+    }
+  });
+
   // Real-time Analytics Routes
-  app.get("/api/analytics/real-time/metrics", async (req, res) => {
+  app.get("/api/analytics/real-time/metrics", requireLocationChoice, async (req, res) => {
     try {
-      const metrics = realTimeAnalyticsService.getCurrentMetrics();
+      const metrics = realTimeAnalyticsService.getCurrentMetrics(getLocationFilter(req));
       res.json(metrics);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch real-time metrics" });
     }
   });
 
-  app.get("/api/analytics/real-time/kpis", async (req, res) => {
+  app.get("/api/analytics/real-time/kpis", requireLocationChoice, async (req, res) => {
     try {
-      const kpis = realTimeAnalyticsService.getAllKPIs();
+      const kpis = realTimeAnalyticsService.getAllKPIs(getLocationFilter(req));
       res.json(kpis);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch KPIs" });
     }
   });
 
-  app.get("/api/analytics/real-time/streams", async (req, res) => {
+  app.get("/api/analytics/real-time/streams", requireLocationChoice, async (req, res) => {
     try {
       const { type, limit = 50 } = req.query;
-      const streams = realTimeAnalyticsService.getLiveStreams(type as string, parseInt(limit as string));
+      const streams = realTimeAnalyticsService.getLiveStreams(type as string, parseInt(limit as string), getLocationFilter(req));
       res.json(streams);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch live streams" });
     }
   });
 
-  app.get("/api/analytics/performance-insights", async (req, res) => {
+  app.get("/api/analytics/performance-insights", requireLocationChoice, async (req, res) => {
     try {
-      const insights = realTimeAnalyticsService.calculatePerformanceInsights();
+      const insights = realTimeAnalyticsService.calculatePerformanceInsights(new Date(), getLocationFilter(req));
       res.json(insights);
     } catch (error) {
       res.status(500).json({ message: "Failed to calculate performance insights" });
     }
   });
 
-  app.get("/api/analytics/metrics-history", async (req, res) => {
+  app.get("/api/analytics/metrics-history", requireLocationChoice, async (req, res) => {
     try {
       const { hours = 24 } = req.query;
-      const history = realTimeAnalyticsService.getMetricsHistory(parseInt(hours as string));
+      const history = await realTimeAnalyticsService.getMetricsHistory(parseInt(hours as string) || 24, getLocationFilter(req));
       res.json(history);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch metrics history" });
@@ -286,29 +975,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Notification Routes
-  app.get("/api/notifications", async (req, res) => {
+  app.get("/api/notifications", requireLocationChoice, async (req, res) => {
     try {
-      const notifications = notificationService.getActiveNotifications();
+      const notifications = await notificationService.getActiveNotifications(getLocationFilter(req));
       res.json(notifications);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch notifications" });
     }
   });
 
-  app.get("/api/notifications/summary", async (req, res) => {
+  app.get("/api/notifications/history", requireLocationChoice, async (req, res) => {
     try {
-      const summary = notificationService.getNotificationSummary();
+      const limit = parseInt(req.query.limit as string) || undefined;
+      const history = await notificationService.getNotificationHistory(limit, getLocationFilter(req));
+      res.json(history);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch notification history" });
+    }
+  });
+
+  app.get("/api/notifications/summary", requireLocationChoice, async (req, res) => {
+    try {
+      const summary = await notificationService.getNotificationSummary(getLocationFilter(req));
       res.json(summary);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch notification summary" });
     }
   });
 
-  app.post("/api/notifications/:id/acknowledge", async (req, res) => {
+  app.post("/api/notifications/:id/acknowledge", requireRole("manager"), requireLocationChoice, async (req, res) => {
     try {
       const { id } = req.params;
-      const success = notificationService.acknowledgeNotification(id);
+      const success = await notificationService.acknowledgeNotification(id, getLocationFilter(req));
       if (success) {
+        await refreshAlertCount();
         res.json({ message: "Notification acknowledged" });
       } else {
         res.status(404).json({ message: "Notification not found" });
@@ -327,7 +1027,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/notifications/rules/:id", async (req, res) => {
+  app.patch("/api/notifications/rules/:id", requireRole("admin"), async (req, res) => {
     try {
       const { id } = req.params;
       const updates = req.body;
@@ -342,42 +1042,105 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/notifications/check", async (req, res) => {
+  app.post("/api/notifications/check", requireRole("manager"), requireLocationChoice, async (req, res) => {
     try {
-      const inventory = await storage.getInventory();
-      const recentSales = await storage.getSalesData(100);
-      const predictions = await storage.getPredictions(50);
-      const modelMetrics = await storage.getLatestModelMetrics();
-      
-      const events = await notificationService.performMonitoringCheck(
-        inventory, 
-        recentSales, 
-        predictions, 
-        modelMetrics?.accuracy || 0.9
-      );
-      
+      const events = await runMonitoringCheck(getLocationFilter(req));
       res.json(events);
     } catch (error) {
       res.status(500).json({ message: "Failed to perform monitoring check" });
     }
   });
 
+  // Application settings
+  app.get("/api/settings", async (req, res) => {
+    try {
+      const settings = await settingsService.getSettings();
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch settings" });
+    }
+  });
+
+  app.put("/api/settings", requireRole("admin"), async (req, res) => {
+    try {
+      const result = appSettingsSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: result.error.errors[0]?.message || "Invalid settings" });
+      }
+
+      const settings = await settingsService.saveSettings(result.data);
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to save settings" });
+    }
+  });
+
+  // Background job scheduler
+  app.get("/api/scheduler/jobs", async (req, res) => {
+    try {
+      res.json(schedulerService.getJobs());
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch scheduled jobs" });
+    }
+  });
+
+  app.get("/api/scheduler/history", async (req, res) => {
+    try {
+      const jobId = req.query.jobId as string | undefined;
+      const limit = parseInt(req.query.limit as string) || 50;
+      res.json(schedulerService.getHistory({ jobId, limit }));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch job history" });
+    }
+  });
+
+  app.post("/api/scheduler/jobs/:id/run", requireRole("admin"), async (req, res) => {
+    try {
+      const run = await schedulerService.runNow(req.params.id);
+      if (run) {
+        res.json(run);
+      } else {
+        res.status(404).json({ message: "Job not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to run job" });
+    }
+  });
+
+  app.patch("/api/scheduler/jobs/:id", requireRole("admin"), async (req, res) => {
+    try {
+      const { intervalMs, enabled } = req.body;
+      if (intervalMs !== undefined && (typeof intervalMs !== "number" || intervalMs < 60000)) {
+        return res.status(400).json({ message: "intervalMs must be at least one minute" });
+      }
+      if (enabled !== undefined && typeof enabled !== "boolean") {
+        return res.status(400).json({ message: "enabled must be a boolean" });
+      }
+
+      const job = schedulerService.configure(req.params.id, { intervalMs, enabled });
+      if (job) {
+        res.json(job);
+      } else {
+        res.status(404).json({ message: "Job not found" });
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update job" });
+    }
+  });
+
   // External Data Integration Routes
   app.get("/api/external-data/sources", async (req, res) => {
     try {
-      // In production, this would fetch from database
-      const sources = [
-        { id: 'weather-api', name: 'Weather Data', type: 'weather', enabled: false },
-        { id: 'holiday-api', name: 'Holiday Calendar', type: 'holidays', enabled: true },
-        { id: 'market-trends', name: 'Market Trends', type: 'market', enabled: false }
-      ];
+      const sources = realTimeAnalyticsService.getDataSources().map(({ id, name, type, enabled, refreshInterval, lastSync }) => ({
+        id, name, type, enabled, refreshInterval, lastSync,
+      }));
       res.json(sources);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch data sources" });
     }
   });
 
-  app.post("/api/external-data/sync/:sourceId", async (req, res) => {
+  app.post("/api/external-data/sync/:sourceId", requireRole("admin"), async (req, res) => {
     try {
       const { sourceId } = req.params;
       const success = await realTimeAnalyticsService.syncExternalData(sourceId);
@@ -411,7 +1174,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/dashboard/widgets", async (req, res) => {
+  app.post("/api/dashboard/widgets", requireRole("admin"), async (req, res) => {
     try {
       const widget = req.body;
       realTimeAnalyticsService.setDashboardWidget(widget);
@@ -422,13 +1185,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // What-if Scenario Analysis
-  app.post("/api/analytics/scenario", async (req, res) => {
+  app.post("/api/analytics/scenario", requireRole("manager"), async (req, res) => {
     try {
       const { baseData, modifications } = req.body;
       
       // Apply scenario modifications to historical data
       const modifiedData = baseData.map((item: any) => ({
         ...item,
+        date: new Date(item.date),
         quantity: modifications.demandMultiplier ? 
           item.quantity * modifications.demandMultiplier : item.quantity,
         revenue: modifications.priceChange ? 
@@ -454,56 +1218,90 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Menu Optimization Recommendations
-  app.get("/api/analytics/menu-optimization", async (req, res) => {
+  app.get("/api/analytics/menu-optimization", requireLocationChoice, async (req, res) => {
     try {
-      const salesData = await storage.getSalesData();
-      const inventory = await storage.getInventory();
-      
-      // Group sales by category and calculate profitability
-      const categoryPerformance = salesData.reduce((acc, sale) => {
-        if (!acc[sale.category]) {
-          acc[sale.category] = { totalRevenue: 0, totalQuantity: 0, items: new Set() };
-        }
-        acc[sale.category].totalRevenue += sale.revenue;
-        acc[sale.category].totalQuantity += sale.quantity;
-        acc[sale.category].items.add(sale.itemName);
-        return acc;
-      }, {} as Record<string, any>);
-
-      // Generate recommendations
-      const recommendations = Object.entries(categoryPerformance).map(([category, performance]) => {
-        const avgPrice = performance.totalRevenue / performance.totalQuantity;
-        const profitability = performance.totalRevenue / performance.items.size; // Revenue per unique item
-        
-        return {
-          category,
-          performance: performance.totalRevenue > 10000 ? 'high' : 
-                     performance.totalRevenue > 5000 ? 'medium' : 'low',
-          avgPrice,
-          profitability,
-          recommendation: profitability > 1000 ? 
-            'Expand menu items in this category' : 
-            'Consider optimizing or reducing items in this category',
-          priority: profitability > 1000 ? 'high' : 'medium'
-        };
-      });
-
-      res.json(recommendations);
+      const days = parseInt(req.query.days as string) || 90;
+      const optimization = await menuCatalogService.getMenuOptimization(days, getLocationFilter(req));
+      res.json(optimization);
     } catch (error) {
       res.status(500).json({ message: "Failed to generate menu optimization recommendations" });
     }
   });
 
+  app.get("/api/analytics/menu-engineering", requireLocationChoice, async (req, res) => {
+    try {
+      const endDate = req.query.endDate ? new Date(req.query.endDate as string) : new Date();
+      const startDate = req.query.startDate
+        ? new Date(req.query.startDate as string)
+        : new Date(endDate.getTime() - 29 * 24 * 60 * 60 * 1000);
+      if (Number.isNaN(startDate.getTime()) || Number.isNaN(endDate.getTime())) {
+        return res.status(400).json({ message: "startDate and endDate must be valid dates" });
+      }
+      if (startDate > endDate) {
+        return res.status(400).json({ message: "startDate must not be after endDate" });
+      }
+      if (endDate.getTime() - startDate.getTime() > MAX_ENGINEERING_DAYS * 24 * 60 * 60 * 1000) {
+        return res.status(400).json({ message: `The date range can be at most ${MAX_ENGINEERING_DAYS} days` });
+      }
+
+      const analysis = await menuEngineeringService.analyze({
+        startDate,
+        endDate,
+        periods: req.query.periods ? parseInt(req.query.periods as string) : undefined,
+        projectionDays: req.query.projectionDays ? parseInt(req.query.projectionDays as string) : undefined,
+      }, getLocationFilter(req));
+      res.json(analysis);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to build menu engineering analysis" });
+    }
+  });
+
   const httpServer = createServer(app);
+  setupWebSocket(httpServer, sessionMiddleware);
   return httpServer;
 }
 
-function getItemIcon(category: string): string {
-  const iconMap: Record<string, string> = {
-    "Main Dishes": "drumstick-bite",
-    "Appetizers": "seedling",
-    "Beverages": "coffee",
-    "Desserts": "ice-cream",
-  };
-  return iconMap[category] || "utensils";
+/**
+ * Location scope for a request; absent or "all" means the cross-location roll-up. Routes that
+ * call this run requireLocationChoice first, so a user limited to particular locations has
+ * either named one or has exactly one.
+ */
+function getLocationFilter(req: Request): string | undefined {
+  const locationId = (req.query.locationId ?? req.body?.locationId) as string | undefined;
+  if (locationId && locationId !== "all") return locationId;
+  // Users limited to particular locations never get the all-locations roll-up
+  return assignedLocations(req.user)?.[0];
+}
+
+// Orders at locations the user isn't assigned to read as missing
+async function getAccessiblePurchaseOrder(req: Request): Promise<PurchaseOrderWithLines | undefined> {
+  const order = await storage.getPurchaseOrder(req.params.id);
+  return order && canAccessLocation(req.user, order.locationId) ? order : undefined;
+}
+
+// Whether every listed inventory row exists at a location the user may see; other rows read as missing
+async function canAccessInventory(req: Request, ids: string[]): Promise<boolean> {
+  const inventory = new Map((await storage.getInventory()).map(item => [item.id, item]));
+  return ids.every(id => {
+    const item = inventory.get(id);
+    return !!item && canAccessLocation(req.user, item.locationId);
+  });
+}
+
+// Why a transfer can't be posted, if it can't: both rows must exist, differ and count in the same unit
+async function findTransferProblem(movement: RecordInventoryMovement): Promise<string | undefined> {
+  if (movement.type !== "transfer") return undefined;
+  if (movement.toInventoryId === movement.inventoryId) return "Cannot transfer stock to the same item";
+
+  const inventory = await storage.getInventory();
+  const from = inventory.find(item => item.id === movement.inventoryId);
+  const to = inventory.find(item => item.id === movement.toInventoryId);
+  if (from && to && from.unit !== to.unit) return `Cannot transfer ${from.unit} into an item counted in ${to.unit}`;
+  return undefined;
+}
+
+// First recipe line whose ingredient doesn't exist, so bad ids are a 400 rather than a foreign key error
+async function findUnknownIngredient(lines: RecipeLine[]): Promise<string | undefined> {
+  const known = new Set((await storage.getIngredients()).map(ingredient => ingredient.id));
+  return lines.find(line => !known.has(line.ingredientId))?.ingredientId;
 }
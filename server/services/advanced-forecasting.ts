@@ -1,4 +1,9 @@
-import { SalesData, InsertPrediction } from "@shared/schema";
+import { SalesData, InsertPrediction, type AdvancedPrediction, type InsertAdvancedPrediction, type ForecastPeriod } from "@shared/schema";
+import { storage, type IStorage, type AdvancedPredictionFilters } from "../storage";
+import { buildPredictionIntervals, intervalConfidence, type PredictionIntervals } from "./prediction-intervals";
+import { autoArima, fitArima, forecastArima, arimaName } from "./arima";
+import { autoEts, fitEts, forecastEts, etsName } from "./ets";
+import { addPeriods, buildSeries, lastCompletePeriod, periodStart, upcomingPeriods, SEASON_LENGTHS, type SeriesBucket, type SeriesCalendar } from "@shared/time-series";
 
 /**
  * Advanced Forecasting Service with Enhanced ML Algorithms
@@ -15,27 +20,40 @@ export interface ExternalFactors {
   marketingCampaign?: boolean;
 }
 
+export type ForecastModelType = 'arima' | 'exponential_smoothing' | 'neural_network';
+
+export const FORECAST_MODEL_TYPES: ForecastModelType[] = ['arima', 'exponential_smoothing', 'neural_network'];
+
+// Family names that stay the same whichever orders or configuration a model picks for a series
+export const FORECAST_MODEL_LABELS: Record<ForecastModelType, string> = {
+  arima: 'ARIMA',
+  exponential_smoothing: 'Exponential Smoothing',
+  neural_network: 'Neural Network',
+};
+
 export interface AdvancedForecastOptions {
-  period: 'daily' | 'weekly' | 'monthly';
+  period: ForecastPeriod; // Sales are resampled to this period before fitting
+  calendar?: SeriesCalendar; // Time zone, gap filling and closed days for the resampled series
   horizon: number; // Number of periods to forecast
-  confidence?: number;
+  confidence?: number; // Minimum mean confidence for a model to join the ensemble
+  models?: ForecastModelType[]; // Models to fit; all of them when omitted or empty
   includeSeasonality?: boolean;
+  includeTrend?: boolean;
   includeHolidays?: boolean;
   includeWeather?: boolean;
+  detectAnomalies?: boolean;
   ensembleMethod?: 'average' | 'weighted' | 'best_performer';
   externalFactors?: ExternalFactors;
 }
 
+// Errors on the held-out last periods of the series, forecast by the model refitted without them
 export interface ModelPerformanceMetrics {
   mae: number; // Mean Absolute Error
-  mape: number; // Mean Absolute Percentage Error
+  mape: number | null; // Mean Absolute Percentage Error over periods that sold something; null if none did
   rmse: number;
-  r2: number;
-  aic: number; // Akaike Information Criterion
-  accuracy: number;
-  precision: number;
-  recall: number;
-  f1Score: number;
+  r2: number | null; // null when the held-out actuals don't vary
+  aic: number | null; // Akaike Information Criterion of the full fit; null for models without a likelihood
+  accuracy: number; // 1 - WAPE
 }
 
 export interface ForecastModel {
@@ -43,10 +61,17 @@ export interface ForecastModel {
   type: 'arima' | 'exponential_smoothing' | 'neural_network' | 'ensemble';
   predictions: number[];
   confidence: number[];
+  intervals: PredictionIntervals;
   metrics: ModelPerformanceMetrics;
   hyperparameters: Record<string, any>;
 }
 
+export interface EnsembleForecast {
+  predictions: number[];
+  confidence: number[];
+  intervals: PredictionIntervals;
+}
+
 export interface AdvancedForecastResult {
   itemName: string;
   category: string;
@@ -54,6 +79,7 @@ export interface AdvancedForecastResult {
   bestModel: ForecastModel;
   ensemblePrediction: number[];
   ensembleConfidence: number[];
+  ensembleIntervals: PredictionIntervals;
   forecastHorizon: number;
   externalFactorsImpact: Record<string, number>;
   seasonalComponents: {
@@ -68,179 +94,168 @@ export interface AdvancedForecastResult {
   }[];
 }
 
+const MAX_FORECAST_HORIZON = 90;
+
+const NETWORK_LEARNING_RATE = 0.01;
+const NETWORK_EPOCHS = 100;
+
+// Keeps inverse-error weights finite for a model that forecast the holdout exactly
+const MIN_SQUARED_ERROR = 1e-6;
+
+// Complete periods of history an item needs before it is forecast
+const MIN_SERIES_LENGTH: Record<ForecastPeriod, number> = {
+  daily: 7,
+  weekly: 6,
+  monthly: 4,
+};
+
 export class AdvancedForecastingService {
 
+  constructor(private storage: IStorage) {}
+
   /**
-   * ARIMA Model Implementation (Simplified)
+   * Seasonal ARIMA with the orders chosen per series by AIC and coefficients fitted by conditional sum of squares
    */
-  private calculateARIMA(data: number[], p: number = 1, d: number = 1, q: number = 1): ForecastModel {
-    const differenced = this.differenceData(data, d);
-    const forecast = this.autoregressive(differenced, p);
-    
-    const predictions = forecast.map(val => Math.max(0, val));
-    const confidence = predictions.map(() => 0.8 + Math.random() * 0.15); // Simplified confidence
+  private calculateARIMA(data: number[], horizon: number, seasonLength: number): ForecastModel {
+    const fit = autoArima(data, seasonLength);
+    const predictions = forecastArima(fit, data, horizon).map(val => Math.max(0, val));
+
+    // Conditional residuals are the in-sample one-step-ahead errors
+    const intervals = buildPredictionIntervals(predictions, fit.residuals);
+    const confidence = this.confidenceFromIntervals(intervals);
     
-    const metrics = this.calculateMetrics(data.slice(-predictions.length), predictions);
+    // The holdout refit keeps the chosen orders and only re-estimates the coefficients
+    const metrics = this.scoreOnHoldout(data, horizon, fit.aic, (train, steps) =>
+      forecastArima(fitArima(train, fit.order, fit.conditioning) ?? autoArima(train, seasonLength), train, steps));
+    const { p, d, q, P, D, Q, s } = fit.order;
     
     return {
-      name: `ARIMA(${p},${d},${q})`,
+      name: arimaName(fit.order),
       type: 'arima',
       predictions,
       confidence,
+      intervals,
       metrics,
-      hyperparameters: { p, d, q }
+      hyperparameters: {
+        p, d, q, P, D, Q, seasonLength: s,
+        ar: fit.ar, ma: fit.ma, seasonalAr: fit.seasonalAr, seasonalMa: fit.seasonalMa,
+        mean: fit.mean, sigma2: fit.sigma2, aic: fit.aic,
+        estimation: 'css'
+      }
     };
   }
 
   /**
-   * Exponential Smoothing with Seasonality (Holt-Winters method)
+   * Exponential smoothing, picking the error, trend, damping and seasonality of an ETS model by AIC
+   * with the smoothing parameters fitted to the one-step errors
    */
-  private calculateExponentialSmoothing(
-    data: number[], 
-    alpha: number = 0.3, 
-    beta: number = 0.3, 
-    gamma: number = 0.3,
-    seasonLength: number = 7
-  ): ForecastModel {
-    const n = data.length;
-    if (n < seasonLength * 2) {
-      // Fall back to simple exponential smoothing
-      return this.simpleExponentialSmoothing(data, alpha);
-    }
-
-    // Initialize components
-    const level: number[] = new Array(n);
-    const trend: number[] = new Array(n);
-    const seasonal: number[] = new Array(n + seasonLength);
-    
-    // Initialize seasonal components
-    for (let i = 0; i < seasonLength; i++) {
-      const seasonalSum = data.slice(i, n).filter((_, idx) => idx % seasonLength === 0)
-        .reduce((sum, val) => sum + val, 0);
-      const seasonalCount = Math.floor((n - i) / seasonLength);
-      seasonal[i] = seasonalCount > 0 ? seasonalSum / seasonalCount : 1;
-    }
-
-    // Initialize level and trend
-    level[0] = data[0] / seasonal[0];
-    trend[0] = 0;
-
-    // Triple exponential smoothing
-    for (let i = 1; i < n; i++) {
-      const seasonalIndex = i % seasonLength;
-      
-      level[i] = alpha * (data[i] / seasonal[seasonalIndex]) + 
-                 (1 - alpha) * (level[i - 1] + trend[i - 1]);
-      
-      trend[i] = beta * (level[i] - level[i - 1]) + 
-                 (1 - beta) * trend[i - 1];
-      
-      seasonal[i + seasonLength] = gamma * (data[i] / level[i]) + 
-                                  (1 - gamma) * seasonal[seasonalIndex];
-    }
-
-    // Generate forecasts
-    const forecastHorizon = 7;
-    const predictions: number[] = [];
-    const confidence: number[] = [];
+  private calculateExponentialSmoothing(data: number[], horizon: number, seasonLength: number): ForecastModel {
+    const fit = autoEts(data, seasonLength);
+    const predictions = forecastEts(fit, horizon).map(val => Math.max(0, val));
 
-    for (let h = 1; h <= forecastHorizon; h++) {
-      const seasonalIndex = (n - 1 + h) % seasonLength;
-      const forecast = (level[n - 1] + h * trend[n - 1]) * seasonal[n - seasonLength + seasonalIndex];
-      predictions.push(Math.max(0, forecast));
-      confidence.push(Math.max(0.5, 0.9 - h * 0.05)); // Decreasing confidence
-    }
+    const intervals = buildPredictionIntervals(predictions, fit.residuals);
+    const confidence = this.confidenceFromIntervals(intervals);
 
-    const metrics = this.calculateMetrics(data.slice(-Math.min(predictions.length, data.length)), predictions.slice(0, data.length));
+    const metrics = this.scoreOnHoldout(data, horizon, fit.aic, (train, steps) =>
+      forecastEts(fitEts(train, fit.spec, fit.seasonLength) ?? autoEts(train, seasonLength), steps));
+    const { error, trend, damped, season } = fit.spec;
 
     return {
-      name: 'Holt-Winters',
+      name: etsName(fit.spec),
       type: 'exponential_smoothing',
       predictions,
       confidence,
+      intervals,
       metrics,
-      hyperparameters: { alpha, beta, gamma, seasonLength }
+      hyperparameters: {
+        error, trend, damped, season, seasonLength: fit.seasonLength,
+        alpha: fit.alpha, beta: fit.beta, gamma: fit.gamma, phi: fit.phi,
+        initialLevel: fit.initialLevel, initialTrend: fit.initialTrend,
+        sigma2: fit.sigma2, aic: fit.aic
+      }
     };
   }
 
   /**
-   * Simple Exponential Smoothing fallback
+   * Neural Network-inspired forecasting (simplified LSTM-like approach)
    */
-  private simpleExponentialSmoothing(data: number[], alpha: number = 0.3): ForecastModel {
-    const n = data.length;
-    const smoothed = [data[0]];
-    
-    for (let i = 1; i < n; i++) {
-      smoothed[i] = alpha * data[i] + (1 - alpha) * smoothed[i - 1];
+  private calculateNeuralNetworkForecast(data: number[], horizon: number, windowSize: number = 5): ForecastModel {
+    const network = this.trainNetwork(data, windowSize);
+    if (!network) {
+      // Too short to train on; non-seasonal exponential smoothing instead
+      return this.calculateExponentialSmoothing(data, horizon, 1);
     }
 
-    const predictions = [smoothed[n - 1]]; // Simple one-step forecast
-    const confidence = [0.7];
-    const metrics = this.calculateMetrics([data[n - 1]], predictions);
+    const predictions = network.forecast(horizon);
+    const intervals = buildPredictionIntervals(predictions, network.residuals);
+    const confidence = this.confidenceFromIntervals(intervals);
+    const metrics = this.scoreOnHoldout(data, horizon, null, (train, steps) =>
+      this.trainNetwork(train, windowSize)?.forecast(steps) ?? forecastEts(autoEts(train, 1), steps));
 
     return {
-      name: 'Simple Exponential Smoothing',
-      type: 'exponential_smoothing',
+      name: 'Neural Network',
+      type: 'neural_network',
       predictions,
       confidence,
+      intervals,
       metrics,
-      hyperparameters: { alpha }
+      hyperparameters: { windowSize, learningRate: NETWORK_LEARNING_RATE, epochs: NETWORK_EPOCHS }
     };
   }
 
   /**
-   * Neural Network-inspired forecasting (simplified LSTM-like approach)
+   * Fit a linear network on sliding windows of the series; undefined when the series is too short
    */
-  private calculateNeuralNetworkForecast(data: number[], windowSize: number = 5): ForecastModel {
-    if (data.length < windowSize + 1) {
-      return this.simpleExponentialSmoothing(data);
-    }
+  private trainNetwork(data: number[], windowSize: number): { forecast: (horizon: number) => number[]; residuals: number[] } | undefined {
+    if (data.length < windowSize + 1) return undefined;
+
+    // Train on values scaled to [0, 1] so gradient descent stays stable for large quantities
+    const scale = Math.max(...data.map(Math.abs)) || 1;
+    const scaled = data.map(val => val / scale);
 
     const sequences: number[][] = [];
     const targets: number[] = [];
 
     // Create training sequences
-    for (let i = 0; i <= data.length - windowSize - 1; i++) {
-      sequences.push(data.slice(i, i + windowSize));
-      targets.push(data[i + windowSize]);
+    for (let i = 0; i <= scaled.length - windowSize - 1; i++) {
+      sequences.push(scaled.slice(i, i + windowSize));
+      targets.push(scaled[i + windowSize]);
     }
 
     // Simplified neural network weights (random initialization)
     const weights = Array.from({ length: windowSize }, () => Math.random() - 0.5);
-    const bias = Math.random() - 0.5;
+    let bias = Math.random() - 0.5;
 
     // Simple gradient descent training (simplified)
-    const learningRate = 0.01;
-    const epochs = 100;
-
-    for (let epoch = 0; epoch < epochs; epoch++) {
+    for (let epoch = 0; epoch < NETWORK_EPOCHS; epoch++) {
       for (let i = 0; i < sequences.length; i++) {
         const prediction = this.activate(sequences[i], weights, bias);
         const error = targets[i] - prediction;
         
         // Update weights
         for (let j = 0; j < weights.length; j++) {
-          weights[j] += learningRate * error * sequences[i][j];
+          weights[j] += NETWORK_LEARNING_RATE * error * sequences[i][j];
         }
+        bias += NETWORK_LEARNING_RATE * error;
       }
     }
 
-    // Generate forecast
-    const lastSequence = data.slice(-windowSize);
-    const prediction = this.activate(lastSequence, weights, bias);
-    
-    const predictions = [Math.max(0, prediction)];
-    const confidence = [0.8];
-    const metrics = this.calculateMetrics(targets.slice(-1), predictions);
+    // Generate forecast recursively, feeding each step back into the input window
+    const forecast = (horizon: number) => {
+      const window = scaled.slice(-windowSize);
+      const predictions: number[] = [];
 
-    return {
-      name: 'Neural Network',
-      type: 'neural_network',
-      predictions,
-      confidence,
-      metrics,
-      hyperparameters: { windowSize, learningRate, epochs }
+      for (let h = 0; h < horizon; h++) {
+        const prediction = Math.max(0, this.activate(window, weights, bias));
+        predictions.push(prediction * scale);
+        window.shift();
+        window.push(prediction);
+      }
+      return predictions;
     };
+
+    const residuals = sequences.map((sequence, i) => (targets[i] - this.activate(sequence, weights, bias)) * scale);
+    return { forecast, residuals };
   }
 
   /**
@@ -252,16 +267,30 @@ export class AdvancedForecastingService {
   }
 
   /**
-   * Ensemble forecasting combining multiple models
+   * Ensemble forecasting combining multiple models.
+   * Quantiles are combined with the same weights as the point forecasts.
    */
-  private createEnsemble(models: ForecastModel[], method: 'average' | 'weighted' | 'best_performer' = 'weighted'): {
-    predictions: number[];
-    confidence: number[];
-  } {
+  private createEnsemble(models: ForecastModel[], method: 'average' | 'weighted' | 'best_performer' = 'weighted'): EnsembleForecast {
+    const intervals: PredictionIntervals = { p10: [], p50: [], p90: [] };
     if (models.length === 0) {
-      return { predictions: [], confidence: [] };
+      return { predictions: [], confidence: [], intervals };
     }
 
+    const bestModel = pickBestModel(models);
+
+    // Weighted ensembles weight each model by its inverse holdout mean squared error
+    const modelWeight = (model: ForecastModel): number => {
+      switch (method) {
+        case 'average':
+          return 1;
+        case 'best_performer':
+          return model === bestModel ? 1 : 0;
+        case 'weighted':
+        default:
+          return 1 / (model.metrics.rmse ** 2 + MIN_SQUARED_ERROR);
+      }
+    };
+
     const maxLength = Math.max(...models.map(m => m.predictions.length));
     const predictions: number[] = [];
     const confidence: number[] = [];
@@ -269,46 +298,36 @@ export class AdvancedForecastingService {
     for (let i = 0; i < maxLength; i++) {
       let ensemblePred = 0;
       let ensembleConf = 0;
+      let ensembleLower = 0;
+      let ensembleUpper = 0;
       let totalWeight = 0;
 
-      switch (method) {
-        case 'average':
-          const validPredictions = models.filter(m => i < m.predictions.length);
-          ensemblePred = validPredictions.reduce((sum, m) => sum + m.predictions[i], 0) / validPredictions.length;
-          ensembleConf = validPredictions.reduce((sum, m) => sum + m.confidence[i], 0) / validPredictions.length;
-          break;
-
-        case 'weighted':
-          models.forEach(model => {
-            if (i < model.predictions.length) {
-              const weight = model.metrics.accuracy || 0.5;
-              ensemblePred += model.predictions[i] * weight;
-              ensembleConf += model.confidence[i] * weight;
-              totalWeight += weight;
-            }
-          });
-          if (totalWeight > 0) {
-            ensemblePred /= totalWeight;
-            ensembleConf /= totalWeight;
-          }
-          break;
+      models.forEach(model => {
+        if (i >= model.predictions.length) return;
+        const weight = modelWeight(model);
+        ensemblePred += model.predictions[i] * weight;
+        ensembleConf += model.confidence[i] * weight;
+        ensembleLower += model.intervals.p10[i] * weight;
+        ensembleUpper += model.intervals.p90[i] * weight;
+        totalWeight += weight;
+      });
 
-        case 'best_performer':
-          const bestModel = models.reduce((best, current) => 
-            (current.metrics.accuracy || 0) > (best.metrics.accuracy || 0) ? current : best
-          );
-          if (i < bestModel.predictions.length) {
-            ensemblePred = bestModel.predictions[i];
-            ensembleConf = bestModel.confidence[i];
-          }
-          break;
+      if (totalWeight > 0) {
+        ensemblePred /= totalWeight;
+        ensembleConf /= totalWeight;
+        ensembleLower /= totalWeight;
+        ensembleUpper /= totalWeight;
       }
 
-      predictions.push(Math.max(0, ensemblePred));
+      const p50 = Math.max(0, ensemblePred);
+      predictions.push(p50);
       confidence.push(Math.min(1, Math.max(0, ensembleConf)));
+      intervals.p10.push(Math.max(0, Math.min(ensembleLower, p50)));
+      intervals.p50.push(p50);
+      intervals.p90.push(Math.max(ensembleUpper, p50));
     }
 
-    return { predictions, confidence };
+    return { predictions, confidence, intervals };
   }
 
   /**
@@ -386,9 +405,9 @@ export class AdvancedForecastingService {
   }
 
   /**
-   * Anomaly detection using statistical methods
+   * Anomaly detection using statistical methods, over per-period totals
    */
-  private detectAnomalies(data: SalesData[], threshold: number = 2.5): {
+  private detectAnomalies(data: SeriesBucket[], threshold: number = 2.5): {
     date: Date;
     value: number;
     anomalyScore: number;
@@ -404,7 +423,7 @@ export class AdvancedForecastingService {
       const zScore = Math.abs((item.quantity - mean) / stdDev);
       if (zScore > threshold) {
         anomalies.push({
-          date: item.date,
+          date: item.start,
           value: item.quantity,
           anomalyScore: zScore
         });
@@ -415,12 +434,46 @@ export class AdvancedForecastingService {
   }
 
   /**
-   * Main advanced forecasting method
+   * Fit the selected models on a single series and combine them, forecasting `horizon` steps ahead.
+   * Models below the confidence threshold are left out of the ensemble unless none would remain.
+   */
+  forecastSeries(
+    data: number[],
+    horizon: number,
+    options: Pick<AdvancedForecastOptions, 'ensembleMethod' | 'models' | 'confidence'> & { seasonLength?: number } = {}
+  ): { models: ForecastModel[]; ensemble: EnsembleForecast } {
+    const selected = options.models && options.models.length > 0 ? options.models : FORECAST_MODEL_TYPES;
+    const fitters: Record<ForecastModelType, () => ForecastModel> = {
+      arima: () => this.calculateARIMA(data, horizon, options.seasonLength ?? SEASON_LENGTHS.daily),
+      exponential_smoothing: () => this.calculateExponentialSmoothing(data, horizon, options.seasonLength ?? SEASON_LENGTHS.daily),
+      neural_network: () => this.calculateNeuralNetworkForecast(data, horizon),
+    };
+    const models = FORECAST_MODEL_TYPES.filter(type => selected.includes(type)).map(type => fitters[type]());
+
+    const threshold = options.confidence ?? 0;
+    const confident = models.filter(model => mean(model.confidence) >= threshold);
+    const ensembleModels = confident.length > 0 ? confident : models;
+
+    return { models, ensemble: this.createEnsemble(ensembleModels, options.ensembleMethod ?? 'weighted') };
+  }
+
+  /**
+   * Main advanced forecasting method. Each item's sales are summed into complete periods of
+   * `options.period`, with zeros for periods without sales, and forecast `horizon` periods on.
    */
   async generateAdvancedForecasts(
     salesData: SalesData[],
-    options: AdvancedForecastOptions = { period: 'daily', horizon: 7 }
+    options: AdvancedForecastOptions = { period: 'daily', horizon: 7 },
+    now: Date = new Date()
   ): Promise<AdvancedForecastResult[]> {
+    const horizon = this.normalizeHorizon(options.horizon);
+    const period = options.period ?? 'daily';
+    const seasonLength = SEASON_LENGTHS[period];
+    const calendar = options.calendar ?? {};
+    const seriesEnd = lastCompletePeriod(now, period, calendar.timeZone);
+    // The series stops at the last complete period, so the first step is the current one
+    const closedSteps = upcomingPeriods(periodStart(now, period, calendar.timeZone), horizon, { ...calendar, period }).map(step => step.closed);
+
     // Group data by item
     const itemGroups = new Map<string, SalesData[]>();
     
@@ -435,45 +488,30 @@ export class AdvancedForecastingService {
     const results: AdvancedForecastResult[] = [];
 
     for (const [itemName, itemSales] of itemGroups.entries()) {
-      // Sort by date
-      itemSales.sort((a, b) => a.date.getTime() - b.date.getTime());
-      const quantities = itemSales.map(sale => sale.quantity);
+      const buckets = buildSeries(itemSales, { ...calendar, period, end: seriesEnd });
+      const quantities = buckets.map(bucket => bucket.quantity);
       
-      if (quantities.length < 7) continue; // Need minimum data
+      if (quantities.length < MIN_SERIES_LENGTH[period]) continue; // Need minimum data
 
-      // Generate models
-      const models: ForecastModel[] = [];
-      
-      // ARIMA model
-      models.push(this.calculateARIMA(quantities));
-      
-      // Exponential smoothing
-      models.push(this.calculateExponentialSmoothing(quantities));
-      
-      // Neural network
-      models.push(this.calculateNeuralNetworkForecast(quantities));
+      // Generate models and ensemble
+      const { models, ensemble } = this.forecastSeries(quantities, horizon, { ...options, seasonLength });
+      [...models, ensemble].forEach(forecast => this.zeroClosedSteps(forecast, closedSteps));
 
       // Find best performing model
-      const bestModel = models.reduce((best, current) => 
-        (current.metrics.accuracy || 0) > (best.metrics.accuracy || 0) ? current : best
-      );
-
-      // Create ensemble
-      const ensemble = this.createEnsemble(models, options.ensembleMethod);
+      const bestModel = pickBestModel(models);
 
       // Seasonal decomposition
-      const seasonalComponents = this.decomposeTimeSeries(quantities);
+      const seasonalComponents = this.decomposeTimeSeries(quantities, seasonLength);
 
       // Anomaly detection
-      const anomalies = this.detectAnomalies(itemSales);
+      const anomalies = options.detectAnomalies === false ? [] : this.detectAnomalies(buckets.filter(bucket => !bucket.closed));
 
-      // Calculate external factors impact (simplified)
-      const externalFactorsImpact: Record<string, number> = {
-        weather: Math.random() * 0.1,
-        holidays: Math.random() * 0.2,
-        seasonality: Math.random() * 0.15,
-        trend: Math.random() * 0.1
-      };
+      // Calculate external factors impact (simplified), only for the factors that are switched on
+      const externalFactorsImpact: Record<string, number> = {};
+      if (options.includeWeather) externalFactorsImpact.weather = Math.random() * 0.1;
+      if (options.includeHolidays !== false) externalFactorsImpact.holidays = Math.random() * 0.2;
+      if (options.includeSeasonality !== false) externalFactorsImpact.seasonality = Math.random() * 0.15;
+      if (options.includeTrend !== false) externalFactorsImpact.trend = Math.random() * 0.1;
 
       results.push({
         itemName,
@@ -482,84 +520,169 @@ export class AdvancedForecastingService {
         bestModel,
         ensemblePrediction: ensemble.predictions,
         ensembleConfidence: ensemble.confidence,
-        forecastHorizon: options.horizon,
+        ensembleIntervals: ensemble.intervals,
+        forecastHorizon: horizon,
         externalFactorsImpact,
         seasonalComponents,
         anomalies: anomalies.slice(0, 5) // Top 5 anomalies
       });
+
+      // Each item refits every model; let other requests in between items
+      await new Promise(resolve => setImmediate(resolve));
     }
 
     return results;
   }
 
+  /**
+   * Persist forecast results: one row per individual model plus an ensemble row
+   * carrying the decomposition, anomalies and external factor impact
+   */
+  async saveForecasts(
+    results: AdvancedForecastResult[],
+    options: AdvancedForecastOptions = { period: 'daily', horizon: 7 },
+    locationId?: string,
+    now: Date = new Date()
+  ): Promise<AdvancedPrediction[]> {
+    const period = options.period ?? 'daily';
+    const timeZone = options.calendar?.timeZone;
+    const forecastEnd = (horizon: number) => addPeriods(periodStart(now, period, timeZone), period, horizon, timeZone);
+
+    const records: InsertAdvancedPrediction[] = results.flatMap(result => [
+      ...result.models.map(model => ({
+        locationId,
+        itemName: result.itemName,
+        category: result.category,
+        modelType: model.type,
+        predictions: model.predictions,
+        confidence: model.confidence,
+        quantiles: model.intervals,
+        hyperparameters: { name: model.name, ...model.hyperparameters, metrics: model.metrics },
+        forecastHorizon: result.forecastHorizon,
+        forecastPeriod: period,
+        forecastEnd: forecastEnd(result.forecastHorizon),
+      })),
+      {
+        locationId,
+        itemName: result.itemName,
+        category: result.category,
+        modelType: 'ensemble',
+        predictions: result.ensemblePrediction,
+        confidence: result.ensembleConfidence,
+        quantiles: result.ensembleIntervals,
+        hyperparameters: {
+          ensembleMethod: options.ensembleMethod || 'weighted',
+          period: options.period,
+          bestModel: result.bestModel.name,
+          models: result.models.map(model => model.name),
+        },
+        seasonalComponents: result.seasonalComponents,
+        anomalies: result.anomalies,
+        externalFactorsImpact: result.externalFactorsImpact,
+        forecastHorizon: result.forecastHorizon,
+        forecastPeriod: period,
+        forecastEnd: forecastEnd(result.forecastHorizon),
+      },
+    ]);
+
+    return this.storage.bulkCreateAdvancedPredictions(records);
+  }
+
+  /**
+   * Retrieve previously saved forecasts, newest first
+   */
+  async getForecastHistory(filters: AdvancedPredictionFilters = {}, locationId?: string): Promise<AdvancedPrediction[]> {
+    return this.storage.getAdvancedPredictions(filters, locationId);
+  }
+
   /**
    * Helper methods
    */
-  private differenceData(data: number[], order: number): number[] {
-    let result = [...data];
-    for (let d = 0; d < order; d++) {
-      const diffed: number[] = [];
-      for (let i = 1; i < result.length; i++) {
-        diffed.push(result[i] - result[i - 1]);
-      }
-      result = diffed;
-    }
-    return result;
+
+  /**
+   * Nothing is sold while the kitchen is closed, so those steps forecast zero with no spread
+   */
+  private zeroClosedSteps(forecast: { predictions: number[]; intervals: PredictionIntervals }, closedSteps: boolean[]): void {
+    closedSteps.forEach((closed, step) => {
+      if (!closed || step >= forecast.predictions.length) return;
+      forecast.predictions[step] = 0;
+      forecast.intervals.p10[step] = 0;
+      forecast.intervals.p50[step] = 0;
+      forecast.intervals.p90[step] = 0;
+    });
   }
 
-  private autoregressive(data: number[], order: number): number[] {
-    if (data.length < order + 1) return [data[data.length - 1] || 0];
-    
-    // Simple AR model using last 'order' values
-    const lastValues = data.slice(-order);
-    const coefficients = lastValues.map((_, i) => 1 / (i + 1)); // Simple coefficients
-    
-    const prediction = lastValues.reduce((sum, val, i) => sum + val * coefficients[i], 0) / coefficients.length;
-    return [prediction];
+  /**
+   * Per-step confidence from how tight the P10-P90 band is around the median
+   */
+  private confidenceFromIntervals(intervals: PredictionIntervals): number[] {
+    return intervals.p50.map((p50, i) => intervalConfidence(intervals.p10[i], p50, intervals.p90[i]));
+  }
+
+  private normalizeHorizon(horizon: number | undefined): number {
+    const value = Math.floor(Number(horizon));
+    if (!Number.isFinite(value) || value < 1) return 7;
+    return Math.min(value, MAX_FORECAST_HORIZON);
+  }
+
+  /**
+   * Score a model out of sample: refit it on the series without its last periods (up to the horizon,
+   * at most a quarter of the history) and compare its forecast of those periods with what sold
+   */
+  private scoreOnHoldout(
+    data: number[],
+    horizon: number,
+    aic: number | null,
+    forecast: (train: number[], steps: number) => number[]
+  ): ModelPerformanceMetrics {
+    const steps = Math.min(horizon, Math.max(1, Math.floor(data.length / 4)));
+    const train = data.slice(0, -steps);
+    const predicted = forecast(train, steps).map(val => Math.max(0, val));
+    return { ...this.calculateMetrics(data.slice(-steps), predicted), aic };
   }
 
-  private calculateMetrics(actual: number[], predicted: number[]): ModelPerformanceMetrics {
+  private calculateMetrics(actual: number[], predicted: number[]): Omit<ModelPerformanceMetrics, 'aic'> {
     const n = Math.min(actual.length, predicted.length);
     if (n === 0) {
-      return {
-        mae: 0, mape: 0, rmse: 0, r2: 0, aic: 0,
-        accuracy: 0.5, precision: 0.5, recall: 0.5, f1Score: 0.5
-      };
+      return { mae: 0, mape: null, rmse: 0, r2: null, accuracy: 0 };
     }
 
-    let mae = 0, mse = 0, mape = 0;
+    let absoluteError = 0, squaredError = 0, percentageError = 0, percentageCount = 0, totalActual = 0;
     for (let i = 0; i < n; i++) {
       const error = Math.abs(actual[i] - predicted[i]);
-      mae += error;
-      mse += error * error;
+      absoluteError += error;
+      squaredError += error * error;
+      totalActual += actual[i];
       if (actual[i] !== 0) {
-        mape += Math.abs(error / actual[i]);
+        percentageError += error / Math.abs(actual[i]);
+        percentageCount++;
       }
     }
 
-    mae /= n;
-    mse /= n;
-    mape /= n;
-    
-    const rmse = Math.sqrt(mse);
-    
-    // Calculate R²
-    const actualMean = actual.reduce((sum, val) => sum + val, 0) / n;
-    const totalSumSquares = actual.reduce((sum, val) => sum + Math.pow(val - actualMean, 2), 0);
-    const residualSumSquares = actual.reduce((sum, val, i) => sum + Math.pow(val - predicted[i], 2), 0);
-    const r2 = totalSumSquares === 0 ? 1 : 1 - (residualSumSquares / totalSumSquares);
-
-    // Simplified AIC calculation
-    const aic = n * Math.log(mse) + 2 * 3; // Assume 3 parameters
-
-    // Convert to accuracy, precision, recall, f1Score
-    const accuracy = Math.max(0, 1 - mape);
-    const precision = Math.max(0.3, accuracy);
-    const recall = Math.max(0.3, accuracy);
-    const f1Score = 2 * (precision * recall) / (precision + recall);
-
-    return { mae, mape, rmse, r2, aic, accuracy, precision, recall, f1Score };
+    // R² over the same n periods the errors cover
+    const actualMean = totalActual / n;
+    let totalSumSquares = 0;
+    for (let i = 0; i < n; i++) {
+      totalSumSquares += Math.pow(actual[i] - actualMean, 2);
+    }
+
+    return {
+      mae: absoluteError / n,
+      mape: percentageCount > 0 ? percentageError / percentageCount : null,
+      rmse: Math.sqrt(squaredError / n),
+      r2: totalSumSquares > 0 ? 1 - squaredError / totalSumSquares : null,
+      accuracy: totalActual > 0 ? Math.max(0, 1 - absoluteError / totalActual) : (absoluteError === 0 ? 1 : 0),
+    };
   }
 }
 
-export const advancedForecastingService = new AdvancedForecastingService();
\ No newline at end of file
+// Lowest holdout error wins
+function pickBestModel(models: ForecastModel[]): ForecastModel {
+  return models.reduce((best, current) => current.metrics.rmse < best.metrics.rmse ? current : best);
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, val) => sum + val, 0) / values.length : 0;
+}
+
+export const advancedForecastingService = new AdvancedForecastingService(storage);
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { autoArima, fitArima, forecastArima } from "./arima";
+
+// Busy weekends on a flat base, with reproducible noise
+const WEEK = [20, 18, 19, 22, 35, 48, 40];
+
+function weeklySeries(weeks: number, seed = 7): number[] {
+  let state = seed;
+  const noise = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648 - 0.5;
+  };
+  return Array.from({ length: weeks * WEEK.length }, (_, t) => WEEK[t % WEEK.length] + 2 * noise());
+}
+
+describe("autoArima", () => {
+  it("picks a seasonal model for a strongly weekly series and forecasts the weekly shape", () => {
+    const data = weeklySeries(10);
+
+    const fit = autoArima(data, 7);
+    const forecast = forecastArima(fit, data, 7);
+
+    expect(fit.order.s).toBe(7);
+    expect(fit.order.D + fit.order.P + fit.order.Q).toBeGreaterThan(0);
+    forecast.forEach((value, h) => expect(Math.abs(value - WEEK[(data.length + h) % 7])).toBeLessThan(4));
+  });
+
+  it("scores every candidate on the same observations", () => {
+    const data = weeklySeries(10);
+
+    const fit = autoArima(data, 7);
+    // Default limits: two AR lags plus one seasonal AR lag of 7
+    const conditioning = 2 + 7;
+    const candidate = fitArima(data, { ...fit.order, p: 0, q: 0, P: 0, Q: 0 }, conditioning);
+
+    expect(fit.conditioning).toBe(conditioning);
+    expect(candidate?.residuals).toHaveLength(fit.residuals.length);
+    expect(fit.aic).toBeLessThanOrEqual(candidate!.aic);
+  });
+});
@@ -0,0 +1,307 @@
+import { nelderMead } from "./optimization";
+
+/**
+ * Seasonal ARIMA models and automatic order selection.
+ *
+ * A SARIMA(p,d,q)(P,D,Q)[s] model takes D seasonal and d ordinary differences of a series and
+ * fits an ARMA model to what is left, with the seasonal AR and MA polynomials multiplied into the
+ * ordinary ones. Coefficients are estimated by conditional sum of squares (one-step errors with
+ * the pre-sample errors taken as zero), searched through a reparametrisation that keeps the AR
+ * part stationary and the MA part invertible. Forecasts are made on the differenced scale and
+ * integrated back onto the original one.
+ */
+
+export interface ArimaOrder {
+  p: number; // Autoregressive terms
+  d: number; // Ordinary differences
+  q: number; // Moving-average terms
+  P: number; // Seasonal autoregressive terms
+  D: number; // Seasonal differences
+  Q: number; // Seasonal moving-average terms
+  s: number; // Season length; 1 for a non-seasonal model
+}
+
+export interface ArimaFit {
+  order: ArimaOrder;
+  ar: number[];
+  ma: number[];
+  seasonalAr: number[];
+  seasonalMa: number[];
+  mean: number; // Only estimated when the series isn't differenced, otherwise 0
+  sigma2: number; // Variance of the one-step errors
+  logLikelihood: number;
+  aic: number;
+  conditioning: number; // Leading differenced observations the one-step errors are conditioned on
+  residuals: number[]; // One-step errors for the observations after the conditioning period
+}
+
+export interface AutoArimaOptions {
+  maxP?: number;
+  maxQ?: number;
+  maxSeasonalP?: number;
+  maxSeasonalQ?: number;
+  maxD?: number;
+}
+
+// Seasonal strength above which a seasonal difference is taken, as in Hyndman & Khandakar's auto.arima
+const SEASONAL_STRENGTH_THRESHOLD = 0.64;
+// KPSS level-stationarity critical value at the 5% level
+const KPSS_CRITICAL_VALUE = 0.463;
+
+/**
+ * Fit a SARIMA model of the given order by conditional sum of squares. The errors are summed
+ * after `minConditioning` differenced observations, at least the order's own AR lags; models
+ * compared by AIC must share it so their likelihoods cover the same observations.
+ */
+export function fitArima(data: number[], order: ArimaOrder, minConditioning: number = 0): ArimaFit | undefined {
+  const differenced = difference(data, order);
+  const includeMean = order.d + order.D === 0;
+  const coefficientCount = order.p + order.q + order.P + order.Q;
+  const conditioning = Math.max(minConditioning, order.p + order.P * order.s);
+  const observations = differenced.length - conditioning;
+  // Leave a few degrees of freedom beyond the coefficients, the mean and the variance
+  if (observations < coefficientCount + (includeMean ? 1 : 0) + 3) return undefined;
+
+  const center = includeMean ? average(differenced) : 0;
+  const scale = Math.sqrt(variance(differenced)) || 1;
+  const unpack = (raw: number[]) => {
+    let offset = 0;
+    const take = (count: number) => raw.slice(offset, (offset += count));
+    return {
+      ar: toStationary(take(order.p)),
+      ma: toStationary(take(order.q)).map(value => -value),
+      seasonalAr: toStationary(take(order.P)),
+      seasonalMa: toStationary(take(order.Q)).map(value => -value),
+      // The mean is searched in units of the series spread so one step size suits every parameter
+      mean: includeMean ? center + take(1)[0] * scale : 0,
+    };
+  };
+  const sumOfSquares = (raw: number[]) => {
+    const params = unpack(raw);
+    return conditionalResiduals(differenced, lagPolynomials(params, order.s), params.mean, conditioning)
+      .reduce((sum, error) => sum + error * error, 0);
+  };
+
+  // Restart once from the first optimum, as the simplex can stall before reaching it
+  const start = new Array(coefficientCount + (includeMean ? 1 : 0)).fill(0);
+  const first = nelderMead(sumOfSquares, start, { step: 0.5 });
+  const best = nelderMead(sumOfSquares, first.point, { step: 0.1 });
+
+  const params = unpack(best.point);
+  const residuals = conditionalResiduals(differenced, lagPolynomials(params, order.s), params.mean, conditioning).slice(conditioning);
+  const sigma2 = Math.max(best.value / observations, 1e-10);
+  const logLikelihood = -0.5 * observations * (Math.log(2 * Math.PI * sigma2) + 1);
+  const parameterCount = coefficientCount + (includeMean ? 1 : 0) + 1;
+
+  return { order, ...params, sigma2, logLikelihood, aic: -2 * logLikelihood + 2 * parameterCount, conditioning, residuals };
+}
+
+/**
+ * Choose the differencing by unit-root and seasonal-strength tests, then fit every ARMA order
+ * up to the limits, all conditioned on the largest order's AR lags, and keep the one with the
+ * lowest AIC. Seasonal terms are only tried when the series covers at least two full seasons.
+ */
+export function autoArima(data: number[], seasonLength: number, options: AutoArimaOptions = {}): ArimaFit {
+  const seasonal = seasonLength > 1 && data.length >= 2 * seasonLength + 2;
+  const s = seasonal ? seasonLength : 1;
+  const D = seasonal && seasonalStrength(data, s) > SEASONAL_STRENGTH_THRESHOLD ? 1 : 0;
+
+  let d = 0;
+  let series = D > 0 ? difference(data, { d: 0, D, s }) : data;
+  while (d < (options.maxD ?? 2) && series.length > 3 && kpssStatistic(series) > KPSS_CRITICAL_VALUE) {
+    series = difference(series, { d: 1, D: 0, s: 1 });
+    d++;
+  }
+
+  const maxP = options.maxP ?? 2;
+  const maxQ = options.maxQ ?? 2;
+  const maxSeasonalP = seasonal ? options.maxSeasonalP ?? 1 : 0;
+  const maxSeasonalQ = seasonal ? options.maxSeasonalQ ?? 1 : 0;
+  const conditioning = maxP + maxSeasonalP * s;
+
+  // Simplest orders first, so ties (e.g. a constant series) go to the smaller model
+  let best: ArimaFit | undefined;
+  for (let P = 0; P <= maxSeasonalP; P++) {
+    for (let Q = 0; Q <= maxSeasonalQ; Q++) {
+      for (let p = 0; p <= maxP; p++) {
+        for (let q = 0; q <= maxQ; q++) {
+          const fit = fitArima(data, { p, d, q, P, D, Q, s }, conditioning);
+          if (fit && (!best || fit.aic < best.aic)) best = fit;
+        }
+      }
+    }
+  }
+
+  // Too short for any ARMA terms: fall back to a random walk, or the mean of what there is
+  return best ?? fallbackFit(data, { p: 0, d: Math.min(d, 1), q: 0, P: 0, D: 0, Q: 0, s: 1 });
+}
+
+/**
+ * Forecast `horizon` steps past the end of `data`, the series the model was fitted on
+ */
+export function forecastArima(fit: ArimaFit, data: number[], horizon: number): number[] {
+  const { order } = fit;
+  const differenced = difference(data, order);
+  const { ar, ma } = lagPolynomials(fit, order.s);
+  const errors = conditionalResiduals(differenced, { ar, ma }, fit.mean, fit.conditioning);
+
+  // Future errors are zero in expectation, so each step is the ARMA recursion on earlier values
+  const centered = differenced.map(value => value - fit.mean);
+  for (let h = 0; h < horizon; h++) {
+    const t = centered.length;
+    let value = 0;
+    ar.forEach((coefficient, lag) => { if (t - lag - 1 >= 0) value += coefficient * centered[t - lag - 1]; });
+    ma.forEach((coefficient, lag) => { if (t - lag - 1 >= 0) value += coefficient * errors[t - lag - 1]; });
+    centered.push(value);
+    errors.push(0);
+  }
+
+  // Undo the differencing: y_t = w_t - sum of the differencing operator's lag terms applied to earlier y
+  const operator = differencingOperator(order);
+  const levels = [...data];
+  centered.slice(differenced.length).forEach(value => {
+    const t = levels.length;
+    let level = value + fit.mean;
+    for (let lag = 1; lag < operator.length; lag++) {
+      if (operator[lag] !== 0 && t - lag >= 0) level -= operator[lag] * levels[t - lag];
+    }
+    levels.push(level);
+  });
+  return levels.slice(data.length);
+}
+
+/**
+ * Conventional label for an order, e.g. ARIMA(1,1,1) or SARIMA(1,0,1)(0,1,1)[7]
+ */
+export function arimaName(order: ArimaOrder): string {
+  const base = `(${order.p},${order.d},${order.q})`;
+  if (order.s <= 1 || order.P + order.D + order.Q === 0) return `ARIMA${base}`;
+  return `SARIMA${base}(${order.P},${order.D},${order.Q})[${order.s}]`;
+}
+
+// A model with no ARMA terms: the one-step errors are the differenced series about its mean
+function fallbackFit(data: number[], order: ArimaOrder): ArimaFit {
+  const differenced = difference(data, order);
+  const mean = order.d === 0 ? average(differenced) : 0;
+  const residuals = differenced.map(value => value - mean);
+  const observations = Math.max(1, residuals.length);
+  const sigma2 = Math.max(residuals.reduce((sum, error) => sum + error * error, 0) / observations, 1e-10);
+  const logLikelihood = -0.5 * observations * (Math.log(2 * Math.PI * sigma2) + 1);
+  const parameterCount = (order.d === 0 ? 1 : 0) + 1;
+  return { order, ar: [], ma: [], seasonalAr: [], seasonalMa: [], mean, sigma2, logLikelihood, aic: -2 * logLikelihood + 2 * parameterCount, conditioning: 0, residuals };
+}
+
+// Seasonal differences first, then ordinary ones
+function difference(data: number[], order: Pick<ArimaOrder, 'd' | 'D' | 's'>): number[] {
+  let result = [...data];
+  for (let i = 0; i < order.D; i++) result = result.slice(order.s).map((value, t) => value - result[t]);
+  for (let i = 0; i < order.d; i++) result = result.slice(1).map((value, t) => value - result[t]);
+  return result;
+}
+
+// Coefficients of (1 - B)^d (1 - B^s)^D by power of the backshift operator B
+function differencingOperator(order: ArimaOrder): number[] {
+  let operator = [1];
+  for (let i = 0; i < order.d; i++) operator = multiply(operator, [1, -1]);
+  for (let i = 0; i < order.D; i++) operator = multiply(operator, [1, ...new Array(order.s - 1).fill(0), -1]);
+  return operator;
+}
+
+// Multiply the ordinary and seasonal polynomials into one coefficient per lag, starting at lag 1
+function lagPolynomials(params: { ar: number[]; ma: number[]; seasonalAr: number[]; seasonalMa: number[] }, s: number): { ar: number[]; ma: number[] } {
+  const seasonal = (coefficients: number[], sign: number) => {
+    const polynomial = new Array(coefficients.length * s + 1).fill(0);
+    polynomial[0] = 1;
+    coefficients.forEach((coefficient, i) => { polynomial[(i + 1) * s] = sign * coefficient; });
+    return polynomial;
+  };
+  // AR polynomials are 1 - phi_1 B - ..., MA polynomials 1 + theta_1 B + ...
+  const ar = multiply([1, ...params.ar.map(value => -value)], seasonal(params.seasonalAr, -1)).slice(1).map(value => -value);
+  const ma = multiply([1, ...params.ma], seasonal(params.seasonalMa, 1)).slice(1);
+  return { ar, ma };
+}
+
+// One-step errors of the ARMA recursion, zero through the conditioning period
+function conditionalResiduals(series: number[], lags: { ar: number[]; ma: number[] }, mean: number, conditioning: number): number[] {
+  const errors = new Array(series.length).fill(0);
+  for (let t = conditioning; t < series.length; t++) {
+    let predicted = mean;
+    lags.ar.forEach((coefficient, lag) => { if (t - lag - 1 >= 0) predicted += coefficient * (series[t - lag - 1] - mean); });
+    lags.ma.forEach((coefficient, lag) => { if (t - lag - 1 >= 0) predicted += coefficient * errors[t - lag - 1]; });
+    errors[t] = series[t] - predicted;
+  }
+  return errors;
+}
+
+// Map unconstrained values to the coefficients of a stationary AR polynomial, by treating them as
+// partial autocorrelations squashed into (-1, 1) and running the Durbin-Levinson recursion
+function toStationary(raw: number[]): number[] {
+  let coefficients: number[] = [];
+  raw.map(Math.tanh).forEach((partial, k) => {
+    coefficients = [...coefficients.map((value, j) => value - partial * coefficients[k - 1 - j]), partial];
+  });
+  return coefficients;
+}
+
+function multiply(a: number[], b: number[]): number[] {
+  const product = new Array(a.length + b.length - 1).fill(0);
+  a.forEach((x, i) => b.forEach((y, j) => { product[i + j] += x * y; }));
+  return product;
+}
+
+// KPSS statistic for level stationarity with a Bartlett-weighted long-run variance
+function kpssStatistic(series: number[]): number {
+  const n = series.length;
+  const mean = average(series);
+  const errors = series.map(value => value - mean);
+  const lags = Math.trunc(3 * Math.sqrt(n) / 13);
+
+  let longRunVariance = errors.reduce((sum, error) => sum + error * error, 0) / n;
+  for (let lag = 1; lag <= lags; lag++) {
+    let covariance = 0;
+    for (let t = lag; t < n; t++) covariance += errors[t] * errors[t - lag];
+    longRunVariance += 2 * (1 - lag / (lags + 1)) * covariance / n;
+  }
+  if (longRunVariance <= 1e-12) return 0;
+
+  let partialSum = 0;
+  let eta = 0;
+  errors.forEach(error => {
+    partialSum += error;
+    eta += partialSum * partialSum;
+  });
+  return eta / (n * n * longRunVariance);
+}
+
+// Share of the detrended variance explained by the seasonal pattern, 0 to 1
+function seasonalStrength(data: number[], s: number): number {
+  // Centered moving average over one season (2 x s for an even season) as the trend
+  const half = Math.floor(s / 2);
+  const detrended: { position: number; value: number }[] = [];
+  for (let t = half; t < data.length - half; t++) {
+    let trend: number;
+    if (s % 2 === 1) {
+      trend = average(data.slice(t - half, t + half + 1));
+    } else {
+      trend = (data.slice(t - half + 1, t + half).reduce((sum, value) => sum + value, 0) + (data[t - half] + data[t + half]) / 2) / s;
+    }
+    detrended.push({ position: t % s, value: data[t] - trend });
+  }
+  if (detrended.length < 2 * s) return 0;
+
+  const seasonalMeans = new Array(s).fill(0).map((_, position) =>
+    average(detrended.filter(point => point.position === position).map(point => point.value))
+  );
+  const remainder = detrended.map(point => point.value - seasonalMeans[point.position]);
+  const total = variance(detrended.map(point => point.value));
+  return total > 0 ? Math.max(0, 1 - variance(remainder) / total) : 0;
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function variance(values: number[]): number {
+  const mean = average(values);
+  return average(values.map(value => (value - mean) ** 2));
+}
@@ -0,0 +1,303 @@
+import { SalesData, MAX_BACKTEST_FOLDS, type ForecastPeriod } from "@shared/schema";
+import { storage, type IStorage } from "../storage";
+import { settingsService } from "./settings";
+import { advancedForecastingService, FORECAST_MODEL_LABELS, type AdvancedForecastingService, type AdvancedForecastOptions, type ForecastModelType } from "./advanced-forecasting";
+import { buildSeries, lastCompletePeriod, SEASON_LENGTHS, type SeriesCalendar } from "@shared/time-series";
+
+/**
+ * Rolling-origin backtesting: refit each model on an expanding training window,
+ * forecast the next `horizon` points and score them against what actually happened
+ */
+
+export interface BacktestOptions {
+  period?: ForecastPeriod; // Sales are resampled to this period before folds are cut
+  calendar?: SeriesCalendar;
+  horizon?: number;
+  folds?: number; // Number of forecast origins per item
+  minTrainSize?: number;
+  seasonLength?: number; // Period of the seasonal naive forecast used to scale MASE; follows `period` by default
+  ensembleMethod?: AdvancedForecastOptions['ensembleMethod'];
+  models?: AdvancedForecastOptions['models'];
+}
+
+/**
+ * A backtest of the saved forecast settings on the sales in scope
+ */
+export interface BacktestRequest {
+  locationId?: string;
+  itemName?: string;
+  horizon?: number;
+  folds?: number;
+}
+
+export interface ForecastErrorMetrics {
+  mae: number;
+  mape: number | null; // Fraction, over non-zero actuals only; null if every actual was zero
+  smape: number; // Fraction in [0, 2]
+  rmse: number;
+  mase: number;
+  bias: number; // Mean of forecast - actual; positive means over-forecasting
+  count: number;
+}
+
+export interface StepMetrics extends ForecastErrorMetrics {
+  step: number;
+}
+
+export interface ModelBacktest {
+  model: string;
+  type: string;
+  steps: StepMetrics[];
+  overall: ForecastErrorMetrics;
+}
+
+export interface ItemBacktest {
+  itemName: string;
+  category: string;
+  observations: number;
+  folds: number;
+  models: ModelBacktest[];
+}
+
+export interface BacktestReport {
+  period: ForecastPeriod;
+  horizon: number;
+  folds: number;
+  generatedAt: Date;
+  summary: ModelBacktest[];
+  items: ItemBacktest[];
+  skippedItems: string[];
+  omittedItems: string[]; // Beyond MAX_BACKTEST_ITEMS; the best sellers are backtested first
+}
+
+interface ForecastError {
+  step: number;
+  actual: number;
+  forecast: number;
+  scale: number; // In-sample naive MAE of the training window
+}
+
+const ENSEMBLE_MODEL = 'Ensemble';
+
+// Defaults sized so each period has a useful number of folds
+const DEFAULT_HORIZON: Record<ForecastPeriod, number> = { daily: 7, weekly: 4, monthly: 3 };
+const DEFAULT_MIN_TRAIN_SIZE: Record<ForecastPeriod, number> = { daily: 14, weekly: 8, monthly: 6 };
+const DEFAULT_FOLDS = 5;
+
+// Every item is backtested on every fold, so runs are capped in both (see MAX_BACKTEST_FOLDS)
+export const MAX_BACKTEST_ITEMS = 20;
+
+// Reports are reused for a day, the interval of the scheduled backtest job
+const REPORT_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_CACHED_REPORTS = 50;
+
+export class BacktestingService {
+  private reports = new Map<string, { report: Promise<BacktestReport>; startedAt: number }>();
+
+  constructor(private forecaster: AdvancedForecastingService, private storage: IStorage) {}
+
+  /**
+   * Backtest the saved forecast settings on the sales in scope. Reports are cached per request and
+   * settings, and concurrent callers share one run; `refresh` starts a new run regardless.
+   */
+  async getBacktest(request: BacktestRequest = {}, refresh = false, now: Date = new Date()): Promise<BacktestReport> {
+    const { period, calendar, models, ensembleMethod } = settingsService.toForecastOptions(await settingsService.getSettings());
+    const options: BacktestOptions = {
+      period,
+      calendar,
+      // Resolved up front so a request spelling out the defaults shares the scheduled job's report
+      horizon: request.horizon ?? DEFAULT_HORIZON[period ?? 'daily'],
+      folds: Math.min(MAX_BACKTEST_FOLDS, request.folds ?? DEFAULT_FOLDS),
+      models,
+      ensembleMethod,
+    };
+    const key = JSON.stringify([request.locationId ?? null, request.itemName ?? null, options]);
+
+    const cached = this.reports.get(key);
+    if (!refresh && cached && now.getTime() - cached.startedAt < REPORT_TTL_MS) {
+      return cached.report;
+    }
+
+    const report = this.storage.getSalesData(undefined, request.locationId).then(salesData => this.runBacktest(
+      request.itemName ? salesData.filter(sale => sale.itemName === request.itemName) : salesData,
+      options,
+      now,
+    ));
+    // Drop failed runs so the next request retries
+    report.catch(() => {
+      if (this.reports.get(key)?.report === report) this.reports.delete(key);
+    });
+
+    this.reports.delete(key);
+    this.reports.set(key, { report, startedAt: now.getTime() });
+    if (this.reports.size > MAX_CACHED_REPORTS) {
+      this.reports.delete(this.reports.keys().next().value!);
+    }
+    return report;
+  }
+
+  /**
+   * Run rolling-origin cross-validation per item and per model, yielding to the event loop
+   * between folds so a long run doesn't hold up other requests
+   */
+  async runBacktest(salesData: SalesData[], options: BacktestOptions = {}, now: Date = new Date()): Promise<BacktestReport> {
+    const period = options.period ?? 'daily';
+    const horizon = Math.max(1, Math.floor(options.horizon ?? DEFAULT_HORIZON[period]));
+    const folds = Math.min(MAX_BACKTEST_FOLDS, Math.max(1, Math.floor(options.folds ?? DEFAULT_FOLDS)));
+    const minTrainSize = Math.max(3, Math.floor(options.minTrainSize ?? DEFAULT_MIN_TRAIN_SIZE[period]));
+    const seasonLength = Math.max(1, Math.floor(options.seasonLength ?? SEASON_LENGTHS[period]));
+    const calendar = options.calendar ?? {};
+    const seriesEnd = lastCompletePeriod(now, period, calendar.timeZone);
+
+    const itemGroups = new Map<string, SalesData[]>();
+    salesData.forEach(sale => {
+      if (!itemGroups.has(sale.itemName)) {
+        itemGroups.set(sale.itemName, []);
+      }
+      itemGroups.get(sale.itemName)!.push(sale);
+    });
+
+    const totalQuantity = (sales: SalesData[]) => sales.reduce((sum, sale) => sum + sale.quantity, 0);
+    const ranked = Array.from(itemGroups.entries()).sort((a, b) => totalQuantity(b[1]) - totalQuantity(a[1]));
+    const omittedItems = ranked.slice(MAX_BACKTEST_ITEMS).map(([itemName]) => itemName);
+
+    const items: ItemBacktest[] = [];
+    const skippedItems: string[] = [];
+    const pooledErrors = new Map<string, { type: string; errors: ForecastError[] }>();
+
+    for (const [itemName, itemSales] of ranked.slice(0, MAX_BACKTEST_ITEMS)) {
+      const quantities = buildSeries(itemSales, { ...calendar, period, end: seriesEnd }).map(bucket => bucket.quantity);
+      const origins = this.getOrigins(quantities.length, horizon, folds, minTrainSize);
+
+      if (origins.length === 0) {
+        skippedItems.push(itemName);
+        continue;
+      }
+
+      const itemErrors = new Map<string, { type: string; errors: ForecastError[] }>();
+      const record = (model: string, type: string, errors: ForecastError[]) => {
+        for (const target of [itemErrors, pooledErrors]) {
+          if (!target.has(model)) target.set(model, { type, errors: [] });
+          target.get(model)!.errors.push(...errors);
+        }
+      };
+
+      for (const origin of origins) {
+        const train = quantities.slice(0, origin);
+        const actual = quantities.slice(origin, origin + horizon);
+        const scale = this.naiveScale(train, seasonLength);
+        const toErrors = (forecast: number[]): ForecastError[] =>
+          actual.map((value, i) => ({ step: i + 1, actual: value, forecast: forecast[i] ?? 0, scale }));
+
+        const { models, ensemble } = this.forecaster.forecastSeries(train, horizon, { ...options, seasonLength });
+        // Pool by model family, as the fitted orders and configuration can change from fold to fold
+        models.forEach(model => record(FORECAST_MODEL_LABELS[model.type as ForecastModelType], model.type, toErrors(model.predictions)));
+        record(ENSEMBLE_MODEL, 'ensemble', toErrors(ensemble.predictions));
+        await new Promise(resolve => setImmediate(resolve));
+      }
+
+      items.push({
+        itemName,
+        category: itemSales[0].category,
+        observations: quantities.length,
+        folds: origins.length,
+        models: this.summarize(itemErrors, horizon),
+      });
+    }
+
+    return {
+      period,
+      horizon,
+      folds,
+      generatedAt: new Date(),
+      summary: this.summarize(pooledErrors, horizon),
+      items,
+      skippedItems,
+      omittedItems,
+    };
+  }
+
+  /**
+   * Forecast origins, newest last, each leaving a full horizon of actuals after it
+   */
+  private getOrigins(length: number, horizon: number, folds: number, minTrainSize: number): number[] {
+    const origins: number[] = [];
+    for (let k = folds - 1; k >= 0; k--) {
+      const origin = length - horizon - k * horizon;
+      if (origin >= minTrainSize) origins.push(origin);
+    }
+    return origins;
+  }
+
+  /**
+   * Mean absolute error of the in-sample seasonal naive forecast, used to scale MASE
+   */
+  private naiveScale(train: number[], seasonLength: number): number {
+    const lag = train.length > seasonLength ? seasonLength : 1;
+    let total = 0;
+    for (let i = lag; i < train.length; i++) {
+      total += Math.abs(train[i] - train[i - lag]);
+    }
+    const count = train.length - lag;
+    return count > 0 ? total / count : 0;
+  }
+
+  private summarize(errorsByModel: Map<string, { type: string; errors: ForecastError[] }>, horizon: number): ModelBacktest[] {
+    return Array.from(errorsByModel.entries()).map(([model, { type, errors }]) => ({
+      model,
+      type,
+      steps: Array.from({ length: horizon }, (_, i) => ({
+        step: i + 1,
+        ...this.calculateErrorMetrics(errors.filter(error => error.step === i + 1)),
+      })),
+      overall: this.calculateErrorMetrics(errors),
+    }));
+  }
+
+  private calculateErrorMetrics(errors: ForecastError[]): ForecastErrorMetrics {
+    const n = errors.length;
+    if (n === 0) {
+      return { mae: 0, mape: null, smape: 0, rmse: 0, mase: 0, bias: 0, count: 0 };
+    }
+
+    let absTotal = 0, squaredTotal = 0, biasTotal = 0;
+    let mapeTotal = 0, mapeCount = 0;
+    let smapeTotal = 0, smapeCount = 0;
+    let maseTotal = 0, maseCount = 0;
+
+    for (const { actual, forecast, scale } of errors) {
+      const error = forecast - actual;
+      absTotal += Math.abs(error);
+      squaredTotal += error * error;
+      biasTotal += error;
+
+      if (actual !== 0) {
+        mapeTotal += Math.abs(error / actual);
+        mapeCount++;
+      }
+
+      const denominator = Math.abs(actual) + Math.abs(forecast);
+      if (denominator > 0) {
+        smapeTotal += 2 * Math.abs(error) / denominator;
+        smapeCount++;
+      }
+
+      if (scale > 0) {
+        maseTotal += Math.abs(error) / scale;
+        maseCount++;
+      }
+    }
+
+    return {
+      mae: absTotal / n,
+      mape: mapeCount > 0 ? mapeTotal / mapeCount : null,
+      smape: smapeCount > 0 ? smapeTotal / smapeCount : 0,
+      rmse: Math.sqrt(squaredTotal / n),
+      mase: maseCount > 0 ? maseTotal / maseCount : 0,
+      bias: biasTotal / n,
+      count: n,
+    };
+  }
+}
+
+export const backtestingService = new BacktestingService(advancedForecastingService, storage);
@@ -0,0 +1,244 @@
+import { type Prediction, type RecipeWithIngredients } from "@shared/schema";
+import { storage, type IStorage } from "../storage";
+import { advancedForecastingService, type AdvancedForecastingService, type AdvancedForecastOptions } from "./advanced-forecasting";
+
+/**
+ * Bill-of-materials explosion: turns menu item demand forecasts into the ingredient
+ * quantities that have to be purchased, using each item's recipe and yields
+ */
+
+export type DemandSource = 'baseline' | 'advanced';
+
+export const DEMAND_SOURCES: DemandSource[] = ['baseline', 'advanced'];
+
+export interface MenuItemDemand {
+  itemName: string;
+  date: Date; // Start of the forecast day
+  quantity: number; // Portions, P50
+  lowerBound: number; // P10
+  upperBound: number; // P90
+}
+
+export interface IngredientRequirement {
+  date: Date;
+  ingredientId: string;
+  ingredientName: string;
+  unit: string;
+  quantity: number;
+  lowerBound: number;
+  upperBound: number;
+  menuItems: { itemName: string; portions: number }[];
+}
+
+export interface IngredientTotal {
+  ingredientId: string;
+  ingredientName: string;
+  unit: string;
+  quantity: number;
+  lowerBound: number;
+  upperBound: number;
+  estimatedCost: number | null; // null when the ingredient has no cost per unit
+}
+
+export interface BillOfMaterialsExplosion {
+  requirements: IngredientRequirement[]; // One row per ingredient per day
+  totals: IngredientTotal[]; // Summed over the whole period
+  unmappedItems: string[]; // Forecast items without a recipe
+}
+
+export interface IngredientRequirementsResult extends BillOfMaterialsExplosion {
+  source: DemandSource;
+  startDate: Date;
+  days: number;
+}
+
+const MAX_REQUIREMENT_DAYS = 90;
+
+/**
+ * Ingredient cost of one portion, or null when an ingredient has no cost per unit
+ */
+export function recipeCostPerPortion(recipe: RecipeWithIngredients): number | null {
+  if (recipe.ingredients.some(line => line.ingredient.costPerUnit === null)) return null;
+  return recipe.ingredients.reduce((sum, line) =>
+    sum + line.quantity / (recipe.yield || 1) / (line.yieldPercentage || 1) * line.ingredient.costPerUnit!, 0);
+}
+
+export class BillOfMaterialsService {
+
+  constructor(
+    private storage: IStorage,
+    private forecaster: AdvancedForecastingService,
+  ) {}
+
+  /**
+   * Ingredient requirements for the `days` days starting tomorrow. Baseline demand comes from
+   * the stored ForecastingService predictions; advanced demand refits the ensemble on the
+   * sales in scope using `options` (period and horizon are overridden).
+   */
+  async getRequirements(
+    source: DemandSource,
+    days: number,
+    locationId?: string,
+    options: Partial<AdvancedForecastOptions> = {},
+    now: Date = new Date(),
+  ): Promise<IngredientRequirementsResult> {
+    const horizon = Math.min(MAX_REQUIREMENT_DAYS, Math.max(1, Math.floor(days) || 1));
+    const startDate = addDays(startOfDay(now), 1);
+
+    const demand = source === 'advanced'
+      ? await this.getAdvancedDemand(startDate, horizon, locationId, options)
+      : this.getBaselineDemand(await this.storage.getPredictions(undefined, locationId), startDate, horizon);
+
+    const recipes = await this.storage.getRecipes();
+    return { source, startDate, days: horizon, ...this.explode(demand, recipes) };
+  }
+
+  /**
+   * Latest stored prediction per item, location and day within [startDate, startDate + days),
+   * summed across locations
+   */
+  getBaselineDemand(predictions: Prediction[], startDate: Date, days: number): MenuItemDemand[] {
+    const endDate = addDays(startDate, days);
+    const latest = new Map<string, Prediction>();
+
+    predictions
+      .filter(prediction => prediction.predictionDate >= startDate && prediction.predictionDate < endDate)
+      .forEach(prediction => {
+        const key = `${prediction.locationId ?? ''}::${prediction.itemName}::${startOfDay(prediction.predictionDate).getTime()}`;
+        const existing = latest.get(key);
+        if (!existing || (prediction.createdAt?.getTime() ?? 0) > (existing.createdAt?.getTime() ?? 0)) {
+          latest.set(key, prediction);
+        }
+      });
+
+    const demand = new Map<string, MenuItemDemand>();
+    Array.from(latest.values()).forEach(prediction => {
+      const date = startOfDay(prediction.predictionDate);
+      const key = `${prediction.itemName}::${date.getTime()}`;
+      const entry = demand.get(key) ?? { itemName: prediction.itemName, date, quantity: 0, lowerBound: 0, upperBound: 0 };
+      entry.quantity += prediction.predictedQuantity;
+      entry.lowerBound += prediction.lowerBound ?? prediction.predictedQuantity;
+      entry.upperBound += prediction.upperBound ?? prediction.predictedQuantity;
+      demand.set(key, entry);
+    });
+
+    return Array.from(demand.values());
+  }
+
+  private async getAdvancedDemand(
+    startDate: Date,
+    days: number,
+    locationId: string | undefined,
+    options: Partial<AdvancedForecastOptions>,
+  ): Promise<MenuItemDemand[]> {
+    const salesData = await this.storage.getSalesData(undefined, locationId);
+    const results = await this.forecaster.generateAdvancedForecasts(salesData, { ...options, period: 'daily', horizon: days });
+
+    return results.flatMap(result =>
+      result.ensemblePrediction.slice(0, days).map((quantity, step) => ({
+        itemName: result.itemName,
+        date: addDays(startDate, step),
+        quantity,
+        lowerBound: result.ensembleIntervals.p10[step] ?? quantity,
+        upperBound: result.ensembleIntervals.p90[step] ?? quantity,
+      }))
+    );
+  }
+
+  /**
+   * Multiply item demand through the recipes. Each portion needs quantity / recipe yield of
+   * every ingredient, grossed up by the ingredient's usable fraction (yieldPercentage).
+   */
+  explode(demand: MenuItemDemand[], recipes: RecipeWithIngredients[]): BillOfMaterialsExplosion {
+    const recipesByItem = new Map(recipes.map(recipe => [recipe.menuItemName, recipe]));
+    const requirements = new Map<string, IngredientRequirement>();
+    const totals = new Map<string, IngredientTotal & { costPerUnit: number | null }>();
+    const unmapped = new Set<string>();
+
+    demand.forEach(({ itemName, date, quantity, lowerBound, upperBound }) => {
+      const recipe = recipesByItem.get(itemName);
+      if (!recipe || recipe.ingredients.length === 0) {
+        unmapped.add(itemName);
+        return;
+      }
+
+      const batches = 1 / (recipe.yield || 1);
+      recipe.ingredients.forEach(line => {
+        const perPortion = line.quantity * batches / (line.yieldPercentage || 1);
+        const { ingredient } = line;
+
+        const key = `${ingredient.id}::${date.getTime()}`;
+        const requirement = requirements.get(key) ?? {
+          date,
+          ingredientId: ingredient.id,
+          ingredientName: ingredient.name,
+          unit: ingredient.unit,
+          quantity: 0,
+          lowerBound: 0,
+          upperBound: 0,
+          menuItems: [],
+        };
+        requirement.quantity += quantity * perPortion;
+        requirement.lowerBound += lowerBound * perPortion;
+        requirement.upperBound += upperBound * perPortion;
+        requirement.menuItems.push({ itemName, portions: quantity });
+        requirements.set(key, requirement);
+
+        const total = totals.get(ingredient.id) ?? {
+          ingredientId: ingredient.id,
+          ingredientName: ingredient.name,
+          unit: ingredient.unit,
+          quantity: 0,
+          lowerBound: 0,
+          upperBound: 0,
+          estimatedCost: null,
+          costPerUnit: ingredient.costPerUnit,
+        };
+        total.quantity += quantity * perPortion;
+        total.lowerBound += lowerBound * perPortion;
+        total.upperBound += upperBound * perPortion;
+        totals.set(ingredient.id, total);
+      });
+    });
+
+    return {
+      requirements: Array.from(requirements.values())
+        .map(requirement => ({
+          ...requirement,
+          quantity: round(requirement.quantity),
+          lowerBound: round(requirement.lowerBound),
+          upperBound: round(requirement.upperBound),
+        }))
+        .sort((a, b) => a.date.getTime() - b.date.getTime() || a.ingredientName.localeCompare(b.ingredientName)),
+      totals: Array.from(totals.values())
+        .map(({ costPerUnit, ...total }) => ({
+          ...total,
+          quantity: round(total.quantity),
+          lowerBound: round(total.lowerBound),
+          upperBound: round(total.upperBound),
+          estimatedCost: costPerUnit === null ? null : round(total.quantity * costPerUnit, 2),
+        }))
+        .sort((a, b) => a.ingredientName.localeCompare(b.ingredientName)),
+      unmappedItems: Array.from(unmapped).sort(),
+    };
+  }
+}
+
+function round(value: number, decimals: number = 3): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+export const billOfMaterialsService = new BillOfMaterialsService(storage, advancedForecastingService);
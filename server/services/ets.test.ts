@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { autoEts, forecastEts } from "./ets";
+
+const WEEK = [20, 18, 19, 22, 35, 48, 40];
+
+function series(length: number, at: (t: number) => number, seed = 11): number[] {
+  let state = seed;
+  const noise = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648 - 0.5;
+  };
+  return Array.from({ length }, (_, t) => at(t) + 2 * noise());
+}
+
+describe("autoEts", () => {
+  it("picks a seasonal model for a strongly weekly series and forecasts the weekly shape", () => {
+    const data = series(10 * 7, t => WEEK[t % 7]);
+
+    const fit = autoEts(data, 7);
+    const forecast = forecastEts(fit, 7);
+
+    expect(fit.spec.season).not.toBe("N");
+    expect(fit.seasonLength).toBe(7);
+    forecast.forEach((value, h) => expect(Math.abs(value - WEEK[(data.length + h) % 7])).toBeLessThan(4));
+  });
+
+  it("leaves the season out of a series without one", () => {
+    const data = series(10 * 7, () => 30);
+
+    const fit = autoEts(data, 7);
+
+    expect(fit.spec.season).toBe("N");
+    forecastEts(fit, 7).forEach(value => expect(Math.abs(value - 30)).toBeLessThan(2));
+  });
+});
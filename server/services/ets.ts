@@ -0,0 +1,301 @@
+import { nelderMead } from "./optimization";
+
+/**
+ * Exponential smoothing (ETS) state space models and automatic model selection.
+ *
+ * An ETS(error, trend, season) model tracks a level, an optional additive or multiplicative trend
+ * (optionally damped) and an optional additive or multiplicative season. The error type doesn't
+ * change the point forecasts, only the likelihood, so smoothing parameters and the initial level
+ * and trend are fitted by minimising the one-step sum of squared errors, and the error type is
+ * settled alongside everything else when models are compared by AIC. Multiplicative components
+ * need strictly positive data, so they are only tried on series without zeros.
+ */
+
+export type EtsComponent = 'N' | 'A' | 'M';
+
+export interface EtsSpec {
+  error: Exclude<EtsComponent, 'N'>;
+  trend: EtsComponent;
+  damped: boolean;
+  season: EtsComponent;
+}
+
+export interface EtsFit {
+  spec: EtsSpec;
+  seasonLength: number; // 1 for a non-seasonal model
+  alpha: number; // Level smoothing
+  beta: number; // Trend smoothing, as a share of the level's correction; 0 without a trend
+  gamma: number; // Seasonal smoothing; 0 without a season
+  phi: number; // Trend damping; 1 when undamped
+  initialLevel: number;
+  initialTrend: number;
+  initialSeason: number[];
+  sse: number;
+  sigma2: number; // Variance of the one-step errors on the model's error scale
+  logLikelihood: number;
+  aic: number;
+  residuals: number[]; // One-step errors, actual - fitted
+  finalState: { level: number; trend: number; season: number[] }; // Season in order of the next steps
+}
+
+// Bounds used by Hyndman et al. for the smoothing and damping parameters
+const PARAMETER_FLOOR = 1e-4;
+const PHI_MIN = 0.8;
+const PHI_MAX = 0.98;
+
+/**
+ * Fit an ETS model by minimising the one-step sum of squared errors. Returns undefined when the
+ * model can't be fitted to the data: multiplicative parts with zeros or negatives, or a season
+ * without two full cycles of history.
+ */
+export function fitEts(data: number[], spec: EtsSpec, seasonLength: number): EtsFit | undefined {
+  const n = data.length;
+  const m = spec.season === 'N' ? 1 : seasonLength;
+  const multiplicative = spec.error === 'M' || spec.trend === 'M' || spec.season === 'M';
+  if (n < 2) return undefined;
+  if (multiplicative && data.some(value => value <= 0)) return undefined;
+  if (spec.season !== 'N' && (m < 2 || n < 2 * m)) return undefined;
+
+  const initial = initialStates(data, spec, m);
+  const scale = Math.sqrt(variance(data)) || Math.abs(average(data)) || 1;
+  const unpack = (raw: number[]) => {
+    let offset = 0;
+    const next = () => raw[offset++];
+    const alpha = bounded(next(), PARAMETER_FLOOR, 1 - PARAMETER_FLOOR);
+    const beta = spec.trend !== 'N' ? bounded(next(), PARAMETER_FLOOR, 1 - PARAMETER_FLOOR) : 0;
+    // Keeping gamma below 1 - alpha keeps the seasonal update a proper weighted average
+    const gamma = spec.season !== 'N' ? bounded(next(), PARAMETER_FLOOR, 1 - PARAMETER_FLOOR) * (1 - alpha) : 0;
+    const phi = spec.damped ? bounded(next(), PHI_MIN, PHI_MAX) : 1;
+    // Initial states are searched in units of the series spread, a multiplicative trend as a log ratio
+    const initialLevel = initial.level + next() * scale;
+    const initialTrend = spec.trend === 'A' ? initial.trend + next() * scale * 0.1
+      : spec.trend === 'M' ? initial.trend * Math.exp(next() * 0.1)
+      : 0;
+    return { alpha, beta, gamma, phi, initialLevel, initialTrend, initialSeason: initial.season };
+  };
+
+  const start = [
+    unbounded(0.3, PARAMETER_FLOOR, 1 - PARAMETER_FLOOR),
+    ...(spec.trend !== 'N' ? [unbounded(0.1, PARAMETER_FLOOR, 1 - PARAMETER_FLOOR)] : []),
+    ...(spec.season !== 'N' ? [unbounded(0.1, PARAMETER_FLOOR, 1 - PARAMETER_FLOOR)] : []),
+    ...(spec.damped ? [unbounded(0.95, PHI_MIN, PHI_MAX)] : []),
+    0,
+    ...(spec.trend !== 'N' ? [0] : []),
+  ];
+  const sumOfSquares = (raw: number[]) => {
+    const run = smooth(data, spec, m, unpack(raw));
+    return run ? run.errors.reduce((sum, error) => sum + error * error, 0) : NaN;
+  };
+
+  // Restart once from the first optimum, as the simplex can stall before reaching it
+  const first = nelderMead(sumOfSquares, start, { step: 0.5 });
+  const best = nelderMead(sumOfSquares, first.point, { step: 0.1 });
+  const params = unpack(best.point);
+  const run = smooth(data, spec, m, params);
+  if (!run) return undefined;
+
+  // Multiplicative errors are relative to the one-step forecast, which adds a Jacobian term
+  const modelErrors = spec.error === 'M' ? run.errors.map((error, t) => error / run.fitted[t]) : run.errors;
+  const sigma2 = Math.max(modelErrors.reduce((sum, error) => sum + error * error, 0) / n, 1e-10);
+  const jacobian = spec.error === 'M' ? run.fitted.reduce((sum, fitted) => sum + Math.log(Math.abs(fitted)), 0) : 0;
+  const logLikelihood = -0.5 * (n * (Math.log(2 * Math.PI * sigma2) + 1)) - jacobian;
+
+  return {
+    spec,
+    seasonLength: m,
+    ...params,
+    sse: run.errors.reduce((sum, error) => sum + error * error, 0),
+    sigma2,
+    logLikelihood,
+    aic: -2 * logLikelihood + 2 * parameterCount(spec),
+    residuals: run.errors,
+    finalState: run.state,
+  };
+}
+
+/**
+ * Fit every admissible ETS model and keep the one with the lowest AIC. Models with more parameters
+ * than the history can support are skipped, except simple exponential smoothing, which is always
+ * available. Additive errors aren't combined with multiplicative trend or season, whose fits are
+ * numerically unstable.
+ */
+export function autoEts(data: number[], seasonLength: number): EtsFit {
+  const candidates: EtsSpec[] = [];
+  (['A', 'M'] as const).forEach(error => {
+    (['N', 'A', 'M'] as const).forEach(trend => {
+      [false, true].forEach(damped => {
+        (['N', 'A', 'M'] as const).forEach(season => {
+          if (damped && trend === 'N') return;
+          if (error === 'A' && (trend === 'M' || season === 'M')) return;
+          candidates.push({ error, trend, damped, season });
+        });
+      });
+    });
+  });
+
+  const simple: EtsSpec = { error: 'A', trend: 'N', damped: false, season: 'N' };
+  let best: EtsFit | undefined;
+  candidates.forEach(spec => {
+    const isSimple = spec.error === 'A' && spec.trend === 'N' && spec.season === 'N';
+    if (!isSimple && data.length <= parameterCount(spec) + 1) return;
+    const fit = fitEts(data, spec, seasonLength);
+    if (fit && (!best || fit.aic < best.aic)) best = fit;
+  });
+
+  return best ?? naiveFit(data, simple);
+}
+
+/**
+ * Forecast `horizon` steps past the end of the series the model was fitted on
+ */
+export function forecastEts(fit: EtsFit, horizon: number): number[] {
+  const { level, trend, season } = fit.finalState;
+  const forecasts: number[] = [];
+  let dampedSteps = 0;
+  for (let h = 1; h <= horizon; h++) {
+    dampedSteps += Math.pow(fit.phi, h);
+    const base = fit.spec.trend === 'A' ? level + dampedSteps * trend
+      : fit.spec.trend === 'M' ? level * Math.pow(trend, dampedSteps)
+      : level;
+    const seasonal = season[(h - 1) % season.length];
+    forecasts.push(fit.spec.season === 'A' ? base + seasonal : fit.spec.season === 'M' ? base * seasonal : base);
+  }
+  return forecasts;
+}
+
+/**
+ * Conventional label for a model, e.g. ETS(M,Ad,M)
+ */
+export function etsName(spec: EtsSpec): string {
+  return `ETS(${spec.error},${spec.trend}${spec.damped ? 'd' : ''},${spec.season})`;
+}
+
+interface EtsParameters {
+  alpha: number;
+  beta: number;
+  gamma: number;
+  phi: number;
+  initialLevel: number;
+  initialTrend: number;
+  initialSeason: number[];
+}
+
+// Run the smoothing recursions, returning the one-step forecasts and errors and the final state.
+// Undefined when a multiplicative component goes non-positive.
+function smooth(data: number[], spec: EtsSpec, m: number, params: EtsParameters): {
+  fitted: number[];
+  errors: number[];
+  state: { level: number; trend: number; season: number[] };
+} | undefined {
+  const { alpha, beta, gamma, phi } = params;
+  const season = spec.season === 'N' ? [0] : [...params.initialSeason];
+  let level = params.initialLevel;
+  let trend = params.initialTrend;
+  const fitted: number[] = [];
+  const errors: number[] = [];
+
+  for (let t = 0; t < data.length; t++) {
+    // Level carried forward by the damped trend
+    const base = spec.trend === 'A' ? level + phi * trend : spec.trend === 'M' ? level * Math.pow(trend, phi) : level;
+    const seasonal = season[t % season.length];
+    const forecast = spec.season === 'A' ? base + seasonal : spec.season === 'M' ? base * seasonal : base;
+    if (!Number.isFinite(forecast)) return undefined;
+    if ((spec.error === 'M' || spec.trend === 'M' || spec.season === 'M') && (forecast <= 0 || base <= 0)) return undefined;
+
+    fitted.push(forecast);
+    errors.push(data[t] - forecast);
+
+    const previousLevel = level;
+    const deseasonalized = spec.season === 'A' ? data[t] - seasonal : spec.season === 'M' ? data[t] / seasonal : data[t];
+    level = alpha * deseasonalized + (1 - alpha) * base;
+    if (spec.trend === 'A') trend = beta * (level - previousLevel) + (1 - beta) * phi * trend;
+    if (spec.trend === 'M') trend = beta * (level / previousLevel) + (1 - beta) * Math.pow(trend, phi);
+    if (spec.season === 'A') season[t % m] = gamma * (data[t] - base) + (1 - gamma) * seasonal;
+    if (spec.season === 'M') season[t % m] = gamma * (data[t] / base) + (1 - gamma) * seasonal;
+  }
+
+  // Rotate the season so index 0 is the step after the last observation
+  const offset = data.length % season.length;
+  return { fitted, errors, state: { level, trend, season: [...season.slice(offset), ...season.slice(0, offset)] } };
+}
+
+// Starting states: seasonal indices from the first two cycles, then level and trend from a line
+// through the first few deseasonalised observations
+function initialStates(data: number[], spec: EtsSpec, m: number): { level: number; trend: number; season: number[] } {
+  let season: number[] = [];
+  if (spec.season !== 'N') {
+    const cycles = [data.slice(0, m), data.slice(m, 2 * m)];
+    season = new Array(m).fill(0).map((_, i) => average(cycles.map(cycle => {
+      const cycleMean = average(cycle);
+      return spec.season === 'M' ? cycle[i] / cycleMean : cycle[i] - cycleMean;
+    })));
+    // Additive indices sum to zero, multiplicative ones average one
+    const center = average(season);
+    season = season.map(value => spec.season === 'M' ? value / center : value - center);
+  }
+
+  const count = Math.min(data.length, Math.max(10, spec.season !== 'N' ? 2 * m : 0));
+  const deseasonalized = data.slice(0, count).map((value, t) =>
+    spec.season === 'A' ? value - season[t % m] : spec.season === 'M' ? value / season[t % m] : value
+  );
+  // Least-squares line over t = 1..count, so the intercept is the level just before the first observation
+  const meanT = (count + 1) / 2;
+  const meanY = average(deseasonalized);
+  const covariance = deseasonalized.reduce((sum, value, i) => sum + (i + 1 - meanT) * (value - meanY), 0);
+  const spread = deseasonalized.reduce((sum, _, i) => sum + (i + 1 - meanT) ** 2, 0);
+  const slope = spread > 0 ? covariance / spread : 0;
+  const intercept = meanY - slope * meanT;
+
+  if (spec.trend === 'N') return { level: meanY, trend: 0, season };
+  if (spec.trend === 'A') return { level: intercept, trend: slope, season };
+  // A multiplicative trend is a growth ratio per step
+  const level = intercept > 0 ? intercept : meanY;
+  return { level, trend: Math.min(1.5, Math.max(0.5, (level + slope) / level)), season };
+}
+
+// Estimated parameters: smoothing, damping, the initial level and trend and the error variance.
+// The initial seasonal indices are set from the first two cycles rather than fitted, so they
+// aren't counted.
+function parameterCount(spec: EtsSpec): number {
+  const smoothing = 1 + (spec.trend !== 'N' ? 1 : 0) + (spec.season !== 'N' ? 1 : 0) + (spec.damped ? 1 : 0);
+  const states = 1 + (spec.trend !== 'N' ? 1 : 0);
+  return smoothing + states + 1;
+}
+
+// Too little history to fit anything: carry the last value forward
+function naiveFit(data: number[], spec: EtsSpec): EtsFit {
+  const last = data.length > 0 ? data[data.length - 1] : 0;
+  const residuals = data.slice(1).map((value, t) => value - data[t]);
+  const sse = residuals.reduce((sum, error) => sum + error * error, 0);
+  const observations = Math.max(1, residuals.length);
+  const sigma2 = Math.max(sse / observations, 1e-10);
+  const logLikelihood = -0.5 * observations * (Math.log(2 * Math.PI * sigma2) + 1);
+  return {
+    spec,
+    seasonLength: 1,
+    alpha: 1, beta: 0, gamma: 0, phi: 1,
+    initialLevel: data[0] ?? 0, initialTrend: 0, initialSeason: [],
+    sse, sigma2, logLikelihood,
+    aic: -2 * logLikelihood + 2 * parameterCount(spec),
+    residuals,
+    finalState: { level: last, trend: 0, season: [0] },
+  };
+}
+
+function bounded(raw: number, lower: number, upper: number): number {
+  return lower + (upper - lower) / (1 + Math.exp(-raw));
+}
+
+function unbounded(value: number, lower: number, upper: number): number {
+  const share = (value - lower) / (upper - lower);
+  return Math.log(share / (1 - share));
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function variance(values: number[]): number {
+  const mean = average(values);
+  return average(values.map(value => (value - mean) ** 2));
+}
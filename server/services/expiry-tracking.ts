@@ -0,0 +1,219 @@
+import { type Inventory, type InventoryBatch } from "@shared/schema";
+import { storage, type IStorage } from "../storage";
+import { billOfMaterialsService, type BillOfMaterialsService } from "./bill-of-materials";
+
+/**
+ * Freshness of perishable stock. Each item's open batches are run forward day by day against
+ * its forecast demand (dish forecasts, exploded through the recipes for ingredient rows),
+ * drawing first-in first-out as sales do. Whatever is left in a batch after its expiry day is
+ * projected waste. Expiry dates are the last day a batch can be used.
+ */
+
+export const MAX_FRESHNESS_HORIZON_DAYS = 30;
+
+export interface BatchFreshness {
+  id: string;
+  batchCode: string | null;
+  receivedAt: Date;
+  expiresAt: Date | null;
+  remainingQuantity: number;
+  daysUntilExpiry: number | null; // 0 = expires today, negative = already expired
+  projectedWaste: number;
+}
+
+export interface ExpiryRisk {
+  inventoryId: string;
+  itemName: string;
+  locationId: string | null;
+  unit: string;
+  expiryDate: Date;
+  daysUntilExpiry: number;
+  expiringQuantity: number; // Stock in batches expiring that day
+  forecastDemand: number; // Demand from today up to and including the expiry day
+  projectedWaste: number;
+}
+
+export interface ItemFreshness {
+  inventoryId: string;
+  itemName: string;
+  locationId: string | null;
+  unit: string;
+  currentStock: number;
+  shelfLifeDays: number | null;
+  daysOfFreshness: number | null; // Days until the earliest open batch expires; null if nothing perishable is in stock
+  expiredQuantity: number;
+  projectedWaste: number; // Within the horizon
+  batches: BatchFreshness[];
+  risks: ExpiryRisk[];
+}
+
+export class ExpiryTrackingService {
+
+  constructor(
+    private storage: IStorage,
+    private billOfMaterials: BillOfMaterialsService,
+  ) {}
+
+  /**
+   * Batch-level freshness for every inventory row, projected over `horizonDays` days from today
+   */
+  async getFreshness(horizonDays: number = 7, locationId?: string, now: Date = new Date()): Promise<ItemFreshness[]> {
+    const horizon = Math.min(MAX_FRESHNESS_HORIZON_DAYS, Math.max(1, Math.floor(horizonDays) || 1));
+    const today = startOfDay(now);
+    const [inventory, batches] = await Promise.all([
+      this.storage.getInventory(locationId),
+      this.storage.getInventoryBatches({ openOnly: true }, locationId),
+    ]);
+    const demand = await this.getDailyDemand(inventory, today, horizon, locationId);
+
+    return inventory.map(item => this.project(
+      item,
+      batches.filter(batch => batch.inventoryId === item.id),
+      demand.get(item.id) ?? new Array(horizon).fill(0),
+      today,
+    ));
+  }
+
+  /**
+   * Batches expected to expire unused within `withinDays` days, soonest first
+   */
+  async getExpiryRisks(withinDays: number, locationId?: string, now: Date = new Date()): Promise<ExpiryRisk[]> {
+    const freshness = await this.getFreshness(withinDays + 1, locationId, now);
+    return freshness
+      .flatMap(item => item.risks)
+      .filter(risk => risk.daysUntilExpiry <= withinDays)
+      .sort((a, b) => a.daysUntilExpiry - b.daysUntilExpiry || b.projectedWaste - a.projectedWaste);
+  }
+
+  private project(item: Inventory, batches: InventoryBatch[], dailyDemand: number[], today: Date): ItemFreshness {
+    const remaining = new Map(batches.map(batch => [batch.id, batch.remainingQuantity]));
+    const expiryDay = (batch: InventoryBatch) => batch.expiresAt ? daysBetween(today, startOfDay(batch.expiresAt)) : null;
+    const usable = (batch: InventoryBatch, day: number) => {
+      const expires = expiryDay(batch);
+      return expires === null || expires >= day;
+    };
+
+    // Demand each day is served from the oldest batch that is still in date
+    const demandUntil: number[] = [];
+    let cumulative = 0;
+    dailyDemand.forEach((quantity, day) => {
+      let outstanding = quantity;
+      batches.filter(batch => usable(batch, day)).forEach(batch => {
+        const take = Math.min(remaining.get(batch.id)!, outstanding);
+        remaining.set(batch.id, remaining.get(batch.id)! - take);
+        outstanding -= take;
+      });
+      cumulative += quantity;
+      demandUntil.push(cumulative);
+    });
+
+    const batchFreshness: BatchFreshness[] = batches.map(batch => {
+      const days = expiryDay(batch);
+      const projectedWaste = days !== null && days < dailyDemand.length
+        ? days < 0 ? batch.remainingQuantity : remaining.get(batch.id)!
+        : 0;
+      return {
+        id: batch.id,
+        batchCode: batch.batchCode,
+        receivedAt: batch.receivedAt,
+        expiresAt: batch.expiresAt,
+        remainingQuantity: batch.remainingQuantity,
+        daysUntilExpiry: days,
+        projectedWaste: round(projectedWaste),
+      };
+    });
+
+    // One risk per expiry day that leaves stock unused
+    const risksByDay = new Map<number, ExpiryRisk>();
+    batchFreshness
+      .filter(batch => batch.daysUntilExpiry !== null && batch.daysUntilExpiry >= 0 && batch.projectedWaste > 0)
+      .forEach(batch => {
+        const day = batch.daysUntilExpiry!;
+        const risk = risksByDay.get(day) ?? {
+          inventoryId: item.id,
+          itemName: item.itemName,
+          locationId: item.locationId,
+          unit: item.unit,
+          expiryDate: addDays(today, day),
+          daysUntilExpiry: day,
+          expiringQuantity: 0,
+          forecastDemand: round(demandUntil[day] ?? 0),
+          projectedWaste: 0,
+        };
+        risk.expiringQuantity = round(risk.expiringQuantity + batch.remainingQuantity);
+        risk.projectedWaste = round(risk.projectedWaste + batch.projectedWaste);
+        risksByDay.set(day, risk);
+      });
+
+    const inDate = batchFreshness.filter(batch => batch.daysUntilExpiry !== null && batch.daysUntilExpiry >= 0);
+    return {
+      inventoryId: item.id,
+      itemName: item.itemName,
+      locationId: item.locationId,
+      unit: item.unit,
+      currentStock: item.currentStock,
+      shelfLifeDays: item.shelfLifeDays,
+      daysOfFreshness: inDate.length > 0 ? Math.min(...inDate.map(batch => batch.daysUntilExpiry!)) : null,
+      expiredQuantity: round(batchFreshness
+        .filter(batch => batch.daysUntilExpiry !== null && batch.daysUntilExpiry < 0)
+        .reduce((sum, batch) => sum + batch.remainingQuantity, 0)),
+      projectedWaste: round(batchFreshness.reduce((sum, batch) => sum + batch.projectedWaste, 0)),
+      batches: batchFreshness,
+      risks: Array.from(risksByDay.values()).sort((a, b) => a.daysUntilExpiry - b.daysUntilExpiry),
+    };
+  }
+
+  // Forecast demand per inventory row for each day from today, in the row's unit
+  private async getDailyDemand(inventory: Inventory[], today: Date, days: number, locationId?: string): Promise<Map<string, number[]>> {
+    const predictions = (await this.storage.getPredictions(undefined, locationId))
+      .filter(prediction => prediction.predictionDate >= today);
+    const recipes = inventory.some(item => item.ingredientId) ? await this.storage.getRecipes() : [];
+
+    const demand = new Map<string, number[]>();
+    Array.from(new Set(inventory.map(item => item.locationId))).forEach(itemLocationId => {
+      const itemDemand = this.billOfMaterials.getBaselineDemand(
+        predictions.filter(prediction => prediction.locationId === itemLocationId), today, days,
+      );
+      const { requirements } = this.billOfMaterials.explode(itemDemand, recipes);
+
+      inventory.filter(item => item.locationId === itemLocationId).forEach(item => {
+        const perDay = new Array(days).fill(0);
+        if (item.ingredientId) {
+          requirements
+            .filter(requirement => requirement.ingredientId === item.ingredientId)
+            .forEach(requirement => { perDay[daysBetween(today, requirement.date)] += requirement.quantity; });
+        } else {
+          itemDemand
+            .filter(entry => entry.itemName === item.itemName)
+            .forEach(entry => { perDay[daysBetween(today, entry.date)] += entry.quantity; });
+        }
+        demand.set(item.id, perDay);
+      });
+    });
+    return demand;
+  }
+}
+
+function round(value: number, decimals: number = 3): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+// Whole calendar days from one day start to another
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000));
+}
+
+export const expiryTrackingService = new ExpiryTrackingService(storage, billOfMaterialsService);
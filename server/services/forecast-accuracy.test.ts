@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from "vitest";
+import { defaultAppSettings } from "@shared/schema";
+import { MemStorage } from "../storage";
+import { ForecastAccuracyService } from "./forecast-accuracy";
+
+async function setup() {
+  const storage = new MemStorage();
+  await storage.saveSettings({ ...defaultAppSettings, timeZone: "America/New_York" });
+  const sell = (iso: string, quantity: number) => storage.createSalesData({
+    itemName: "Tomato Soup", category: "Starters", quantity, revenue: quantity * 6, date: new Date(iso),
+  });
+  return { storage, accuracy: new ForecastAccuracyService(storage), sell };
+}
+
+describe("ForecastAccuracyService.reconcile", () => {
+  it("compares a weekly prediction with the week's sales on the settings time zone", async () => {
+    const { storage, accuracy, sell } = await setup();
+    await sell("2026-03-02T03:00:00Z", 100); // 22:00 on Sunday 1 March in New York, the week before
+    await sell("2026-03-03T15:00:00Z", 5);
+    await sell("2026-03-08T23:00:00Z", 7); // Sunday evening, still the week of 2 March
+    await sell("2026-03-10T15:00:00Z", 3);
+    await storage.bulkCreatePredictions([{
+      itemName: "Tomato Soup", category: "Starters", predictedQuantity: 10, confidence: 0.8,
+      predictionDate: new Date("2026-03-02T05:00:00Z"), forecastPeriod: "weekly",
+    }]);
+
+    const records = await accuracy.reconcile(undefined, new Date("2026-03-11T12:00:00Z"));
+
+    expect(records.map(record => [record.forecastDate, record.predictedQuantity, record.actualQuantity])).toEqual([
+      [new Date("2026-03-02T05:00:00Z"), 10, 12],
+    ]);
+  });
+
+  it("scores the first step of an advanced forecast against the period it was made in", async () => {
+    const { storage, accuracy, sell } = await setup();
+    await sell("2026-03-03T15:00:00Z", 5);
+    await sell("2026-03-04T15:00:00Z", 9);
+    const [forecast] = await storage.bulkCreateAdvancedPredictions([{
+      itemName: "Tomato Soup", category: "Starters", modelType: "arima", predictions: [4, 6, 8], forecastHorizon: 3, forecastPeriod: "daily",
+    }]);
+    forecast.createdAt = new Date("2026-03-03T12:00:00Z"); // 07:00 on 3 March in New York
+
+    const records = await accuracy.reconcile(undefined, new Date("2026-03-05T12:00:00Z"));
+
+    expect(records.map(record => [record.horizonStep, record.forecastDate, record.predictedQuantity, record.actualQuantity])).toEqual([
+      [1, new Date("2026-03-03T05:00:00Z"), 4, 5],
+      [2, new Date("2026-03-04T05:00:00Z"), 6, 9],
+    ]);
+    expect(await accuracy.reconcile(undefined, new Date("2026-03-05T12:00:00Z"))).toHaveLength(0);
+  });
+
+  it("only loads forecasts whose target period closed since the previous run", async () => {
+    const { storage, accuracy, sell } = await setup();
+    await sell("2026-01-06T17:00:00Z", 5);
+    await sell("2026-04-14T15:00:00Z", 8);
+    const predict = (iso: string, predictedQuantity: number) => ({
+      itemName: "Tomato Soup", category: "Starters", predictedQuantity, confidence: 0.8, predictionDate: new Date(iso), forecastPeriod: "daily",
+    });
+    await storage.bulkCreatePredictions([predict("2026-01-06T05:00:00Z", 4)]);
+    await accuracy.reconcile(undefined, new Date("2026-03-05T12:00:00Z"));
+    await storage.bulkCreatePredictions([predict("2026-04-14T04:00:00Z", 6)]);
+    const loadAll = vi.spyOn(storage, "getPredictions");
+    const loadRange = vi.spyOn(storage, "getPredictionsByDateRange");
+
+    const records = await accuracy.reconcile(undefined, new Date("2026-04-16T12:00:00Z"));
+
+    expect(loadAll).not.toHaveBeenCalled();
+    expect(loadRange.mock.calls[0][0].getTime()).toBeGreaterThan(new Date("2026-01-06T05:00:00Z").getTime());
+    expect(records.map(record => [record.predictedQuantity, record.actualQuantity])).toEqual([[6, 8]]);
+  });
+});
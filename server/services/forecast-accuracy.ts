@@ -0,0 +1,360 @@
+import { type ForecastAccuracy, type InsertForecastAccuracy, type SalesData } from "@shared/schema";
+import { storage, type IStorage, type ForecastAccuracyFilters } from "../storage";
+import { addPeriods, buildSeries, periodStart, seriesPeriods, upcomingPeriods, type SeriesPeriod } from "@shared/time-series";
+
+/**
+ * Forecast vs. actual reconciliation: once a forecast's target period has passed and its sales
+ * have arrived, record the realised error so accuracy reflects what really happened
+ */
+
+export const BASELINE_MODEL = 'baseline'; // Predictions produced by ForecastingService
+
+export interface AccuracyPoint {
+  date: Date;
+  accuracy: number | null; // 1 - WAPE over the trailing window; null when nothing was reconciled
+  mae: number | null;
+  mape: number | null;
+  count: number;
+}
+
+export interface AccuracySummary {
+  itemName: string;
+  modelType: string;
+  count: number;
+  mae: number;
+  mape: number | null;
+  bias: number;
+  accuracy: number;
+}
+
+export interface DriftSnapshot {
+  modelType: string;
+  locationId: string | null;
+  currentAccuracy: number;
+  baselineAccuracy: number;
+  currentCount: number;
+  baselineCount: number;
+}
+
+// One forecast value and the period it was made for
+interface ForecastTarget {
+  predictionId: string;
+  horizonStep: number;
+  itemName: string;
+  modelType: string;
+  period: SeriesPeriod;
+  start: Date;
+  end: Date;
+  predicted: number;
+  locationId: string | null;
+  allLocations: boolean; // Compare against the item's sales at every location
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Periods that closed this long before the last reconciliation are checked again, for sales uploaded late
+const LATE_SALES_DAYS = 7;
+
+export class ForecastAccuracyService {
+  // When each scope was last reconciled ('' for all locations, which covers every location too)
+  private reconciledAt = new Map<string, Date>();
+
+  constructor(private storage: IStorage) {}
+
+  /**
+   * Join stored predictions with the sales recorded for the same item and target period and
+   * persist the realised error. Target periods are read on the settings calendar: a baseline
+   * prediction covers the period starting at its prediction date, and step n of an advanced
+   * forecast the n-th period from the one it was made in. Only periods that are over and have
+   * sales data are reconciled; already reconciled forecasts are skipped, so this is safe to run
+   * repeatedly. After the first run only forecasts whose target periods closed since the
+   * previous one (less LATE_SALES_DAYS) are loaded.
+   */
+  async reconcile(locationId?: string, now: Date = new Date()): Promise<ForecastAccuracy[]> {
+    const { timeZone } = await this.storage.getSettings();
+    const previous = this.lastReconciled(locationId);
+    const closedAfter = previous ? new Date(previous.getTime() - LATE_SALES_DAYS * DAY_MS) : undefined;
+    const targets: ForecastTarget[] = [];
+
+    // A target period is at most a month long, so it closed after `closedAfter` only if it started within the month before
+    const baseline = closedAfter
+      ? await this.storage.getPredictionsByDateRange(addPeriods(closedAfter, 'monthly', -1, timeZone), now, locationId)
+      : await this.storage.getPredictions(undefined, locationId);
+    for (const prediction of baseline) {
+      const period = toPeriod(prediction.forecastPeriod);
+      const start = periodStart(prediction.predictionDate, period, timeZone);
+      targets.push({
+        predictionId: prediction.id,
+        horizonStep: 1,
+        itemName: prediction.itemName,
+        modelType: BASELINE_MODEL,
+        period,
+        start,
+        end: addPeriods(start, period, 1, timeZone),
+        predicted: prediction.predictedQuantity,
+        // Basic predictions are made per kitchen, so match the exact location (null is unassigned sales)
+        locationId: prediction.locationId,
+        allLocations: false,
+      });
+    }
+
+    for (const prediction of await this.storage.getAdvancedPredictions({ endsAfter: closedAfter }, locationId)) {
+      if (!prediction.createdAt || !Array.isArray(prediction.predictions)) continue;
+      const values = prediction.predictions as number[];
+      const period = toPeriod(prediction.forecastPeriod);
+
+      upcomingPeriods(prediction.createdAt, values.length, { timeZone, period }).forEach(({ start }, index) => {
+        targets.push({
+          predictionId: prediction.id,
+          horizonStep: index + 1,
+          itemName: prediction.itemName,
+          modelType: prediction.modelType,
+          period,
+          start,
+          end: addPeriods(start, period, 1, timeZone),
+          predicted: values[index],
+          locationId: prediction.locationId,
+          // Advanced forecasts without a location were made on the all-locations roll-up
+          allLocations: !prediction.locationId,
+        });
+      });
+    }
+
+    const closed = targets.filter(target => target.end <= now && (!closedAfter || target.end > closedAfter));
+    const saved = closed.length > 0 ? await this.saveAccuracy(closed, timeZone, locationId) : [];
+    this.reconciledAt.set(locationId ?? '', now);
+    return saved;
+  }
+
+  /**
+   * Record the realised error of each closed target whose period has sales data
+   */
+  private async saveAccuracy(targets: ForecastTarget[], timeZone: string, locationId?: string): Promise<ForecastAccuracy[]> {
+    const earliest = new Date(Math.min(...targets.map(target => target.start.getTime())));
+    const latest = new Date(Math.max(...targets.map(target => target.end.getTime())) - 1);
+    const sales = await this.storage.getSalesDataByDateRange(earliest, latest, locationId);
+    const totals = new PeriodTotals(sales, timeZone);
+
+    const records = targets.flatMap(target => {
+      if (!totals.hasSales(target.period, target.start)) return [];
+      const actual = totals.itemQuantity(target.period, target.start, target.itemName, target.allLocations ? undefined : target.locationId);
+      return [this.toRecord(target.predictionId, target.horizonStep, target.itemName, target.modelType, target.start, target.predicted, actual, target.locationId)];
+    });
+
+    return this.storage.bulkCreateForecastAccuracy(records);
+  }
+
+  private lastReconciled(locationId?: string): Date | undefined {
+    const times = [this.reconciledAt.get(''), locationId ? this.reconciledAt.get(locationId) : undefined]
+      .filter((time): time is Date => time !== undefined);
+    return times.length > 0 ? new Date(Math.max(...times.map(time => time.getTime()))) : undefined;
+  }
+
+  /**
+   * Daily series of accuracy over a trailing window, oldest first
+   */
+  async getRollingAccuracy(
+    options: { days?: number; window?: number; modelType?: string; itemName?: string } = {},
+    locationId?: string,
+    now: Date = new Date()
+  ): Promise<AccuracyPoint[]> {
+    const days = options.days ?? 30;
+    const window = options.window ?? 7;
+    const lastDay = addDays(startOfDay(now), -1);
+    const firstDay = addDays(lastDay, -(days - 1));
+
+    const records = await this.storage.getForecastAccuracy({
+      modelType: options.modelType,
+      itemName: options.itemName,
+      startDate: addDays(firstDay, -(window - 1)),
+      endDate: new Date(lastDay.getTime() + DAY_MS - 1),
+    }, locationId);
+
+    return Array.from({ length: days }, (_, i) => {
+      const date = addDays(firstDay, i);
+      const windowStart = addDays(date, -(window - 1)).getTime();
+      const inWindow = records.filter(r => r.forecastDate.getTime() >= windowStart && r.forecastDate.getTime() <= date.getTime());
+      const stats = calculateStats(inWindow);
+
+      return {
+        date,
+        accuracy: stats?.accuracy ?? null,
+        mae: stats?.mae ?? null,
+        mape: stats?.mape ?? null,
+        count: inWindow.length,
+      };
+    });
+  }
+
+  /**
+   * Realised error per item and model
+   */
+  async getAccuracySummary(filters: ForecastAccuracyFilters = {}, locationId?: string): Promise<AccuracySummary[]> {
+    const records = await this.storage.getForecastAccuracy(filters, locationId);
+    const groups = new Map<string, ForecastAccuracy[]>();
+
+    records.forEach(record => {
+      const key = `${record.itemName}::${record.modelType}`;
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(record);
+    });
+
+    return Array.from(groups.values()).map(group => ({
+      itemName: group[0].itemName,
+      modelType: group[0].modelType,
+      count: group.length,
+      ...calculateStats(group)!,
+    }));
+  }
+
+  /**
+   * Accuracy over the last `recentDays` compared with the `baselineDays` before them, per model
+   * and location
+   */
+  async getDriftSnapshots(
+    locationId?: string,
+    now: Date = new Date(),
+    recentDays: number = 7,
+    baselineDays: number = 28
+  ): Promise<DriftSnapshot[]> {
+    const today = startOfDay(now);
+    const recentStart = addDays(today, -recentDays);
+    const baselineStart = addDays(recentStart, -baselineDays);
+
+    const records = await this.storage.getForecastAccuracy({
+      startDate: baselineStart,
+      endDate: new Date(today.getTime() - 1),
+    }, locationId);
+
+    const groups = new Map<string, ForecastAccuracy[]>();
+    records.forEach(record => {
+      const key = JSON.stringify([record.modelType, record.locationId ?? null]);
+      if (!groups.has(key)) groups.set(key, []);
+      groups.get(key)!.push(record);
+    });
+
+    return Array.from(groups.values()).flatMap(modelRecords => {
+      const { modelType, locationId } = modelRecords[0];
+      const recent = modelRecords.filter(record => record.forecastDate >= recentStart);
+      const baseline = modelRecords.filter(record => record.forecastDate < recentStart);
+      const recentStats = calculateStats(recent);
+      const baselineStats = calculateStats(baseline);
+
+      if (!recentStats || !baselineStats) return [];
+      return [{
+        modelType,
+        locationId: locationId ?? null,
+        currentAccuracy: recentStats.accuracy,
+        baselineAccuracy: baselineStats.accuracy,
+        currentCount: recent.length,
+        baselineCount: baseline.length,
+      }];
+    });
+  }
+
+  /**
+   * Accuracy of the dashboard's baseline predictions over the last week, if any were reconciled
+   */
+  async getCurrentAccuracy(locationId?: string, now: Date = new Date()): Promise<number | null> {
+    const [latest] = (await this.getRollingAccuracy({ days: 1, modelType: BASELINE_MODEL }, locationId, now));
+    return latest?.accuracy ?? null;
+  }
+
+  private toRecord(
+    predictionId: string,
+    horizonStep: number,
+    itemName: string,
+    modelType: string,
+    forecastDate: Date,
+    predicted: number,
+    actual: number,
+    locationId: string | null
+  ): InsertForecastAccuracy {
+    const absoluteError = Math.abs(predicted - actual);
+    return {
+      locationId,
+      predictionId,
+      horizonStep,
+      itemName,
+      modelType,
+      forecastDate,
+      predictedQuantity: predicted,
+      actualQuantity: actual,
+      absoluteError,
+      percentageError: actual > 0 ? absoluteError / actual : null,
+    };
+  }
+}
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+function toPeriod(value: string): SeriesPeriod {
+  return (seriesPeriods as readonly string[]).includes(value) ? value as SeriesPeriod : 'daily';
+}
+
+/**
+ * Sales summed per period of the settings calendar, built once per period length and scope
+ */
+class PeriodTotals {
+  private cache = new Map<string, Map<number, number>>();
+
+  constructor(private sales: SalesData[], private timeZone: string) {}
+
+  // Whether any sales at all were recorded in the period, i.e. its data has arrived
+  hasSales(period: SeriesPeriod, start: Date): boolean {
+    return this.totals(period, 'all', () => this.sales).has(start.getTime());
+  }
+
+  // Units of the item sold in the period; at one location (null is unassigned) or, when undefined, at all
+  itemQuantity(period: SeriesPeriod, start: Date, itemName: string, locationId: string | null | undefined): number {
+    const key = JSON.stringify([itemName, locationId === undefined ? 'all' : locationId]);
+    const totals = this.totals(period, key, () => this.sales.filter(sale =>
+      sale.itemName === itemName && (locationId === undefined || sale.locationId === locationId)));
+    return totals.get(start.getTime()) ?? 0;
+  }
+
+  private totals(period: SeriesPeriod, key: string, select: () => SalesData[]): Map<number, number> {
+    const cacheKey = `${period}::${key}`;
+    let totals = this.cache.get(cacheKey);
+    if (!totals) {
+      totals = new Map(buildSeries(select(), { period, timeZone: this.timeZone })
+        .filter(bucket => bucket.observed)
+        .map(bucket => [bucket.start.getTime(), bucket.quantity]));
+      this.cache.set(cacheKey, totals);
+    }
+    return totals;
+  }
+}
+
+/**
+ * Accuracy is 1 - WAPE (total absolute error over total actual), which stays defined on zero-sale days
+ */
+function calculateStats(records: ForecastAccuracy[]): { accuracy: number; mae: number; mape: number | null; bias: number } | null {
+  if (records.length === 0) return null;
+
+  const totalError = records.reduce((sum, r) => sum + r.absoluteError, 0);
+  const totalActual = records.reduce((sum, r) => sum + r.actualQuantity, 0);
+  const bias = records.reduce((sum, r) => sum + (r.predictedQuantity - r.actualQuantity), 0) / records.length;
+  const withPercentage = records.filter(r => r.percentageError !== null);
+
+  return {
+    accuracy: totalActual > 0 ? Math.max(0, 1 - totalError / totalActual) : (totalError === 0 ? 1 : 0),
+    mae: totalError / records.length,
+    mape: withPercentage.length > 0
+      ? withPercentage.reduce((sum, r) => sum + r.percentageError!, 0) / withPercentage.length
+      : null,
+    bias,
+  };
+}
+
+export const forecastAccuracyService = new ForecastAccuracyService(storage);
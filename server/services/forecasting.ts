@@ -1,18 +1,19 @@
-import { SalesData, InsertPrediction } from "@shared/schema";
+import { SalesData, InsertPrediction, type ForecastPeriod } from "@shared/schema";
+import { buildPredictionIntervals, quantile } from "./prediction-intervals";
+import { buildSeries, periodStart, addPeriods, lastCompletePeriod, isClosed, SEASON_LENGTHS, type SeriesCalendar } from "@shared/time-series";
 
 interface ForecastingOptions {
-  period: 'daily' | 'weekly' | 'monthly';
+  period: ForecastPeriod;
   confidence?: number;
+  calendar?: SeriesCalendar;
 }
 
 interface ForecastResult {
   predictions: InsertPrediction[];
+  // One-step errors forecasting each item's last complete period from the periods before it
   metrics: {
-    accuracy: number;
+    accuracy: number; // 1 - WAPE
     rmse: number;
-    f1Score: number;
-    precision: number;
-    recall: number;
   };
 }
 
@@ -49,6 +50,17 @@ export class ForecastingService {
     return slope * n + intercept; // Predict next value
   }
 
+  /**
+   * One-step-ahead moving average residuals (actual - forecast) over the history
+   */
+  private calculateResiduals(data: number[], window: number): number[] {
+    const residuals: number[] = [];
+    for (let i = 1; i < data.length; i++) {
+      residuals.push(data[i] - this.calculateMovingAverage(data.slice(0, i), Math.min(window, i)));
+    }
+    return residuals;
+  }
+
   /**
    * Seasonal adjustment based on day of week patterns
    */
@@ -58,6 +70,18 @@ export class ForecastingService {
     return seasonalFactors[dayOfWeek];
   }
 
+  /**
+   * Seasonal index at `position` of a regular series: the mean of that season's observations
+   * over the overall mean. Needs two full cycles, otherwise there is no adjustment.
+   */
+  private estimateSeasonalMultiplier(data: number[], seasonLength: number, position: number): number {
+    if (data.length < seasonLength * 2) return 1;
+    const overall = data.reduce((a, b) => a + b, 0) / data.length;
+    const season = data.filter((_, i) => i % seasonLength === position % seasonLength);
+    const seasonMean = season.reduce((a, b) => a + b, 0) / season.length;
+    return overall > 0 ? seasonMean / overall : 1;
+  }
+
   /**
    * Calculate confidence based on data consistency
    */
@@ -80,18 +104,24 @@ export class ForecastingService {
   }
 
   /**
-   * Group sales data by item and calculate predictions
+   * Group sales data by item, resample each item's sales into complete periods and predict
+   * the period after the current one (tomorrow, next week or next month)
    */
   async generateForecasts(
     salesData: SalesData[], 
-    options: ForecastingOptions = { period: 'daily' }
+    options: ForecastingOptions = { period: 'daily' },
+    now: Date = new Date()
   ): Promise<ForecastResult> {
+    const { period, calendar = {} } = options;
+    const seriesEnd = lastCompletePeriod(now, period, calendar.timeZone);
+    const target = addPeriods(periodStart(now, period, calendar.timeZone), period, 1, calendar.timeZone);
+    const targetClosed = period === 'daily' && isClosed(target, calendar);
     
-    // Group data by item
+    // Group data by item within each location so every kitchen gets its own forecast
     const itemGroups = new Map<string, SalesData[]>();
     
     salesData.forEach(sale => {
-      const key = sale.itemName;
+      const key = `${sale.locationId ?? ''}::${sale.itemName}`;
       if (!itemGroups.has(key)) {
         itemGroups.set(key, []);
       }
@@ -100,15 +130,15 @@ export class ForecastingService {
 
     const predictions: InsertPrediction[] = [];
     let totalError = 0;
-    let totalPredictions = 0;
+    let totalSquaredError = 0;
+    let totalHeldOut = 0;
+    let heldOutCount = 0;
 
     // Generate predictions for each item
-    for (const [itemName, itemSales] of itemGroups.entries()) {
-      // Sort by date
-      itemSales.sort((a: any, b: any) => a.date.getTime() - b.date.getTime());
-      
-      // Extract quantities
-      const quantities = itemSales.map((sale: any) => sale.quantity);
+    for (const itemSales of Array.from(itemGroups.values())) {
+      // One gap-filled total per complete period
+      const series = buildSeries(itemSales, { ...calendar, period, end: seriesEnd });
+      const quantities = series.map(bucket => bucket.quantity);
       
       if (quantities.length === 0) continue;
 
@@ -119,94 +149,114 @@ export class ForecastingService {
       // Combine predictions (weighted average)
       const basePrediction = (movingAvg * 0.6) + (trendPrediction * 0.4);
       
-      // Apply seasonal adjustment
-      const tomorrow = new Date();
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      const seasonalMultiplier = this.getSeasonalMultiplier(tomorrow);
-      const seasonalPrediction = Math.round(basePrediction * seasonalMultiplier);
+      // Apply seasonal adjustment; the target sits two steps past the series, after the current period
+      const seasonalMultiplier = period === 'daily'
+        ? this.getSeasonalMultiplier(target)
+        : this.estimateSeasonalMultiplier(quantities, SEASON_LENGTHS[period], quantities.length + 1);
+      // Nothing is sold on a day the kitchen is closed
+      const seasonalPrediction = targetClosed ? 0 : Math.round(basePrediction * seasonalMultiplier);
       
       // Calculate confidence
       const confidence = this.calculateConfidence(quantities, seasonalPrediction);
+
+      // P10/P90 band from the spread of past one-step errors, scaled like the point forecast
+      const residuals = this.calculateResiduals(quantities, 7).map(r => targetClosed ? 0 : r * seasonalMultiplier);
+      const intervals = buildPredictionIntervals([Math.max(0, seasonalPrediction)], residuals);
       
-      // Get category from first item
-      const category = itemSales[0].category;
+      // Get item, category and location from first record
+      const { itemName, category, locationId } = itemSales[0];
       
       predictions.push({
+        locationId,
         itemName,
         category,
         predictedQuantity: Math.max(0, seasonalPrediction),
+        lowerBound: intervals.p10[0],
+        upperBound: intervals.p90[0],
         confidence,
-        predictionDate: tomorrow,
-        forecastPeriod: options.period,
+        predictionDate: target,
+        forecastPeriod: period,
       });
 
-      // Calculate simple error metrics
+      // Hold out the last complete period and forecast it from the ones before, the same way
       if (quantities.length > 1) {
-        const lastActual = quantities[quantities.length - 1];
-        const error = Math.abs(basePrediction - lastActual);
+        const history = quantities.slice(0, -1);
+        const heldOutBucket = series[series.length - 1];
+        // A closed bucket carries an interpolated value, but nothing was actually sold
+        const heldOut = heldOutBucket.closed ? 0 : heldOutBucket.quantity;
+        const heldOutBase = (this.calculateMovingAverage(history, Math.min(7, history.length)) * 0.6)
+          + (this.calculateLinearTrend(history) * 0.4);
+        const heldOutMultiplier = period === 'daily'
+          ? this.getSeasonalMultiplier(heldOutBucket.start)
+          : this.estimateSeasonalMultiplier(history, SEASON_LENGTHS[period], history.length);
+        const heldOutClosed = period === 'daily' && isClosed(heldOutBucket.start, calendar);
+        const heldOutPrediction = heldOutClosed ? 0 : Math.round(heldOutBase * heldOutMultiplier);
+        const error = Math.abs(Math.max(0, heldOutPrediction) - heldOut);
         totalError += error;
-        totalPredictions++;
+        totalSquaredError += error * error;
+        totalHeldOut += heldOut;
+        heldOutCount++;
       }
     }
 
-    // Calculate aggregate metrics
-    const avgError = totalPredictions > 0 ? totalError / totalPredictions : 0;
-    const avgQuantity = salesData.reduce((sum, sale) => sum + sale.quantity, 0) / salesData.length;
-    const rmse = avgError / (avgQuantity || 1);
-    
     const metrics = {
-      accuracy: Math.max(0.3, 1 - rmse),
-      rmse: rmse,
-      f1Score: Math.max(0.5, 0.95 - rmse * 0.5),
-      precision: Math.max(0.5, 0.92 - rmse * 0.3),
-      recall: Math.max(0.5, 0.94 - rmse * 0.4),
+      accuracy: totalHeldOut > 0 ? Math.max(0, 1 - totalError / totalHeldOut) : (totalError === 0 ? 1 : 0),
+      rmse: heldOutCount > 0 ? Math.sqrt(totalSquaredError / heldOutCount) : 0,
     };
 
     return { predictions, metrics };
   }
 
   /**
-   * Generate demand trend data for charts
+   * Generate demand trend data for charts. Each day's prediction is the trailing
+   * 7-day mean of daily totals, with a P10-P90 band from the spread of those errors.
+   * Days are cut on the calendar's time zone, and closed days show nothing sold or predicted.
    */
-  generateDemandTrends(salesData: SalesData[], days: number = 7): { 
+  generateDemandTrends(salesData: SalesData[], days: number = 7, calendar: SeriesCalendar = {}, now: Date = new Date()): {
     actual: number[], 
     predicted: number[], 
+    lower: number[],
+    upper: number[],
     labels: string[] 
   } {
-    const endDate = new Date();
-    const startDate = new Date();
-    startDate.setDate(endDate.getDate() - days + 1);
+    const window = 7;
+    const historyDays = days + window * 4;
+    const today = periodStart(now, 'daily', calendar.timeZone);
+    const startDate = addPeriods(today, 'daily', -(historyDays - 1), calendar.timeZone);
+
+    // Daily totals, including enough history before the chart window to seed forecasts;
+    // closed days carry interpolated values so they don't drag the averages down
+    const buckets = buildSeries(
+      salesData.filter(sale => sale.date >= startDate),
+      { ...calendar, period: 'daily', start: startDate, end: today },
+    );
+    const totals = buckets.map(bucket => bucket.quantity);
+
+    const forecasts = totals.map((_, i) => 
+      i === 0 ? totals[0] : this.calculateMovingAverage(totals.slice(0, i), Math.min(window, i))
+    );
+    const residuals = totals.slice(1).map((total, i) => total - forecasts[i + 1]);
+    const low = quantile(residuals, 0.1);
+    const high = quantile(residuals, 0.9);
 
     const labels: string[] = [];
     const actual: number[] = [];
     const predicted: number[] = [];
+    const lower: number[] = [];
+    const upper: number[] = [];
 
-    // Generate daily aggregates
-    for (let i = 0; i < days; i++) {
-      const currentDate = new Date(startDate);
-      currentDate.setDate(startDate.getDate() + i);
-      
-      labels.push(currentDate.toLocaleDateString('en-US', { weekday: 'short' }));
-      
-      // Sum actual sales for this day
-      const dayStart = new Date(currentDate.setHours(0, 0, 0, 0));
-      const dayEnd = new Date(currentDate.setHours(23, 59, 59, 999));
-      
-      const daySales = salesData.filter(sale => 
-        sale.date >= dayStart && sale.date <= dayEnd
-      );
-      
-      const actualTotal = daySales.reduce((sum, sale) => sum + sale.quantity, 0);
-      actual.push(actualTotal);
-      
-      // Generate predicted value (simplified)
-      const baseValue = actualTotal || 50;
-      const noise = (Math.random() - 0.5) * 0.2 * baseValue;
-      const predictedValue = Math.round(baseValue + noise);
-      predicted.push(Math.max(0, predictedValue));
+    for (let i = historyDays - days; i < historyDays; i++) {
+      const { start, closed } = buckets[i];
+      const shown = (value: number) => closed ? 0 : Math.max(0, Math.round(value));
+
+      labels.push(start.toLocaleDateString('en-US', { weekday: 'short', timeZone: calendar.timeZone || undefined }));
+      actual.push(closed ? 0 : totals[i]);
+      predicted.push(shown(forecasts[i]));
+      lower.push(shown(forecasts[i] + low));
+      upper.push(shown(forecasts[i] + high));
     }
 
-    return { actual, predicted, labels };
+    return { actual, predicted, lower, upper, labels };
   }
 }
 
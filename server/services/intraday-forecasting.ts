@@ -0,0 +1,375 @@
+import { type Prediction, type SalesData } from "@shared/schema";
+import { storage, type IStorage } from "../storage";
+import { prepPlanningService, type PrepPlanningService, type PrepPlanItem } from "./prep-planning";
+
+/**
+ * Intraday demand. Timestamped sales from recent weeks give each item a profile per weekday:
+ * the share of a day's portions sold in each 15-minute or hourly slot. A daily forecast is
+ * spread over the day with the most specific profile that has enough days behind it (the
+ * item on that weekday, the item on any day, then the whole location), and the prep schedule
+ * splits each dish's prep quantity into waves ahead of breakfast, lunch, afternoon and dinner.
+ *
+ * Sales recorded at exactly midnight carry a date but no time of sale (single entries and CSV
+ * rows without a time), so they count towards daily totals but never towards a profile.
+ */
+
+export const intradayIntervals = [15, 60] as const;
+export type IntradayInterval = typeof intradayIntervals[number];
+
+export const MAX_PROFILE_DAYS = 365;
+export const MAX_PREP_LEAD_MINUTES = 240;
+
+const DEFAULT_PROFILE_DAYS = 56; // Eight of each weekday
+const MIN_PROFILE_DAYS = 3; // Days with timed sales needed before a profile is used
+const DEFAULT_PREP_LEAD_MINUTES = 30; // Cooking starts this long before a wave's first sale
+
+// Waves the kitchen preps for, by hour of day; together they cover the whole day
+export const SERVICE_PERIODS = [
+  { name: "Breakfast", startHour: 0, endHour: 11 },
+  { name: "Lunch", startHour: 11, endHour: 15 },
+  { name: "Afternoon", startHour: 15, endHour: 17 },
+  { name: "Dinner", startHour: 17, endHour: 24 },
+] as const;
+
+export type ProfileSource = "weekday" | "item" | "location-weekday" | "location";
+
+export interface WeekdayProfile {
+  dayOfWeek: number; // 0 = Sunday, as Date.getDay()
+  days: number; // Days with timed sales
+  quantity: number;
+  shares: number[]; // Share of the day's portions per slot, summing to 1
+}
+
+export interface ItemIntradayProfile {
+  itemName: string;
+  category: string;
+  locationId: string | null;
+  timedQuantity: number;
+  untimedQuantity: number;
+  peakHour: number | null;
+  weekdays: WeekdayProfile[];
+}
+
+export interface IntradaySlot {
+  start: Date;
+  quantity: number;
+  lower: number | null;
+  upper: number | null;
+}
+
+export interface IntradayItemForecast {
+  itemName: string;
+  category: string;
+  locationId: string | null;
+  dailyForecast: number;
+  profileSource: ProfileSource | null; // Null when nothing at the location has timed sales
+  slots: IntradaySlot[];
+}
+
+export interface IntradayForecast {
+  date: Date;
+  interval: IntradayInterval;
+  items: IntradayItemForecast[];
+  totals: { start: Date; quantity: number }[];
+}
+
+export interface PrepWave {
+  itemName: string;
+  category: string;
+  locationId: string | null;
+  period: string; // Service period name, or "All day" without a profile
+  readyBy: Date | null; // First slot of the period with forecast demand
+  cookBy: Date | null;
+  expectedDemand: number;
+  quantity: number; // Portions to cook for the wave, after using stock on hand
+}
+
+export interface PrepSchedule {
+  date: Date;
+  leadMinutes: number;
+  waves: PrepWave[];
+}
+
+interface ProfileGroup {
+  itemName: string;
+  category: string;
+  locationId: string | null;
+  timedQuantity: number;
+  untimedQuantity: number;
+  // Slot quantities per calendar day, keyed by day start time
+  days: Map<number, number[]>;
+}
+
+export class IntradayForecastingService {
+
+  constructor(
+    private storage: IStorage,
+    private prepPlanning: PrepPlanningService,
+  ) {}
+
+  /**
+   * Hourly weekday profiles for every item sold in the last `days` days
+   */
+  async getProfiles(days: number = DEFAULT_PROFILE_DAYS, locationId?: string, now: Date = new Date()): Promise<ItemIntradayProfile[]> {
+    const sales = await this.storage.getSalesDataByDateRange(addDays(startOfDay(now), -days), now, locationId);
+
+    return Array.from(groupSales(sales, 60).values())
+      .map(group => {
+        const weekdays = Array.from({ length: 7 }, (_, dayOfWeek) => profileFor(group, 60, dayOfWeek))
+          .filter((profile): profile is WeekdayProfile => profile !== null);
+        const overall = profileFor(group, 60);
+        const peak = overall ? overall.shares.indexOf(Math.max(...overall.shares)) : -1;
+        return {
+          itemName: group.itemName,
+          category: group.category,
+          locationId: group.locationId,
+          timedQuantity: group.timedQuantity,
+          untimedQuantity: group.untimedQuantity,
+          peakHour: peak >= 0 ? peak : null,
+          weekdays,
+        };
+      })
+      .sort((a, b) => a.itemName.localeCompare(b.itemName));
+  }
+
+  /**
+   * Demand curves for `date`: each item's latest daily forecast spread over the day's slots
+   */
+  async getForecast(date: Date, interval: IntradayInterval = 60, locationId?: string, now: Date = new Date()): Promise<IntradayForecast> {
+    const day = startOfDay(date);
+    const [predictions, sales] = await Promise.all([
+      this.storage.getPredictionsByDate(new Date(day), locationId),
+      this.storage.getSalesDataByDateRange(addDays(startOfDay(now), -DEFAULT_PROFILE_DAYS), now, locationId),
+    ]);
+    const groups = groupSales(sales, interval);
+    const slotStarts = Array.from({ length: slotsPerDay(interval) }, (_, slot) => new Date(day.getTime() + slot * interval * 60 * 1000));
+
+    const items = latestPerItem(predictions)
+      .map((prediction): IntradayItemForecast => {
+        const profile = this.chooseProfile(groups, prediction, interval, day.getDay());
+        return {
+          itemName: prediction.itemName,
+          category: prediction.category,
+          locationId: prediction.locationId,
+          dailyForecast: prediction.predictedQuantity,
+          profileSource: profile?.source ?? null,
+          // Bounds are scaled with the point forecast, treating every slot as moving together
+          slots: profile ? slotStarts.map((start, slot) => ({
+            start,
+            quantity: round(prediction.predictedQuantity * profile.shares[slot]),
+            lower: prediction.lowerBound === null ? null : round(prediction.lowerBound * profile.shares[slot]),
+            upper: prediction.upperBound === null ? null : round(prediction.upperBound * profile.shares[slot]),
+          })) : [],
+        };
+      })
+      .sort((a, b) => a.itemName.localeCompare(b.itemName));
+
+    const totals = slotStarts.map((start, slot) => ({
+      start,
+      quantity: round(items.reduce((sum, item) => sum + (item.slots[slot]?.quantity ?? 0), 0)),
+    }));
+
+    return { date: day, interval, items, totals };
+  }
+
+  /**
+   * What to cook and when on `date`: each dish's newsvendor target split across service
+   * periods by its intraday curve, with stock on hand used up by the earliest waves first
+   */
+  async getPrepSchedule(date: Date, leadMinutes: number = DEFAULT_PREP_LEAD_MINUTES, locationId?: string, now: Date = new Date()): Promise<PrepSchedule> {
+    const day = startOfDay(date);
+    const [plan, forecast] = await Promise.all([
+      this.prepPlanning.getPrepPlan(day, locationId, {}, now),
+      this.getForecast(day, 15, locationId, now),
+    ]);
+    const curves = new Map(forecast.items.map(item => [`${item.locationId ?? ''}|${item.itemName}`, item]));
+
+    const waves = plan.flatMap(item => {
+      const curve = curves.get(`${item.locationId ?? ''}|${item.itemName}`);
+      return curve && curve.slots.length > 0
+        ? planWaves(item, curve.slots, leadMinutes)
+        : [{
+          itemName: item.itemName,
+          category: item.category,
+          locationId: item.locationId,
+          period: "All day",
+          readyBy: null,
+          cookBy: null,
+          expectedDemand: item.forecast,
+          quantity: item.prepQuantity,
+        }];
+    });
+
+    waves.sort((a, b) =>
+      (a.cookBy?.getTime() ?? Infinity) - (b.cookBy?.getTime() ?? Infinity) || a.itemName.localeCompare(b.itemName),
+    );
+    return { date: day, leadMinutes, waves };
+  }
+
+  private chooseProfile(
+    groups: Map<string, ProfileGroup>,
+    prediction: Prediction,
+    interval: IntradayInterval,
+    dayOfWeek: number,
+  ): { source: ProfileSource; shares: number[] } | null {
+    const item = groups.get(groupKey(prediction.locationId, prediction.itemName));
+    const location = mergeGroups(Array.from(groups.values()).filter(group => group.locationId === prediction.locationId));
+    const candidates: [ProfileSource, WeekdayProfile | null][] = [
+      ["weekday", item ? profileFor(item, interval, dayOfWeek) : null],
+      ["item", item ? profileFor(item, interval) : null],
+      ["location-weekday", location ? profileFor(location, interval, dayOfWeek) : null],
+      ["location", location ? profileFor(location, interval) : null],
+    ];
+    const found = candidates.find(([, profile]) => profile !== null && profile.days >= MIN_PROFILE_DAYS)
+      ?? candidates.find(([, profile]) => profile !== null);
+    return found ? { source: found[0], shares: found[1]!.shares } : null;
+  }
+}
+
+// Timed sales per item and location, bucketed into slots of each calendar day
+function groupSales(sales: SalesData[], interval: IntradayInterval): Map<string, ProfileGroup> {
+  const groups = new Map<string, ProfileGroup>();
+  sales.forEach(sale => {
+    const key = groupKey(sale.locationId, sale.itemName);
+    let group = groups.get(key);
+    if (!group) {
+      group = { itemName: sale.itemName, category: sale.category, locationId: sale.locationId, timedQuantity: 0, untimedQuantity: 0, days: new Map() };
+      groups.set(key, group);
+    }
+    if (!hasTimeOfSale(sale.date)) {
+      group.untimedQuantity += sale.quantity;
+      return;
+    }
+    const day = startOfDay(sale.date).getTime();
+    let slots = group.days.get(day);
+    if (!slots) {
+      slots = new Array(slotsPerDay(interval)).fill(0);
+      group.days.set(day, slots);
+    }
+    slots[Math.floor((sale.date.getHours() * 60 + sale.date.getMinutes()) / interval)] += sale.quantity;
+    group.timedQuantity += sale.quantity;
+  });
+  return groups;
+}
+
+// Every item at a location as one group
+function mergeGroups(groups: ProfileGroup[]): ProfileGroup | null {
+  if (groups.length === 0) return null;
+  const days = new Map<number, number[]>();
+  groups.forEach(group => {
+    Array.from(group.days.entries()).forEach(([day, slots]) => {
+      const merged = days.get(day);
+      days.set(day, merged ? merged.map((quantity, slot) => quantity + slots[slot]) : [...slots]);
+    });
+  });
+  return {
+    itemName: "",
+    category: "",
+    locationId: groups[0].locationId,
+    timedQuantity: groups.reduce((sum, group) => sum + group.timedQuantity, 0),
+    untimedQuantity: groups.reduce((sum, group) => sum + group.untimedQuantity, 0),
+    days,
+  };
+}
+
+// Average of each day's slot shares, so a busy day doesn't outweigh a quiet one
+function profileFor(group: ProfileGroup, interval: IntradayInterval, dayOfWeek?: number): WeekdayProfile | null {
+  const days = Array.from(group.days.entries())
+    .filter(([day]) => dayOfWeek === undefined || new Date(day).getDay() === dayOfWeek)
+    .map(([, slots]) => slots);
+  const dayShares = days
+    .map(slots => ({ slots, total: slots.reduce((sum, quantity) => sum + quantity, 0) }))
+    .filter(({ total }) => total > 0)
+    .map(({ slots, total }) => slots.map(quantity => quantity / total));
+  if (dayShares.length === 0) return null;
+
+  return {
+    dayOfWeek: dayOfWeek ?? -1,
+    days: dayShares.length,
+    quantity: days.reduce((sum, slots) => sum + slots.reduce((daySum, quantity) => daySum + quantity, 0), 0),
+    shares: Array.from({ length: slotsPerDay(interval) }, (_, slot) =>
+      round(dayShares.reduce((sum, shares) => sum + shares[slot], 0) / dayShares.length, 4),
+    ),
+  };
+}
+
+// One wave per service period with forecast demand, largest-remainder rounded to whole portions
+function planWaves(item: PrepPlanItem, slots: IntradaySlot[], leadMinutes: number): PrepWave[] {
+  const periods = SERVICE_PERIODS.map(period => {
+    const inPeriod = slots.filter(slot => slot.start.getHours() >= period.startHour && slot.start.getHours() < period.endHour);
+    return {
+      name: period.name,
+      demand: inPeriod.reduce((sum, slot) => sum + slot.quantity, 0),
+      readyBy: inPeriod.find(slot => slot.quantity > 0)?.start ?? null,
+    };
+  });
+  const totalDemand = periods.reduce((sum, period) => sum + period.demand, 0);
+  if (totalDemand <= 0) return [];
+
+  const exact = periods.map(period => item.targetQuantity * period.demand / totalDemand);
+  const portions = exact.map(Math.floor);
+  const byRemainder = exact.map((value, index) => index).sort((a, b) => (exact[b] - portions[b]) - (exact[a] - portions[a]));
+  for (let i = 0; i < item.targetQuantity - portions.reduce((sum, value) => sum + value, 0); i++) portions[byRemainder[i]]++;
+
+  let onHand = item.onHand;
+  return periods
+    .map((period, index): PrepWave => {
+      const fromStock = Math.min(onHand, portions[index]);
+      onHand -= fromStock;
+      return {
+        itemName: item.itemName,
+        category: item.category,
+        locationId: item.locationId,
+        period: period.name,
+        readyBy: period.readyBy,
+        cookBy: period.readyBy ? new Date(period.readyBy.getTime() - leadMinutes * 60 * 1000) : null,
+        expectedDemand: round(period.demand),
+        quantity: Math.max(0, Math.ceil(portions[index] - fromStock)),
+      };
+    })
+    .filter(wave => wave.expectedDemand > 0);
+}
+
+// The most recently generated forecast for each item and location
+function latestPerItem(predictions: Prediction[]): Prediction[] {
+  const latest = new Map<string, Prediction>();
+  predictions.forEach(prediction => {
+    const key = groupKey(prediction.locationId, prediction.itemName);
+    const current = latest.get(key);
+    if (!current || (prediction.createdAt?.getTime() ?? 0) > (current.createdAt?.getTime() ?? 0)) latest.set(key, prediction);
+  });
+  return Array.from(latest.values());
+}
+
+// Date-only entries land on local or UTC midnight depending on how they were parsed
+function hasTimeOfSale(date: Date): boolean {
+  const localMidnight = date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0 && date.getMilliseconds() === 0;
+  return !localMidnight && date.getTime() % (24 * 60 * 60 * 1000) !== 0;
+}
+
+function groupKey(locationId: string | null, itemName: string): string {
+  return `${locationId ?? ''}|${itemName}`;
+}
+
+function slotsPerDay(interval: IntradayInterval): number {
+  return (24 * 60) / interval;
+}
+
+function round(value: number, decimals: number = 3): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+export const intradayForecastingService = new IntradayForecastingService(storage, prepPlanningService);
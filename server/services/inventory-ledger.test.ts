@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { MemStorage } from "../storage";
+import { InventoryLedgerService } from "./inventory-ledger";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+async function setup() {
+  const storage = new MemStorage();
+  const ledger = new InventoryLedgerService(storage);
+  const item = await storage.createInventory({
+    itemName: "Margherita Pizza", category: "Mains", unit: "portions",
+    currentStock: 0, minimumStock: 2, maxStock: 50,
+  });
+  // Everything below happens after the opening balance, which is stamped at creation
+  const start = Date.now() + HOUR_MS;
+  const at = (hours: number) => new Date(start + hours * HOUR_MS);
+  const sell = (quantity: number, date: Date) => storage.createSalesData({
+    itemName: item.itemName, category: item.category, quantity, revenue: quantity * 12, date,
+  });
+  return { storage, ledger, item, at, sell };
+}
+
+describe("InventoryLedgerService.depleteForSales", () => {
+  it("draws down the oldest batch first", async () => {
+    const { storage, ledger, item, at, sell } = await setup();
+    await ledger.record({ inventoryId: item.id, type: "receipt", quantity: 10, batchCode: "OLD", occurredAt: at(0) });
+    await ledger.record({ inventoryId: item.id, type: "receipt", quantity: 10, batchCode: "NEW", occurredAt: at(1) });
+
+    await ledger.depleteForSales([await sell(12, at(2))]);
+
+    const batches = await storage.getInventoryBatches({ inventoryId: item.id });
+    expect(batches.map(batch => [batch.batchCode, batch.remainingQuantity])).toEqual([["OLD", 0], ["NEW", 8]]);
+    expect((await storage.getInventory()).find(row => row.id === item.id)?.currentStock).toBe(8);
+  });
+
+  it("skips sales made before the latest count, even earlier the same day", async () => {
+    const { storage, ledger, item, at, sell } = await setup();
+    await ledger.record({ inventoryId: item.id, type: "count", countedQuantity: 5, occurredAt: at(2) });
+
+    await ledger.depleteForSales([await sell(3, at(1)), await sell(2, at(3))]);
+
+    expect(await storage.getInventoryMovements({ inventoryId: item.id, type: "sale" })).toHaveLength(1);
+    expect((await storage.getInventory()).find(row => row.id === item.id)?.currentStock).toBe(3);
+  });
+});
+
+describe("InventoryLedgerService.record", () => {
+  it("treats items at locations the user isn't assigned to as unknown", async () => {
+    const storage = new MemStorage();
+    const ledger = new InventoryLedgerService(storage);
+    const [north, south] = await Promise.all([
+      storage.createLocation({ name: "North", code: "N-TEST" }),
+      storage.createLocation({ name: "South", code: "S-TEST" }),
+    ]);
+    const stock = (locationId: string) => storage.createInventory({
+      itemName: "Flour", category: "Dry", unit: "kg", currentStock: 10, minimumStock: 2, maxStock: 50, locationId,
+    });
+    const [northFlour, southFlour] = await Promise.all([stock(north.id), stock(south.id)]);
+    const manager = { id: "manager-1", role: "manager", locationIds: [north.id], allLocations: false };
+
+    const transfer = { type: "transfer" as const, quantity: 4, inventoryId: southFlour.id, toInventoryId: northFlour.id };
+    expect(await ledger.record(transfer, manager)).toBeUndefined();
+    expect(await ledger.record({ ...transfer, inventoryId: northFlour.id, toInventoryId: southFlour.id }, manager)).toBeUndefined();
+    expect(await ledger.record({ type: "waste", quantity: 1, reason: "spoilage", inventoryId: northFlour.id }, manager)).toBeDefined();
+    expect((await storage.getInventory(south.id))[0].currentStock).toBe(10);
+  });
+});
@@ -0,0 +1,208 @@
+import { randomUUID } from "crypto";
+import { type Inventory, type InventoryMovement, type NewInventoryMovement, type RecipeWithIngredients, type RecordInventoryMovement, type SalesData, type WasteReason } from "@shared/schema";
+import { storage, type IStorage } from "../storage";
+import { canAccessLocation, type LocationAccess } from "../auth";
+
+/**
+ * Posts stock changes to the inventory movements ledger and reads shrinkage back out of it.
+ * Sales deplete the dish's own stock row and, through its recipe, the ingredient rows at the
+ * same location, drawing down batches first-in first-out. Sales dated before an item's latest
+ * count (or opening balance) are already reflected in that count and are skipped, so importing
+ * sales history doesn't drain today's stock.
+ */
+
+export interface LedgerPosting {
+  movements: InventoryMovement[];
+  inventory: Inventory[];
+}
+
+export interface ShrinkageSummary {
+  inventoryId: string;
+  itemName: string;
+  locationId: string | null;
+  unit: string;
+  received: number;
+  sold: number;
+  transferredIn: number;
+  transferredOut: number;
+  wasted: number;
+  wasteByReason: Partial<Record<WasteReason, number>>;
+  countVariance: number; // Net count adjustments; negative means stock went missing
+  shrinkage: number; // Waste plus missing stock
+  shrinkageRate: number | null; // Share of stock used up that was lost rather than sold
+  shrinkageCost: number | null; // Ingredient rows with a cost only
+}
+
+export class InventoryLedgerService {
+
+  constructor(private storage: IStorage) {}
+
+  /**
+   * Deplete stock for newly recorded sales
+   */
+  async depleteForSales(sales: SalesData[]): Promise<LedgerPosting> {
+    if (sales.length === 0) return { movements: [], inventory: [] };
+
+    const inventory = await this.storage.getInventory();
+    const recipes = inventory.some(item => item.ingredientId) ? await this.storage.getRecipes() : [];
+    const usage = ingredientUsagePerPortion(recipes);
+
+    const matches: { sale: SalesData; item: Inventory; perPortion: number }[] = [];
+    sales.forEach(sale => {
+      inventory
+        .filter(item => item.locationId === sale.locationId)
+        .forEach(item => {
+          const perPortion = item.ingredientId
+            ? usage.get(sale.itemName)?.get(item.ingredientId)
+            : item.itemName === sale.itemName ? 1 : undefined;
+          if (perPortion) matches.push({ sale, item, perPortion });
+        });
+    });
+
+    const countedAt = await this.storage.getLatestCountTimes(matches.map(({ item }) => item.id));
+    const entries: NewInventoryMovement[] = matches
+      .filter(({ sale, item }) => {
+        const countTime = countedAt.get(item.id);
+        return !countTime || sale.date >= countTime;
+      })
+      .map(({ sale, item, perPortion }) => ({
+        inventoryId: item.id,
+        type: 'sale',
+        quantity: -round(sale.quantity * perPortion),
+        reference: sale.id,
+        occurredAt: sale.date,
+      }));
+
+    return this.storage.recordInventoryMovements(entries);
+  }
+
+  /**
+   * Post a manual receipt, waste, count or transfer on behalf of `user`. Returns undefined if an
+   * item is unknown or at a location the user may not see; callers check that both sides of a
+   * transfer are compatible first.
+   */
+  async record(
+    input: RecordInventoryMovement,
+    user?: LocationAccess & { id: string },
+    now: Date = new Date(),
+  ): Promise<LedgerPosting | undefined> {
+    const inventory = new Map((await this.storage.getInventory())
+      .filter(item => !user || canAccessLocation(user, item.locationId))
+      .map(item => [item.id, item]));
+    if (!inventory.has(input.inventoryId)) return undefined;
+
+    const occurredAt = input.occurredAt ?? now;
+    const details = { notes: input.notes ?? null, userId: user?.id ?? null, occurredAt };
+
+    switch (input.type) {
+      case 'receipt':
+        return this.storage.recordInventoryMovements([
+          {
+            ...details, inventoryId: input.inventoryId, type: 'receipt', quantity: input.quantity, reference: input.reference ?? null,
+            batchCode: input.batchCode, expiresAt: input.expiresAt,
+          },
+        ]);
+      case 'waste':
+        return this.storage.recordInventoryMovements([
+          { ...details, inventoryId: input.inventoryId, type: 'waste', quantity: -input.quantity, reason: input.reason, batchId: input.batchId },
+        ]);
+      case 'count':
+        return this.storage.recordInventoryMovements([
+          { ...details, inventoryId: input.inventoryId, type: 'count', countedQuantity: input.countedQuantity },
+        ]);
+      case 'transfer': {
+        if (!inventory.has(input.toInventoryId)) return undefined;
+        const reference = `TR-${randomUUID().slice(0, 8).toUpperCase()}`;
+        return this.storage.recordInventoryMovements([
+          { ...details, inventoryId: input.inventoryId, type: 'transfer_out', quantity: -input.quantity, reference },
+          { ...details, inventoryId: input.toInventoryId, type: 'transfer_in', quantity: input.quantity, reference },
+        ]);
+      }
+    }
+  }
+
+  /**
+   * Per-item flows over the last `days` days, with waste and count variances as shrinkage
+   */
+  async getShrinkage(days: number, locationId?: string, now: Date = new Date()): Promise<ShrinkageSummary[]> {
+    const startDate = new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+    const [inventory, movements, ingredients] = await Promise.all([
+      this.storage.getInventory(locationId),
+      this.storage.getInventoryMovements({ startDate, endDate: now }, locationId),
+      this.storage.getIngredients(),
+    ]);
+    const costs = new Map(ingredients.map(ingredient => [ingredient.id, ingredient.costPerUnit]));
+
+    return inventory
+      .map(item => {
+        const summary: ShrinkageSummary = {
+          inventoryId: item.id,
+          itemName: item.itemName,
+          locationId: item.locationId,
+          unit: item.unit,
+          received: 0,
+          sold: 0,
+          transferredIn: 0,
+          transferredOut: 0,
+          wasted: 0,
+          wasteByReason: {},
+          countVariance: 0,
+          shrinkage: 0,
+          shrinkageRate: null,
+          shrinkageCost: null,
+        };
+
+        movements.filter(movement => movement.inventoryId === item.id).forEach(movement => {
+          switch (movement.type) {
+            case 'receipt': summary.received += movement.quantity; break;
+            case 'sale': summary.sold -= movement.quantity; break;
+            case 'transfer_in': summary.transferredIn += movement.quantity; break;
+            case 'transfer_out': summary.transferredOut -= movement.quantity; break;
+            case 'count': summary.countVariance += movement.quantity; break;
+            case 'waste': {
+              const reason = (movement.reason ?? 'other') as WasteReason;
+              summary.wasted -= movement.quantity;
+              summary.wasteByReason[reason] = (summary.wasteByReason[reason] ?? 0) - movement.quantity;
+              break;
+            }
+          }
+        });
+
+        const shrinkage = Math.max(0, summary.wasted - summary.countVariance);
+        const costPerUnit = item.ingredientId ? costs.get(item.ingredientId) ?? null : null;
+        return {
+          ...summary,
+          received: round(summary.received),
+          sold: round(summary.sold),
+          transferredIn: round(summary.transferredIn),
+          transferredOut: round(summary.transferredOut),
+          wasted: round(summary.wasted),
+          wasteByReason: Object.fromEntries(Object.entries(summary.wasteByReason).map(([reason, quantity]) => [reason, round(quantity)])),
+          countVariance: round(summary.countVariance),
+          shrinkage: round(shrinkage),
+          shrinkageRate: summary.sold + shrinkage > 0 ? round(shrinkage / (summary.sold + shrinkage), 4) : null,
+          shrinkageCost: costPerUnit === null ? null : round(shrinkage * costPerUnit, 2),
+        };
+      })
+      .sort((a, b) => b.shrinkage - a.shrinkage || a.itemName.localeCompare(b.itemName));
+  }
+}
+
+// Ingredient amount used per portion of each menu item, by menu item then ingredient id
+function ingredientUsagePerPortion(recipes: RecipeWithIngredients[]): Map<string, Map<string, number>> {
+  return new Map(recipes.map(recipe => {
+    const usage = new Map<string, number>();
+    recipe.ingredients.forEach(line => {
+      const perPortion = line.quantity / (recipe.yield || 1) / (line.yieldPercentage || 1);
+      usage.set(line.ingredientId, (usage.get(line.ingredientId) ?? 0) + perPortion);
+    });
+    return [recipe.menuItemName, usage];
+  }));
+}
+
+function round(value: number, decimals: number = 3): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+export const inventoryLedgerService = new InventoryLedgerService(storage);
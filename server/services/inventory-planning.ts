@@ -0,0 +1,75 @@
+import { type Inventory } from "@shared/schema";
+import { storage, type IStorage } from "../storage";
+import { billOfMaterialsService, type BillOfMaterialsService } from "./bill-of-materials";
+
+/**
+ * Restock recommendations: compares each inventory row with today's forecast demand,
+ * exploding dish forecasts through the recipes for ingredient rows
+ */
+
+export const RESTOCK_COVER_DAYS = 7; // Restock orders cover a week's supply
+
+export interface RestockRecommendation extends Inventory {
+  predictedDemand: number; // Today's demand, in the row's unit
+  confidence: number;
+  needsRestock: boolean;
+  recommendedOrderQuantity: number;
+  action: 'Restock' | 'Monitor';
+}
+
+/**
+ * Order size for an item that needs restocking: a week's supply, and never less than the minimum stock
+ */
+export function recommendedOrderQuantity(item: Pick<Inventory, 'minimumStock'>, dailyDemand: number): number {
+  return Math.max(item.minimumStock, dailyDemand * RESTOCK_COVER_DAYS);
+}
+
+export class InventoryPlanningService {
+
+  constructor(
+    private storage: IStorage,
+    private billOfMaterials: BillOfMaterialsService,
+  ) {}
+
+  async getRecommendations(locationId?: string, now: Date = new Date()): Promise<RestockRecommendation[]> {
+    const inventory = await this.storage.getInventory(locationId);
+    const today = new Date(now);
+    today.setHours(0, 0, 0, 0);
+    const predictions = await this.storage.getPredictionsByDate(new Date(today), locationId);
+
+    // Ingredient rows are compared with today's dish forecasts exploded through the recipes
+    const recipes = inventory.some(item => item.ingredientId) ? await this.storage.getRecipes() : [];
+    const ingredientDemand = new Map<string | null, Map<string, number>>();
+    const getIngredientDemand = (itemLocationId: string | null) => {
+      if (!ingredientDemand.has(itemLocationId)) {
+        const demand = this.billOfMaterials.getBaselineDemand(
+          predictions.filter(p => p.locationId === itemLocationId), today, 1,
+        );
+        const { totals } = this.billOfMaterials.explode(demand, recipes);
+        ingredientDemand.set(itemLocationId, new Map(totals.map(total => [total.ingredientId, total.quantity])));
+      }
+      return ingredientDemand.get(itemLocationId)!;
+    };
+
+    return inventory.map(item => {
+      const prediction = item.ingredientId
+        ? undefined
+        : predictions.find(p => p.itemName === item.itemName && p.locationId === item.locationId);
+      const predictedDemand = item.ingredientId
+        ? getIngredientDemand(item.locationId).get(item.ingredientId) ?? 0
+        : prediction?.predictedQuantity || 0;
+      const needsRestock = predictedDemand > item.currentStock;
+
+      return {
+        ...item,
+        predictedDemand,
+        confidence: prediction?.confidence || 0.5,
+        needsRestock,
+        recommendedOrderQuantity: recommendedOrderQuantity(item, predictedDemand),
+        action: needsRestock ? 'Restock' : 'Monitor',
+      };
+    });
+  }
+}
+
+export const inventoryPlanningService = new InventoryPlanningService(storage, billOfMaterialsService);
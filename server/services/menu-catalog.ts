@@ -0,0 +1,314 @@
+import { type InsertInventory, type InsertMenuItem, type InsertSalesData, type MenuItem, type UpdateMenuItem } from "@shared/schema";
+import { storage, type IStorage } from "../storage";
+import { recipeCostPerPortion } from "./bill-of-materials";
+
+/**
+ * The menu item catalog. Incoming sales and dish stock rows are matched to a catalog item by id,
+ * or by its name or one of its aliases ignoring case, and take the catalog's name and category;
+ * rows that match nothing keep their free-text name. Food cost is the item's own figure, else
+ * its recipe's ingredient cost per portion. Menu optimization ranks items and categories by
+ * contribution margin: what sales actually brought in less the food cost of the portions sold.
+ */
+
+export const MAX_MENU_ANALYSIS_DAYS = 365;
+
+const MIN_HEALTHY_MARGIN = 0.65; // Contribution margin share of price below which pricing is flagged
+
+export interface MenuItemWithCost extends MenuItem {
+  recipeFoodCost: number | null;
+  effectiveFoodCost: number | null; // foodCost, else the recipe cost
+  unitMargin: number | null; // List price less food cost
+  marginPercent: number | null;
+  active: boolean;
+}
+
+export interface MenuItemPerformance {
+  menuItemId: string;
+  sku: string;
+  name: string;
+  category: string;
+  active: boolean;
+  quantity: number;
+  revenue: number;
+  listPrice: number;
+  averagePrice: number | null; // Realised, from sales revenue
+  foodCost: number | null;
+  unitMargin: number | null; // Average price (list price if unsold) less food cost
+  contributionMargin: number | null; // Total over the period
+  marginPercent: number | null;
+  popularityShare: number; // Share of portions sold
+}
+
+export interface CategoryPerformance {
+  category: string;
+  items: number;
+  quantity: number;
+  revenue: number;
+  contributionMargin: number;
+  marginPercent: number | null;
+  contributionShare: number; // Share of the menu's total contribution
+  itemShare: number; // Share of the menu's items
+  performance: "high" | "medium" | "low";
+  recommendation: string;
+  priority: "high" | "medium";
+}
+
+export interface MenuOptimization {
+  days: number;
+  startDate: Date;
+  endDate: Date;
+  items: MenuItemPerformance[];
+  categories: CategoryPerformance[];
+  uncostedItems: string[]; // Catalog items with neither a food cost nor a costed recipe
+  unmatchedSales: { itemName: string; quantity: number; revenue: number }[]; // Sold names not in the catalog
+}
+
+export class MenuCatalogService {
+
+  constructor(private storage: IStorage) {}
+
+  /**
+   * The catalog with food costs and margins filled in
+   */
+  async getCatalog(now: Date = new Date()): Promise<MenuItemWithCost[]> {
+    const [items, recipes] = await Promise.all([this.storage.getMenuItems(), this.storage.getRecipes()]);
+    const recipeCosts = new Map(recipes.map(recipe => [recipe.menuItemName, recipeCostPerPortion(recipe)]));
+
+    return items.map(item => {
+      const recipeFoodCost = recipeCosts.get(item.name) ?? null;
+      const effectiveFoodCost = item.foodCost ?? recipeFoodCost;
+      const unitMargin = effectiveFoodCost === null ? null : item.price - effectiveFoodCost;
+      return {
+        ...item,
+        recipeFoodCost: recipeFoodCost === null ? null : round(recipeFoodCost, 2),
+        effectiveFoodCost: effectiveFoodCost === null ? null : round(effectiveFoodCost, 2),
+        unitMargin: unitMargin === null ? null : round(unitMargin, 2),
+        marginPercent: unitMargin === null || item.price <= 0 ? null : round(unitMargin / item.price, 4),
+        active: isActive(item, now),
+      };
+    });
+  }
+
+  /**
+   * Why an item can't be saved with these identifiers, if it can't: SKUs, names and aliases are unique across the catalog
+   */
+  async findConflict(candidate: Pick<InsertMenuItem, "sku" | "name" | "aliases">, excludeId?: string): Promise<string | undefined> {
+    const others = (await this.storage.getMenuItems()).filter(item => item.id !== excludeId);
+    const sku = others.find(item => item.sku.toLowerCase() === candidate.sku.trim().toLowerCase());
+    if (sku) return `SKU ${candidate.sku} is already used by ${sku.name}`;
+
+    const names = [candidate.name, ...candidate.aliases];
+    const keys = names.map(normalizeName);
+    const repeated = keys.find((key, index) => keys.indexOf(key) !== index);
+    if (repeated) return `${names[keys.indexOf(repeated)]} is listed more than once`;
+
+    for (const item of others) {
+      const taken = names.find(name => [item.name, ...item.aliases].some(existing => normalizeName(existing) === normalizeName(name)));
+      if (taken) return `${item.name} is already sold as ${taken}`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Create an item and link existing sales and stock rows sold under its names
+   */
+  async create(input: InsertMenuItem): Promise<MenuItem> {
+    const item = await this.storage.createMenuItem(input);
+    await this.storage.linkMenuItem(item);
+    return item;
+  }
+
+  /**
+   * Update an item, carrying a rename through to its linked rows and its recipe
+   */
+  async update(id: string, updates: UpdateMenuItem): Promise<MenuItem | undefined> {
+    const existing = await this.storage.getMenuItem(id);
+    if (!existing) return undefined;
+
+    const item = await this.storage.updateMenuItem(id, updates);
+    if (!item) return undefined;
+    await this.storage.linkMenuItem(item);
+
+    if (item.name !== existing.name) {
+      const recipes = await this.storage.getRecipes();
+      const recipe = recipes.find(candidate => candidate.menuItemName === existing.name);
+      if (recipe && !recipes.some(candidate => candidate.menuItemName === item.name)) {
+        await this.storage.updateRecipe(recipe.id, {
+          menuItemName: item.name,
+          yield: recipe.yield,
+          ingredients: recipe.ingredients.map(({ ingredientId, quantity, yieldPercentage }) => ({ ingredientId, quantity, yieldPercentage })),
+        });
+      }
+    }
+    return item;
+  }
+
+  /**
+   * Sales rows linked to their catalog item; unknown names pass through unchanged
+   */
+  async linkSales(rows: InsertSalesData[]): Promise<InsertSalesData[]> {
+    const resolve = await this.getResolver();
+    return rows.map(row => {
+      const item = resolve(row.menuItemId, row.itemName);
+      return item ? { ...row, menuItemId: item.id, itemName: item.name, category: item.category } : { ...row, menuItemId: null };
+    });
+  }
+
+  /**
+   * A new stock row linked to its catalog item; ingredient rows are left alone
+   */
+  async linkInventory(row: InsertInventory): Promise<InsertInventory> {
+    if (row.ingredientId) return { ...row, menuItemId: null };
+    const item = (await this.getResolver())(row.menuItemId, row.itemName);
+    return item ? { ...row, menuItemId: item.id, itemName: item.name, category: item.category } : { ...row, menuItemId: null };
+  }
+
+  /**
+   * Dashboard icon for each catalog item, by name
+   */
+  async getIcons(): Promise<Map<string, string>> {
+    return new Map((await this.storage.getMenuItems()).map(item => [item.name, item.icon]));
+  }
+
+  /**
+   * Contribution margin by item and category over the last `days` days
+   */
+  async getMenuOptimization(days: number = 90, locationId?: string, now: Date = new Date()): Promise<MenuOptimization> {
+    const window = Math.min(MAX_MENU_ANALYSIS_DAYS, Math.max(1, Math.floor(days) || 1));
+    const startDate = addDays(startOfDay(now), -(window - 1));
+    const [catalog, sales] = await Promise.all([
+      this.getCatalog(now),
+      this.storage.getSalesDataByDateRange(startDate, now, locationId),
+    ]);
+
+    const sold = new Map<string, { quantity: number; revenue: number }>();
+    const unmatched = new Map<string, { itemName: string; quantity: number; revenue: number }>();
+    sales.forEach(sale => {
+      const linked = !!sale.menuItemId && catalog.some(item => item.id === sale.menuItemId);
+      const key = linked ? sale.menuItemId! : sale.itemName;
+      const totals = linked
+        ? sold.get(key) ?? { quantity: 0, revenue: 0 }
+        : unmatched.get(key) ?? { itemName: sale.itemName, quantity: 0, revenue: 0 };
+      totals.quantity += sale.quantity;
+      totals.revenue += sale.revenue;
+      if (linked) sold.set(key, totals);
+      else unmatched.set(key, { ...totals, itemName: sale.itemName });
+    });
+
+    // Items on the menu now, plus any that sold during the period
+    const considered = catalog.filter(item => item.active || sold.has(item.id));
+    const totalQuantity = considered.reduce((sum, item) => sum + (sold.get(item.id)?.quantity ?? 0), 0);
+    const items: MenuItemPerformance[] = considered.map(item => {
+      const { quantity, revenue } = sold.get(item.id) ?? { quantity: 0, revenue: 0 };
+      const averagePrice = quantity > 0 ? revenue / quantity : null;
+      const price = averagePrice ?? item.price;
+      const unitMargin = item.effectiveFoodCost === null ? null : price - item.effectiveFoodCost;
+      return {
+        menuItemId: item.id,
+        sku: item.sku,
+        name: item.name,
+        category: item.category,
+        active: item.active,
+        quantity,
+        revenue: round(revenue, 2),
+        listPrice: item.price,
+        averagePrice: averagePrice === null ? null : round(averagePrice, 2),
+        foodCost: item.effectiveFoodCost,
+        unitMargin: unitMargin === null ? null : round(unitMargin, 2),
+        contributionMargin: unitMargin === null ? null : round(unitMargin * quantity, 2),
+        marginPercent: unitMargin === null || price <= 0 ? null : round(unitMargin / price, 4),
+        popularityShare: totalQuantity > 0 ? round(quantity / totalQuantity, 4) : 0,
+      };
+    }).sort((a, b) => (b.contributionMargin ?? 0) - (a.contributionMargin ?? 0) || a.name.localeCompare(b.name));
+
+    return {
+      days: window,
+      startDate,
+      endDate: now,
+      items,
+      categories: summarizeCategories(items),
+      uncostedItems: considered.filter(item => item.effectiveFoodCost === null).map(item => item.name),
+      unmatchedSales: Array.from(unmatched.values())
+        .map(entry => ({ ...entry, revenue: round(entry.revenue, 2) }))
+        .sort((a, b) => b.revenue - a.revenue),
+    };
+  }
+
+  // Finds the catalog item for a row by its menu item id, else by name or alias
+  private async getResolver(): Promise<(menuItemId: string | null | undefined, itemName: string) => MenuItem | undefined> {
+    const items = await this.storage.getMenuItems();
+    const byId = new Map(items.map(item => [item.id, item]));
+    const byName = new Map(items.flatMap(item => [item.name, ...item.aliases].map(name => [normalizeName(name), item] as const)));
+    return (menuItemId, itemName) => (menuItemId ? byId.get(menuItemId) : undefined) ?? byName.get(normalizeName(itemName));
+  }
+}
+
+function summarizeCategories(items: MenuItemPerformance[]): CategoryPerformance[] {
+  const totalContribution = items.reduce((sum, item) => sum + Math.max(0, item.contributionMargin ?? 0), 0);
+  const categories = Array.from(new Set(items.map(item => item.category)));
+
+  return categories.map((category): CategoryPerformance => {
+    const members = items.filter(item => item.category === category);
+    const quantity = members.reduce((sum, item) => sum + item.quantity, 0);
+    const revenue = members.reduce((sum, item) => sum + item.revenue, 0);
+    const contributionMargin = members.reduce((sum, item) => sum + (item.contributionMargin ?? 0), 0);
+    const costedRevenue = members.filter(item => item.contributionMargin !== null).reduce((sum, item) => sum + item.revenue, 0);
+    const marginPercent = costedRevenue > 0 ? contributionMargin / costedRevenue : null;
+    const contributionShare = totalContribution > 0 ? Math.max(0, contributionMargin) / totalContribution : 0;
+    const itemShare = members.length / items.length;
+
+    // A category pulling more than its weight of the menu's margin deserves more items
+    const weight = itemShare > 0 ? contributionShare / itemShare : 0;
+    const performance = weight >= 1.2 ? "high" : weight >= 0.8 ? "medium" : "low";
+    const needsPricing = marginPercent !== null && marginPercent < MIN_HEALTHY_MARGIN;
+    const recommendation = needsPricing
+      ? `Review prices or portion costs: food cost is ${Math.round((1 - marginPercent) * 100)}% of sales`
+      : performance === "high"
+        ? "Expand menu items in this category"
+        : performance === "low"
+          ? "Consider optimizing or reducing items in this category"
+          : "Keep the current mix";
+
+    return {
+      category,
+      items: members.length,
+      quantity,
+      revenue: round(revenue, 2),
+      contributionMargin: round(contributionMargin, 2),
+      marginPercent: marginPercent === null ? null : round(marginPercent, 4),
+      contributionShare: round(contributionShare, 4),
+      itemShare: round(itemShare, 4),
+      performance,
+      recommendation,
+      priority: needsPricing || performance !== "medium" ? "high" : "medium",
+    };
+  }).sort((a, b) => b.contributionMargin - a.contributionMargin);
+}
+
+function isActive(item: MenuItem, now: Date): boolean {
+  const today = startOfDay(now);
+  return (!item.activeFrom || startOfDay(item.activeFrom) <= today) && (!item.activeUntil || startOfDay(item.activeUntil) >= today);
+}
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase();
+}
+
+function round(value: number, decimals: number = 3): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+export const menuCatalogService = new MenuCatalogService(storage);
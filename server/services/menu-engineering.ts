@@ -0,0 +1,303 @@
+import { type Prediction, type SalesData } from "@shared/schema";
+import { storage, type IStorage } from "../storage";
+import { menuCatalogService, type MenuCatalogService, type MenuItemWithCost } from "./menu-catalog";
+
+/**
+ * Menu engineering (Kasavana and Smith). Each catalog item is placed on two axes over a date range:
+ * popularity, its share of portions sold against an even share of the menu, and contribution
+ * margin, its realised price less food cost against the menu's sales-weighted average. An item
+ * is popular at 70% or more of an even share. Stars are popular and profitable, Plowhorses
+ * popular but thin, Puzzles profitable but slow, Dogs neither. The range is also split into
+ * equal periods to show how items moved between quadrants, and forecasts for the coming days
+ * give a projected position at today's margins.
+ */
+
+export const MAX_ENGINEERING_DAYS = 365;
+export const MAX_ENGINEERING_PERIODS = 12;
+export const MAX_PROJECTION_DAYS = 28;
+
+const POPULARITY_FACTOR = 0.7; // Share of an even menu mix counted as popular
+
+export type MenuEngineeringClass = "star" | "plowhorse" | "puzzle" | "dog";
+
+export interface MenuEngineeringPosition {
+  quantity: number;
+  menuMix: number; // Share of portions sold
+  popularityIndex: number; // Menu mix over an even share; popular from 0.7
+  unitMargin: number | null;
+  contributionMargin: number | null;
+  classification: MenuEngineeringClass | null; // Null without a food cost or any sales on the menu
+}
+
+export interface MenuEngineeringPeriod extends MenuEngineeringPosition {
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface MenuEngineeringItem extends MenuEngineeringPosition {
+  menuItemId: string;
+  sku: string;
+  name: string;
+  category: string;
+  revenue: number;
+  averagePrice: number | null;
+  foodCost: number | null;
+  history: MenuEngineeringPeriod[]; // Oldest first
+  movement: "new" | "unchanged" | "up" | "down" | null; // First to last period with a classification
+  projection: MenuEngineeringPosition | null;
+}
+
+export interface MenuEngineeringAnalysis {
+  startDate: Date;
+  endDate: Date;
+  totalQuantity: number;
+  popularityThreshold: number; // Popularity index
+  marginThreshold: number | null; // Weighted average unit margin
+  items: MenuEngineeringItem[];
+  projection: { startDate: Date; endDate: Date; totalQuantity: number; marginThreshold: number | null } | null;
+  uncostedItems: string[];
+}
+
+export interface MenuEngineeringOptions {
+  startDate: Date;
+  endDate: Date;
+  periods?: number;
+  projectionDays?: number;
+}
+
+interface ItemTotals {
+  quantity: number;
+  revenue: number;
+}
+
+// Quadrant rank used to describe movement: higher is better
+const CLASS_RANK: Record<MenuEngineeringClass, number> = { dog: 0, puzzle: 1, plowhorse: 1, star: 2 };
+
+export class MenuEngineeringService {
+
+  constructor(
+    private storage: IStorage,
+    private menuCatalog: MenuCatalogService,
+  ) {}
+
+  async analyze(options: MenuEngineeringOptions, locationId?: string, now: Date = new Date()): Promise<MenuEngineeringAnalysis> {
+    const startDate = startOfDay(options.startDate);
+    const endDate = endOfDay(options.endDate);
+    const periodCount = Math.min(MAX_ENGINEERING_PERIODS, Math.max(1, Math.floor(options.periods ?? 4) || 1));
+    const projectionDays = Math.min(MAX_PROJECTION_DAYS, Math.max(0, Math.floor(options.projectionDays ?? 7) || 0));
+
+    const [catalog, sales, predictions] = await Promise.all([
+      this.menuCatalog.getCatalog(now),
+      this.storage.getSalesDataByDateRange(startDate, endDate, locationId),
+      projectionDays > 0 ? this.storage.getPredictions(undefined, locationId) : Promise.resolve([]),
+    ]);
+
+    // Items that were on the menu at some point in the range, or sold during it
+    const soldIds = new Set(sales.map(sale => sale.menuItemId));
+    const items = catalog.filter(item => soldIds.has(item.id) || onMenuDuring(item, startDate, endDate));
+
+    const totals = totalsByItem(sales);
+    const current = classify(items, totals);
+
+    const periods = splitRange(startDate, endDate, periodCount);
+    const history = periods.map(period => classify(
+      items.filter(item => onMenuDuring(item, period.startDate, period.endDate) || hasSales(sales, item.id, period)),
+      totalsByItem(sales.filter(sale => sale.date >= period.startDate && sale.date <= period.endDate)),
+    ));
+
+    // Projected volumes at current prices: realised over the range where there were sales, else list price
+    let projection: MenuEngineeringAnalysis["projection"] = null;
+    let projected: ReturnType<typeof classify> | null = null;
+    if (projectionDays > 0) {
+      const projectionStart = addDays(startOfDay(now), 1);
+      const projectionEnd = endOfDay(addDays(projectionStart, projectionDays - 1));
+      const forecastTotals = new Map<string, ItemTotals>();
+      const onMenu = catalog.filter(item => onMenuDuring(item, projectionStart, projectionEnd));
+      const byName = new Map(onMenu.map(item => [item.name, item]));
+      latestForecasts(predictions, projectionStart, projectionEnd).forEach(prediction => {
+        const item = byName.get(prediction.itemName);
+        if (!item) return;
+        const sold = totals.get(item.id);
+        const price = sold && sold.quantity > 0 ? sold.revenue / sold.quantity : item.price;
+        const entry = forecastTotals.get(item.id) ?? { quantity: 0, revenue: 0 };
+        entry.quantity += prediction.predictedQuantity;
+        entry.revenue += prediction.predictedQuantity * price;
+        forecastTotals.set(item.id, entry);
+      });
+      projected = classify(onMenu, forecastTotals);
+      projection = {
+        startDate: projectionStart,
+        endDate: projectionEnd,
+        totalQuantity: projected.totalQuantity,
+        marginThreshold: projected.marginThreshold,
+      };
+    }
+
+    return {
+      startDate,
+      endDate,
+      totalQuantity: current.totalQuantity,
+      popularityThreshold: POPULARITY_FACTOR,
+      marginThreshold: current.marginThreshold,
+      items: items
+        .map(item => {
+          const position = current.positions.get(item.id)!;
+          const { quantity, revenue } = totals.get(item.id) ?? { quantity: 0, revenue: 0 };
+          const itemHistory = periods.map((period, index) => ({
+            ...period,
+            ...(history[index].positions.get(item.id) ?? emptyPosition()),
+          }));
+          return {
+            menuItemId: item.id,
+            sku: item.sku,
+            name: item.name,
+            category: item.category,
+            revenue: round(revenue, 2),
+            averagePrice: quantity > 0 ? round(revenue / quantity, 2) : null,
+            foodCost: item.effectiveFoodCost,
+            ...position,
+            history: itemHistory,
+            movement: describeMovement(itemHistory),
+            projection: projected?.positions.get(item.id) ?? null,
+          };
+        })
+        .sort((a, b) => (b.contributionMargin ?? 0) - (a.contributionMargin ?? 0) || a.name.localeCompare(b.name)),
+      projection,
+      uncostedItems: items.filter(item => item.effectiveFoodCost === null).map(item => item.name),
+    };
+  }
+}
+
+// Places each item against the menu's thresholds for one set of totals
+function classify(items: MenuItemWithCost[], totals: Map<string, ItemTotals>): {
+  totalQuantity: number;
+  marginThreshold: number | null;
+  positions: Map<string, MenuEngineeringPosition>;
+} {
+  const totalQuantity = items.reduce((sum, item) => sum + (totals.get(item.id)?.quantity ?? 0), 0);
+  const evenShare = items.length > 0 ? 1 / items.length : 0;
+
+  const margins = new Map(items.map(item => {
+    const sold = totals.get(item.id);
+    if (item.effectiveFoodCost === null) return [item.id, null];
+    const price = sold && sold.quantity > 0 ? sold.revenue / sold.quantity : item.price;
+    return [item.id, price - item.effectiveFoodCost];
+  }));
+
+  const costed = items.filter(item => margins.get(item.id) !== null);
+  const costedQuantity = costed.reduce((sum, item) => sum + (totals.get(item.id)?.quantity ?? 0), 0);
+  const marginThreshold = costedQuantity > 0
+    ? costed.reduce((sum, item) => sum + margins.get(item.id)! * (totals.get(item.id)?.quantity ?? 0), 0) / costedQuantity
+    : null;
+
+  const positions = new Map(items.map(item => {
+    const quantity = totals.get(item.id)?.quantity ?? 0;
+    const menuMix = totalQuantity > 0 ? quantity / totalQuantity : 0;
+    const popularityIndex = evenShare > 0 ? menuMix / evenShare : 0;
+    const unitMargin = margins.get(item.id) ?? null;
+
+    let classification: MenuEngineeringClass | null = null;
+    if (unitMargin !== null && marginThreshold !== null) {
+      const popular = popularityIndex >= POPULARITY_FACTOR;
+      const profitable = unitMargin >= marginThreshold;
+      classification = popular ? (profitable ? "star" : "plowhorse") : (profitable ? "puzzle" : "dog");
+    }
+
+    return [item.id, {
+      quantity: round(quantity),
+      menuMix: round(menuMix, 4),
+      popularityIndex: round(popularityIndex, 3),
+      unitMargin: unitMargin === null ? null : round(unitMargin, 2),
+      contributionMargin: unitMargin === null ? null : round(unitMargin * quantity, 2),
+      classification,
+    }];
+  }));
+
+  return { totalQuantity: round(totalQuantity), marginThreshold: marginThreshold === null ? null : round(marginThreshold, 2), positions };
+}
+
+function describeMovement(history: MenuEngineeringPeriod[]): MenuEngineeringItem["movement"] {
+  const classified = history.filter(period => period.classification !== null);
+  if (classified.length === 0) return null;
+  if (history[0].classification === null) return "new";
+
+  const first = classified[0].classification!;
+  const last = classified[classified.length - 1].classification!;
+  if (first === last) return "unchanged";
+  const change = CLASS_RANK[last] - CLASS_RANK[first];
+  // Plowhorse and Puzzle rank alike; moving between them counts as movement but not up or down
+  return change > 0 ? "up" : change < 0 ? "down" : "unchanged";
+}
+
+function totalsByItem(sales: SalesData[]): Map<string, ItemTotals> {
+  const totals = new Map<string, ItemTotals>();
+  sales.forEach(sale => {
+    if (!sale.menuItemId) return;
+    const entry = totals.get(sale.menuItemId) ?? { quantity: 0, revenue: 0 };
+    entry.quantity += sale.quantity;
+    entry.revenue += sale.revenue;
+    totals.set(sale.menuItemId, entry);
+  });
+  return totals;
+}
+
+// The most recently generated forecast per item, location and day within the window
+function latestForecasts(predictions: Prediction[], startDate: Date, endDate: Date): Prediction[] {
+  const latest = new Map<string, Prediction>();
+  predictions
+    .filter(prediction => prediction.predictionDate >= startDate && prediction.predictionDate <= endDate)
+    .forEach(prediction => {
+      const key = `${prediction.locationId ?? ''}|${prediction.itemName}|${startOfDay(prediction.predictionDate).getTime()}`;
+      const current = latest.get(key);
+      if (!current || (prediction.createdAt?.getTime() ?? 0) > (current.createdAt?.getTime() ?? 0)) latest.set(key, prediction);
+    });
+  return Array.from(latest.values());
+}
+
+// Splits whole days from start to end into up to `count` near-equal consecutive periods
+function splitRange(startDate: Date, endDate: Date, count: number): { startDate: Date; endDate: Date }[] {
+  const days = Math.round((startOfDay(endDate).getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+  const periods = Math.min(count, days);
+  return Array.from({ length: periods }, (_, index) => {
+    const from = Math.floor(index * days / periods);
+    const to = Math.floor((index + 1) * days / periods) - 1;
+    return { startDate: addDays(startDate, from), endDate: endOfDay(addDays(startDate, to)) };
+  });
+}
+
+function onMenuDuring(item: MenuItemWithCost, startDate: Date, endDate: Date): boolean {
+  return (!item.activeFrom || startOfDay(item.activeFrom) <= endDate) && (!item.activeUntil || endOfDay(item.activeUntil) >= startDate);
+}
+
+function hasSales(sales: SalesData[], menuItemId: string, period: { startDate: Date; endDate: Date }): boolean {
+  return sales.some(sale => sale.menuItemId === menuItemId && sale.date >= period.startDate && sale.date <= period.endDate);
+}
+
+function emptyPosition(): MenuEngineeringPosition {
+  return { quantity: 0, menuMix: 0, popularityIndex: 0, unitMargin: null, contributionMargin: null, classification: null };
+}
+
+function round(value: number, decimals: number = 3): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+function endOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(23, 59, 59, 999);
+  return day;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+export const menuEngineeringService = new MenuEngineeringService(storage, menuCatalogService);
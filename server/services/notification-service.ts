@@ -1,9 +1,15 @@
-import { Inventory, SalesData, Prediction } from "@shared/schema";
+import { EventEmitter } from "events";
+import { Inventory, SalesData, Prediction, type NotificationEvent as NotificationRecord, type InsertNotification } from "@shared/schema";
+import { storage, type IStorage } from "../storage";
+import type { DriftSnapshot } from "./forecast-accuracy";
+import { recommendedOrderQuantity } from "./inventory-planning";
+import type { ReorderPoint } from "./safety-stock";
+import type { ExpiryRisk } from "./expiry-tracking";
 
 export interface NotificationRule {
   id: string;
   name: string;
-  type: 'inventory_low' | 'demand_spike' | 'model_drift' | 'anomaly_detected' | 'restock_needed';
+  type: 'inventory_low' | 'demand_spike' | 'model_drift' | 'anomaly_detected' | 'restock_needed' | 'expiry_risk' | 'daily_report';
   enabled: boolean;
   threshold: number;
   conditions: Record<string, any>;
@@ -24,26 +30,40 @@ export interface NotificationEvent {
   actionRequired: boolean;
 }
 
+// One location's trading for a day (locationId null when the chain has no locations)
+export interface DailyReport {
+  locationId: string | null;
+  locationName?: string;
+  reportDate: string; // YYYY-MM-DD on the settings time zone
+  unitsSold: number;
+  revenue: number;
+  topItem: string | null;
+  forecastAccuracy: number | null;
+  openAlerts: number;
+}
+
 export interface AlertThresholds {
   lowStockPercentage: number;
   demandSpikeMultiplier: number;
   accuracyDropThreshold: number;
   anomalyScoreThreshold: number;
   reorderDaysThreshold: number;
+  expiryWarningDays: number;
 }
 
-export class NotificationService {
-  private notifications: Map<string, NotificationEvent> = new Map();
+export class NotificationService extends EventEmitter {
   private rules: Map<string, NotificationRule> = new Map();
   private alertThresholds: AlertThresholds;
 
-  constructor() {
+  constructor(private storage: IStorage) {
+    super();
     this.alertThresholds = {
       lowStockPercentage: 0.2, // 20% of max stock
       demandSpikeMultiplier: 2.0, // 2x normal demand
       accuracyDropThreshold: 0.15, // 15% drop in accuracy
       anomalyScoreThreshold: 2.5, // Z-score threshold
-      reorderDaysThreshold: 3 // Days until stockout
+      reorderDaysThreshold: 3, // Days until stockout
+      expiryWarningDays: 2 // Days ahead to warn about stock expiring unused
     };
 
     this.initializeDefaultRules();
@@ -90,6 +110,26 @@ export class NotificationService {
         conditions: { leadTime: 2 },
         channels: ['dashboard', 'email'],
         priority: 'high'
+      },
+      {
+        id: 'expiry-alert',
+        name: 'Stock Expiring Unused',
+        type: 'expiry_risk',
+        enabled: true,
+        threshold: this.alertThresholds.expiryWarningDays,
+        conditions: { comparedWith: 'forecast_demand' },
+        channels: ['dashboard'],
+        priority: 'high'
+      },
+      {
+        id: 'daily-report',
+        name: 'Daily Report',
+        type: 'daily_report',
+        enabled: false, // Opted into through the dailyReports setting
+        threshold: 0,
+        conditions: { covers: 'previous_day' },
+        channels: ['dashboard', 'email'],
+        priority: 'low'
       }
     ];
 
@@ -114,11 +154,12 @@ export class NotificationService {
           ruleId: lowStockRule.id,
           type: 'inventory_low',
           title: 'Low Stock Alert',
-          message: `${item.itemName} is running low (${item.currentStock} units remaining, ${Math.round(stockPercentage * 100)}% of capacity)`,
+          message: `${item.itemName} is running low (${item.currentStock} ${item.unit} remaining, ${Math.round(stockPercentage * 100)}% of capacity)`,
           priority: stockPercentage <= 0.1 ? 'critical' : 'high',
           data: {
             itemId: item.id,
             itemName: item.itemName,
+            locationId: item.locationId,
             currentStock: item.currentStock,
             minimumStock: item.minimumStock,
             maxStock: item.maxStock,
@@ -129,7 +170,6 @@ export class NotificationService {
           actionRequired: true
         };
 
-        this.notifications.set(event.id, event);
         events.push(event);
       }
     });
@@ -171,7 +211,6 @@ export class NotificationService {
         actionRequired: true
       };
 
-      this.notifications.set(event.id, event);
       events.push(event);
     }
 
@@ -179,11 +218,13 @@ export class NotificationService {
   }
 
   /**
-   * Monitor model performance and detect drift
+   * Monitor model performance and detect drift, for one location when `locationId` is given
    */
   checkModelPerformance(
     currentAccuracy: number, 
-    baselineAccuracy: number
+    baselineAccuracy: number,
+    modelType?: string,
+    locationId?: string | null
   ): NotificationEvent[] {
     const events: NotificationEvent[] = [];
     const driftRule = this.rules.get('model-drift-alert');
@@ -194,13 +235,15 @@ export class NotificationService {
     
     if (accuracyDrop >= driftRule.threshold) {
       const event: NotificationEvent = {
-        id: `model-drift-${Date.now()}`,
+        id: `model-drift-${modelType ?? 'model'}-${Date.now()}`,
         ruleId: driftRule.id,
         type: 'model_drift',
         title: 'Model Performance Degradation',
-        message: `Model accuracy has dropped by ${(accuracyDrop * 100).toFixed(1)}% (from ${(baselineAccuracy * 100).toFixed(1)}% to ${(currentAccuracy * 100).toFixed(1)}%)`,
+        message: `${modelType ? `${modelType} model` : 'Model'} accuracy has dropped by ${(accuracyDrop * 100).toFixed(1)}% (from ${(baselineAccuracy * 100).toFixed(1)}% to ${(currentAccuracy * 100).toFixed(1)}%)`,
         priority: 'critical',
         data: {
+          modelType,
+          locationId,
           currentAccuracy,
           baselineAccuracy,
           accuracyDrop,
@@ -211,7 +254,6 @@ export class NotificationService {
         actionRequired: true
       };
 
-      this.notifications.set(event.id, event);
       events.push(event);
     }
 
@@ -219,11 +261,13 @@ export class NotificationService {
   }
 
   /**
-   * Generate restock recommendations based on predictions
+   * Generate restock recommendations. Items with a calculated reorder point are flagged once
+   * stock reaches it; the rest fall back to days of forecast demand left against the rule threshold.
    */
   generateRestockAlerts(
     inventory: Inventory[], 
-    predictions: Prediction[]
+    predictions: Prediction[],
+    reorderPoints: ReorderPoint[] = []
   ): NotificationEvent[] {
     const events: NotificationEvent[] = [];
     const restockRule = this.rules.get('restock-needed');
@@ -231,39 +275,46 @@ export class NotificationService {
     if (!restockRule?.enabled) return events;
 
     inventory.forEach(item => {
-      const prediction = predictions.find(p => p.itemName === item.itemName);
-      if (!prediction) return;
-
-      const daysUntilStockout = item.currentStock / (prediction.predictedQuantity || 1);
+      const reorderPoint = reorderPoints.find(point => point.inventoryId === item.id && point.errorSource !== 'none');
+      const prediction = predictions.find(p => p.itemName === item.itemName && p.locationId === item.locationId);
+      if (!reorderPoint && !prediction) return;
+
+      const dailyDemand = reorderPoint ? reorderPoint.dailyDemand : prediction!.predictedQuantity;
+      const daysUntilStockout = item.currentStock / (dailyDemand || 1);
+      const needsRestock = reorderPoint
+        ? reorderPoint.belowReorderPoint
+        : daysUntilStockout <= restockRule.threshold;
       
-      if (daysUntilStockout <= restockRule.threshold) {
-        const recommendedOrderQuantity = Math.max(
-          item.minimumStock,
-          prediction.predictedQuantity * 7 // Week's supply
-        );
+      if (needsRestock) {
+        const orderQuantity = recommendedOrderQuantity(item, dailyDemand);
+        const reorderNote = reorderPoint
+          ? `Stock is at or below its reorder point of ${reorderPoint.reorderPoint} ${item.unit}. `
+          : '';
 
         const event: NotificationEvent = {
           id: `restock-${item.id}-${Date.now()}`,
           ruleId: restockRule.id,
           type: 'restock_needed',
           title: 'Restock Recommendation',
-          message: `${item.itemName} needs restocking. Predicted to run out in ${daysUntilStockout.toFixed(1)} days`,
+          message: `${item.itemName} needs restocking. ${reorderNote}Predicted to run out in ${daysUntilStockout.toFixed(1)} days`,
           priority: daysUntilStockout <= 1 ? 'critical' : 'high',
           data: {
             itemId: item.id,
             itemName: item.itemName,
+            locationId: item.locationId,
             currentStock: item.currentStock,
-            predictedDemand: prediction.predictedQuantity,
+            predictedDemand: dailyDemand,
             daysUntilStockout,
-            recommendedOrderQuantity,
-            confidence: prediction.confidence
+            reorderPoint: reorderPoint?.reorderPoint,
+            safetyStock: reorderPoint?.safetyStock,
+            recommendedOrderQuantity: orderQuantity,
+            confidence: prediction?.confidence ?? reorderPoint?.serviceLevel
           },
           timestamp: new Date(),
           acknowledged: false,
           actionRequired: true
         };
 
-        this.notifications.set(event.id, event);
         events.push(event);
       }
     });
@@ -272,11 +323,73 @@ export class NotificationService {
   }
 
   /**
-   * Get all active notifications
+   * Warn about batches expiring within the rule's window that forecast demand won't use up
+   */
+  generateExpiryAlerts(risks: ExpiryRisk[]): NotificationEvent[] {
+    const expiryRule = this.rules.get('expiry-alert');
+    if (!expiryRule?.enabled) return [];
+
+    return risks
+      .filter(risk => risk.daysUntilExpiry <= expiryRule.threshold && risk.projectedWaste > 0)
+      .map(risk => {
+        const when = risk.daysUntilExpiry === 0 ? 'today' : risk.daysUntilExpiry === 1 ? 'tomorrow' : `in ${risk.daysUntilExpiry} days`;
+        return {
+          id: `expiry-${risk.inventoryId}-${risk.daysUntilExpiry}-${Date.now()}`,
+          ruleId: expiryRule.id,
+          type: 'expiry_risk',
+          title: 'Stock Expiring Unused',
+          message: `${risk.expiringQuantity} ${risk.unit} of ${risk.itemName} expire ${when}, forecast demand is ${risk.forecastDemand} ${risk.unit}`,
+          priority: risk.daysUntilExpiry === 0 ? 'critical' : expiryRule.priority,
+          data: {
+            itemId: risk.inventoryId,
+            itemName: risk.itemName,
+            locationId: risk.locationId,
+            expiryDate: risk.expiryDate,
+            daysUntilExpiry: risk.daysUntilExpiry,
+            expiringQuantity: risk.expiringQuantity,
+            forecastDemand: risk.forecastDemand,
+            projectedWaste: risk.projectedWaste
+          },
+          timestamp: new Date(),
+          acknowledged: false,
+          actionRequired: true
+        };
+      });
+  }
+
+  /**
+   * Save a summary notification per report, once per location and day
+   */
+  async sendDailyReports(reports: DailyReport[]): Promise<NotificationEvent[]> {
+    const reportRule = this.rules.get('daily-report');
+    if (!reportRule?.enabled) return [];
+
+    const events = reports.map((report): NotificationEvent => {
+      const accuracy = report.forecastAccuracy !== null ? `, forecast accuracy ${(report.forecastAccuracy * 100).toFixed(1)}%` : '';
+      const top = report.topItem ? `, best seller ${report.topItem}` : '';
+      return {
+        id: `daily-report-${report.locationId ?? 'all'}-${report.reportDate}`,
+        ruleId: reportRule.id,
+        type: 'daily_report',
+        title: `Daily Report ${report.reportDate}${report.locationName ? ` - ${report.locationName}` : ''}`,
+        message: `${report.unitsSold} units sold for $${report.revenue.toFixed(2)}${top}${accuracy}; ${report.openAlerts} open alerts`,
+        priority: reportRule.priority,
+        data: { ...report },
+        timestamp: new Date(),
+        acknowledged: false,
+        actionRequired: false
+      };
+    });
+    return this.saveEvents(events);
+  }
+
+  /**
+   * Get all active notifications; for a location, its own plus chain-wide ones
    */
-  getActiveNotifications(): NotificationEvent[] {
-    return Array.from(this.notifications.values())
-      .filter(n => !n.acknowledged)
+  async getActiveNotifications(locationId?: string): Promise<NotificationEvent[]> {
+    const records = await this.storage.getNotifications({ acknowledged: false, locationId });
+    return records
+      .map(record => this.fromRecord(record))
       .sort((a, b) => {
         // Sort by priority then by timestamp
         const priorityOrder = { critical: 4, high: 3, medium: 2, low: 1 };
@@ -292,26 +405,30 @@ export class NotificationService {
   }
 
   /**
-   * Acknowledge a notification
+   * Get notification history, including acknowledged events
    */
-  acknowledgeNotification(notificationId: string): boolean {
-    const notification = this.notifications.get(notificationId);
-    if (notification) {
-      notification.acknowledged = true;
-      return true;
-    }
-    return false;
+  async getNotificationHistory(limit?: number, locationId?: string): Promise<NotificationEvent[]> {
+    const records = await this.storage.getNotifications({ limit, locationId });
+    return records.map(record => this.fromRecord(record));
+  }
+
+  /**
+   * Acknowledge a notification; with a location, only one visible there
+   */
+  async acknowledgeNotification(notificationId: string, locationId?: string): Promise<boolean> {
+    const notification = await this.storage.acknowledgeNotification(notificationId, locationId);
+    return notification !== undefined;
   }
 
   /**
    * Get notification summary for dashboard
    */
-  getNotificationSummary(): {
+  async getNotificationSummary(locationId?: string): Promise<{
     total: number;
     byPriority: Record<string, number>;
     recentCount: number;
-  } {
-    const active = this.getActiveNotifications();
+  }> {
+    const active = await this.getActiveNotifications(locationId);
     const byPriority: Record<string, number> = {
       critical: 0,
       high: 0,
@@ -350,7 +467,18 @@ export class NotificationService {
           const demandRule = this.rules.get('demand-spike-alert');
           if (demandRule) demandRule.threshold = value;
           break;
-        // Add other mappings as needed
+        case 'accuracyDropThreshold':
+          const driftRule = this.rules.get('model-drift-alert');
+          if (driftRule) driftRule.threshold = value;
+          break;
+        case 'reorderDaysThreshold':
+          const restockRule = this.rules.get('restock-needed');
+          if (restockRule) restockRule.threshold = value;
+          break;
+        case 'expiryWarningDays':
+          const expiryRule = this.rules.get('expiry-alert');
+          if (expiryRule) expiryRule.threshold = value;
+          break;
       }
     });
   }
@@ -375,14 +503,15 @@ export class NotificationService {
   }
 
   /**
-   * Comprehensive monitoring check
+   * Comprehensive monitoring check; drift is judged on realised forecast accuracy per model
    */
   async performMonitoringCheck(
     inventory: Inventory[],
     recentSales: SalesData[],
     predictions: Prediction[],
-    modelAccuracy: number,
-    baselineAccuracy: number = 0.9
+    driftSnapshots: DriftSnapshot[] = [],
+    reorderPoints: ReorderPoint[] = [],
+    expiryRisks: ExpiryRisk[] = []
   ): Promise<NotificationEvent[]> {
     const allEvents: NotificationEvent[] = [];
 
@@ -394,11 +523,71 @@ export class NotificationService {
       allEvents.push(...this.checkDemandAnomalies(recentSales, avgHistoricalDemand));
     }
 
-    allEvents.push(...this.checkModelPerformance(modelAccuracy, baselineAccuracy));
-    allEvents.push(...this.generateRestockAlerts(inventory, predictions));
+    driftSnapshots.forEach(snapshot => {
+      allEvents.push(...this.checkModelPerformance(snapshot.currentAccuracy, snapshot.baselineAccuracy, snapshot.modelType, snapshot.locationId));
+    });
+    allEvents.push(...this.generateRestockAlerts(inventory, predictions, reorderPoints));
+    allEvents.push(...this.generateExpiryAlerts(expiryRisks));
 
-    return allEvents;
+    return this.saveEvents(allEvents);
+  }
+
+  /**
+   * Persist generated events; the stored copies carry the storage-assigned ids. An event is dropped
+   * while the same rule already has an open notification for its item (or model, or report day) and location,
+   * so an hourly check doesn't repeat an alert nobody has acknowledged yet.
+   */
+  private async saveEvents(events: NotificationEvent[]): Promise<NotificationEvent[]> {
+    if (events.length === 0) return [];
+
+    const open = await this.storage.getNotifications({ acknowledged: false });
+    const seen = new Set(open.map(record => this.dedupeKey(record.ruleId, (record.data as Record<string, any>) || {})));
+    const fresh = events.filter(event => {
+      const key = this.dedupeKey(event.ruleId, event.data);
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+    if (fresh.length === 0) return [];
+
+    const records = await this.storage.bulkCreateNotifications(fresh.map(event => this.toRecord(event)));
+    const saved = records.map(record => this.fromRecord(record));
+    this.emit('notifications-created', saved);
+    return saved;
+  }
+
+  private dedupeKey(ruleId: string, data: Record<string, any>): string {
+    return JSON.stringify([ruleId, data.itemId ?? data.modelType ?? data.reportDate ?? null, data.locationId ?? null]);
+  }
+
+  private toRecord(event: NotificationEvent): InsertNotification {
+    return {
+      locationId: event.data.locationId ?? null,
+      ruleId: event.ruleId,
+      type: event.type,
+      title: event.title,
+      message: event.message,
+      priority: event.priority,
+      data: event.data,
+      acknowledged: event.acknowledged ? 1 : 0,
+      actionRequired: event.actionRequired ? 1 : 0,
+    };
+  }
+
+  private fromRecord(record: NotificationRecord): NotificationEvent {
+    return {
+      id: record.id,
+      ruleId: record.ruleId,
+      type: record.type,
+      title: record.title,
+      message: record.message,
+      priority: record.priority,
+      data: (record.data as Record<string, any>) || {},
+      timestamp: record.createdAt || new Date(),
+      acknowledged: record.acknowledged === 1,
+      actionRequired: record.actionRequired === 1
+    };
   }
 }
 
-export const notificationService = new NotificationService();
\ No newline at end of file
+export const notificationService = new NotificationService(storage);
\ No newline at end of file
@@ -0,0 +1,73 @@
+/**
+ * Derivative-free minimisation for fitting model parameters to a loss such as a sum of squared errors
+ */
+
+export interface MinimizeOptions {
+  step?: number; // Initial simplex size along each axis
+  maxIterations?: number; // 200 per parameter by default
+  tolerance?: number; // Stop once the simplex values agree to within this
+}
+
+export interface MinimizeResult {
+  point: number[];
+  value: number;
+  iterations: number;
+}
+
+/**
+ * Nelder-Mead simplex search for a local minimum of `objective`, started from `start`.
+ * Non-finite objective values are treated as +Infinity, so a loss can reject a point by returning NaN.
+ */
+export function nelderMead(objective: (point: number[]) => number, start: number[], options: MinimizeOptions = {}): MinimizeResult {
+  const dimension = start.length;
+  const step = options.step ?? 0.1;
+  const maxIterations = options.maxIterations ?? 200 * Math.max(1, dimension);
+  const tolerance = options.tolerance ?? 1e-8;
+  const evaluate = (point: number[]) => {
+    const value = objective(point);
+    return Number.isFinite(value) ? value : Infinity;
+  };
+
+  if (dimension === 0) return { point: [], value: evaluate([]), iterations: 0 };
+
+  let simplex = [start, ...start.map((_, axis) => start.map((value, i) => i === axis ? value + step : value))]
+    .map(point => ({ point, value: evaluate(point) }));
+
+  let iterations = 0;
+  for (; iterations < maxIterations; iterations++) {
+    simplex.sort((a, b) => a.value - b.value);
+    const best = simplex[0];
+    const worst = simplex[dimension];
+    if (Math.abs(worst.value - best.value) <= tolerance * (Math.abs(best.value) + tolerance)) break;
+
+    // Centroid of every vertex but the worst
+    const centroid = start.map((_, i) => simplex.slice(0, dimension).reduce((sum, vertex) => sum + vertex.point[i], 0) / dimension);
+    const towards = (scale: number) => {
+      const point = centroid.map((value, i) => value + scale * (worst.point[i] - value));
+      return { point, value: evaluate(point) };
+    };
+
+    const reflected = towards(-1);
+    if (reflected.value < best.value) {
+      const expanded = towards(-2);
+      simplex[dimension] = expanded.value < reflected.value ? expanded : reflected;
+    } else if (reflected.value < simplex[dimension - 1].value) {
+      simplex[dimension] = reflected;
+    } else {
+      const contracted = reflected.value < worst.value ? towards(-0.5) : towards(0.5);
+      if (contracted.value < Math.min(reflected.value, worst.value)) {
+        simplex[dimension] = contracted;
+      } else {
+        // Shrink everything towards the best vertex
+        simplex = simplex.map((vertex, index) => {
+          if (index === 0) return vertex;
+          const point = vertex.point.map((value, i) => best.point[i] + 0.5 * (value - best.point[i]));
+          return { point, value: evaluate(point) };
+        });
+      }
+    }
+  }
+
+  simplex.sort((a, b) => a.value - b.value);
+  return { point: simplex[0].point, value: simplex[0].value, iterations };
+}
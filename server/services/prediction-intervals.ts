@@ -0,0 +1,46 @@
+/**
+ * Empirical prediction intervals built from in-sample one-step residuals
+ */
+
+export interface PredictionIntervals {
+  p10: number[];
+  p50: number[];
+  p90: number[];
+}
+
+/**
+ * Linear-interpolated quantile of an unsorted sample (q in [0, 1])
+ */
+export function quantile(values: number[], q: number): number {
+  if (values.length === 0) return 0;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * Math.min(1, Math.max(0, q));
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Wrap point forecasts in P10/P90 bands from the residual distribution (actual - fitted).
+ * The spread widens with sqrt(h) for the h-th step ahead; demand can't go below zero.
+ */
+export function buildPredictionIntervals(predictions: number[], residuals: number[]): PredictionIntervals {
+  const finite = residuals.filter(Number.isFinite);
+  const low = quantile(finite, 0.1);
+  const high = quantile(finite, 0.9);
+
+  return {
+    p10: predictions.map((p, i) => Math.max(0, p + low * Math.sqrt(i + 1))),
+    p50: [...predictions],
+    p90: predictions.map((p, i) => Math.max(0, p + high * Math.sqrt(i + 1))),
+  };
+}
+
+/**
+ * Confidence score for a step derived from the relative width of its P10-P90 band
+ */
+export function intervalConfidence(p10: number, p50: number, p90: number): number {
+  const relativeWidth = (p90 - p10) / Math.max(Math.abs(p50), 1);
+  return Math.min(0.99, Math.max(0.05, 1 - relativeWidth / 2));
+}
@@ -0,0 +1,191 @@
+import { type InventoryBatch, type Prediction } from "@shared/schema";
+import { storage, type IStorage } from "../storage";
+import { recipeCostPerPortion } from "./bill-of-materials";
+import { menuCatalogService, type MenuCatalogService } from "./menu-catalog";
+import { normalQuantile } from "./safety-stock";
+
+/**
+ * Newsvendor prep quantities. Each dish's demand for the day is taken as normal around its
+ * P50 forecast, with the spread read from the stored P10-P90 interval or, when there is none,
+ * from the forecast's confidence. Preparing one portion too few loses its margin (recent average
+ * price, else the catalog price, less food cost); one too many wastes its food cost. The
+ * quantity that minimises the expected sum of both is the demand quantile at the critical ratio
+ * underage / (underage + overage), less the in-date portions already on hand.
+ */
+
+const PRICE_HISTORY_DAYS = 28; // Sales used to work out each dish's average price
+const P90_Z = 1.2816; // Standard normal quantile of the P90 bound
+const DEFAULT_CRITICAL_RATIO = 0.5; // Used when a dish has no price or no food cost
+
+export interface PrepCostOverrides {
+  underageCost?: number; // Cost of each portion short, replacing price less food cost
+  overageCost?: number; // Cost of each portion wasted, replacing the food cost
+}
+
+export interface PrepPlanItem {
+  itemName: string;
+  category: string;
+  locationId: string | null;
+  forecast: number; // P50
+  demandStdDev: number;
+  uncertaintySource: "interval" | "confidence";
+  confidence: number;
+  price: number | null;
+  foodCost: number | null;
+  underageCost: number | null;
+  overageCost: number | null;
+  criticalRatio: number;
+  targetQuantity: number; // Portions to have available for the day
+  onHand: number; // Prepared portions still in date on the day
+  prepQuantity: number;
+  expectedSales: number;
+  expectedWaste: number;
+  expectedShortage: number;
+  expectedCost: number | null; // Expected shortage and waste cost at the target quantity
+}
+
+export class PrepPlanningService {
+
+  constructor(
+    private storage: IStorage,
+    private menuCatalog: MenuCatalogService,
+  ) {}
+
+  /**
+   * Prep quantities for every dish forecast on `date`
+   */
+  async getPrepPlan(date: Date, locationId?: string, overrides: PrepCostOverrides = {}, now: Date = new Date()): Promise<PrepPlanItem[]> {
+    const day = startOfDay(date);
+    const [predictions, inventory, batches, recipes, sales, catalog] = await Promise.all([
+      this.storage.getPredictionsByDate(new Date(day), locationId),
+      this.storage.getInventory(locationId),
+      this.storage.getInventoryBatches({ openOnly: true }, locationId),
+      this.storage.getRecipes(),
+      this.storage.getSalesDataByDateRange(addDays(startOfDay(now), -PRICE_HISTORY_DAYS), now, locationId),
+      this.menuCatalog.getCatalog(now),
+    ]);
+    const foodCosts = new Map(recipes.map(recipe => [recipe.menuItemName, recipeCostPerPortion(recipe)]));
+    const menuItems = new Map(catalog.map(item => [item.name, item]));
+
+    return latestPerItem(predictions)
+      .map(prediction => {
+        const key = (name: string, location: string | null) => name === prediction.itemName && location === prediction.locationId;
+        const itemSales = sales.filter(sale => key(sale.itemName, sale.locationId));
+        const soldQuantity = itemSales.reduce((sum, sale) => sum + sale.quantity, 0);
+        const menuItem = menuItems.get(prediction.itemName);
+        const price = soldQuantity > 0 ? itemSales.reduce((sum, sale) => sum + sale.revenue, 0) / soldQuantity : menuItem?.price ?? null;
+        const foodCost = menuItem?.effectiveFoodCost ?? foodCosts.get(prediction.itemName) ?? null;
+
+        const dishRows = inventory.filter(item => !item.ingredientId && key(item.itemName, item.locationId));
+        const onHand = dishRows.reduce((sum, item) => sum + usableOn(
+          day, item.currentStock, batches.filter(batch => batch.inventoryId === item.id),
+        ), 0);
+
+        return this.plan(prediction, price, foodCost, onHand, overrides);
+      })
+      .sort((a, b) => a.itemName.localeCompare(b.itemName));
+  }
+
+  private plan(prediction: Prediction, price: number | null, foodCost: number | null, onHand: number, overrides: PrepCostOverrides): PrepPlanItem {
+    const mean = prediction.predictedQuantity;
+    const hasInterval = prediction.lowerBound !== null && prediction.upperBound !== null && prediction.upperBound > prediction.lowerBound;
+    const stdDev = hasInterval
+      ? (prediction.upperBound! - prediction.lowerBound!) / (2 * P90_Z)
+      : mean * (1 - Math.min(1, Math.max(0, prediction.confidence)));
+
+    const underageCost = overrides.underageCost ?? (price !== null && foodCost !== null ? Math.max(0, price - foodCost) : null);
+    const overageCost = overrides.overageCost ?? foodCost;
+    const criticalRatio = underageCost !== null && overageCost !== null && underageCost + overageCost > 0
+      ? underageCost / (underageCost + overageCost)
+      : DEFAULT_CRITICAL_RATIO;
+
+    // A zero ratio means shortages cost nothing, so nothing is worth preparing
+    const target = criticalRatio <= 0
+      ? 0
+      : Math.max(0, Math.ceil(stdDev > 0 ? mean + normalQuantile(Math.min(criticalRatio, 0.9999)) * stdDev : mean));
+    const { sales, waste, shortage } = expectedOutcome(target, mean, stdDev);
+
+    return {
+      itemName: prediction.itemName,
+      category: prediction.category,
+      locationId: prediction.locationId,
+      forecast: mean,
+      demandStdDev: round(stdDev),
+      uncertaintySource: hasInterval ? "interval" : "confidence",
+      confidence: prediction.confidence,
+      price: price === null ? null : round(price, 2),
+      foodCost: foodCost === null ? null : round(foodCost, 2),
+      underageCost: underageCost === null ? null : round(underageCost, 2),
+      overageCost: overageCost === null ? null : round(overageCost, 2),
+      criticalRatio: round(criticalRatio, 4),
+      targetQuantity: target,
+      onHand: round(onHand),
+      prepQuantity: Math.max(0, Math.ceil(target - onHand)),
+      expectedSales: round(sales),
+      expectedWaste: round(waste),
+      expectedShortage: round(shortage),
+      expectedCost: underageCost === null || overageCost === null ? null : round(shortage * underageCost + waste * overageCost, 2),
+    };
+  }
+}
+
+// The most recently generated forecast for each item and location
+function latestPerItem(predictions: Prediction[]): Prediction[] {
+  const latest = new Map<string, Prediction>();
+  predictions.forEach(prediction => {
+    const key = `${prediction.locationId ?? ''}|${prediction.itemName}`;
+    const current = latest.get(key);
+    if (!current || (prediction.createdAt?.getTime() ?? 0) > (current.createdAt?.getTime() ?? 0)) latest.set(key, prediction);
+  });
+  return Array.from(latest.values());
+}
+
+// Stock that is still in date on `day`; rows without batches count their whole balance
+function usableOn(day: Date, currentStock: number, batches: InventoryBatch[]): number {
+  if (batches.length === 0) return Math.max(0, currentStock);
+  const usable = batches
+    .filter(batch => !batch.expiresAt || startOfDay(batch.expiresAt) >= day)
+    .reduce((sum, batch) => sum + batch.remainingQuantity, 0);
+  return Math.max(0, Math.min(currentStock, usable));
+}
+
+// Expected sales, leftover and unmet demand when `quantity` is available and demand ~ N(mean, stdDev)
+function expectedOutcome(quantity: number, mean: number, stdDev: number): { sales: number; waste: number; shortage: number } {
+  if (stdDev <= 0) {
+    return { sales: Math.min(quantity, mean), waste: Math.max(0, quantity - mean), shortage: Math.max(0, mean - quantity) };
+  }
+  const z = (quantity - mean) / stdDev;
+  const shortage = stdDev * (normalPdf(z) - z * (1 - normalCdf(z)));
+  const waste = quantity - mean + shortage;
+  return { sales: mean - shortage, waste, shortage };
+}
+
+function normalPdf(z: number): number {
+  return Math.exp(-z * z / 2) / Math.sqrt(2 * Math.PI);
+}
+
+// Standard normal CDF (Abramowitz and Stegun 26.2.17, absolute error < 7.5e-8)
+function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.2316419 * Math.abs(z));
+  const tail = normalPdf(z) * t * (0.319381530 + t * (-0.356563782 + t * (1.781477937 + t * (-1.821255978 + t * 1.330274429))));
+  return z >= 0 ? 1 - tail : tail;
+}
+
+function round(value: number, decimals: number = 3): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+export const prepPlanningService = new PrepPlanningService(storage, menuCatalogService);
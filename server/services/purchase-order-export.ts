@@ -0,0 +1,177 @@
+import { type PurchaseOrderWithLines } from "@shared/schema";
+
+/**
+ * CSV and PDF renderings of a purchase order for sending to the supplier.
+ * The PDF is written directly (single font, fixed-width table) so no PDF library is needed.
+ */
+
+interface ExportLine {
+  itemName: string;
+  unit: string;
+  packSize: number;
+  packs: number;
+  quantity: number;
+  unitCost: number | null;
+  lineTotal: number | null;
+}
+
+export function purchaseOrderToCsv(order: PurchaseOrderWithLines): string {
+  const rows: (string | number | null)[][] = [
+    ["Order Number", order.orderNumber],
+    ["Supplier", order.supplier?.name ?? order.supplierId],
+    ["Status", order.status],
+    ["Created", formatDate(order.createdAt)],
+    ["Expected Delivery", formatDate(order.expectedDeliveryDate)],
+    ["Notes", order.notes],
+    [],
+    ["Item", "Unit", "Pack Size", "Packs", "Quantity", "Unit Cost", "Line Total"],
+    ...exportLines(order).map(line => [
+      line.itemName, line.unit, line.packSize, line.packs, line.quantity, line.unitCost, line.lineTotal,
+    ]),
+    [],
+    ["Total", "", "", "", "", "", orderTotal(order)],
+  ];
+
+  return rows.map(row => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
+
+export function purchaseOrderToPdf(order: PurchaseOrderWithLines): Buffer {
+  const columns = [
+    { title: "Item", width: 28 },
+    { title: "Unit", width: 6 },
+    { title: "Pack", width: 7 },
+    { title: "Packs", width: 6 },
+    { title: "Quantity", width: 10 },
+    { title: "Unit Cost", width: 10 },
+    { title: "Total", width: 10 },
+  ];
+  const row = (cells: string[]) => cells
+    .map((cell, i) => i === 0 || i === 1 ? cell.slice(0, columns[i].width).padEnd(columns[i].width) : cell.padStart(columns[i].width))
+    .join(" ");
+
+  const supplier = order.supplier;
+  const total = orderTotal(order);
+  const text = [
+    `PURCHASE ORDER ${order.orderNumber}`,
+    "",
+    `Supplier:          ${supplier?.name ?? order.supplierId}`,
+    ...(supplier?.contactName ? [`Contact:           ${supplier.contactName}`] : []),
+    ...(supplier?.email ? [`Email:             ${supplier.email}`] : []),
+    ...(supplier?.phone ? [`Phone:             ${supplier.phone}`] : []),
+    `Status:            ${order.status}`,
+    `Created:           ${formatDate(order.createdAt)}`,
+    `Expected delivery: ${formatDate(order.expectedDeliveryDate) || "-"}`,
+    ...(order.notes ? ["", `Notes: ${order.notes}`] : []),
+    "",
+    row(columns.map(column => column.title)),
+    "-".repeat(columns.reduce((sum, column) => sum + column.width + 1, -1)),
+    ...exportLines(order).map(line => row([
+      line.itemName,
+      line.unit,
+      formatNumber(line.packSize),
+      String(line.packs),
+      formatNumber(line.quantity),
+      line.unitCost === null ? "-" : line.unitCost.toFixed(2),
+      line.lineTotal === null ? "-" : line.lineTotal.toFixed(2),
+    ])),
+    "",
+    `Order total: ${total === null ? "-" : total.toFixed(2)}`,
+  ];
+
+  return renderPdf(text);
+}
+
+function exportLines(order: PurchaseOrderWithLines): ExportLine[] {
+  return order.lines.map(line => ({
+    itemName: line.itemName,
+    unit: line.unit,
+    packSize: line.packSize,
+    packs: Math.round(line.quantity / (line.packSize || 1)),
+    quantity: line.quantity,
+    unitCost: line.unitCost,
+    lineTotal: line.unitCost === null ? null : Math.round(line.unitCost * line.quantity * 100) / 100,
+  }));
+}
+
+// Sum of the priced lines; null when no line has a price
+function orderTotal(order: PurchaseOrderWithLines): number | null {
+  const priced = exportLines(order).filter(line => line.lineTotal !== null);
+  return priced.length > 0 ? Math.round(priced.reduce((sum, line) => sum + line.lineTotal!, 0) * 100) / 100 : null;
+}
+
+function csvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function formatDate(date: Date | null | undefined): string {
+  return date ? date.toISOString().slice(0, 10) : "";
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+const PAGE_WIDTH = 612; // US Letter, in points
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const FONT_SIZE = 10;
+const LINE_HEIGHT = 13;
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LINE_HEIGHT);
+
+/**
+ * Minimal PDF 1.4 document: one Courier text block per page
+ */
+function renderPdf(lines: string[]): Buffer {
+  const pages: string[][] = [];
+  for (let i = 0; i < lines.length; i += LINES_PER_PAGE) {
+    pages.push(lines.slice(i, i + LINES_PER_PAGE));
+  }
+  if (pages.length === 0) pages.push([]);
+
+  // Objects 1-3 are the catalog, page tree and font; each page then takes a page and a content object
+  const pageIds = pages.map((_, i) => 4 + i * 2);
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Courier /Encoding /WinAnsiEncoding >>",
+  ];
+
+  pages.forEach((pageLines, i) => {
+    const stream = [
+      "BT",
+      `/F1 ${FONT_SIZE} Tf`,
+      `${LINE_HEIGHT} TL`,
+      `${MARGIN} ${PAGE_HEIGHT - MARGIN} Td`,
+      ...pageLines.map(line => `(${escapePdfText(line)}) '`),
+      "ET",
+    ].join("\n");
+
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+      `<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`,
+    );
+  });
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((object, i) => {
+    const offset = Buffer.byteLength(pdf, "latin1");
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = Buffer.byteLength(pdf, "latin1");
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, "latin1");
+}
+
+// Escape string delimiters and replace anything outside Latin-1, which the standard font can't show
+function escapePdfText(text: string): string {
+  return text
+    .replace(/[^\x20-\xff]/g, "?")
+    .replace(/([\\()])/g, "\\$1");
+}
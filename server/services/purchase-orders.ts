@@ -0,0 +1,165 @@
+import { randomUUID } from "crypto";
+import { type InsertPurchaseOrder, type NewPurchaseOrderLine, type PurchaseOrder, type PurchaseOrderStatus, type PurchaseOrderWithLines } from "@shared/schema";
+import { storage, type IStorage } from "../storage";
+import { inventoryPlanningService, type InventoryPlanningService } from "./inventory-planning";
+
+/**
+ * Purchase orders move draft → approved → sent → received. Drafts can be built from the
+ * restock recommendations, one per supplier and location; receiving adds the delivered
+ * quantities to stock.
+ */
+
+export const OPEN_PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = ['draft', 'approved', 'sent'];
+
+const NEXT_STATUS: Record<PurchaseOrderStatus, PurchaseOrderStatus | null> = {
+  draft: 'approved',
+  approved: 'sent',
+  sent: 'received',
+  received: null,
+};
+
+// Timestamp recorded when an order enters each status
+const STATUS_TIMESTAMPS: Partial<Record<PurchaseOrderStatus, keyof PurchaseOrder>> = {
+  approved: 'approvedAt',
+  sent: 'sentAt',
+  received: 'receivedAt',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DraftGenerationResult {
+  orders: PurchaseOrderWithLines[];
+  unassignedItems: string[]; // Items that need restocking but have no supplier
+}
+
+export function canTransition(from: string, to: PurchaseOrderStatus): boolean {
+  return NEXT_STATUS[from as PurchaseOrderStatus] === to;
+}
+
+/**
+ * Round an order quantity up to whole packs
+ */
+export function roundToPacks(quantity: number, packSize: number): number {
+  const size = packSize > 0 ? packSize : 1;
+  return Math.ceil(quantity / size - 1e-9) * size;
+}
+
+export class PurchaseOrderService {
+
+  constructor(
+    private storage: IStorage,
+    private planning: InventoryPlanningService,
+  ) {}
+
+  /**
+   * Draft one order per supplier and location for every item flagged for restocking that
+   * has a supplier and isn't already on an open order
+   */
+  async generateDrafts(locationId?: string, now: Date = new Date()): Promise<DraftGenerationResult> {
+    const recommendations = await this.planning.getRecommendations(locationId, now);
+    const openOrders = (await this.storage.getPurchaseOrders(undefined, locationId))
+      .filter(order => OPEN_PURCHASE_ORDER_STATUSES.includes(order.status as PurchaseOrderStatus));
+    const onOrder = new Set(openOrders.flatMap(order => order.lines.map(line => line.inventoryId)));
+    const unitCosts = await this.getUnitCosts();
+
+    const toOrder = recommendations.filter(item =>
+      (item.needsRestock || item.currentStock <= item.minimumStock) && !onOrder.has(item.id)
+    );
+    const unassignedItems = toOrder.filter(item => !item.supplierId).map(item => item.itemName);
+
+    const groups = new Map<string, typeof toOrder>();
+    toOrder.filter(item => item.supplierId).forEach(item => {
+      const key = `${item.supplierId}::${item.locationId ?? ''}`;
+      groups.set(key, [...(groups.get(key) ?? []), item]);
+    });
+
+    const orders: PurchaseOrderWithLines[] = [];
+    for (const items of Array.from(groups.values())) {
+      const supplier = await this.storage.getSupplier(items[0].supplierId!);
+      if (!supplier) continue;
+
+      const lines: NewPurchaseOrderLine[] = items.map(item => ({
+        inventoryId: item.id,
+        itemName: item.itemName,
+        unit: item.unit,
+        packSize: item.packSize,
+        quantity: roundToPacks(item.recommendedOrderQuantity, item.packSize),
+        unitCost: item.ingredientId ? unitCosts.get(item.ingredientId) ?? null : null,
+      }));
+
+      orders.push(await this.storage.createPurchaseOrder({
+        orderNumber: generateOrderNumber(now),
+        locationId: items[0].locationId,
+        supplierId: supplier.id,
+        status: 'draft',
+        notes: 'Generated from restock recommendations',
+        expectedDeliveryDate: new Date(now.getTime() + supplier.leadTimeDays * DAY_MS),
+      }, lines));
+    }
+
+    return { orders, unassignedItems };
+  }
+
+  /**
+   * Create a draft from explicit lines. Quantities are rounded up to the item's pack size and
+   * unit cost defaults to the ingredient's cost. Returns undefined if the supplier or an item is unknown.
+   */
+  async createOrder(input: InsertPurchaseOrder, now: Date = new Date()): Promise<PurchaseOrderWithLines | undefined> {
+    const supplier = await this.storage.getSupplier(input.supplierId);
+    if (!supplier) return undefined;
+
+    const inventory = new Map((await this.storage.getInventory()).map(item => [item.id, item]));
+    if (input.lines.some(line => !inventory.has(line.inventoryId))) return undefined;
+    const unitCosts = await this.getUnitCosts();
+
+    const lines: NewPurchaseOrderLine[] = input.lines.map(line => {
+      const item = inventory.get(line.inventoryId)!;
+      return {
+        inventoryId: item.id,
+        itemName: item.itemName,
+        unit: item.unit,
+        packSize: item.packSize,
+        quantity: roundToPacks(line.quantity, item.packSize),
+        unitCost: line.unitCost ?? (item.ingredientId ? unitCosts.get(item.ingredientId) ?? null : null),
+      };
+    });
+
+    return this.storage.createPurchaseOrder({
+      orderNumber: generateOrderNumber(now),
+      locationId: input.locationId ?? null,
+      supplierId: supplier.id,
+      status: 'draft',
+      notes: input.notes ?? null,
+      expectedDeliveryDate: input.expectedDeliveryDate ?? new Date(now.getTime() + supplier.leadTimeDays * DAY_MS),
+    }, lines);
+  }
+
+  /**
+   * Move an order to its next status (approved or sent). Callers check canTransition first.
+   */
+  async advance(id: string, status: Exclude<PurchaseOrderStatus, 'draft' | 'received'>, now: Date = new Date()): Promise<PurchaseOrderWithLines | undefined> {
+    return this.storage.updatePurchaseOrder(id, { status, [STATUS_TIMESTAMPS[status]!]: now });
+  }
+
+  /**
+   * Mark a sent order received and add what arrived to stock. Lines missing from
+   * `receivedQuantities` are taken as delivered in full.
+   */
+  async receive(id: string, receivedQuantities: Record<string, number> = {}, now: Date = new Date()) {
+    return this.storage.receivePurchaseOrder(id, receivedQuantities, now);
+  }
+
+  private async getUnitCosts(): Promise<Map<string, number>> {
+    const ingredients = await this.storage.getIngredients();
+    return new Map(ingredients
+      .filter(ingredient => ingredient.costPerUnit !== null)
+      .map(ingredient => [ingredient.id, ingredient.costPerUnit!]));
+  }
+}
+
+function generateOrderNumber(now: Date): string {
+  const date = now.toISOString().slice(0, 10).replace(/-/g, '');
+  return `PO-${date}-${randomUUID().slice(0, 6).toUpperCase()}`;
+}
+
+export const purchaseOrderService = new PurchaseOrderService(storage, inventoryPlanningService);
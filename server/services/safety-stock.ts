@@ -0,0 +1,306 @@
+import { type Inventory, type Prediction, type RecipeWithIngredients } from "@shared/schema";
+import { storage, type IStorage } from "../storage";
+import { BASELINE_MODEL } from "./forecast-accuracy";
+
+/**
+ * Safety stock and reorder points. Demand over the supplier lead time is treated as normal
+ * with the forecast's daily mean and the spread of its realised errors:
+ *   safety stock = z(service level) × σ × √lead time
+ *   reorder point = daily demand × lead time + safety stock
+ */
+
+export type DemandErrorSource = 'realised' | 'interval' | 'sales' | 'recipe' | 'none';
+
+export interface ReorderPoint {
+  inventoryId: string;
+  itemName: string;
+  locationId: string | null;
+  unit: string;
+  currentStock: number;
+  minimumStock: number;
+  dailyDemand: number;
+  demandStdDev: number; // Daily forecast error standard deviation
+  errorSource: DemandErrorSource;
+  errorSamples: number;
+  leadTimeDays: number;
+  serviceLevel: number;
+  zScore: number;
+  leadTimeDemand: number;
+  safetyStock: number;
+  reorderPoint: number;
+  belowReorderPoint: boolean;
+  explanation: string;
+}
+
+interface DemandStats {
+  mean: number;
+  stdDev: number;
+  source: DemandErrorSource;
+  samples: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HISTORY_DAYS = 28; // Sales used when an item has no forecast
+const ERROR_WINDOW_DAYS = 56; // Realised forecast errors considered
+const MIN_ERROR_SAMPLES = 5; // Fewer realised errors than this fall back to the forecast interval
+const DEFAULT_LEAD_TIME_DAYS = 1; // Items without a supplier are assumed to be replenished daily
+const P90_Z = 1.2816; // Standard normal quantile of the P90 bound
+
+export class SafetyStockService {
+
+  constructor(private storage: IStorage) {}
+
+  async calculate(serviceLevel: number, locationId?: string, now: Date = new Date()): Promise<ReorderPoint[]> {
+    const inventory = await this.storage.getInventory(locationId);
+    const dishStats = await this.getDishDemandStats(locationId, now);
+    const recipes = inventory.some(item => item.ingredientId) ? await this.storage.getRecipes() : [];
+    const leadTimes = new Map((await this.storage.getSuppliers()).map(supplier => [supplier.id, supplier.leadTimeDays]));
+    const zScore = normalQuantile(serviceLevel);
+
+    return inventory.map(item => {
+      const { stats, dishes } = item.ingredientId
+        ? this.ingredientDemandStats(item, recipes, dishStats)
+        : { stats: dishStats.get(demandKey(item.locationId, item.itemName)) ?? noDemand(), dishes: [] };
+
+      const leadTimeDays = Math.max(0, item.supplierId ? leadTimes.get(item.supplierId) ?? DEFAULT_LEAD_TIME_DAYS : DEFAULT_LEAD_TIME_DAYS);
+      const leadTimeDemand = stats.mean * leadTimeDays;
+      const safetyStock = Math.max(0, zScore * stats.stdDev * Math.sqrt(leadTimeDays));
+      const reorderPoint = leadTimeDemand + safetyStock;
+
+      return {
+        inventoryId: item.id,
+        itemName: item.itemName,
+        locationId: item.locationId,
+        unit: item.unit,
+        currentStock: item.currentStock,
+        minimumStock: item.minimumStock,
+        dailyDemand: round(stats.mean),
+        demandStdDev: round(stats.stdDev),
+        errorSource: stats.source,
+        errorSamples: stats.samples,
+        leadTimeDays,
+        serviceLevel,
+        zScore: round(zScore, 3),
+        leadTimeDemand: round(leadTimeDemand),
+        safetyStock: round(safetyStock),
+        reorderPoint: round(reorderPoint),
+        belowReorderPoint: stats.mean > 0 && item.currentStock <= reorderPoint,
+        explanation: explain(item.unit, stats, dishes, leadTimeDays, serviceLevel, zScore, leadTimeDemand, safetyStock),
+      };
+    });
+  }
+
+  /**
+   * Copy calculated reorder points into minimumStock (whole units for countable items),
+   * optionally only for the given inventory rows. Rows with no demand are left alone.
+   */
+  async applyToMinimumStock(points: ReorderPoint[], inventoryIds?: string[]): Promise<Inventory[]> {
+    const selected = points.filter(point =>
+      point.errorSource !== 'none' && (!inventoryIds || inventoryIds.includes(point.inventoryId))
+    );
+
+    const updated: Inventory[] = [];
+    for (const point of selected) {
+      const minimumStock = roundUp(point.reorderPoint, isCountable(point.unit) ? 0 : 2);
+      if (minimumStock === point.minimumStock) continue;
+      const item = await this.storage.updateInventory(point.inventoryId, { minimumStock });
+      if (item) updated.push(item);
+    }
+    return updated;
+  }
+
+  /**
+   * Daily demand mean and error spread per dish and location. The mean is the latest forecast
+   * (or recent average sales); σ comes from realised baseline forecast errors when there are
+   * enough of them, else from the forecast's P10-P90 interval, else from daily sales variation.
+   */
+  private async getDishDemandStats(locationId: string | undefined, now: Date): Promise<Map<string, DemandStats>> {
+    const today = startOfDay(now);
+    const historyStart = new Date(today.getTime() - (HISTORY_DAYS - 1) * DAY_MS);
+    const sales = await this.storage.getSalesDataByDateRange(historyStart, now, locationId);
+    const predictions = await this.storage.getPredictions(undefined, locationId);
+    const accuracy = await this.storage.getForecastAccuracy({
+      modelType: BASELINE_MODEL,
+      startDate: new Date(today.getTime() - ERROR_WINDOW_DAYS * DAY_MS),
+    }, locationId);
+
+    const dailySales = new Map<string, Map<number, number>>();
+    sales.forEach(sale => {
+      const key = demandKey(sale.locationId, sale.itemName);
+      const days = dailySales.get(key) ?? new Map<number, number>();
+      const day = startOfDay(sale.date).getTime();
+      days.set(day, (days.get(day) ?? 0) + sale.quantity);
+      dailySales.set(key, days);
+    });
+
+    const latestPredictions = new Map<string, Prediction>();
+    predictions.forEach(prediction => {
+      const key = demandKey(prediction.locationId, prediction.itemName);
+      const existing = latestPredictions.get(key);
+      if (!existing || (prediction.createdAt?.getTime() ?? 0) > (existing.createdAt?.getTime() ?? 0)) {
+        latestPredictions.set(key, prediction);
+      }
+    });
+
+    const errors = new Map<string, number[]>();
+    accuracy.forEach(record => {
+      const key = demandKey(record.locationId, record.itemName);
+      errors.set(key, [...(errors.get(key) ?? []), record.predictedQuantity - record.actualQuantity]);
+    });
+
+    const keys = new Set([...Array.from(dailySales.keys()), ...Array.from(latestPredictions.keys())]);
+    const stats = new Map<string, DemandStats>();
+    Array.from(keys).forEach(key => {
+      const prediction = latestPredictions.get(key);
+      const days = dailySales.get(key);
+      const itemErrors = errors.get(key) ?? [];
+
+      // Zero-fill the days since the item's first sale in the window
+      const daily: number[] = [];
+      if (days) {
+        const firstDay = Math.min(...Array.from(days.keys()));
+        for (let day = firstDay; day <= today.getTime(); day += DAY_MS) {
+          daily.push(days.get(day) ?? 0);
+        }
+      }
+      const salesMean = daily.length > 0 ? daily.reduce((sum, value) => sum + value, 0) / daily.length : 0;
+      const mean = prediction ? prediction.predictedQuantity : salesMean;
+
+      if (itemErrors.length >= MIN_ERROR_SAMPLES) {
+        const mse = itemErrors.reduce((sum, error) => sum + error * error, 0) / itemErrors.length;
+        stats.set(key, { mean, stdDev: Math.sqrt(mse), source: 'realised', samples: itemErrors.length });
+      } else if (prediction && prediction.lowerBound !== null && prediction.upperBound !== null) {
+        const stdDev = Math.max(0, prediction.upperBound - prediction.lowerBound) / (2 * P90_Z);
+        stats.set(key, { mean, stdDev, source: 'interval', samples: 0 });
+      } else if (daily.length > 1) {
+        const variance = daily.reduce((sum, value) => sum + (value - salesMean) ** 2, 0) / (daily.length - 1);
+        stats.set(key, { mean, stdDev: Math.sqrt(variance), source: 'sales', samples: daily.length });
+      } else {
+        stats.set(key, { mean, stdDev: 0, source: mean > 0 ? 'sales' : 'none', samples: daily.length });
+      }
+    });
+
+    return stats;
+  }
+
+  /**
+   * Ingredient demand is the recipe-weighted sum of its dishes' demand; dish errors are
+   * assumed independent, so their variances add
+   */
+  private ingredientDemandStats(
+    item: Inventory,
+    recipes: RecipeWithIngredients[],
+    dishStats: Map<string, DemandStats>,
+  ): { stats: DemandStats; dishes: string[] } {
+    let mean = 0;
+    let variance = 0;
+    const dishes: string[] = [];
+
+    recipes.forEach(recipe => {
+      const perPortion = recipe.ingredients
+        .filter(line => line.ingredientId === item.ingredientId)
+        .reduce((sum, line) => sum + line.quantity / (recipe.yield || 1) / (line.yieldPercentage || 1), 0);
+      const stats = dishStats.get(demandKey(item.locationId, recipe.menuItemName));
+      if (perPortion === 0 || !stats || stats.source === 'none') return;
+
+      mean += perPortion * stats.mean;
+      variance += (perPortion * stats.stdDev) ** 2;
+      dishes.push(recipe.menuItemName);
+    });
+
+    return {
+      stats: dishes.length > 0
+        ? { mean, stdDev: Math.sqrt(variance), source: 'recipe', samples: dishes.length }
+        : noDemand(),
+      dishes,
+    };
+  }
+}
+
+/**
+ * Inverse standard normal CDF (Acklam's rational approximation, relative error < 1.2e-9)
+ */
+export function normalQuantile(p: number): number {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.383577518672690e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+
+  if (p < low) {
+    const q = Math.sqrt(-2 * Math.log(p));
+    return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+      ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+  }
+  if (p > 1 - low) {
+    return -normalQuantile(1 - p);
+  }
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+}
+
+function explain(
+  unit: string,
+  stats: DemandStats,
+  dishes: string[],
+  leadTimeDays: number,
+  serviceLevel: number,
+  zScore: number,
+  leadTimeDemand: number,
+  safetyStock: number,
+): string {
+  if (stats.source === 'none') {
+    return "No forecast or sales history, so no reorder point can be calculated.";
+  }
+
+  const sigmaSource: Record<Exclude<DemandErrorSource, 'none'>, string> = {
+    realised: `the RMSE of ${stats.samples} realised forecast errors`,
+    interval: "the latest forecast's P10-P90 interval",
+    sales: `day-to-day variation over ${stats.samples} days of sales`,
+    recipe: `the forecast errors of ${dishes.join(", ")}, through their recipes`,
+  };
+  const format = (value: number) => round(value, 2).toString();
+
+  return [
+    `Expected demand ${format(stats.mean)} ${unit}/day × ${leadTimeDays} day lead time = ${format(leadTimeDemand)} ${unit}.`,
+    `Safety stock ${zScore.toFixed(2)} × ${format(stats.stdDev)} ${unit} × √${leadTimeDays} = ${format(safetyStock)} ${unit} for a ${round(serviceLevel * 100, 1)}% service level,`,
+    `with σ from ${sigmaSource[stats.source]}.`,
+    `Reorder at ${format(leadTimeDemand + safetyStock)} ${unit}.`,
+  ].join(" ");
+}
+
+function noDemand(): DemandStats {
+  return { mean: 0, stdDev: 0, source: 'none', samples: 0 };
+}
+
+function demandKey(locationId: string | null, itemName: string): string {
+  return `${locationId ?? ''}::${itemName}`;
+}
+
+function isCountable(unit: string): boolean {
+  return unit === 'units' || unit === 'each';
+}
+
+function round(value: number, decimals: number = 3): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function roundUp(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.ceil(value * factor - 1e-9) / factor;
+}
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+export const safetyStockService = new SafetyStockService(storage);
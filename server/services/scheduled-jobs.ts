@@ -0,0 +1,243 @@
+import { storage } from "../storage";
+import { forecastingService } from "./forecasting";
+import { forecastAccuracyService } from "./forecast-accuracy";
+import { notificationService } from "./notification-service";
+import { realTimeAnalyticsService } from "./real-time-analytics";
+import { safetyStockService } from "./safety-stock";
+import { expiryTrackingService } from "./expiry-tracking";
+import { backtestingService } from "./backtesting";
+import { type SchedulerService } from "./scheduler";
+import { dateKey, lastCompletePeriod, periodStart } from "@shared/time-series";
+
+/**
+ * Background work shared by the API routes and the scheduler, plus the default job schedule
+ */
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export const TRAINING_INTERVALS: Record<string, number> = {
+  hourly: HOUR_MS,
+  daily: 24 * HOUR_MS,
+  weekly: 7 * 24 * HOUR_MS,
+  monthly: 30 * 24 * HOUR_MS,
+};
+
+export const RETRAIN_JOB_ID = 'retrain-predictions';
+export const MONITORING_JOB_ID = 'monitoring-check';
+export const METRICS_SNAPSHOT_JOB_ID = 'metrics-snapshot';
+export const BACKTEST_JOB_ID = 'forecast-backtest';
+export const RETENTION_JOB_ID = 'data-retention';
+export const DAILY_REPORT_JOB_ID = 'daily-report';
+
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Refit the baseline forecasts on all sales in scope for the default forecast period and record
+ * the model metrics. A rerun replaces the predictions it made earlier for the same target period.
+ */
+export async function regeneratePredictions(locationId?: string) {
+  const [salesData, settings] = await Promise.all([storage.getSalesData(undefined, locationId), storage.getSettings()]);
+  const { predictions, metrics } = await forecastingService.generateForecasts(salesData, {
+    period: settings.defaultForecastPeriod,
+    calendar: { timeZone: settings.timeZone, gapFill: settings.gapFill, closedWeekdays: settings.closedWeekdays },
+  });
+
+  const saved = await storage.replacePredictions(predictions);
+  realTimeAnalyticsService.processPredictionUpdate(saved);
+
+  await storage.createModelMetrics({
+    modelName: "Time Series LSTM",
+    accuracy: metrics.accuracy,
+    rmse: metrics.rmse,
+    lastTraining: new Date(),
+  });
+
+  return { predictions, metrics };
+}
+
+/**
+ * Rerun the default backtest for the roll-up and every location, one after another, so the
+ * backtest route serves cached reports
+ */
+export async function refreshBacktests() {
+  const locations = await storage.getLocations();
+  const reports = [];
+  for (const locationId of [undefined, ...locations.map(location => location.id)]) {
+    reports.push(await backtestingService.getBacktest({ locationId }, true));
+  }
+  return reports;
+}
+
+/**
+ * Record realised error for forecasts whose sales have arrived and refresh the accuracy KPI
+ * of the roll-up and of every location
+ */
+export async function reconcileForecasts(locationId?: string) {
+  const records = await forecastAccuracyService.reconcile(locationId);
+  const locations = await storage.getLocations();
+  for (const scope of [undefined, ...locations.map(location => location.id)]) {
+    const accuracy = await forecastAccuracyService.getCurrentAccuracy(scope);
+    if (accuracy !== null) {
+      realTimeAnalyticsService.processAccuracyUpdate(accuracy, scope);
+    }
+  }
+  return records;
+}
+
+/**
+ * Reconcile forecasts, refresh reorder points (writing them to minimumStock when enabled),
+ * then evaluate the notification rules against current data
+ */
+export async function runMonitoringCheck(locationId?: string) {
+  await reconcileForecasts(locationId);
+  const driftSnapshots = await forecastAccuracyService.getDriftSnapshots(locationId);
+
+  const { serviceLevel, autoUpdateMinimumStock } = await storage.getSettings();
+  const reorderPoints = await safetyStockService.calculate(serviceLevel, locationId);
+  if (autoUpdateMinimumStock) {
+    const updated = await safetyStockService.applyToMinimumStock(reorderPoints);
+    if (updated.length > 0) realTimeAnalyticsService.processInventoryUpdate(updated);
+  }
+
+  const inventory = await storage.getInventory(locationId);
+  const recentSales = await storage.getSalesData(100, locationId);
+  const predictions = await storage.getPredictions(50, locationId);
+
+  const expiryRule = notificationService.getNotificationRules().find(rule => rule.type === 'expiry_risk');
+  const expiryRisks = expiryRule?.enabled ? await expiryTrackingService.getExpiryRisks(expiryRule.threshold, locationId) : [];
+
+  const events = await notificationService.performMonitoringCheck(inventory, recentSales, predictions, driftSnapshots, reorderPoints, expiryRisks);
+  await refreshAlertCount();
+  return events;
+}
+
+/**
+ * Feed the unacknowledged notifications, by location, to the real-time metrics
+ */
+export async function refreshAlertCount() {
+  const active = await notificationService.getActiveNotifications();
+  realTimeAnalyticsService.processAlertUpdate(active.map(notification => notification.data.locationId ?? null));
+}
+
+/**
+ * Delete history older than the retention setting
+ */
+export async function purgeExpiredHistory(now: Date = new Date()) {
+  const { dataRetentionDays } = await storage.getSettings();
+  return storage.purgeHistory(new Date(now.getTime() - dataRetentionDays * DAY_MS));
+}
+
+/**
+ * Summarise the last full day on the settings calendar, one report per location (or one for
+ * the chain when there are no locations), so no location sees another's figures
+ */
+export async function sendDailyReports(now: Date = new Date()) {
+  const { timeZone } = await storage.getSettings();
+  const start = lastCompletePeriod(now, 'daily', timeZone);
+  const end = periodStart(now, 'daily', timeZone);
+  const locations = await storage.getLocations();
+  const scopes = locations.length > 0 ? locations : [undefined];
+
+  const reports = [];
+  for (const location of scopes) {
+    const sales = (await storage.getSalesDataByDateRange(start, end, location?.id)).filter(sale => sale.date < end);
+    const unitsByItem = new Map<string, number>();
+    sales.forEach(sale => unitsByItem.set(sale.itemName, (unitsByItem.get(sale.itemName) ?? 0) + sale.quantity));
+    const [topItem] = Array.from(unitsByItem.entries()).sort((a, b) => b[1] - a[1]);
+
+    reports.push({
+      locationId: location?.id ?? null,
+      locationName: location?.name,
+      reportDate: dateKey(start, timeZone),
+      unitsSold: sales.reduce((sum, sale) => sum + sale.quantity, 0),
+      revenue: sales.reduce((sum, sale) => sum + sale.revenue, 0),
+      topItem: topItem?.[0] ?? null,
+      forecastAccuracy: await forecastAccuracyService.getCurrentAccuracy(location?.id, now),
+      openAlerts: (await notificationService.getActiveNotifications(location?.id)).filter(event => event.type !== 'daily_report').length,
+    });
+  }
+
+  const events = await notificationService.sendDailyReports(reports);
+  if (events.length > 0) await refreshAlertCount();
+  return events;
+}
+
+/**
+ * Register retraining, monitoring, retention, daily reports and one sync job per external data source.
+ * Cadences start at their defaults; saved settings adjust them when applied.
+ */
+export function registerDefaultJobs(scheduler: SchedulerService): void {
+  scheduler.register({
+    id: RETRAIN_JOB_ID,
+    name: 'Regenerate predictions',
+    intervalMs: TRAINING_INTERVALS.daily,
+    run: async () => {
+      const { predictions } = await regeneratePredictions();
+      return `Generated ${predictions.length} predictions`;
+    },
+  });
+
+  scheduler.register({
+    id: MONITORING_JOB_ID,
+    name: 'Monitoring check',
+    intervalMs: HOUR_MS, // Matches the rules' checkFrequency
+    run: async () => {
+      const events = await runMonitoringCheck();
+      return `Raised ${events.length} notifications`;
+    },
+  });
+
+  scheduler.register({
+    id: BACKTEST_JOB_ID,
+    name: 'Backtest forecasts',
+    intervalMs: TRAINING_INTERVALS.daily,
+    run: async () => {
+      const reports = await refreshBacktests();
+      return `Backtested ${reports.length} scopes`;
+    },
+  });
+
+  scheduler.register({
+    id: RETENTION_JOB_ID,
+    name: 'Purge expired history',
+    intervalMs: DAY_MS,
+    run: async () => {
+      const deleted = await purgeExpiredHistory();
+      return `Deleted ${deleted} records`;
+    },
+  });
+
+  scheduler.register({
+    id: DAILY_REPORT_JOB_ID,
+    name: 'Send daily reports',
+    intervalMs: DAY_MS,
+    enabled: false, // Until the dailyReports setting turns it on
+    run: async () => {
+      const events = await sendDailyReports();
+      return `Sent ${events.length} reports`;
+    },
+  });
+
+  scheduler.register({
+    id: METRICS_SNAPSHOT_JOB_ID,
+    name: 'Record metrics snapshot',
+    intervalMs: 5 * MINUTE_MS,
+    run: async () => {
+      await realTimeAnalyticsService.recordSnapshot();
+    },
+  });
+
+  realTimeAnalyticsService.getDataSources().forEach(source => {
+    scheduler.register({
+      id: `sync-${source.id}`,
+      name: `Sync ${source.name}`,
+      intervalMs: source.refreshInterval * MINUTE_MS,
+      enabled: source.enabled,
+      run: async () => {
+        const synced = await realTimeAnalyticsService.syncExternalData(source.id);
+        if (!synced) throw new Error(`Failed to sync ${source.name}`);
+      },
+    });
+  });
+}
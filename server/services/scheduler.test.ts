@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { ManualClock, SchedulerService } from "./scheduler";
+
+const START = new Date("2026-03-02T00:00:00Z");
+const MINUTE_MS = 60 * 1000;
+
+// Let a finished run record itself and set its next timer
+const settle = () => new Promise(resolve => setImmediate(resolve));
+
+describe("SchedulerService", () => {
+  it("runs each job once per interval of the clock", async () => {
+    const clock = new ManualClock(START);
+    const scheduler = new SchedulerService(clock);
+    const runs: number[] = [];
+    scheduler.register({ id: "check", name: "Check", intervalMs: MINUTE_MS, run: async () => { runs.push(clock.now().getTime()); } });
+    scheduler.start();
+
+    await clock.advance(3.5 * MINUTE_MS);
+
+    expect(runs.map(at => (at - START.getTime()) / MINUTE_MS)).toEqual([1, 2, 3]);
+    expect(scheduler.getJob("check")?.nextRunAt).toEqual(new Date(START.getTime() + 4 * MINUTE_MS));
+    expect(scheduler.getHistory().map(run => run.status)).toEqual(["success", "success", "success"]);
+    scheduler.stop();
+  });
+
+  it("never starts a run while the previous one is still going", async () => {
+    const clock = new ManualClock(START);
+    const scheduler = new SchedulerService(clock);
+    let active = 0;
+    let maxActive = 0;
+    let finish: () => void = () => {};
+    scheduler.register({
+      id: "sync", name: "Sync", intervalMs: MINUTE_MS, run: async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise<void>(resolve => { finish = resolve; });
+        active--;
+      },
+    });
+    scheduler.start();
+
+    await clock.advance(5 * MINUTE_MS);
+    const manual = await scheduler.runNow("sync");
+
+    expect(active).toBe(1);
+    expect(manual?.status).toBe("skipped");
+    expect(scheduler.getJob("sync")?.running).toBe(true);
+
+    // The overdue run starts as soon as the long one ends, not alongside it
+    finish();
+    await settle();
+    await clock.advance(0);
+    expect(active).toBe(1);
+    finish();
+    await settle();
+
+    expect(maxActive).toBe(1);
+    expect(scheduler.getHistory({ jobId: "sync" }).map(run => run.status)).toEqual(["success", "success", "skipped"]);
+    scheduler.stop();
+  });
+});
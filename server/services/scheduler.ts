@@ -0,0 +1,285 @@
+import { randomUUID } from "crypto";
+
+/**
+ * In-process job scheduler. Each job runs on a fixed interval; time is read through
+ * a Clock so the schedule can be driven by a ManualClock instead of real timers.
+ */
+
+export interface Clock {
+  now(): Date;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+  setTimeout: (callback, ms) => {
+    const handle = setTimeout(callback, ms);
+    handle.unref?.(); // Never keep the process alive just for a pending job
+    return handle;
+  },
+  clearTimeout: (handle) => clearTimeout(handle as NodeJS.Timeout),
+};
+
+/**
+ * Clock that only moves when advanced, firing any timers that fall due
+ */
+export class ManualClock implements Clock {
+  private current: number;
+  private timers = new Map<number, { at: number; callback: () => void }>();
+  private nextHandle = 1;
+
+  constructor(start: Date = new Date(0)) {
+    this.current = start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.current);
+  }
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    const handle = this.nextHandle++;
+    this.timers.set(handle, { at: this.current + Math.max(0, ms), callback });
+    return handle;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers.delete(handle as number);
+  }
+
+  /**
+   * Move time forward, firing due timers in order (including timers they schedule)
+   */
+  async advance(ms: number): Promise<void> {
+    const target = this.current + ms;
+
+    while (true) {
+      const due = Array.from(this.timers.entries())
+        .filter(([, timer]) => timer.at <= target)
+        .sort((a, b) => a[1].at - b[1].at)[0];
+      if (!due) break;
+
+      const [handle, timer] = due;
+      this.timers.delete(handle);
+      this.current = timer.at;
+      timer.callback();
+      // Let the job's async work settle before looking for the next timer
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    this.current = target;
+  }
+}
+
+export interface JobDefinition {
+  id: string;
+  name: string;
+  intervalMs: number;
+  enabled?: boolean;
+  run: () => Promise<string | void>; // Optional summary message recorded in the history
+}
+
+export interface JobStatus {
+  id: string;
+  name: string;
+  intervalMs: number;
+  enabled: boolean;
+  running: boolean;
+  lastRunAt: Date | null;
+  lastStatus: JobRun['status'] | null;
+  nextRunAt: Date | null;
+}
+
+export interface JobRun {
+  id: string;
+  jobId: string;
+  trigger: 'schedule' | 'manual';
+  status: 'success' | 'failed' | 'skipped';
+  message: string | null;
+  startedAt: Date;
+  finishedAt: Date;
+  durationMs: number;
+}
+
+interface ScheduledJob {
+  definition: JobDefinition;
+  enabled: boolean;
+  running: boolean;
+  lastRunAt: Date | null;
+  lastStatus: JobRun['status'] | null;
+  nextRunAt: Date | null;
+  timer: unknown;
+}
+
+const MAX_HISTORY = 500;
+
+export class SchedulerService {
+  private jobs = new Map<string, ScheduledJob>();
+  private history: JobRun[] = [];
+  private started = false;
+
+  constructor(private clock: Clock = systemClock) {}
+
+  /**
+   * Add or replace a job; it is scheduled immediately if the scheduler is running
+   */
+  register(definition: JobDefinition): void {
+    this.unschedule(definition.id);
+    this.jobs.set(definition.id, {
+      definition,
+      enabled: definition.enabled ?? true,
+      running: false,
+      lastRunAt: null,
+      lastStatus: null,
+      nextRunAt: null,
+      timer: null,
+    });
+    if (this.started) this.schedule(definition.id);
+  }
+
+  start(): void {
+    if (this.started) return;
+    this.started = true;
+    Array.from(this.jobs.keys()).forEach(id => this.schedule(id));
+  }
+
+  stop(): void {
+    this.started = false;
+    Array.from(this.jobs.keys()).forEach(id => this.unschedule(id));
+  }
+
+  /**
+   * Change a job's cadence or enable/disable it; the next run is recalculated
+   */
+  configure(id: string, updates: { intervalMs?: number; enabled?: boolean }): JobStatus | undefined {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    if (updates.intervalMs !== undefined && updates.intervalMs > 0) {
+      job.definition = { ...job.definition, intervalMs: updates.intervalMs };
+    }
+    if (updates.enabled !== undefined) {
+      job.enabled = updates.enabled;
+    }
+
+    this.unschedule(id);
+    if (this.started) this.schedule(id);
+    return this.toStatus(job);
+  }
+
+  /**
+   * Run a job right away, outside its schedule
+   */
+  async runNow(id: string): Promise<JobRun | undefined> {
+    if (!this.jobs.has(id)) return undefined;
+    return this.execute(id, 'manual');
+  }
+
+  getJobs(): JobStatus[] {
+    return Array.from(this.jobs.values()).map(job => this.toStatus(job));
+  }
+
+  getJob(id: string): JobStatus | undefined {
+    const job = this.jobs.get(id);
+    return job ? this.toStatus(job) : undefined;
+  }
+
+  /**
+   * Job runs, newest first
+   */
+  getHistory(options: { jobId?: string; limit?: number } = {}): JobRun[] {
+    const runs = this.history
+      .filter(run => !options.jobId || run.jobId === options.jobId)
+      .slice()
+      .reverse();
+    return options.limit ? runs.slice(0, options.limit) : runs;
+  }
+
+  private schedule(id: string): void {
+    const job = this.jobs.get(id);
+    if (!job || !job.enabled) return;
+
+    const now = this.clock.now().getTime();
+    const dueAt = job.lastRunAt ? job.lastRunAt.getTime() + job.definition.intervalMs : now + job.definition.intervalMs;
+    const delay = Math.max(0, dueAt - now);
+
+    job.nextRunAt = new Date(now + delay);
+    job.timer = this.clock.setTimeout(() => {
+      job.timer = null;
+      this.execute(id, 'schedule').finally(() => {
+        if (this.started) this.schedule(id);
+      });
+    }, delay);
+  }
+
+  private unschedule(id: string): void {
+    const job = this.jobs.get(id);
+    if (!job) return;
+    if (job.timer !== null) {
+      this.clock.clearTimeout(job.timer);
+      job.timer = null;
+    }
+    job.nextRunAt = null;
+  }
+
+  private async execute(id: string, trigger: JobRun['trigger']): Promise<JobRun> {
+    const job = this.jobs.get(id)!;
+    const startedAt = this.clock.now();
+
+    // Never overlap runs of the same job
+    if (job.running) {
+      return this.record(job, { trigger, status: 'skipped', message: 'Previous run still in progress', startedAt });
+    }
+
+    job.running = true;
+    try {
+      const message = await job.definition.run();
+      return this.record(job, { trigger, status: 'success', message: message || null, startedAt });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return this.record(job, { trigger, status: 'failed', message, startedAt });
+    } finally {
+      job.running = false;
+    }
+  }
+
+  private record(
+    job: ScheduledJob,
+    run: Pick<JobRun, 'trigger' | 'status' | 'message' | 'startedAt'>
+  ): JobRun {
+    const finishedAt = this.clock.now();
+    const entry: JobRun = {
+      id: randomUUID(),
+      jobId: job.definition.id,
+      ...run,
+      finishedAt,
+      durationMs: finishedAt.getTime() - run.startedAt.getTime(),
+    };
+
+    if (run.status !== 'skipped') {
+      job.lastRunAt = run.startedAt;
+      job.lastStatus = run.status;
+    }
+
+    this.history.push(entry);
+    if (this.history.length > MAX_HISTORY) {
+      this.history = this.history.slice(-MAX_HISTORY);
+    }
+    return entry;
+  }
+
+  private toStatus(job: ScheduledJob): JobStatus {
+    return {
+      id: job.definition.id,
+      name: job.definition.name,
+      intervalMs: job.definition.intervalMs,
+      enabled: job.enabled,
+      running: job.running,
+      lastRunAt: job.lastRunAt,
+      lastStatus: job.lastStatus,
+      nextRunAt: job.nextRunAt,
+    };
+  }
+}
+
+export const schedulerService = new SchedulerService();
@@ -0,0 +1,101 @@
+import { type AppSettings } from "@shared/schema";
+import { storage, type IStorage } from "../storage";
+import { notificationService } from "./notification-service";
+import { schedulerService } from "./scheduler";
+import { realTimeAnalyticsService } from "./real-time-analytics";
+import { RETRAIN_JOB_ID, MONITORING_JOB_ID, METRICS_SNAPSHOT_JOB_ID, DAILY_REPORT_JOB_ID, TRAINING_INTERVALS } from "./scheduled-jobs";
+import { type AdvancedForecastOptions, type ForecastModelType } from "./advanced-forecasting";
+import { type SeriesCalendar } from "@shared/time-series";
+
+/**
+ * Persisted application settings and the services they configure
+ */
+
+export class SettingsService {
+
+  constructor(private storage: IStorage) {}
+
+  getSettings(): Promise<AppSettings> {
+    return this.storage.getSettings();
+  }
+
+  /**
+   * Save a validated set of settings and apply it straight away
+   */
+  async saveSettings(settings: AppSettings): Promise<AppSettings> {
+    const saved = await this.storage.saveSettings(settings);
+    this.applySettings(saved);
+    return saved;
+  }
+
+  /**
+   * Push settings into the notification rules, the job scheduler and the external data sources
+   */
+  applySettings(settings: AppSettings): void {
+    notificationService.updateThresholds({
+      lowStockPercentage: settings.lowStockThreshold / 100,
+      demandSpikeMultiplier: settings.demandSpikeMultiplier,
+      accuracyDropThreshold: settings.modelDriftThreshold,
+    });
+
+    notificationService.updateNotificationRule('low-stock-alert', { enabled: settings.enableNotifications && settings.inventoryAlerts });
+    notificationService.updateNotificationRule('restock-needed', { enabled: settings.enableNotifications && settings.inventoryAlerts });
+    notificationService.updateNotificationRule('demand-spike-alert', { enabled: settings.enableNotifications && settings.demandSpikeAlerts });
+    notificationService.updateNotificationRule('model-drift-alert', { enabled: settings.enableNotifications && settings.modelDriftAlerts });
+    notificationService.updateNotificationRule('daily-report', { enabled: settings.enableNotifications && settings.dailyReports });
+
+    schedulerService.configure(RETRAIN_JOB_ID, {
+      intervalMs: TRAINING_INTERVALS[settings.trainingFrequency],
+      enabled: settings.autoRetraining,
+    });
+    schedulerService.configure(MONITORING_JOB_ID, { enabled: settings.enableNotifications });
+    schedulerService.configure(DAILY_REPORT_JOB_ID, { enabled: settings.enableNotifications && settings.dailyReports });
+    schedulerService.configure(METRICS_SNAPSHOT_JOB_ID, { intervalMs: settings.metricsResolutionMinutes * 60 * 1000 });
+
+    realTimeAnalyticsService.configureDataSource('weather-api', { enabled: settings.includeWeather });
+    realTimeAnalyticsService.configureDataSource('holiday-api', { enabled: settings.includeHolidays });
+    schedulerService.configure('sync-weather-api', { enabled: settings.includeWeather });
+    schedulerService.configure('sync-holiday-api', { enabled: settings.includeHolidays });
+  }
+
+  /**
+   * Forecast options from the saved settings; explicit request values take precedence
+   */
+  toForecastOptions(settings: AppSettings, overrides: Partial<AdvancedForecastOptions> = {}): AdvancedForecastOptions {
+    return {
+      period: settings.defaultForecastPeriod,
+      calendar: this.toSeriesCalendar(settings),
+      horizon: settings.forecastHorizon,
+      confidence: settings.confidenceThreshold,
+      models: this.enabledModels(settings),
+      includeSeasonality: settings.seasonalAdjustment,
+      includeTrend: settings.trendAnalysis,
+      includeHolidays: settings.includeHolidays,
+      includeWeather: settings.includeWeather,
+      detectAnomalies: settings.enableAnomalyDetection,
+      ensembleMethod: settings.ensembleMethod,
+      ...overrides,
+    };
+  }
+
+  /**
+   * Time zone, gap filling and closed weekdays used to build forecasting series
+   */
+  toSeriesCalendar(settings: AppSettings): SeriesCalendar {
+    return {
+      timeZone: settings.timeZone,
+      gapFill: settings.gapFill,
+      closedWeekdays: settings.closedWeekdays,
+    };
+  }
+
+  private enabledModels(settings: AppSettings): ForecastModelType[] {
+    const models: ForecastModelType[] = [];
+    if (settings.enableARIMA) models.push('arima');
+    if (settings.enableExponentialSmoothing) models.push('exponential_smoothing');
+    if (settings.enableNeuralNetwork) models.push('neural_network');
+    return models;
+  }
+}
+
+export const settingsService = new SettingsService(storage);
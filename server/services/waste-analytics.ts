@@ -0,0 +1,258 @@
+import { type Inventory, type InventoryMovement, type Prediction, type SalesData, type WasteReason } from "@shared/schema";
+import { storage, type IStorage } from "../storage";
+import { recipeCostPerPortion } from "./bill-of-materials";
+import { menuCatalogService, type MenuCatalogService } from "./menu-catalog";
+
+/**
+ * Food waste reporting from the waste movements in the inventory ledger. Waste is costed at the
+ * ingredient's cost per unit, or for prepared dishes at the catalog or recipe food cost, and
+ * compared with what was sold: waste-to-sales ratios are wasted over sold quantities per item
+ * and waste cost over sales revenue in the totals. Dish waste is also set against the forecast
+ * for the days it was recorded, to show where over-production followed an over-forecast.
+ */
+
+export const MAX_WASTE_REPORT_DAYS = 365;
+
+const DAY_NAMES = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+export interface WasteItemSummary {
+  inventoryId: string;
+  itemName: string;
+  category: string;
+  locationId: string | null;
+  unit: string;
+  isIngredient: boolean;
+  wastedQuantity: number;
+  wasteCost: number | null; // Null when the item has no cost
+  soldQuantity: number; // Sales depletions, in the row's unit
+  wasteToSalesRatio: number | null;
+  wasteByReason: Partial<Record<WasteReason, number>>;
+  wasteDays: number;
+  forecastOnWasteDays: number | null; // Dish rows only: forecast for the days waste was recorded
+  salesOnWasteDays: number | null;
+}
+
+export interface WasteBreakdown {
+  key: string;
+  label: string;
+  wastedQuantity: number; // Mixed units; only comparable within an item
+  wasteCost: number;
+  revenue: number;
+  wasteToSalesRatio: number | null; // Waste cost over revenue
+  records: number;
+}
+
+export interface WasteReport {
+  days: number;
+  startDate: Date;
+  endDate: Date;
+  totals: {
+    wasteCost: number;
+    revenue: number;
+    wasteToSalesRatio: number | null;
+    records: number;
+    uncostedRecords: number;
+  };
+  byItem: WasteItemSummary[];
+  byCategory: WasteBreakdown[];
+  byDayOfWeek: WasteBreakdown[];
+  byReason: WasteBreakdown[];
+}
+
+export class WasteAnalyticsService {
+
+  constructor(
+    private storage: IStorage,
+    private menuCatalog: MenuCatalogService,
+  ) {}
+
+  /**
+   * Waste over the last `days` days, by item, category, day of week and cause
+   */
+  async getReport(days: number = 30, locationId?: string, now: Date = new Date()): Promise<WasteReport> {
+    const window = Math.min(MAX_WASTE_REPORT_DAYS, Math.max(1, Math.floor(days) || 1));
+    const startDate = addDays(startOfDay(now), -(window - 1));
+    const [inventory, movements, sales, predictions, costs] = await Promise.all([
+      this.storage.getInventory(locationId),
+      this.storage.getInventoryMovements({ startDate, endDate: now }, locationId),
+      this.storage.getSalesDataByDateRange(startDate, now, locationId),
+      this.storage.getPredictions(undefined, locationId),
+      this.getUnitCosts(),
+    ]);
+    const inventoryById = new Map(inventory.map(item => [item.id, item]));
+    const waste = movements.filter(movement => movement.type === 'waste' && inventoryById.has(movement.inventoryId));
+    const unitCost = (item: Inventory) => item.ingredientId
+      ? costs.ingredients.get(item.ingredientId) ?? null
+      : costs.dishes.get(item.itemName) ?? null;
+
+    const byCategory = new Map<string, WasteBreakdown>();
+    const byDay = new Map<string, WasteBreakdown>(DAY_NAMES.map((name, day) => [String(day), emptyBreakdown(String(day), name)]));
+    const byReason = new Map<string, WasteBreakdown>();
+    let wasteCost = 0;
+    let uncostedRecords = 0;
+
+    waste.forEach(movement => {
+      const item = inventoryById.get(movement.inventoryId)!;
+      const reason = movement.reason ?? 'other';
+      const cost = unitCost(item);
+      const quantity = -movement.quantity;
+      if (cost === null) uncostedRecords++;
+      else wasteCost += quantity * cost;
+
+      [
+        breakdownFor(byCategory, item.category, item.category),
+        byDay.get(String(movement.occurredAt.getDay()))!,
+        breakdownFor(byReason, reason, reason),
+      ].forEach(breakdown => {
+        breakdown.wastedQuantity += quantity;
+        breakdown.wasteCost += (cost ?? 0) * quantity;
+        breakdown.records++;
+      });
+    });
+
+    let revenue = 0;
+    sales.forEach(sale => {
+      revenue += sale.revenue;
+      const category = byCategory.get(sale.category);
+      if (category) category.revenue += sale.revenue;
+      byDay.get(String(sale.date.getDay()))!.revenue += sale.revenue;
+    });
+
+    const byItem = inventory
+      .map(item => this.summarizeItem(item, movements, waste, sales, predictions, unitCost(item)))
+      .filter(summary => summary.wastedQuantity > 0)
+      .sort((a, b) => (b.wasteCost ?? 0) - (a.wasteCost ?? 0) || b.wastedQuantity - a.wastedQuantity);
+
+    return {
+      days: window,
+      startDate,
+      endDate: now,
+      totals: {
+        wasteCost: round(wasteCost, 2),
+        revenue: round(revenue, 2),
+        wasteToSalesRatio: revenue > 0 ? round(wasteCost / revenue, 4) : null,
+        records: waste.length,
+        uncostedRecords,
+      },
+      byItem,
+      byCategory: finish(Array.from(byCategory.values())).sort((a, b) => b.wasteCost - a.wasteCost),
+      // Monday first
+      byDayOfWeek: finish([1, 2, 3, 4, 5, 6, 0].map(day => byDay.get(String(day))!)),
+      byReason: finish(Array.from(byReason.values())).sort((a, b) => b.wasteCost - a.wasteCost),
+    };
+  }
+
+  private summarizeItem(
+    item: Inventory,
+    movements: InventoryMovement[],
+    waste: InventoryMovement[],
+    sales: SalesData[],
+    predictions: Prediction[],
+    unitCost: number | null,
+  ): WasteItemSummary {
+    const itemWaste = waste.filter(movement => movement.inventoryId === item.id);
+    const wastedQuantity = itemWaste.reduce((sum, movement) => sum - movement.quantity, 0);
+    const soldQuantity = movements
+      .filter(movement => movement.inventoryId === item.id && movement.type === 'sale')
+      .reduce((sum, movement) => sum - movement.quantity, 0);
+
+    const wasteByReason: Partial<Record<WasteReason, number>> = {};
+    itemWaste.forEach(movement => {
+      const reason = (movement.reason ?? 'other') as WasteReason;
+      wasteByReason[reason] = round((wasteByReason[reason] ?? 0) - movement.quantity);
+    });
+
+    const wasteDays = Array.from(new Set(itemWaste.map(movement => startOfDay(movement.occurredAt).getTime())));
+    let forecastOnWasteDays: number | null = null;
+    let salesOnWasteDays: number | null = null;
+    if (!item.ingredientId) {
+      forecastOnWasteDays = wasteDays.reduce((sum, day) => sum + (latestForecast(predictions, item, day)?.predictedQuantity ?? 0), 0);
+      salesOnWasteDays = sales
+        .filter(sale => sale.itemName === item.itemName && sale.locationId === item.locationId
+          && wasteDays.includes(startOfDay(sale.date).getTime()))
+        .reduce((sum, sale) => sum + sale.quantity, 0);
+    }
+
+    return {
+      inventoryId: item.id,
+      itemName: item.itemName,
+      category: item.category,
+      locationId: item.locationId,
+      unit: item.unit,
+      isIngredient: !!item.ingredientId,
+      wastedQuantity: round(wastedQuantity),
+      wasteCost: unitCost === null ? null : round(wastedQuantity * unitCost, 2),
+      soldQuantity: round(soldQuantity),
+      wasteToSalesRatio: soldQuantity > 0 ? round(wastedQuantity / soldQuantity, 4) : null,
+      wasteByReason,
+      wasteDays: wasteDays.length,
+      forecastOnWasteDays,
+      salesOnWasteDays,
+    };
+  }
+
+  // Cost per unit of ingredient rows (by ingredient id) and per portion of dishes (by menu item),
+  // preferring the catalog's food cost for dishes
+  private async getUnitCosts(): Promise<{ ingredients: Map<string, number | null>; dishes: Map<string, number | null> }> {
+    const [ingredients, recipes, catalog] = await Promise.all([
+      this.storage.getIngredients(),
+      this.storage.getRecipes(),
+      this.menuCatalog.getCatalog(),
+    ]);
+    const dishes = new Map(recipes.map(recipe => [recipe.menuItemName, recipeCostPerPortion(recipe)]));
+    catalog.forEach(item => {
+      if (item.effectiveFoodCost !== null) dishes.set(item.name, item.effectiveFoodCost);
+    });
+    return {
+      ingredients: new Map(ingredients.map(ingredient => [ingredient.id, ingredient.costPerUnit])),
+      dishes,
+    };
+  }
+}
+
+// Most recently generated forecast of an item for a day
+function latestForecast(predictions: Prediction[], item: Inventory, day: number): Prediction | undefined {
+  return predictions
+    .filter(prediction => prediction.itemName === item.itemName && prediction.locationId === item.locationId
+      && startOfDay(prediction.predictionDate).getTime() === day)
+    .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))[0];
+}
+
+function emptyBreakdown(key: string, label: string): WasteBreakdown {
+  return { key, label, wastedQuantity: 0, wasteCost: 0, revenue: 0, wasteToSalesRatio: null, records: 0 };
+}
+
+function breakdownFor(breakdowns: Map<string, WasteBreakdown>, key: string, label: string): WasteBreakdown {
+  const breakdown = breakdowns.get(key) ?? emptyBreakdown(key, label);
+  breakdowns.set(key, breakdown);
+  return breakdown;
+}
+
+function finish(breakdowns: WasteBreakdown[]): WasteBreakdown[] {
+  return breakdowns.map(breakdown => ({
+    ...breakdown,
+    wastedQuantity: round(breakdown.wastedQuantity),
+    wasteCost: round(breakdown.wasteCost, 2),
+    revenue: round(breakdown.revenue, 2),
+    wasteToSalesRatio: breakdown.revenue > 0 ? round(breakdown.wasteCost / breakdown.revenue, 4) : null,
+  }));
+}
+
+function round(value: number, decimals: number = 3): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+export const wasteAnalyticsService = new WasteAnalyticsService(storage, menuCatalogService);
@@ -0,0 +1,160 @@
+import { createRequire } from "module";
+import { describe, expect, it } from "vitest";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import * as schema from "@shared/schema";
+import { DatabaseStorage, MemStorage, type IStorage } from "./storage";
+import type { Database } from "./db";
+
+// drizzle-kit's ESM API build can't load its CommonJS dependencies, so take the CommonJS one
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)("drizzle-kit/api");
+
+// One in-process Postgres for the whole file, created from the shared schema; every SQL statement is kept
+let database: Promise<{ db: Database; queries: string[] }> | undefined;
+function testDatabase() {
+  database ??= (async () => {
+    const client = new PGlite();
+    const statements: string[] = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+    for (const statement of statements) await client.exec(statement);
+    const queries: string[] = [];
+    const db = drizzle({ client, schema, logger: { logQuery: query => { queries.push(query); } } });
+    return { db: db as Database, queries };
+  })();
+  return database;
+}
+
+const storages: [string, () => Promise<IStorage>][] = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DatabaseStorage", async () => new DatabaseStorage((await testDatabase()).db)],
+];
+
+const DATABASE_TIMEOUT_MS = 60_000; // Starting Postgres takes a few seconds on a slow machine
+
+// Numbered, as supplier names and order numbers are unique and the database outlives each test
+let orders = 0;
+async function sentOrder(storage: IStorage) {
+  const n = ++orders;
+  const supplier = await storage.createSupplier({ name: `Fresh Farms ${n}` });
+  const item = await storage.createInventory({
+    itemName: "Chicken Breast", category: "Protein", unit: "kg",
+    currentStock: 5, minimumStock: 2, maxStock: 50, supplierId: supplier.id,
+  });
+  const order = await storage.createPurchaseOrder(
+    { orderNumber: `PO-TEST-${n}`, supplierId: supplier.id, status: "sent" },
+    [{ inventoryId: item.id, itemName: item.itemName, unit: item.unit, quantity: 10 }],
+  );
+  return { item, order };
+}
+
+describe.each(storages)("%s.receivePurchaseOrder", (_, createStorage) => {
+  it("adds the received quantities to stock and marks the order received", async () => {
+    const storage = await createStorage();
+    const { item, order } = await sentOrder(storage);
+
+    const receipt = await storage.receivePurchaseOrder(order.id, { [order.lines[0].id]: 8 }, new Date());
+
+    expect(receipt?.order.status).toBe("received");
+    expect(receipt?.order.lines[0].receivedQuantity).toBe(8);
+    expect((await storage.getInventory()).find(row => row.id === item.id)?.currentStock).toBe(13);
+  });
+
+  it("receives an order only once when two receipts race", async () => {
+    const storage = await createStorage();
+    const { item, order } = await sentOrder(storage);
+
+    const receipts = await Promise.all([
+      storage.receivePurchaseOrder(order.id, {}, new Date()),
+      storage.receivePurchaseOrder(order.id, {}, new Date()),
+    ]);
+
+    expect(receipts.filter(Boolean)).toHaveLength(1);
+    expect((await storage.getInventory()).find(row => row.id === item.id)?.currentStock).toBe(15);
+    expect(await storage.getInventoryMovements({ inventoryId: item.id, type: "receipt" })).toHaveLength(1);
+  });
+
+  it("refuses orders that were never sent", async () => {
+    const storage = await createStorage();
+    const { order } = await sentOrder(storage);
+    await storage.updatePurchaseOrder(order.id, { status: "approved" });
+
+    expect(await storage.receivePurchaseOrder(order.id, {}, new Date())).toBeUndefined();
+  });
+}, DATABASE_TIMEOUT_MS);
+
+describe.each(storages)("%s.recordInventoryMovements", (_, createStorage) => {
+  it("applies concurrent movements on the same item one after the other", async () => {
+    const storage = await createStorage();
+    const item = await storage.createInventory({
+      itemName: "Flour", category: "Dry", unit: "kg", currentStock: 20, minimumStock: 2, maxStock: 50,
+    });
+    const waste = (quantity: number) => storage.recordInventoryMovements([
+      { inventoryId: item.id, type: "waste", quantity: -quantity, reason: "spoilage", occurredAt: new Date() },
+    ]);
+
+    await Promise.all([waste(2), waste(3), waste(4)]);
+
+    const movements = await storage.getInventoryMovements({ inventoryId: item.id, type: "waste" });
+    expect(movements.map(movement => movement.balanceAfter).sort((a, b) => b - a)).toEqual([18, 15, 11]);
+    expect((await storage.getInventory()).find(row => row.id === item.id)?.currentStock).toBe(11);
+  });
+}, DATABASE_TIMEOUT_MS);
+
+describe("DatabaseStorage.recordInventoryMovements", () => {
+  // PGlite runs one transaction at a time, so the row locks are checked in the SQL sent
+  it("locks the items and their open batches before working out the new balances", async () => {
+    const { db, queries } = await testDatabase();
+    const storage = new DatabaseStorage(db);
+    const item = await storage.createInventory({
+      itemName: "Rice", category: "Dry", unit: "kg", currentStock: 8, minimumStock: 2, maxStock: 50,
+    });
+    queries.length = 0;
+
+    await storage.recordInventoryMovements([{ inventoryId: item.id, type: "receipt", quantity: 5, occurredAt: new Date() }]);
+
+    const locks = queries.filter(query => /for update$/.test(query)).map(query => query.match(/ from "(\w+)"/)?.[1]);
+    expect(locks).toEqual(["inventory", "inventory_batches"]);
+    expect(queries.findIndex(query => query.startsWith('update "inventory"'))).toBeGreaterThan(queries.findIndex(query => /for update$/.test(query)));
+  });
+}, DATABASE_TIMEOUT_MS);
+
+describe.each(storages)("%s.replacePredictions", (_, createStorage) => {
+  it("keeps one prediction per item, location, date and period across reruns", async () => {
+    const storage = await createStorage();
+    const tomorrow = new Date("2026-03-05T00:00:00Z");
+    const prediction = (predictedQuantity: number, forecastPeriod = "daily") => ({
+      itemName: "Margherita Pizza", category: "Mains", predictedQuantity, confidence: 0.8, predictionDate: tomorrow, forecastPeriod,
+    });
+
+    await storage.replacePredictions([prediction(10), prediction(60, "weekly")]);
+    await storage.replacePredictions([prediction(12)]);
+
+    const saved = await storage.getPredictions();
+    expect(saved.map(row => [row.forecastPeriod, row.predictedQuantity]).sort()).toEqual([["daily", 12], ["weekly", 60]]);
+  });
+}, DATABASE_TIMEOUT_MS);
+
+describe.each(storages)("%s.purgeHistory", (_, createStorage) => {
+  it("deletes history dated before the cutoff and keeps open notifications", async () => {
+    const storage = await createStorage();
+    const cutoff = new Date("2025-06-01T00:00:00Z");
+    const sell = (iso: string) => storage.createSalesData({
+      itemName: "Purge Test Soup", category: "Starters", quantity: 3, revenue: 18, date: new Date(iso),
+    });
+    await sell("2025-05-20T12:00:00Z");
+    await sell("2025-06-02T12:00:00Z");
+    await storage.bulkCreatePredictions([{
+      itemName: "Purge Test Soup", category: "Starters", predictedQuantity: 4, confidence: 0.8,
+      predictionDate: new Date("2025-05-21T00:00:00Z"), forecastPeriod: "daily",
+    }]);
+    await storage.bulkCreateNotifications([
+      { ruleId: "purge-test", type: "inventory_low", title: "Open", message: "Still open", priority: "high" },
+    ]);
+
+    const deleted = await storage.purgeHistory(cutoff);
+
+    expect(deleted).toBe(2);
+    expect((await storage.getSalesData()).filter(sale => sale.itemName === "Purge Test Soup").map(sale => sale.date))
+      .toEqual([new Date("2025-06-02T12:00:00Z")]);
+    expect((await storage.getNotifications()).some(notification => notification.ruleId === "purge-test")).toBe(true);
+  });
+}, DATABASE_TIMEOUT_MS);
@@ -1,80 +1,308 @@
-import { type User, type InsertUser, type SalesData, type InsertSalesData, type Prediction, type InsertPrediction, type Inventory, type InsertInventory, type ModelMetrics, type InsertModelMetrics } from "@shared/schema";
+import { type User, type InsertUser, type UserRole, type Location, type InsertLocation, type SalesData, type InsertSalesData, type Prediction, type InsertPrediction, type Inventory, type InsertInventory, type ModelMetrics, type InsertModelMetrics, type NotificationEvent, type InsertNotification, type AdvancedPrediction, type InsertAdvancedPrediction, type ForecastAccuracy, type InsertForecastAccuracy, type AppSettings, defaultAppSettings, type MetricsSnapshot, type InsertMetricsSnapshot, type Ingredient, type InsertIngredient, type Recipe, type RecipeIngredient, type InsertRecipe, type RecipeWithIngredients, type Supplier, type InsertSupplier, type PurchaseOrder, type PurchaseOrderLine, type PurchaseOrderStatus, type PurchaseOrderWithLines, type NewPurchaseOrder, type NewPurchaseOrderLine, type InventoryMovement, type InventoryMovementType, type NewInventoryMovement, type UpdateInventory, type InventoryBatch, type BatchDetails, type MenuItem, type InsertMenuItem, type UpdateMenuItem, users, locations, salesData, predictions, inventory, modelMetrics, notifications, advancedPredictions, forecastAccuracy, appSettings, metricsSnapshots, ingredients, recipes, recipeIngredients, suppliers, purchaseOrders, purchaseOrderLines, inventoryMovements, inventoryBatches, menuItems } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, asc, desc, eq, gt, gte, inArray, isNull, lt, lte, max, or, sql, type SQL } from "drizzle-orm";
+import { createDatabase, type Database } from "./db";
+
+// Rows per INSERT statement; keeps bulk uploads well under Postgres' 65535 bind parameter limit
+const BULK_INSERT_CHUNK_SIZE = 1000;
+
+// Key of the single app_settings row
+const SETTINGS_ID = "default";
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getUsers(): Promise<User[]>;
+  updateUserRole(id: string, role: UserRole): Promise<User | undefined>;
+  updateUserLocations(id: string, locationIds: string[], allLocations: boolean): Promise<User | undefined>;
+
+  // Locations
+  getLocations(): Promise<Location[]>;
+  getLocation(id: string): Promise<Location | undefined>;
+  createLocation(location: InsertLocation): Promise<Location>;
   
-  // Sales Data
-  getSalesData(limit?: number): Promise<SalesData[]>;
-  getSalesDataByDateRange(startDate: Date, endDate: Date): Promise<SalesData[]>;
-  getSalesDataByCategory(category: string): Promise<SalesData[]>;
+  // Menu catalog. Linking points the sales and dish stock rows already linked to an item, or named
+  // after it or one of its aliases (ignoring case), at the item and gives them its name and category.
+  getMenuItems(): Promise<MenuItem[]>;
+  getMenuItem(id: string): Promise<MenuItem | undefined>;
+  createMenuItem(item: InsertMenuItem): Promise<MenuItem>;
+  updateMenuItem(id: string, updates: UpdateMenuItem): Promise<MenuItem | undefined>;
+  linkMenuItem(item: MenuItem): Promise<{ sales: number; inventory: number }>;
+
+  // Sales Data (locationId scopes to a single kitchen; omit it for the all-locations roll-up)
+  getSalesData(limit?: number, locationId?: string): Promise<SalesData[]>;
+  getSalesDataByDateRange(startDate: Date, endDate: Date, locationId?: string): Promise<SalesData[]>;
+  getSalesDataByCategory(category: string, locationId?: string): Promise<SalesData[]>;
   createSalesData(data: InsertSalesData): Promise<SalesData>;
   bulkCreateSalesData(data: InsertSalesData[]): Promise<SalesData[]>;
   
   // Predictions
-  getPredictions(limit?: number): Promise<Prediction[]>;
-  getPredictionsByDate(date: Date): Promise<Prediction[]>;
+  getPredictions(limit?: number, locationId?: string): Promise<Prediction[]>;
+  getPredictionsByDate(date: Date, locationId?: string): Promise<Prediction[]>;
+  getPredictionsByDateRange(startDate: Date, endDate: Date, locationId?: string): Promise<Prediction[]>;
   createPrediction(prediction: InsertPrediction): Promise<Prediction>;
   bulkCreatePredictions(predictions: InsertPrediction[]): Promise<Prediction[]>;
+  // Saves the predictions, replacing any earlier one for the same item, location, date and period
+  replacePredictions(predictions: InsertPrediction[]): Promise<Prediction[]>;
   
-  // Inventory
-  getInventory(): Promise<Inventory[]>;
-  getInventoryByItem(itemName: string): Promise<Inventory | undefined>;
+  // Inventory (currentStock only changes through the movements ledger; creating an item posts its opening balance)
+  getInventory(locationId?: string): Promise<Inventory[]>;
+  getInventoryByItem(itemName: string, locationId?: string): Promise<Inventory | undefined>;
   createInventory(inventory: InsertInventory): Promise<Inventory>;
-  updateInventory(id: string, updates: Partial<Inventory>): Promise<Inventory | undefined>;
+  updateInventory(id: string, updates: UpdateInventory): Promise<Inventory | undefined>;
+  getInventoryMovements(filters?: InventoryMovementFilters, locationId?: string): Promise<InventoryMovement[]>;
+  // When each of the given items was last counted (or given its opening balance); uncounted items are left out
+  getLatestCountTimes(inventoryIds: string[]): Promise<Map<string, Date>>;
+  // Posts the entries in order and moves each item's currentStock and batches with them in one step; unknown items are skipped
+  recordInventoryMovements(entries: NewInventoryMovement[]): Promise<{ movements: InventoryMovement[]; inventory: Inventory[] }>;
+  getInventoryBatches(filters?: InventoryBatchFilters, locationId?: string): Promise<InventoryBatch[]>;
+
+  // Ingredients and recipes (saving a recipe replaces all of its ingredient lines)
+  getIngredients(): Promise<Ingredient[]>;
+  getIngredient(id: string): Promise<Ingredient | undefined>;
+  createIngredient(ingredient: InsertIngredient): Promise<Ingredient>;
+  updateIngredient(id: string, updates: Partial<InsertIngredient>): Promise<Ingredient | undefined>;
+  getRecipes(): Promise<RecipeWithIngredients[]>;
+  getRecipe(id: string): Promise<RecipeWithIngredients | undefined>;
+  createRecipe(recipe: InsertRecipe): Promise<RecipeWithIngredients>;
+  updateRecipe(id: string, recipe: InsertRecipe): Promise<RecipeWithIngredients | undefined>;
+  deleteRecipe(id: string): Promise<boolean>;
+
+  // Suppliers and purchase orders
+  getSuppliers(): Promise<Supplier[]>;
+  getSupplier(id: string): Promise<Supplier | undefined>;
+  createSupplier(supplier: InsertSupplier): Promise<Supplier>;
+  updateSupplier(id: string, updates: Partial<InsertSupplier>): Promise<Supplier | undefined>;
+  getPurchaseOrders(status?: PurchaseOrderStatus, locationId?: string): Promise<PurchaseOrderWithLines[]>;
+  getPurchaseOrder(id: string): Promise<PurchaseOrderWithLines | undefined>;
+  createPurchaseOrder(order: NewPurchaseOrder, lines: NewPurchaseOrderLine[]): Promise<PurchaseOrderWithLines>;
+  updatePurchaseOrder(id: string, updates: Partial<PurchaseOrder>): Promise<PurchaseOrderWithLines | undefined>;
+  deletePurchaseOrder(id: string): Promise<boolean>;
+  // Marks a sent order received, records each line's received quantity and adds it to the line's stock in one step;
+  // undefined when the order doesn't exist or isn't sent (e.g. a concurrent receive got there first)
+  receivePurchaseOrder(id: string, receivedQuantities: Record<string, number>, receivedAt: Date): Promise<{ order: PurchaseOrderWithLines; inventory: Inventory[] } | undefined>;
   
   // Model Metrics
   getLatestModelMetrics(): Promise<ModelMetrics | undefined>;
   createModelMetrics(metrics: InsertModelMetrics): Promise<ModelMetrics>;
+
+  // Notifications
+  getNotifications(filters?: NotificationFilters): Promise<NotificationEvent[]>;
+  bulkCreateNotifications(notifications: InsertNotification[]): Promise<NotificationEvent[]>;
+  acknowledgeNotification(id: string, locationId?: string): Promise<NotificationEvent | undefined>;
+
+  // Advanced Predictions
+  getAdvancedPredictions(filters?: AdvancedPredictionFilters, locationId?: string): Promise<AdvancedPrediction[]>;
+  bulkCreateAdvancedPredictions(predictions: InsertAdvancedPrediction[]): Promise<AdvancedPrediction[]>;
+
+  // Forecast Accuracy (bulk create skips forecasts that were already reconciled)
+  getForecastAccuracy(filters?: ForecastAccuracyFilters, locationId?: string): Promise<ForecastAccuracy[]>;
+  bulkCreateForecastAccuracy(records: InsertForecastAccuracy[]): Promise<ForecastAccuracy[]>;
+
+  // Metrics history (without a location, the all-locations roll-up)
+  getMetricsSnapshots(since: Date, locationId?: string): Promise<MetricsSnapshot[]>;
+  createMetricsSnapshot(snapshot: InsertMetricsSnapshot): Promise<MetricsSnapshot>;
+
+  // Retention: deletes sales, predictions, advanced forecasts, accuracy records, metrics snapshots and acknowledged
+  // notifications dated before the cutoff and returns how many rows went. The inventory ledger and orders are kept.
+  purgeHistory(before: Date): Promise<number>;
+
+  // Settings (saved values are merged over the defaults, so new settings pick up their default)
+  getSettings(): Promise<AppSettings>;
+  saveSettings(settings: AppSettings): Promise<AppSettings>;
+}
+
+export interface NotificationFilters {
+  acknowledged?: boolean;
+  locationId?: string; // The location's notifications plus chain-wide ones
+  limit?: number;
+}
+
+export interface AdvancedPredictionFilters {
+  itemName?: string;
+  modelType?: string;
+  startDate?: Date;
+  endDate?: Date;
+  endsAfter?: Date; // Forecasts whose last step ends after this, plus those saved without an end
+}
+
+export interface InventoryMovementFilters {
+  inventoryId?: string;
+  type?: InventoryMovementType;
+  startDate?: Date; // Bounds on occurredAt
+  endDate?: Date;
+  limit?: number;
+}
+
+export interface InventoryBatchFilters {
+  inventoryId?: string;
+  openOnly?: boolean; // Only batches with stock remaining
+}
+
+export interface ForecastAccuracyFilters {
+  itemName?: string;
+  modelType?: string;
+  startDate?: Date; // Bounds on forecastDate
+  endDate?: Date;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private locations: Map<string, Location>;
+  private menuItems: Map<string, MenuItem>;
   private salesData: Map<string, SalesData>;
   private predictions: Map<string, Prediction>;
   private inventory: Map<string, Inventory>;
+  private ingredients: Map<string, Ingredient>;
+  private recipes: Map<string, Recipe>;
+  private recipeIngredients: Map<string, RecipeIngredient>;
+  private suppliers: Map<string, Supplier>;
+  private purchaseOrders: Map<string, PurchaseOrder>;
+  private purchaseOrderLines: Map<string, PurchaseOrderLine>;
+  private inventoryMovements: InventoryMovement[];
+  private inventoryBatches: Map<string, InventoryBatch>;
   private modelMetrics: Map<string, ModelMetrics>;
+  private notifications: Map<string, NotificationEvent>;
+  private advancedPredictions: Map<string, AdvancedPrediction>;
+  private forecastAccuracy: Map<string, ForecastAccuracy>;
+  private metricsSnapshots: MetricsSnapshot[];
+  private settings: AppSettings;
 
   constructor() {
     this.users = new Map();
+    this.locations = new Map();
+    this.menuItems = new Map();
     this.salesData = new Map();
     this.predictions = new Map();
     this.inventory = new Map();
+    this.ingredients = new Map();
+    this.recipes = new Map();
+    this.recipeIngredients = new Map();
+    this.suppliers = new Map();
+    this.purchaseOrders = new Map();
+    this.purchaseOrderLines = new Map();
+    this.inventoryMovements = [];
+    this.inventoryBatches = new Map();
     this.modelMetrics = new Map();
+    this.notifications = new Map();
+    this.advancedPredictions = new Map();
+    this.forecastAccuracy = new Map();
+    this.metricsSnapshots = [];
+    this.settings = { ...defaultAppSettings };
     
     // Initialize with some sample data
     this.initializeSampleData();
   }
 
   private initializeSampleData() {
+    // Initialize sample location
+    const locationId = randomUUID();
+    this.locations.set(locationId, {
+      id: locationId,
+      name: "Main Kitchen",
+      code: "MAIN",
+      address: null,
+      createdAt: new Date(),
+    });
+
+    // Initialize the sample menu
+    const menuItemIds = new Map<string, string>();
+    const sampleMenu: InsertMenuItem[] = [
+      { sku: "MAIN-001", name: "Grilled Chicken", category: "Main Dishes", price: 15, aliases: ["Grilled Chicken Plate"], icon: "drumstick-bite" },
+      { sku: "MAIN-002", name: "Salmon Bowl", category: "Main Dishes", price: 18, aliases: [], icon: "fish" },
+      { sku: "MAIN-003", name: "Veggie Wrap", category: "Main Dishes", price: 11, aliases: ["Veg Wrap"], icon: "seedling" },
+      { sku: "MAIN-004", name: "Margherita Pizza", category: "Main Dishes", price: 14, aliases: ["Pizza Margherita"], icon: "pizza-slice" },
+    ];
+    sampleMenu.forEach(item => {
+      const id = randomUUID();
+      this.menuItems.set(id, toMenuItem(id, item));
+      menuItemIds.set(item.name, id);
+    });
+
     // Initialize sample inventory
     const sampleInventory: InsertInventory[] = [
-      { itemName: "Grilled Chicken", category: "Main Dishes", currentStock: 45, minimumStock: 20, maxStock: 100 },
-      { itemName: "Salmon Bowl", category: "Main Dishes", currentStock: 78, minimumStock: 30, maxStock: 120 },
-      { itemName: "Veggie Wrap", category: "Main Dishes", currentStock: 32, minimumStock: 15, maxStock: 80 },
-      { itemName: "Margherita Pizza", category: "Main Dishes", currentStock: 56, minimumStock: 25, maxStock: 90 },
-    ];
+      { locationId, itemName: "Grilled Chicken", category: "Main Dishes", currentStock: 45, minimumStock: 20, maxStock: 100, shelfLifeDays: 2 },
+      { locationId, itemName: "Salmon Bowl", category: "Main Dishes", currentStock: 78, minimumStock: 30, maxStock: 120, shelfLifeDays: 1 },
+      { locationId, itemName: "Veggie Wrap", category: "Main Dishes", currentStock: 32, minimumStock: 15, maxStock: 80, shelfLifeDays: 2 },
+      { locationId, itemName: "Margherita Pizza", category: "Main Dishes", currentStock: 56, minimumStock: 25, maxStock: 90, shelfLifeDays: 3 },
+    ].map(item => ({ ...item, menuItemId: menuItemIds.get(item.itemName) }));
+
+    sampleInventory.forEach(item => this.addInventoryItem(item));
 
-    sampleInventory.forEach(item => {
+    // Initialize sample ingredients and the recipes that consume them
+    const ingredientIds = new Map<string, string>();
+    const sampleIngredients: InsertIngredient[] = [
+      { name: "Chicken Breast", unit: "kg", category: "Protein", costPerUnit: 8.5 },
+      { name: "Salmon Fillet", unit: "kg", category: "Protein", costPerUnit: 22 },
+      { name: "Rice", unit: "kg", category: "Dry Goods", costPerUnit: 1.8 },
+      { name: "Lettuce", unit: "kg", category: "Produce", costPerUnit: 3.2 },
+      { name: "Tortilla Wrap", unit: "each", category: "Bakery", costPerUnit: 0.35 },
+      { name: "Pizza Dough", unit: "kg", category: "Bakery", costPerUnit: 2.4 },
+      { name: "Mozzarella", unit: "kg", category: "Dairy", costPerUnit: 9.5 },
+    ];
+    sampleIngredients.forEach(ingredient => {
       const id = randomUUID();
-      const inventoryItem: Inventory = { 
-        ...item, 
-        id, 
-        updatedAt: new Date() 
-      };
-      this.inventory.set(id, inventoryItem);
+      this.ingredients.set(id, { ...ingredient, id, category: ingredient.category ?? null, costPerUnit: ingredient.costPerUnit ?? null, createdAt: new Date() });
+      ingredientIds.set(ingredient.name, id);
+    });
+
+    const sampleRecipes: { menuItemName: string; yield: number; lines: [string, number, number][] }[] = [
+      { menuItemName: "Grilled Chicken", yield: 1, lines: [["Chicken Breast", 0.2, 0.75], ["Rice", 0.1, 1], ["Lettuce", 0.05, 0.8]] },
+      { menuItemName: "Salmon Bowl", yield: 1, lines: [["Salmon Fillet", 0.15, 0.85], ["Rice", 0.12, 1]] },
+      { menuItemName: "Veggie Wrap", yield: 1, lines: [["Tortilla Wrap", 1, 1], ["Lettuce", 0.08, 0.8]] },
+      { menuItemName: "Margherita Pizza", yield: 4, lines: [["Pizza Dough", 1, 1], ["Mozzarella", 0.5, 1]] },
+    ];
+    sampleRecipes.forEach(({ menuItemName, yield: portions, lines }) => {
+      const recipeId = randomUUID();
+      this.recipes.set(recipeId, { id: recipeId, menuItemName, yield: portions, createdAt: new Date() });
+      lines.forEach(([name, quantity, yieldPercentage]) => {
+        const id = randomUUID();
+        this.recipeIngredients.set(id, { id, recipeId, ingredientId: ingredientIds.get(name)!, quantity, yieldPercentage });
+      });
+    });
+
+    // Initialize a sample supplier for the ingredient stock
+    const supplierId = randomUUID();
+    this.suppliers.set(supplierId, {
+      id: supplierId,
+      name: "Fresh Farms Wholesale",
+      contactName: null,
+      email: "orders@freshfarms.example",
+      phone: null,
+      leadTimeDays: 2,
+      createdAt: new Date(),
+    });
+
+    const sampleIngredientStock: [string, number, number, number, number, number | null][] = [
+      ["Chicken Breast", 12, 8, 30, 5, 4],
+      ["Rice", 25, 10, 50, 10, null],
+      ["Lettuce", 4, 3, 10, 1, 5],
+    ];
+    sampleIngredientStock.forEach(([name, currentStock, minimumStock, maxStock, packSize, shelfLifeDays]) => {
+      const ingredient = this.ingredients.get(ingredientIds.get(name)!)!;
+      this.addInventoryItem({
+        locationId,
+        ingredientId: ingredient.id,
+        itemName: ingredient.name,
+        category: ingredient.category ?? "Ingredients",
+        unit: ingredient.unit,
+        currentStock,
+        minimumStock,
+        maxStock,
+        supplierId,
+        packSize,
+        shelfLifeDays,
+      });
     });
 
     // Initialize model metrics
     const metrics: InsertModelMetrics = {
       modelName: "Time Series LSTM",
       accuracy: 0.942,
-      rmse: 0.087,
-      f1Score: 0.912,
-      precision: 0.897,
-      recall: 0.928,
+      rmse: 2.4,
       lastTraining: new Date(Date.now() - 2 * 60 * 60 * 1000), // 2 hours ago
     };
 
@@ -99,26 +327,108 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = randomUUID();
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, id, role: insertUser.role ?? "viewer", locationIds: [], allLocations: false };
     this.users.set(id, user);
     return user;
   }
 
-  async getSalesData(limit?: number): Promise<SalesData[]> {
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values())
+      .sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  async updateUserRole(id: string, role: UserRole): Promise<User | undefined> {
+    const existing = this.users.get(id);
+    if (!existing) return undefined;
+
+    const updated: User = { ...existing, role };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async updateUserLocations(id: string, locationIds: string[], allLocations: boolean): Promise<User | undefined> {
+    const existing = this.users.get(id);
+    if (!existing) return undefined;
+
+    const updated: User = { ...existing, locationIds, allLocations };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async getLocations(): Promise<Location[]> {
+    return Array.from(this.locations.values())
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getLocation(id: string): Promise<Location | undefined> {
+    return this.locations.get(id);
+  }
+
+  async createLocation(insertLocation: InsertLocation): Promise<Location> {
+    const id = randomUUID();
+    const location: Location = {
+      ...insertLocation,
+      id,
+      address: insertLocation.address ?? null,
+      createdAt: new Date()
+    };
+    this.locations.set(id, location);
+    return location;
+  }
+
+  async getMenuItems(): Promise<MenuItem[]> {
+    return Array.from(this.menuItems.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getMenuItem(id: string): Promise<MenuItem | undefined> {
+    return this.menuItems.get(id);
+  }
+
+  async createMenuItem(item: InsertMenuItem): Promise<MenuItem> {
+    const id = randomUUID();
+    const created = toMenuItem(id, item);
+    this.menuItems.set(id, created);
+    return created;
+  }
+
+  async updateMenuItem(id: string, updates: UpdateMenuItem): Promise<MenuItem | undefined> {
+    const existing = this.menuItems.get(id);
+    if (!existing) return undefined;
+
+    const updated: MenuItem = { ...existing, ...updates };
+    this.menuItems.set(id, updated);
+    return updated;
+  }
+
+  async linkMenuItem(item: MenuItem): Promise<{ sales: number; inventory: number }> {
+    const names = new Set(menuItemNames(item));
+    const matches = (row: { menuItemId: string | null; itemName: string }) =>
+      row.menuItemId === item.id || (row.menuItemId === null && names.has(row.itemName.trim().toLowerCase()));
+    const link = { menuItemId: item.id, itemName: item.name, category: item.category };
+
+    const sales = Array.from(this.salesData.values()).filter(matches);
+    sales.forEach(sale => this.salesData.set(sale.id, { ...sale, ...link }));
+    const dishes = Array.from(this.inventory.values()).filter(row => !row.ingredientId && matches(row));
+    dishes.forEach(row => this.inventory.set(row.id, { ...row, ...link, updatedAt: new Date() }));
+    return { sales: sales.length, inventory: dishes.length };
+  }
+
+  async getSalesData(limit?: number, locationId?: string): Promise<SalesData[]> {
     const data = Array.from(this.salesData.values())
+      .filter(data => matchesLocation(data, locationId))
       .sort((a, b) => b.date.getTime() - a.date.getTime());
     return limit ? data.slice(0, limit) : data;
   }
 
-  async getSalesDataByDateRange(startDate: Date, endDate: Date): Promise<SalesData[]> {
+  async getSalesDataByDateRange(startDate: Date, endDate: Date, locationId?: string): Promise<SalesData[]> {
     return Array.from(this.salesData.values())
-      .filter(data => data.date >= startDate && data.date <= endDate)
+      .filter(data => data.date >= startDate && data.date <= endDate && matchesLocation(data, locationId))
       .sort((a, b) => a.date.getTime() - b.date.getTime());
   }
 
-  async getSalesDataByCategory(category: string): Promise<SalesData[]> {
+  async getSalesDataByCategory(category: string, locationId?: string): Promise<SalesData[]> {
     return Array.from(this.salesData.values())
-      .filter(data => data.category === category)
+      .filter(data => data.category === category && matchesLocation(data, locationId))
       .sort((a, b) => b.date.getTime() - a.date.getTime());
   }
 
@@ -127,6 +437,8 @@ export class MemStorage implements IStorage {
     const salesRecord: SalesData = { 
       ...data, 
       id, 
+      locationId: data.locationId ?? null,
+      menuItemId: data.menuItemId ?? null,
       createdAt: new Date() 
     };
     this.salesData.set(id, salesRecord);
@@ -142,26 +454,36 @@ export class MemStorage implements IStorage {
     return results;
   }
 
-  async getPredictions(limit?: number): Promise<Prediction[]> {
+  async getPredictions(limit?: number, locationId?: string): Promise<Prediction[]> {
     const data = Array.from(this.predictions.values())
+      .filter(p => matchesLocation(p, locationId))
       .sort((a, b) => b.predictionDate.getTime() - a.predictionDate.getTime());
     return limit ? data.slice(0, limit) : data;
   }
 
-  async getPredictionsByDate(date: Date): Promise<Prediction[]> {
+  async getPredictionsByDate(date: Date, locationId?: string): Promise<Prediction[]> {
     const startOfDay = new Date(date.setHours(0, 0, 0, 0));
     const endOfDay = new Date(date.setHours(23, 59, 59, 999));
     
     return Array.from(this.predictions.values())
-      .filter(p => p.predictionDate >= startOfDay && p.predictionDate <= endOfDay)
+      .filter(p => p.predictionDate >= startOfDay && p.predictionDate <= endOfDay && matchesLocation(p, locationId))
       .sort((a, b) => b.confidence - a.confidence);
   }
 
+  async getPredictionsByDateRange(startDate: Date, endDate: Date, locationId?: string): Promise<Prediction[]> {
+    return Array.from(this.predictions.values())
+      .filter(p => p.predictionDate >= startDate && p.predictionDate <= endDate && matchesLocation(p, locationId))
+      .sort((a, b) => a.predictionDate.getTime() - b.predictionDate.getTime());
+  }
+
   async createPrediction(prediction: InsertPrediction): Promise<Prediction> {
     const id = randomUUID();
     const pred: Prediction = { 
       ...prediction, 
       id, 
+      locationId: prediction.locationId ?? null,
+      lowerBound: prediction.lowerBound ?? null,
+      upperBound: prediction.upperBound ?? null,
       createdAt: new Date() 
     };
     this.predictions.set(id, pred);
@@ -177,28 +499,30 @@ export class MemStorage implements IStorage {
     return results;
   }
 
-  async getInventory(): Promise<Inventory[]> {
+  async replacePredictions(predictions: InsertPrediction[]): Promise<Prediction[]> {
+    const keys = new Set(predictions.map(predictionKey));
+    Array.from(this.predictions.entries()).forEach(([id, prediction]) => {
+      if (keys.has(predictionKey(prediction))) this.predictions.delete(id);
+    });
+    return this.bulkCreatePredictions(predictions);
+  }
+
+  async getInventory(locationId?: string): Promise<Inventory[]> {
     return Array.from(this.inventory.values())
+      .filter(item => matchesLocation(item, locationId))
       .sort((a, b) => a.itemName.localeCompare(b.itemName));
   }
 
-  async getInventoryByItem(itemName: string): Promise<Inventory | undefined> {
+  async getInventoryByItem(itemName: string, locationId?: string): Promise<Inventory | undefined> {
     return Array.from(this.inventory.values())
-      .find(item => item.itemName === itemName);
+      .find(item => item.itemName === itemName && matchesLocation(item, locationId));
   }
 
   async createInventory(inventory: InsertInventory): Promise<Inventory> {
-    const id = randomUUID();
-    const item: Inventory = { 
-      ...inventory, 
-      id, 
-      updatedAt: new Date() 
-    };
-    this.inventory.set(id, item);
-    return item;
+    return this.addInventoryItem(inventory);
   }
 
-  async updateInventory(id: string, updates: Partial<Inventory>): Promise<Inventory | undefined> {
+  async updateInventory(id: string, updates: UpdateInventory): Promise<Inventory | undefined> {
     const existing = this.inventory.get(id);
     if (!existing) return undefined;
     
@@ -211,6 +535,299 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
+  async getInventoryMovements(filters: InventoryMovementFilters = {}, locationId?: string): Promise<InventoryMovement[]> {
+    const data = this.inventoryMovements
+      .filter(m => matchesLocation(m, locationId))
+      .filter(m => !filters.inventoryId || m.inventoryId === filters.inventoryId)
+      .filter(m => !filters.type || m.type === filters.type)
+      .filter(m => !filters.startDate || m.occurredAt >= filters.startDate)
+      .filter(m => !filters.endDate || m.occurredAt <= filters.endDate)
+      .reverse()
+      .sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime());
+    return filters.limit ? data.slice(0, filters.limit) : data;
+  }
+
+  async getLatestCountTimes(inventoryIds: string[]): Promise<Map<string, Date>> {
+    const ids = new Set(inventoryIds);
+    const latest = new Map<string, Date>();
+    this.inventoryMovements
+      .filter(m => ids.has(m.inventoryId) && (m.type === 'count' || m.type === 'opening'))
+      .forEach(m => {
+        const current = latest.get(m.inventoryId);
+        if (!current || m.occurredAt > current) latest.set(m.inventoryId, m.occurredAt);
+      });
+    return latest;
+  }
+
+  async recordInventoryMovements(entries: NewInventoryMovement[]): Promise<{ movements: InventoryMovement[]; inventory: Inventory[] }> {
+    const { movements, inventory } = this.postMovements(entries);
+    return { movements, inventory: Array.from(inventory.values()) };
+  }
+
+  async getInventoryBatches(filters: InventoryBatchFilters = {}, locationId?: string): Promise<InventoryBatch[]> {
+    return Array.from(this.inventoryBatches.values())
+      .filter(batch => matchesLocation(batch, locationId))
+      .filter(batch => !filters.inventoryId || batch.inventoryId === filters.inventoryId)
+      .filter(batch => !filters.openOnly || batch.remainingQuantity > 0)
+      .sort(byReceivedDate);
+  }
+
+  // Stores the item with zero stock and posts its starting stock as the opening balance
+  private addInventoryItem(inventory: InsertInventory): Inventory {
+    const id = randomUUID();
+    const now = new Date();
+    this.inventory.set(id, {
+      ...inventory,
+      id,
+      locationId: inventory.locationId ?? null,
+      ingredientId: inventory.ingredientId ?? null,
+      menuItemId: inventory.menuItemId ?? null,
+      unit: inventory.unit ?? "units",
+      currentStock: 0,
+      supplierId: inventory.supplierId ?? null,
+      packSize: inventory.packSize ?? 1,
+      shelfLifeDays: inventory.shelfLifeDays ?? null,
+      updatedAt: now,
+    });
+    this.postMovements([{ inventoryId: id, type: "opening", countedQuantity: inventory.currentStock, occurredAt: now }]);
+    return this.inventory.get(id)!;
+  }
+
+  private postMovements(entries: NewInventoryMovement[]): { movements: InventoryMovement[]; inventory: Map<string, Inventory> } {
+    const movements: InventoryMovement[] = [];
+    const touched = new Map<string, Inventory>();
+    const transfers = new Map<string, BatchSlice[]>();
+    entries.forEach(({ countedQuantity, quantity, batchId, batchCode, expiresAt, ...entry }) => {
+      const item = this.inventory.get(entry.inventoryId);
+      if (!item) return;
+
+      const change = countedQuantity !== undefined ? countedQuantity - item.currentStock : quantity!;
+      const updated: Inventory = { ...item, currentStock: item.currentStock + change, updatedAt: new Date() };
+      this.inventory.set(item.id, updated);
+      touched.set(item.id, updated);
+
+      const batches = Array.from(this.inventoryBatches.values())
+        .filter(batch => batch.inventoryId === item.id && batch.remainingQuantity > 0)
+        .sort(byReceivedDate);
+      const incoming = entry.type === "transfer_in" && entry.reference ? transfers.get(entry.reference) : undefined;
+      const taken = applyBatchChange(item, change, { batchId, batchCode, expiresAt }, entry.occurredAt, batches, incoming);
+      if (entry.type === "transfer_out" && entry.reference) transfers.set(entry.reference, taken);
+      batches.forEach(batch => this.inventoryBatches.set(batch.id, batch));
+
+      const movement: InventoryMovement = {
+        ...entry,
+        id: randomUUID(),
+        locationId: item.locationId,
+        quantity: change,
+        balanceAfter: updated.currentStock,
+        reason: entry.reason ?? null,
+        reference: entry.reference ?? null,
+        notes: entry.notes ?? null,
+        userId: entry.userId ?? null,
+        createdAt: new Date(),
+      };
+      this.inventoryMovements.push(movement);
+      movements.push(movement);
+    });
+    return { movements, inventory: touched };
+  }
+
+  async getIngredients(): Promise<Ingredient[]> {
+    return Array.from(this.ingredients.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getIngredient(id: string): Promise<Ingredient | undefined> {
+    return this.ingredients.get(id);
+  }
+
+  async createIngredient(ingredient: InsertIngredient): Promise<Ingredient> {
+    const id = randomUUID();
+    const created: Ingredient = {
+      ...ingredient,
+      id,
+      category: ingredient.category ?? null,
+      costPerUnit: ingredient.costPerUnit ?? null,
+      createdAt: new Date(),
+    };
+    this.ingredients.set(id, created);
+    return created;
+  }
+
+  async updateIngredient(id: string, updates: Partial<InsertIngredient>): Promise<Ingredient | undefined> {
+    const existing = this.ingredients.get(id);
+    if (!existing) return undefined;
+
+    const updated: Ingredient = { ...existing, ...updates };
+    this.ingredients.set(id, updated);
+    return updated;
+  }
+
+  async getRecipes(): Promise<RecipeWithIngredients[]> {
+    return Array.from(this.recipes.values())
+      .sort((a, b) => a.menuItemName.localeCompare(b.menuItemName))
+      .map(recipe => this.withRecipeLines(recipe));
+  }
+
+  async getRecipe(id: string): Promise<RecipeWithIngredients | undefined> {
+    const recipe = this.recipes.get(id);
+    return recipe ? this.withRecipeLines(recipe) : undefined;
+  }
+
+  async createRecipe({ ingredients: lines, ...data }: InsertRecipe): Promise<RecipeWithIngredients> {
+    const id = randomUUID();
+    const recipe: Recipe = { ...data, id, createdAt: new Date() };
+    this.recipes.set(id, recipe);
+    this.replaceRecipeLines(id, lines);
+    return this.withRecipeLines(recipe);
+  }
+
+  async updateRecipe(id: string, { ingredients: lines, ...data }: InsertRecipe): Promise<RecipeWithIngredients | undefined> {
+    const existing = this.recipes.get(id);
+    if (!existing) return undefined;
+
+    const updated: Recipe = { ...existing, ...data };
+    this.recipes.set(id, updated);
+    this.replaceRecipeLines(id, lines);
+    return this.withRecipeLines(updated);
+  }
+
+  async deleteRecipe(id: string): Promise<boolean> {
+    this.replaceRecipeLines(id, []);
+    return this.recipes.delete(id);
+  }
+
+  async getSuppliers(): Promise<Supplier[]> {
+    return Array.from(this.suppliers.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getSupplier(id: string): Promise<Supplier | undefined> {
+    return this.suppliers.get(id);
+  }
+
+  async createSupplier(supplier: InsertSupplier): Promise<Supplier> {
+    const id = randomUUID();
+    const created: Supplier = {
+      ...supplier,
+      id,
+      contactName: supplier.contactName ?? null,
+      email: supplier.email ?? null,
+      phone: supplier.phone ?? null,
+      createdAt: new Date(),
+    };
+    this.suppliers.set(id, created);
+    return created;
+  }
+
+  async updateSupplier(id: string, updates: Partial<InsertSupplier>): Promise<Supplier | undefined> {
+    const existing = this.suppliers.get(id);
+    if (!existing) return undefined;
+
+    const updated: Supplier = { ...existing, ...updates };
+    this.suppliers.set(id, updated);
+    return updated;
+  }
+
+  async getPurchaseOrders(status?: PurchaseOrderStatus, locationId?: string): Promise<PurchaseOrderWithLines[]> {
+    return Array.from(this.purchaseOrders.values())
+      .filter(order => (!status || order.status === status) && matchesLocation(order, locationId))
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))
+      .map(order => this.withOrderLines(order));
+  }
+
+  async getPurchaseOrder(id: string): Promise<PurchaseOrderWithLines | undefined> {
+    const order = this.purchaseOrders.get(id);
+    return order ? this.withOrderLines(order) : undefined;
+  }
+
+  async createPurchaseOrder(order: NewPurchaseOrder, lines: NewPurchaseOrderLine[]): Promise<PurchaseOrderWithLines> {
+    const id = randomUUID();
+    const created: PurchaseOrder = {
+      ...order,
+      id,
+      locationId: order.locationId ?? null,
+      status: order.status ?? "draft",
+      notes: order.notes ?? null,
+      expectedDeliveryDate: order.expectedDeliveryDate ?? null,
+      createdAt: new Date(),
+      approvedAt: order.approvedAt ?? null,
+      sentAt: order.sentAt ?? null,
+      receivedAt: order.receivedAt ?? null,
+    };
+    this.purchaseOrders.set(id, created);
+    lines.forEach(line => {
+      const lineId = randomUUID();
+      this.purchaseOrderLines.set(lineId, {
+        ...line,
+        id: lineId,
+        purchaseOrderId: id,
+        packSize: line.packSize ?? 1,
+        unitCost: line.unitCost ?? null,
+        receivedQuantity: line.receivedQuantity ?? null,
+      });
+    });
+    return this.withOrderLines(created);
+  }
+
+  async updatePurchaseOrder(id: string, updates: Partial<PurchaseOrder>): Promise<PurchaseOrderWithLines | undefined> {
+    const existing = this.purchaseOrders.get(id);
+    if (!existing) return undefined;
+
+    const updated: PurchaseOrder = { ...existing, ...updates, id };
+    this.purchaseOrders.set(id, updated);
+    return this.withOrderLines(updated);
+  }
+
+  async deletePurchaseOrder(id: string): Promise<boolean> {
+    Array.from(this.purchaseOrderLines.values())
+      .filter(line => line.purchaseOrderId === id)
+      .forEach(line => this.purchaseOrderLines.delete(line.id));
+    return this.purchaseOrders.delete(id);
+  }
+
+  async receivePurchaseOrder(id: string, receivedQuantities: Record<string, number>, receivedAt: Date): Promise<{ order: PurchaseOrderWithLines; inventory: Inventory[] } | undefined> {
+    const existing = this.purchaseOrders.get(id);
+    if (!existing || existing.status !== "sent") return undefined;
+    const order: PurchaseOrder = { ...existing, status: "received", receivedAt };
+    this.purchaseOrders.set(id, order);
+
+    const receipts: NewInventoryMovement[] = [];
+    Array.from(this.purchaseOrderLines.values())
+      .filter(line => line.purchaseOrderId === id)
+      .forEach(line => {
+        const receivedQuantity = receivedQuantities[line.id] ?? line.quantity;
+        this.purchaseOrderLines.set(line.id, { ...line, receivedQuantity });
+        receipts.push({ inventoryId: line.inventoryId, type: "receipt", quantity: receivedQuantity, reference: existing.orderNumber, occurredAt: receivedAt });
+      });
+    const { inventory: restocked } = this.postMovements(receipts);
+
+    return { order: this.withOrderLines(order), inventory: Array.from(restocked.values()) };
+  }
+
+  private withOrderLines(order: PurchaseOrder): PurchaseOrderWithLines {
+    return {
+      ...order,
+      lines: Array.from(this.purchaseOrderLines.values()).filter(line => line.purchaseOrderId === order.id),
+      supplier: this.suppliers.get(order.supplierId) ?? null,
+    };
+  }
+
+  private replaceRecipeLines(recipeId: string, lines: InsertRecipe["ingredients"]) {
+    Array.from(this.recipeIngredients.values())
+      .filter(line => line.recipeId === recipeId)
+      .forEach(line => this.recipeIngredients.delete(line.id));
+    lines.forEach(line => {
+      const id = randomUUID();
+      this.recipeIngredients.set(id, { ...line, id, recipeId });
+    });
+  }
+
+  private withRecipeLines(recipe: Recipe): RecipeWithIngredients {
+    const lines = Array.from(this.recipeIngredients.values())
+      .filter(line => line.recipeId === recipe.id && this.ingredients.has(line.ingredientId))
+      .map(line => ({ ...line, ingredient: this.ingredients.get(line.ingredientId)! }));
+    return { ...recipe, ingredients: lines };
+  }
+
   async getLatestModelMetrics(): Promise<ModelMetrics | undefined> {
     const metrics = Array.from(this.modelMetrics.values())
       .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
@@ -227,6 +844,883 @@ export class MemStorage implements IStorage {
     this.modelMetrics.set(id, modelMetrics);
     return modelMetrics;
   }
+
+  async getNotifications(filters: NotificationFilters = {}): Promise<NotificationEvent[]> {
+    const data = Array.from(this.notifications.values())
+      .filter(n => filters.acknowledged === undefined || (n.acknowledged === 1) === filters.acknowledged)
+      .filter(n => matchesNotificationLocation(n, filters.locationId))
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+    return filters.limit ? data.slice(0, filters.limit) : data;
+  }
+
+  async bulkCreateNotifications(notifications: InsertNotification[]): Promise<NotificationEvent[]> {
+    return notifications.map(notification => {
+      const id = randomUUID();
+      const event: NotificationEvent = {
+        ...notification,
+        id,
+        locationId: notification.locationId ?? null,
+        data: notification.data ?? null,
+        acknowledged: notification.acknowledged ?? 0,
+        actionRequired: notification.actionRequired ?? 0,
+        createdAt: new Date()
+      };
+      this.notifications.set(id, event);
+      return event;
+    });
+  }
+
+  async acknowledgeNotification(id: string, locationId?: string): Promise<NotificationEvent | undefined> {
+    const existing = this.notifications.get(id);
+    if (!existing || !matchesNotificationLocation(existing, locationId)) return undefined;
+
+    const updated: NotificationEvent = { ...existing, acknowledged: 1 };
+    this.notifications.set(id, updated);
+    return updated;
+  }
+
+  async getAdvancedPredictions(filters: AdvancedPredictionFilters = {}, locationId?: string): Promise<AdvancedPrediction[]> {
+    return Array.from(this.advancedPredictions.values())
+      .filter(p => matchesLocation(p, locationId))
+      .filter(p => !filters.itemName || p.itemName === filters.itemName)
+      .filter(p => !filters.modelType || p.modelType === filters.modelType)
+      .filter(p => !filters.startDate || (p.createdAt && p.createdAt >= filters.startDate))
+      .filter(p => !filters.endDate || (p.createdAt && p.createdAt <= filters.endDate))
+      .filter(p => !filters.endsAfter || !p.forecastEnd || p.forecastEnd > filters.endsAfter)
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+  }
+
+  async bulkCreateAdvancedPredictions(predictions: InsertAdvancedPrediction[]): Promise<AdvancedPrediction[]> {
+    return predictions.map(prediction => {
+      const id = randomUUID();
+      const record: AdvancedPrediction = {
+        ...prediction,
+        id,
+        locationId: prediction.locationId ?? null,
+        predictions: prediction.predictions ?? null,
+        confidence: prediction.confidence ?? null,
+        quantiles: prediction.quantiles ?? null,
+        hyperparameters: prediction.hyperparameters ?? null,
+        seasonalComponents: prediction.seasonalComponents ?? null,
+        anomalies: prediction.anomalies ?? null,
+        externalFactorsImpact: prediction.externalFactorsImpact ?? null,
+        forecastPeriod: prediction.forecastPeriod ?? 'daily',
+        forecastEnd: prediction.forecastEnd ?? null,
+        createdAt: new Date()
+      };
+      this.advancedPredictions.set(id, record);
+      return record;
+    });
+  }
+
+  async getForecastAccuracy(filters: ForecastAccuracyFilters = {}, locationId?: string): Promise<ForecastAccuracy[]> {
+    return Array.from(this.forecastAccuracy.values())
+      .filter(r => matchesLocation(r, locationId))
+      .filter(r => !filters.itemName || r.itemName === filters.itemName)
+      .filter(r => !filters.modelType || r.modelType === filters.modelType)
+      .filter(r => !filters.startDate || r.forecastDate >= filters.startDate)
+      .filter(r => !filters.endDate || r.forecastDate <= filters.endDate)
+      .sort((a, b) => a.forecastDate.getTime() - b.forecastDate.getTime());
+  }
+
+  async bulkCreateForecastAccuracy(records: InsertForecastAccuracy[]): Promise<ForecastAccuracy[]> {
+    const existing = new Set(Array.from(this.forecastAccuracy.values()).map(r => `${r.predictionId}:${r.horizonStep}`));
+    const created: ForecastAccuracy[] = [];
+
+    for (const record of records) {
+      const horizonStep = record.horizonStep ?? 1;
+      const key = `${record.predictionId}:${horizonStep}`;
+      if (existing.has(key)) continue;
+      existing.add(key);
+
+      const id = randomUUID();
+      const row: ForecastAccuracy = {
+        ...record,
+        id,
+        horizonStep,
+        locationId: record.locationId ?? null,
+        percentageError: record.percentageError ?? null,
+        createdAt: new Date()
+      };
+      this.forecastAccuracy.set(id, row);
+      created.push(row);
+    }
+    return created;
+  }
+
+  async getMetricsSnapshots(since: Date, locationId?: string): Promise<MetricsSnapshot[]> {
+    return this.metricsSnapshots
+      .filter(snapshot => snapshot.timestamp >= since && snapshot.locationId === (locationId ?? null));
+  }
+
+  async createMetricsSnapshot(snapshot: InsertMetricsSnapshot): Promise<MetricsSnapshot> {
+    const record: MetricsSnapshot = {
+      ...snapshot,
+      id: randomUUID(),
+      locationId: snapshot.locationId ?? null,
+      topPerformingCategory: snapshot.topPerformingCategory ?? null,
+      demandForecastAccuracy: snapshot.demandForecastAccuracy ?? null,
+    };
+    this.metricsSnapshots.push(record);
+    return record;
+  }
+
+  async purgeHistory(before: Date): Promise<number> {
+    const snapshots = this.metricsSnapshots.length;
+    this.metricsSnapshots = this.metricsSnapshots.filter(snapshot => snapshot.timestamp >= before);
+    return snapshots - this.metricsSnapshots.length
+      + deleteWhere(this.salesData, sale => sale.date < before)
+      + deleteWhere(this.predictions, prediction => prediction.predictionDate < before)
+      + deleteWhere(this.advancedPredictions, forecast => (forecast.forecastEnd ?? forecast.createdAt ?? before) < before)
+      + deleteWhere(this.forecastAccuracy, record => record.forecastDate < before)
+      + deleteWhere(this.notifications, notification => notification.acknowledged === 1 && (notification.createdAt ?? before) < before);
+  }
+
+  async getSettings(): Promise<AppSettings> {
+    return { ...this.settings };
+  }
+
+  async saveSettings(settings: AppSettings): Promise<AppSettings> {
+    this.settings = { ...defaultAppSettings, ...settings };
+    return { ...this.settings };
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getUsers(): Promise<User[]> {
+    return this.db.select().from(users).orderBy(asc(users.username));
+  }
+
+  async updateUserRole(id: string, role: UserRole): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set({ role }).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async updateUserLocations(id: string, locationIds: string[], allLocations: boolean): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set({ locationIds, allLocations }).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async getLocations(): Promise<Location[]> {
+    return this.db.select().from(locations).orderBy(asc(locations.name));
+  }
+
+  async getLocation(id: string): Promise<Location | undefined> {
+    const [location] = await this.db.select().from(locations).where(eq(locations.id, id));
+    return location;
+  }
+
+  async createLocation(insertLocation: InsertLocation): Promise<Location> {
+    const [location] = await this.db.insert(locations).values(insertLocation).returning();
+    return location;
+  }
+
+  async getMenuItems(): Promise<MenuItem[]> {
+    return this.db.select().from(menuItems).orderBy(asc(menuItems.name));
+  }
+
+  async getMenuItem(id: string): Promise<MenuItem | undefined> {
+    const [item] = await this.db.select().from(menuItems).where(eq(menuItems.id, id));
+    return item;
+  }
+
+  async createMenuItem(item: InsertMenuItem): Promise<MenuItem> {
+    const [created] = await this.db.insert(menuItems).values(item).returning();
+    return created;
+  }
+
+  async updateMenuItem(id: string, updates: UpdateMenuItem): Promise<MenuItem | undefined> {
+    const [updated] = await this.db.update(menuItems)
+      .set(updates)
+      .where(eq(menuItems.id, id))
+      .returning();
+    return updated;
+  }
+
+  async linkMenuItem(item: MenuItem): Promise<{ sales: number; inventory: number }> {
+    const names = menuItemNames(item);
+    const link = { menuItemId: item.id, itemName: item.name, category: item.category };
+
+    return this.db.transaction(async (tx) => {
+      const sales = await tx.update(salesData)
+        .set(link)
+        .where(or(
+          eq(salesData.menuItemId, item.id),
+          and(isNull(salesData.menuItemId), inArray(sql`lower(trim(${salesData.itemName}))`, names)),
+        ))
+        .returning({ id: salesData.id });
+      const dishes = await tx.update(inventory)
+        .set({ ...link, updatedAt: new Date() })
+        .where(and(
+          isNull(inventory.ingredientId),
+          or(
+            eq(inventory.menuItemId, item.id),
+            and(isNull(inventory.menuItemId), inArray(sql`lower(trim(${inventory.itemName}))`, names)),
+          ),
+        ))
+        .returning({ id: inventory.id });
+      return { sales: sales.length, inventory: dishes.length };
+    });
+  }
+
+  async getSalesData(limit?: number, locationId?: string): Promise<SalesData[]> {
+    const query = this.db.select().from(salesData)
+      .where(locationCondition(salesData.locationId, locationId))
+      .orderBy(desc(salesData.date))
+      .$dynamic();
+    return limit ? query.limit(limit) : query;
+  }
+
+  async getSalesDataByDateRange(startDate: Date, endDate: Date, locationId?: string): Promise<SalesData[]> {
+    return this.db.select().from(salesData)
+      .where(and(
+        gte(salesData.date, startDate),
+        lte(salesData.date, endDate),
+        locationCondition(salesData.locationId, locationId),
+      ))
+      .orderBy(asc(salesData.date));
+  }
+
+  async getSalesDataByCategory(category: string, locationId?: string): Promise<SalesData[]> {
+    return this.db.select().from(salesData)
+      .where(and(eq(salesData.category, category), locationCondition(salesData.locationId, locationId)))
+      .orderBy(desc(salesData.date));
+  }
+
+  async createSalesData(data: InsertSalesData): Promise<SalesData> {
+    const [salesRecord] = await this.db.insert(salesData).values(data).returning();
+    return salesRecord;
+  }
+
+  async bulkCreateSalesData(data: InsertSalesData[]): Promise<SalesData[]> {
+    const results: SalesData[] = [];
+    for (const chunk of chunked(data, BULK_INSERT_CHUNK_SIZE)) {
+      results.push(...await this.db.insert(salesData).values(chunk).returning());
+    }
+    return results;
+  }
+
+  async getPredictions(limit?: number, locationId?: string): Promise<Prediction[]> {
+    const query = this.db.select().from(predictions)
+      .where(locationCondition(predictions.locationId, locationId))
+      .orderBy(desc(predictions.predictionDate))
+      .$dynamic();
+    return limit ? query.limit(limit) : query;
+  }
+
+  async getPredictionsByDate(date: Date, locationId?: string): Promise<Prediction[]> {
+    const startOfDay = new Date(date);
+    startOfDay.setHours(0, 0, 0, 0);
+    const endOfDay = new Date(date);
+    endOfDay.setHours(23, 59, 59, 999);
+
+    return this.db.select().from(predictions)
+      .where(and(
+        gte(predictions.predictionDate, startOfDay),
+        lte(predictions.predictionDate, endOfDay),
+        locationCondition(predictions.locationId, locationId),
+      ))
+      .orderBy(desc(predictions.confidence));
+  }
+
+  async getPredictionsByDateRange(startDate: Date, endDate: Date, locationId?: string): Promise<Prediction[]> {
+    return this.db.select().from(predictions)
+      .where(and(
+        gte(predictions.predictionDate, startDate),
+        lte(predictions.predictionDate, endDate),
+        locationCondition(predictions.locationId, locationId),
+      ))
+      .orderBy(asc(predictions.predictionDate));
+  }
+
+  async createPrediction(prediction: InsertPrediction): Promise<Prediction> {
+    const [pred] = await this.db.insert(predictions).values(prediction).returning();
+    return pred;
+  }
+
+  async bulkCreatePredictions(data: InsertPrediction[]): Promise<Prediction[]> {
+    const results: Prediction[] = [];
+    for (const chunk of chunked(data, BULK_INSERT_CHUNK_SIZE)) {
+      results.push(...await this.db.insert(predictions).values(chunk).returning());
+    }
+    return results;
+  }
+
+  async replacePredictions(data: InsertPrediction[]): Promise<Prediction[]> {
+    return this.db.transaction(async (tx) => {
+      const results: Prediction[] = [];
+      for (const chunk of chunked(data, BULK_INSERT_CHUNK_SIZE)) {
+        await tx.delete(predictions).where(or(...chunk.map(prediction => and(
+          prediction.locationId ? eq(predictions.locationId, prediction.locationId) : isNull(predictions.locationId),
+          eq(predictions.itemName, prediction.itemName),
+          eq(predictions.predictionDate, prediction.predictionDate),
+          eq(predictions.forecastPeriod, prediction.forecastPeriod),
+        ))));
+        results.push(...await tx.insert(predictions).values(chunk).returning());
+      }
+      return results;
+    });
+  }
+
+  async getInventory(locationId?: string): Promise<Inventory[]> {
+    return this.db.select().from(inventory)
+      .where(locationCondition(inventory.locationId, locationId))
+      .orderBy(asc(inventory.itemName));
+  }
+
+  async getInventoryByItem(itemName: string, locationId?: string): Promise<Inventory | undefined> {
+    const [item] = await this.db.select().from(inventory)
+      .where(and(eq(inventory.itemName, itemName), locationCondition(inventory.locationId, locationId)));
+    return item;
+  }
+
+  async createInventory(data: InsertInventory): Promise<Inventory> {
+    return this.db.transaction(async (tx) => {
+      const [item] = await tx.insert(inventory).values({ ...data, currentStock: 0 }).returning();
+      const { inventory: [opened] } = await this.postMovements(tx, [
+        { inventoryId: item.id, type: "opening", countedQuantity: data.currentStock, occurredAt: new Date() },
+      ]);
+      return opened;
+    });
+  }
+
+  async updateInventory(id: string, updates: UpdateInventory): Promise<Inventory | undefined> {
+    const [updated] = await this.db.update(inventory)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(inventory.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getInventoryMovements(filters: InventoryMovementFilters = {}, locationId?: string): Promise<InventoryMovement[]> {
+    const query = this.db.select().from(inventoryMovements)
+      .where(and(
+        locationCondition(inventoryMovements.locationId, locationId),
+        filters.inventoryId ? eq(inventoryMovements.inventoryId, filters.inventoryId) : undefined,
+        filters.type ? eq(inventoryMovements.type, filters.type) : undefined,
+        filters.startDate ? gte(inventoryMovements.occurredAt, filters.startDate) : undefined,
+        filters.endDate ? lte(inventoryMovements.occurredAt, filters.endDate) : undefined,
+      ))
+      .orderBy(desc(inventoryMovements.occurredAt), desc(inventoryMovements.createdAt))
+      .$dynamic();
+    return filters.limit ? query.limit(filters.limit) : query;
+  }
+
+  async getLatestCountTimes(inventoryIds: string[]): Promise<Map<string, Date>> {
+    if (inventoryIds.length === 0) return new Map();
+    const rows = await this.db
+      .select({ inventoryId: inventoryMovements.inventoryId, occurredAt: max(inventoryMovements.occurredAt) })
+      .from(inventoryMovements)
+      .where(and(
+        inArray(inventoryMovements.inventoryId, Array.from(new Set(inventoryIds))),
+        inArray(inventoryMovements.type, ['count', 'opening']),
+      ))
+      .groupBy(inventoryMovements.inventoryId);
+    return new Map(rows.flatMap(row => row.occurredAt ? [[row.inventoryId, row.occurredAt] as const] : []));
+  }
+
+  async recordInventoryMovements(entries: NewInventoryMovement[]): Promise<{ movements: InventoryMovement[]; inventory: Inventory[] }> {
+    if (entries.length === 0) return { movements: [], inventory: [] };
+    return this.db.transaction(tx => this.postMovements(tx, entries));
+  }
+
+  // Locks the affected items, works out each entry's change and running balance, then writes both
+  private async postMovements(tx: Transaction, entries: NewInventoryMovement[]): Promise<{ movements: InventoryMovement[]; inventory: Inventory[] }> {
+    const ids = Array.from(new Set(entries.map(entry => entry.inventoryId)));
+    const items = await tx.select().from(inventory).where(inArray(inventory.id, ids)).for("update");
+    const balances = new Map(items.map(item => [item.id, item]));
+    const openBatches = await tx.select().from(inventoryBatches)
+      .where(and(inArray(inventoryBatches.inventoryId, ids), gt(inventoryBatches.remainingQuantity, 0)))
+      .orderBy(asc(inventoryBatches.receivedAt))
+      .for("update");
+    const originalRemaining = new Map(openBatches.map(batch => [batch.id, batch.remainingQuantity]));
+    const batchesByItem = new Map(ids.map(id => [id, openBatches.filter(batch => batch.inventoryId === id)]));
+    const transfers = new Map<string, BatchSlice[]>();
+
+    const rows: (typeof inventoryMovements.$inferInsert)[] = [];
+    entries.forEach(({ countedQuantity, quantity, batchId, batchCode, expiresAt, ...entry }) => {
+      const item = balances.get(entry.inventoryId);
+      if (!item) return;
+
+      const change = countedQuantity !== undefined ? countedQuantity - item.currentStock : quantity!;
+      const currentStock = item.currentStock + change;
+      balances.set(item.id, { ...item, currentStock });
+      rows.push({ ...entry, locationId: item.locationId, quantity: change, balanceAfter: currentStock });
+
+      const incoming = entry.type === "transfer_in" && entry.reference ? transfers.get(entry.reference) : undefined;
+      const taken = applyBatchChange(item, change, { batchId, batchCode, expiresAt }, entry.occurredAt, batchesByItem.get(item.id)!, incoming);
+      if (entry.type === "transfer_out" && entry.reference) transfers.set(entry.reference, taken);
+    });
+
+    const batches = Array.from(batchesByItem.values()).flat();
+    const newBatches = batches.filter(batch => !originalRemaining.has(batch.id));
+    for (const batch of batches.filter(batch => originalRemaining.has(batch.id) && originalRemaining.get(batch.id) !== batch.remainingQuantity)) {
+      await tx.update(inventoryBatches)
+        .set({ remainingQuantity: batch.remainingQuantity })
+        .where(eq(inventoryBatches.id, batch.id));
+    }
+    if (newBatches.length > 0) {
+      await tx.insert(inventoryBatches).values(newBatches);
+    }
+
+    const updated: Inventory[] = [];
+    for (const item of items) {
+      const [row] = await tx.update(inventory)
+        .set({ currentStock: balances.get(item.id)!.currentStock, updatedAt: new Date() })
+        .where(eq(inventory.id, item.id))
+        .returning();
+      updated.push(row);
+    }
+
+    const movements: InventoryMovement[] = [];
+    for (const chunk of chunked(rows, BULK_INSERT_CHUNK_SIZE)) {
+      movements.push(...await tx.insert(inventoryMovements).values(chunk).returning());
+    }
+    return { movements, inventory: updated };
+  }
+
+  async getIngredients(): Promise<Ingredient[]> {
+    return this.db.select().from(ingredients).orderBy(asc(ingredients.name));
+  }
+
+  async getIngredient(id: string): Promise<Ingredient | undefined> {
+    const [ingredient] = await this.db.select().from(ingredients).where(eq(ingredients.id, id));
+    return ingredient;
+  }
+
+  async createIngredient(data: InsertIngredient): Promise<Ingredient> {
+    const [ingredient] = await this.db.insert(ingredients).values(data).returning();
+    return ingredient;
+  }
+
+  async updateIngredient(id: string, updates: Partial<InsertIngredient>): Promise<Ingredient | undefined> {
+    const [updated] = await this.db.update(ingredients)
+      .set(updates)
+      .where(eq(ingredients.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getRecipes(): Promise<RecipeWithIngredients[]> {
+    const rows = await this.db.select().from(recipes).orderBy(asc(recipes.menuItemName));
+    return this.withRecipeLines(rows);
+  }
+
+  async getRecipe(id: string): Promise<RecipeWithIngredients | undefined> {
+    const rows = await this.db.select().from(recipes).where(eq(recipes.id, id));
+    const [recipe] = await this.withRecipeLines(rows);
+    return recipe;
+  }
+
+  async createRecipe({ ingredients: lines, ...data }: InsertRecipe): Promise<RecipeWithIngredients> {
+    const recipe = await this.db.transaction(async (tx) => {
+      const [created] = await tx.insert(recipes).values(data).returning();
+      await tx.insert(recipeIngredients).values(lines.map(line => ({ ...line, recipeId: created.id })));
+      return created;
+    });
+    const [withLines] = await this.withRecipeLines([recipe]);
+    return withLines;
+  }
+
+  async updateRecipe(id: string, { ingredients: lines, ...data }: InsertRecipe): Promise<RecipeWithIngredients | undefined> {
+    const recipe = await this.db.transaction(async (tx) => {
+      const [updated] = await tx.update(recipes).set(data).where(eq(recipes.id, id)).returning();
+      if (!updated) return undefined;
+      await tx.delete(recipeIngredients).where(eq(recipeIngredients.recipeId, id));
+      await tx.insert(recipeIngredients).values(lines.map(line => ({ ...line, recipeId: id })));
+      return updated;
+    });
+    if (!recipe) return undefined;
+    const [withLines] = await this.withRecipeLines([recipe]);
+    return withLines;
+  }
+
+  async deleteRecipe(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(recipes).where(eq(recipes.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async getSuppliers(): Promise<Supplier[]> {
+    return this.db.select().from(suppliers).orderBy(asc(suppliers.name));
+  }
+
+  async getSupplier(id: string): Promise<Supplier | undefined> {
+    const [supplier] = await this.db.select().from(suppliers).where(eq(suppliers.id, id));
+    return supplier;
+  }
+
+  async createSupplier(data: InsertSupplier): Promise<Supplier> {
+    const [supplier] = await this.db.insert(suppliers).values(data).returning();
+    return supplier;
+  }
+
+  async updateSupplier(id: string, updates: Partial<InsertSupplier>): Promise<Supplier | undefined> {
+    const [updated] = await this.db.update(suppliers)
+      .set(updates)
+      .where(eq(suppliers.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getPurchaseOrders(status?: PurchaseOrderStatus, locationId?: string): Promise<PurchaseOrderWithLines[]> {
+    const rows = await this.db.select().from(purchaseOrders)
+      .where(and(
+        status ? eq(purchaseOrders.status, status) : undefined,
+        locationCondition(purchaseOrders.locationId, locationId),
+      ))
+      .orderBy(desc(purchaseOrders.createdAt));
+    return this.withOrderLines(rows);
+  }
+
+  async getPurchaseOrder(id: string): Promise<PurchaseOrderWithLines | undefined> {
+    const rows = await this.db.select().from(purchaseOrders).where(eq(purchaseOrders.id, id));
+    const [order] = await this.withOrderLines(rows);
+    return order;
+  }
+
+  async createPurchaseOrder(order: NewPurchaseOrder, lines: NewPurchaseOrderLine[]): Promise<PurchaseOrderWithLines> {
+    const created = await this.db.transaction(async (tx) => {
+      const [row] = await tx.insert(purchaseOrders).values(order).returning();
+      if (lines.length > 0) {
+        await tx.insert(purchaseOrderLines).values(lines.map(line => ({ ...line, purchaseOrderId: row.id })));
+      }
+      return row;
+    });
+    const [withLines] = await this.withOrderLines([created]);
+    return withLines;
+  }
+
+  async updatePurchaseOrder(id: string, updates: Partial<PurchaseOrder>): Promise<PurchaseOrderWithLines | undefined> {
+    const { id: _id, ...changes } = updates;
+    const rows = await this.db.update(purchaseOrders)
+      .set(changes)
+      .where(eq(purchaseOrders.id, id))
+      .returning();
+    const [order] = await this.withOrderLines(rows);
+    return order;
+  }
+
+  async deletePurchaseOrder(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(purchaseOrders).where(eq(purchaseOrders.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async receivePurchaseOrder(id: string, receivedQuantities: Record<string, number>, receivedAt: Date): Promise<{ order: PurchaseOrderWithLines; inventory: Inventory[] } | undefined> {
+    const result = await this.db.transaction(async (tx) => {
+      const [order] = await tx.update(purchaseOrders)
+        .set({ status: "received", receivedAt })
+        .where(and(eq(purchaseOrders.id, id), eq(purchaseOrders.status, "sent")))
+        .returning();
+      if (!order) return undefined;
+
+      const lines = await tx.select().from(purchaseOrderLines).where(eq(purchaseOrderLines.purchaseOrderId, id));
+      const receipts: NewInventoryMovement[] = [];
+      for (const line of lines) {
+        const receivedQuantity = receivedQuantities[line.id] ?? line.quantity;
+        await tx.update(purchaseOrderLines)
+          .set({ receivedQuantity })
+          .where(eq(purchaseOrderLines.id, line.id));
+        receipts.push({ inventoryId: line.inventoryId, type: "receipt", quantity: receivedQuantity, reference: order.orderNumber, occurredAt: receivedAt });
+      }
+      const { inventory: restocked } = receipts.length > 0 ? await this.postMovements(tx, receipts) : { inventory: [] };
+      return { order, inventory: restocked };
+    });
+    if (!result) return undefined;
+
+    const [order] = await this.withOrderLines([result.order]);
+    return { order, inventory: result.inventory };
+  }
+
+  async getInventoryBatches(filters: InventoryBatchFilters = {}, locationId?: string): Promise<InventoryBatch[]> {
+    return this.db.select().from(inventoryBatches)
+      .where(and(
+        locationCondition(inventoryBatches.locationId, locationId),
+        filters.inventoryId ? eq(inventoryBatches.inventoryId, filters.inventoryId) : undefined,
+        filters.openOnly ? gt(inventoryBatches.remainingQuantity, 0) : undefined,
+      ))
+      .orderBy(asc(inventoryBatches.receivedAt));
+  }
+
+  private async withOrderLines(rows: PurchaseOrder[]): Promise<PurchaseOrderWithLines[]> {
+    if (rows.length === 0) return [];
+    const lines = await this.db.select().from(purchaseOrderLines)
+      .where(inArray(purchaseOrderLines.purchaseOrderId, rows.map(order => order.id)));
+    const supplierRows = await this.db.select().from(suppliers)
+      .where(inArray(suppliers.id, Array.from(new Set(rows.map(order => order.supplierId)))));
+    return rows.map(order => ({
+      ...order,
+      lines: lines.filter(line => line.purchaseOrderId === order.id),
+      supplier: supplierRows.find(supplier => supplier.id === order.supplierId) ?? null,
+    }));
+  }
+
+  private async withRecipeLines(rows: Recipe[]): Promise<RecipeWithIngredients[]> {
+    if (rows.length === 0) return [];
+    const lines = await this.db.select().from(recipeIngredients)
+      .innerJoin(ingredients, eq(recipeIngredients.ingredientId, ingredients.id))
+      .where(inArray(recipeIngredients.recipeId, rows.map(recipe => recipe.id)));
+    return rows.map(recipe => ({
+      ...recipe,
+      ingredients: lines
+        .filter(line => line.recipe_ingredients.recipeId === recipe.id)
+        .map(line => ({ ...line.recipe_ingredients, ingredient: line.ingredients })),
+    }));
+  }
+
+  async getLatestModelMetrics(): Promise<ModelMetrics | undefined> {
+    const [metrics] = await this.db.select().from(modelMetrics)
+      .orderBy(desc(modelMetrics.createdAt))
+      .limit(1);
+    return metrics;
+  }
+
+  async createModelMetrics(metrics: InsertModelMetrics): Promise<ModelMetrics> {
+    const [created] = await this.db.insert(modelMetrics).values(metrics).returning();
+    return created;
+  }
+
+  async getNotifications(filters: NotificationFilters = {}): Promise<NotificationEvent[]> {
+    const query = this.db.select().from(notifications)
+      .where(and(
+        filters.acknowledged === undefined ? undefined : eq(notifications.acknowledged, filters.acknowledged ? 1 : 0),
+        notificationLocationCondition(filters.locationId),
+      ))
+      .orderBy(desc(notifications.createdAt))
+      .$dynamic();
+    return filters.limit ? query.limit(filters.limit) : query;
+  }
+
+  async bulkCreateNotifications(data: InsertNotification[]): Promise<NotificationEvent[]> {
+    if (data.length === 0) return [];
+    return this.db.insert(notifications).values(data).returning();
+  }
+
+  async acknowledgeNotification(id: string, locationId?: string): Promise<NotificationEvent | undefined> {
+    const [updated] = await this.db.update(notifications)
+      .set({ acknowledged: 1 })
+      .where(and(eq(notifications.id, id), notificationLocationCondition(locationId)))
+      .returning();
+    return updated;
+  }
+
+  async getAdvancedPredictions(filters: AdvancedPredictionFilters = {}, locationId?: string): Promise<AdvancedPrediction[]> {
+    return this.db.select().from(advancedPredictions)
+      .where(and(
+        locationCondition(advancedPredictions.locationId, locationId),
+        filters.itemName ? eq(advancedPredictions.itemName, filters.itemName) : undefined,
+        filters.modelType ? eq(advancedPredictions.modelType, filters.modelType) : undefined,
+        filters.startDate ? gte(advancedPredictions.createdAt, filters.startDate) : undefined,
+        filters.endDate ? lte(advancedPredictions.createdAt, filters.endDate) : undefined,
+        filters.endsAfter ? or(isNull(advancedPredictions.forecastEnd), gt(advancedPredictions.forecastEnd, filters.endsAfter)) : undefined,
+      ))
+      .orderBy(desc(advancedPredictions.createdAt));
+  }
+
+  async bulkCreateAdvancedPredictions(data: InsertAdvancedPrediction[]): Promise<AdvancedPrediction[]> {
+    const results: AdvancedPrediction[] = [];
+    for (const chunk of chunked(data, BULK_INSERT_CHUNK_SIZE)) {
+      results.push(...await this.db.insert(advancedPredictions).values(chunk).returning());
+    }
+    return results;
+  }
+
+  async getForecastAccuracy(filters: ForecastAccuracyFilters = {}, locationId?: string): Promise<ForecastAccuracy[]> {
+    return this.db.select().from(forecastAccuracy)
+      .where(and(
+        locationCondition(forecastAccuracy.locationId, locationId),
+        filters.itemName ? eq(forecastAccuracy.itemName, filters.itemName) : undefined,
+        filters.modelType ? eq(forecastAccuracy.modelType, filters.modelType) : undefined,
+        filters.startDate ? gte(forecastAccuracy.forecastDate, filters.startDate) : undefined,
+        filters.endDate ? lte(forecastAccuracy.forecastDate, filters.endDate) : undefined,
+      ))
+      .orderBy(asc(forecastAccuracy.forecastDate));
+  }
+
+  async bulkCreateForecastAccuracy(data: InsertForecastAccuracy[]): Promise<ForecastAccuracy[]> {
+    const results: ForecastAccuracy[] = [];
+    for (const chunk of chunked(data, BULK_INSERT_CHUNK_SIZE)) {
+      results.push(...await this.db.insert(forecastAccuracy).values(chunk).onConflictDoNothing().returning());
+    }
+    return results;
+  }
+
+  async getMetricsSnapshots(since: Date, locationId?: string): Promise<MetricsSnapshot[]> {
+    return this.db.select().from(metricsSnapshots)
+      .where(and(
+        gte(metricsSnapshots.timestamp, since),
+        locationId ? eq(metricsSnapshots.locationId, locationId) : isNull(metricsSnapshots.locationId),
+      ))
+      .orderBy(asc(metricsSnapshots.timestamp));
+  }
+
+  async createMetricsSnapshot(snapshot: InsertMetricsSnapshot): Promise<MetricsSnapshot> {
+    const [created] = await this.db.insert(metricsSnapshots).values(snapshot).returning();
+    return created;
+  }
+
+  async getSettings(): Promise<AppSettings> {
+    const [row] = await this.db.select().from(appSettings).where(eq(appSettings.id, SETTINGS_ID));
+    return { ...defaultAppSettings, ...(row?.values as Partial<AppSettings> | undefined) };
+  }
+
+  async saveSettings(settings: AppSettings): Promise<AppSettings> {
+    const values = { ...defaultAppSettings, ...settings };
+    await this.db.insert(appSettings)
+      .values({ id: SETTINGS_ID, values, updatedAt: new Date() })
+      .onConflictDoUpdate({ target: appSettings.id, set: { values, updatedAt: new Date() } });
+    return values;
+  }
+
+  async purgeHistory(before: Date): Promise<number> {
+    return this.db.transaction(async tx => {
+      const deleted = await Promise.all([
+        tx.delete(salesData).where(lt(salesData.date, before)).returning({ id: salesData.id }),
+        tx.delete(predictions).where(lt(predictions.predictionDate, before)).returning({ id: predictions.id }),
+        tx.delete(advancedPredictions)
+          .where(lt(sql`coalesce(${advancedPredictions.forecastEnd}, ${advancedPredictions.createdAt})`, before))
+          .returning({ id: advancedPredictions.id }),
+        tx.delete(forecastAccuracy).where(lt(forecastAccuracy.forecastDate, before)).returning({ id: forecastAccuracy.id }),
+        tx.delete(metricsSnapshots).where(lt(metricsSnapshots.timestamp, before)).returning({ id: metricsSnapshots.id }),
+        tx.delete(notifications)
+          .where(and(eq(notifications.acknowledged, 1), lt(notifications.createdAt, before)))
+          .returning({ id: notifications.id }),
+      ]);
+      return deleted.reduce((total, rows) => total + rows.length, 0);
+    });
+  }
+}
+
+function toMenuItem(id: string, item: InsertMenuItem): MenuItem {
+  return {
+    ...item,
+    id,
+    foodCost: item.foodCost ?? null,
+    activeFrom: item.activeFrom ?? null,
+    activeUntil: item.activeUntil ?? null,
+    createdAt: new Date(),
+  };
+}
+
+// Lower-cased name and aliases a sales or stock row can be recorded under
+function menuItemNames(item: MenuItem): string[] {
+  return Array.from(new Set([item.name, ...item.aliases].map(name => name.trim().toLowerCase())));
+}
+
+function matchesLocation(record: { locationId: string | null }, locationId?: string): boolean {
+  return !locationId || record.locationId === locationId;
+}
+
+function locationCondition(
+  column: typeof salesData.locationId | typeof predictions.locationId | typeof inventory.locationId | typeof advancedPredictions.locationId | typeof forecastAccuracy.locationId | typeof purchaseOrders.locationId | typeof inventoryMovements.locationId | typeof inventoryBatches.locationId,
+  locationId?: string,
+): SQL | undefined {
+  return locationId ? eq(column, locationId) : undefined;
+}
+
+// Chain-wide notifications (no location) show up under every location
+function matchesNotificationLocation(notification: NotificationEvent, locationId?: string): boolean {
+  return !locationId || notification.locationId === null || notification.locationId === locationId;
+}
+
+function notificationLocationCondition(locationId?: string): SQL | undefined {
+  return locationId ? or(isNull(notifications.locationId), eq(notifications.locationId, locationId)) : undefined;
+}
+
+// Stock taken out of (or carried into) a batch, keeping the batch's dates
+interface BatchSlice {
+  receivedAt: Date;
+  expiresAt: Date | null;
+  batchCode: string | null;
+  quantity: number;
+}
+
+function byReceivedDate(a: InventoryBatch, b: InventoryBatch): number {
+  return a.receivedAt.getTime() - b.receivedAt.getTime();
+}
+
+/**
+ * Apply a stock change to an item's open batches (kept sorted oldest received first), in place.
+ * Increases open a batch, or for a transfer recreate the batches that left the other item so
+ * their expiry carries over. Decreases draw from `batchId` first and then first-in first-out;
+ * anything beyond the tracked stock goes unrecorded. Returns the slices taken out.
+ */
+function applyBatchChange(item: Inventory, change: number, details: BatchDetails, occurredAt: Date, batches: InventoryBatch[], incoming?: BatchSlice[]): BatchSlice[] {
+  if (change > 0) {
+    const carried = (incoming ?? []).reduce((sum, slice) => sum + slice.quantity, 0);
+    const slices = [...(incoming ?? [])];
+    if (change - carried > 1e-9) {
+      const expiresAt = details.expiresAt !== undefined
+        ? details.expiresAt
+        : item.shelfLifeDays !== null ? new Date(occurredAt.getTime() + item.shelfLifeDays * 24 * 60 * 60 * 1000) : null;
+      slices.push({ receivedAt: occurredAt, expiresAt, batchCode: details.batchCode ?? null, quantity: change - carried });
+    }
+    slices.forEach(slice => batches.push({
+      ...slice,
+      id: randomUUID(),
+      inventoryId: item.id,
+      locationId: item.locationId,
+      initialQuantity: slice.quantity,
+      remainingQuantity: slice.quantity,
+      createdAt: new Date(),
+    }));
+    batches.sort(byReceivedDate);
+    return [];
+  }
+
+  const taken: BatchSlice[] = [];
+  let outstanding = -change;
+  const order = [...batches.filter(batch => batch.id === details.batchId), ...batches.filter(batch => batch.id !== details.batchId)];
+  for (const batch of order) {
+    if (outstanding <= 1e-9) break;
+    const quantity = Math.min(batch.remainingQuantity, outstanding);
+    if (quantity <= 0) continue;
+    batch.remainingQuantity = Math.round((batch.remainingQuantity - quantity) * 1e6) / 1e6;
+    outstanding -= quantity;
+    taken.push({ receivedAt: batch.receivedAt, expiresAt: batch.expiresAt, batchCode: batch.batchCode, quantity });
+  }
+  return taken;
+}
+
+// Identity of a prediction: one per item, location, target date and period
+function predictionKey(prediction: Pick<InsertPrediction, "locationId" | "itemName" | "predictionDate" | "forecastPeriod">): string {
+  return JSON.stringify([prediction.locationId ?? null, prediction.itemName, prediction.predictionDate.getTime(), prediction.forecastPeriod]);
+}
+
+function chunked<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+// Removes the matching rows and says how many went
+function deleteWhere<T>(rows: Map<string, T>, matches: (row: T) => boolean): number {
+  let deleted = 0;
+  rows.forEach((row, id) => {
+    if (matches(row) && rows.delete(id)) deleted++;
+  });
+  return deleted;
 }
 
-export const storage = new MemStorage();
+// Use Postgres when a database has been provisioned, otherwise fall back to in-memory storage
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DatabaseStorage(createDatabase(process.env.DATABASE_URL))
+  : new MemStorage();
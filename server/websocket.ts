@@ -0,0 +1,170 @@
+import type { IncomingMessage, Server } from "http";
+import type { Request, RequestHandler, Response } from "express";
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import { liveTopics, type LiveTopic, type User } from "@shared/schema";
+import { storage } from "./storage";
+import { canAccessLocation, userAccessEvents } from "./auth";
+import { realTimeAnalyticsService } from "./services/real-time-analytics";
+import { notificationService, type NotificationEvent } from "./services/notification-service";
+
+/**
+ * Push channel for live updates. Clients connect to /ws with their session cookie,
+ * send `{ type: "subscribe", topics: [...] }` and receive `{ type: "event", topic, data, timestamp }`.
+ * Events about a location only reach users who may see that location.
+ */
+
+export const WEBSOCKET_PATH = "/ws";
+
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+// Application close code telling the client to reconnect with its new role and locations
+const ACCESS_CHANGED_CLOSE_CODE = 4001;
+
+// Service events relayed to each topic's subscribers
+const ANALYTICS_EVENTS: Record<string, LiveTopic> = {
+  'metrics-updated': 'metrics',
+  'sales-update': 'sales',
+  'inventory-update': 'inventory',
+  'predictions-update': 'predictions',
+  'kpi-updated': 'kpis',
+  'external-data-synced': 'external-data',
+};
+
+interface LiveClient {
+  socket: WebSocket;
+  userId: string;
+  access: Pick<User, "role" | "locationIds" | "allLocations">; // As of connecting; the socket is closed when it changes
+  topics: Set<LiveTopic>;
+  alive: boolean;
+}
+
+type ClientMessage =
+  | { type: 'subscribe' | 'unsubscribe'; topics: string[] }
+  | { type: 'ping' };
+
+export function setupWebSocket(httpServer: Server, sessionMiddleware: RequestHandler): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+  const clients = new Set<LiveClient>();
+
+  httpServer.on("upgrade", (req: IncomingMessage, socket, head) => {
+    // Other upgrade handlers (the Vite HMR socket in development) own every other path
+    if (new URL(req.url ?? "", "http://localhost").pathname !== WEBSOCKET_PATH) return;
+
+    sessionMiddleware(req as Request, {} as Response, async () => {
+      const session = (req as Request).session as { passport?: { user?: string } } | undefined;
+      const userId = session?.passport?.user;
+      let user: User | undefined;
+      try {
+        user = userId ? await storage.getUser(userId) : undefined;
+      } catch {
+        socket.write("HTTP/1.1 500 Internal Server Error\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+      if (!user) {
+        socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+
+      const access = { role: user.role, locationIds: user.locationIds, allLocations: user.allLocations };
+      wss.handleUpgrade(req, socket, head, (ws) => {
+        const client: LiveClient = { socket: ws, userId: user.id, access, topics: new Set(), alive: true };
+        clients.add(client);
+
+        ws.on("pong", () => { client.alive = true; });
+        ws.on("message", (raw) => handleMessage(client, raw));
+        ws.on("close", () => clients.delete(client));
+        ws.on("error", () => clients.delete(client));
+
+        send(client, { type: 'welcome', topics: liveTopics });
+      });
+    });
+  });
+
+  // `locationId` scopes the event: a location, null for the all-locations roll-up, undefined for chain-wide data
+  const broadcast = (topic: LiveTopic, data: unknown, locationId?: string | null) => {
+    const timestamp = new Date();
+    clients.forEach(client => {
+      if (!client.topics.has(topic)) return;
+      if (locationId !== undefined && !canAccessLocation(client.access, locationId)) return;
+      send(client, { type: 'event', topic, data, timestamp });
+    });
+  };
+
+  // Metrics, KPI and stream payloads name their location; external data has none and goes to everyone
+  Object.entries(ANALYTICS_EVENTS).forEach(([event, topic]) => {
+    realTimeAnalyticsService.on(event, (data) => broadcast(topic, data, data?.locationId));
+  });
+  notificationService.on('notifications-created', (events: NotificationEvent[]) => {
+    const byLocation = new Map<string | null, NotificationEvent[]>();
+    events.forEach(event => {
+      const locationId = event.data.locationId ?? null;
+      byLocation.set(locationId, [...(byLocation.get(locationId) ?? []), event]);
+    });
+    // Chain-wide notifications are shown under every location
+    byLocation.forEach((group, locationId) => broadcast('notifications', group, locationId ?? undefined));
+  });
+
+  // Close a user's sockets when an admin changes their access; the client reconnects and the
+  // upgrade reads the new role and locations
+  userAccessEvents.on('access-changed', (userId: string) => {
+    clients.forEach(client => {
+      if (client.userId !== userId) return;
+      client.socket.close(ACCESS_CHANGED_CLOSE_CODE, 'Access changed');
+      clients.delete(client);
+    });
+  });
+
+  // Drop connections that stopped answering pings
+  const heartbeat = setInterval(() => {
+    clients.forEach(client => {
+      if (!client.alive) {
+        client.socket.terminate();
+        clients.delete(client);
+        return;
+      }
+      client.alive = false;
+      client.socket.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+
+  wss.on("close", () => clearInterval(heartbeat));
+
+  return wss;
+}
+
+function handleMessage(client: LiveClient, raw: RawData): void {
+  let message: ClientMessage;
+  try {
+    message = JSON.parse(raw.toString());
+  } catch {
+    send(client, { type: 'error', message: 'Messages must be JSON' });
+    return;
+  }
+
+  switch (message?.type) {
+    case 'subscribe':
+    case 'unsubscribe': {
+      const topics = (Array.isArray(message.topics) ? message.topics : [])
+        .filter((topic): topic is LiveTopic => liveTopics.includes(topic as LiveTopic));
+      topics.forEach(topic => {
+        if (message.type === 'subscribe') client.topics.add(topic);
+        else client.topics.delete(topic);
+      });
+      send(client, { type: 'subscribed', topics: Array.from(client.topics) });
+      break;
+    }
+    case 'ping':
+      send(client, { type: 'pong' });
+      break;
+    default:
+      send(client, { type: 'error', message: 'Unknown message type' });
+  }
+}
+
+function send(client: LiveClient, message: Record<string, unknown>): void {
+  if (client.socket.readyState === WebSocket.OPEN) {
+    client.socket.send(JSON.stringify(message));
+  }
+}
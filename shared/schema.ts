@@ -0,0 +1,605 @@
+import { sql } from "drizzle-orm";
+import { pgTable, text, varchar, integer, real, timestamp, jsonb, boolean, uniqueIndex } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { gapFillMethods, isValidTimeZone } from "./time-series";
+
+export const userRoles = ["viewer", "manager", "admin"] as const;
+
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+  role: text("role").notNull().default("viewer"), // 'viewer', 'manager', 'admin'
+  locationIds: jsonb("location_ids").$type<string[]>().notNull().default([]), // Assigned locations; none means no location data
+  allLocations: boolean("all_locations").notNull().default(false), // Every location, as administrators have
+});
+
+export const locations = pgTable("locations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  code: text("code").notNull().unique(),
+  address: text("address"),
+  createdAt: timestamp("created_at").default(sql`now()`),
+});
+
+export const menuItemIcons = ["drumstick-bite", "fish", "seedling", "pizza-slice", "coffee", "ice-cream", "utensils"] as const;
+
+// Dish on the menu. Sales and dish stock rows whose item name matches the name or an alias
+// (ignoring case) are linked to it and take its name and category.
+export const menuItems = pgTable("menu_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sku: text("sku").notNull().unique(),
+  name: text("name").notNull().unique(),
+  category: text("category").notNull(),
+  price: real("price").notNull(), // List price per portion
+  foodCost: real("food_cost"), // Per portion; null = costed from the recipe
+  aliases: jsonb("aliases").$type<string[]>().notNull().default([]), // Other names the item is sold under, e.g. by a POS
+  icon: text("icon").notNull().default("utensils"),
+  activeFrom: timestamp("active_from"), // First and last days on the menu; null = open-ended
+  activeUntil: timestamp("active_until"),
+  createdAt: timestamp("created_at").default(sql`now()`),
+});
+
+export const salesData = pgTable("sales_data", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  locationId: varchar("location_id").references(() => locations.id),
+  menuItemId: varchar("menu_item_id").references(() => menuItems.id), // Null for items not in the catalog
+  itemName: text("item_name").notNull(),
+  category: text("category").notNull(),
+  quantity: integer("quantity").notNull(),
+  date: timestamp("date").notNull(),
+  revenue: real("revenue").notNull(),
+  createdAt: timestamp("created_at").default(sql`now()`),
+});
+
+export const predictions = pgTable("predictions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  locationId: varchar("location_id").references(() => locations.id),
+  itemName: text("item_name").notNull(),
+  category: text("category").notNull(),
+  predictedQuantity: integer("predicted_quantity").notNull(), // P50
+  lowerBound: real("lower_bound"), // P10
+  upperBound: real("upper_bound"), // P90
+  confidence: real("confidence").notNull(),
+  predictionDate: timestamp("prediction_date").notNull(),
+  forecastPeriod: text("forecast_period").notNull(), // 'daily', 'weekly', 'monthly'
+  createdAt: timestamp("created_at").default(sql`now()`),
+});
+
+// Stock of a finished dish (ingredientId null) or of a purchased ingredient, counted in `unit`
+export const inventory = pgTable("inventory", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  locationId: varchar("location_id").references(() => locations.id),
+  ingredientId: varchar("ingredient_id").references(() => ingredients.id),
+  menuItemId: varchar("menu_item_id").references(() => menuItems.id), // Dish rows only
+  itemName: text("item_name").notNull(),
+  category: text("category").notNull(),
+  unit: text("unit").notNull().default("units"),
+  currentStock: real("current_stock").notNull(),
+  minimumStock: real("minimum_stock").notNull(),
+  maxStock: real("max_stock").notNull(),
+  supplierId: varchar("supplier_id").references(() => suppliers.id),
+  packSize: real("pack_size").notNull().default(1), // Orders are rounded up to whole packs of this many units
+  shelfLifeDays: integer("shelf_life_days"), // Default expiry for new batches; null for non-perishables
+  updatedAt: timestamp("updated_at").default(sql`now()`),
+});
+
+// Purchasable raw material, e.g. chicken breast counted in kg
+export const ingredients = pgTable("ingredients", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  unit: text("unit").notNull(), // 'kg', 'l', 'each', ...
+  category: text("category"),
+  costPerUnit: real("cost_per_unit"),
+  createdAt: timestamp("created_at").default(sql`now()`),
+});
+
+// Bill of materials for a menu item; menuItemName matches sales_data.item_name
+export const recipes = pgTable("recipes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  menuItemName: text("menu_item_name").notNull().unique(),
+  yield: real("yield").notNull().default(1), // Portions produced by one batch of the lines below
+  createdAt: timestamp("created_at").default(sql`now()`),
+});
+
+export const recipeIngredients = pgTable("recipe_ingredients", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  recipeId: varchar("recipe_id").notNull().references(() => recipes.id, { onDelete: "cascade" }),
+  ingredientId: varchar("ingredient_id").notNull().references(() => ingredients.id),
+  quantity: real("quantity").notNull(), // Usable amount per batch, in the ingredient's unit
+  yieldPercentage: real("yield_percentage").notNull().default(1), // Usable fraction after trim/cooking loss
+});
+
+export const suppliers = pgTable("suppliers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  contactName: text("contact_name"),
+  email: text("email"),
+  phone: text("phone"),
+  leadTimeDays: integer("lead_time_days").notNull().default(1), // Days from sending an order to delivery
+  createdAt: timestamp("created_at").default(sql`now()`),
+});
+
+export const purchaseOrderStatuses = ["draft", "approved", "sent", "received"] as const;
+
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderNumber: text("order_number").notNull().unique(),
+  locationId: varchar("location_id").references(() => locations.id),
+  supplierId: varchar("supplier_id").notNull().references(() => suppliers.id),
+  status: text("status").notNull().default("draft"), // 'draft', 'approved', 'sent', 'received'
+  notes: text("notes"),
+  expectedDeliveryDate: timestamp("expected_delivery_date"),
+  createdAt: timestamp("created_at").default(sql`now()`),
+  approvedAt: timestamp("approved_at"),
+  sentAt: timestamp("sent_at"),
+  receivedAt: timestamp("received_at"),
+});
+
+export const purchaseOrderLines = pgTable("purchase_order_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  purchaseOrderId: varchar("purchase_order_id").notNull().references(() => purchaseOrders.id, { onDelete: "cascade" }),
+  inventoryId: varchar("inventory_id").notNull().references(() => inventory.id),
+  itemName: text("item_name").notNull(),
+  unit: text("unit").notNull(),
+  packSize: real("pack_size").notNull().default(1),
+  quantity: real("quantity").notNull(), // Ordered units, a whole number of packs
+  unitCost: real("unit_cost"),
+  receivedQuantity: real("received_quantity"), // Set when the order is received
+});
+
+export const inventoryMovementTypes = ["opening", "receipt", "sale", "waste", "transfer_in", "transfer_out", "count"] as const;
+export const wasteReasons = ["spoilage", "expired", "damaged", "overproduction", "other"] as const;
+
+// Append-only stock ledger; inventory.current_stock is the running sum of an item's movements
+export const inventoryMovements = pgTable("inventory_movements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  inventoryId: varchar("inventory_id").notNull().references(() => inventory.id),
+  locationId: varchar("location_id").references(() => locations.id),
+  type: text("type").notNull(), // 'opening', 'receipt', 'sale', 'waste', 'transfer_in', 'transfer_out', 'count'
+  quantity: real("quantity").notNull(), // Signed change in stock, in the item's unit
+  balanceAfter: real("balance_after").notNull(),
+  reason: text("reason"), // Waste reason
+  reference: text("reference"), // Sale id, purchase order number or transfer id
+  notes: text("notes"),
+  userId: varchar("user_id").references(() => users.id),
+  occurredAt: timestamp("occurred_at").notNull(),
+  createdAt: timestamp("created_at").default(sql`now()`),
+});
+
+// Stock received together, drawn down oldest first; remaining quantities across an item's batches make up its tracked stock
+export const inventoryBatches = pgTable("inventory_batches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  inventoryId: varchar("inventory_id").notNull().references(() => inventory.id),
+  locationId: varchar("location_id").references(() => locations.id),
+  batchCode: text("batch_code"), // Supplier lot number
+  receivedAt: timestamp("received_at").notNull(),
+  expiresAt: timestamp("expires_at"), // Last day the stock can be used; null for non-perishables
+  initialQuantity: real("initial_quantity").notNull(),
+  remainingQuantity: real("remaining_quantity").notNull(),
+  createdAt: timestamp("created_at").default(sql`now()`),
+});
+
+export const modelMetrics = pgTable("model_metrics", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  modelName: text("model_name").notNull(),
+  accuracy: real("accuracy").notNull(),
+  rmse: real("rmse").notNull(),
+  lastTraining: timestamp("last_training").notNull(),
+  createdAt: timestamp("created_at").default(sql`now()`),
+});
+
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  locationId: varchar("location_id").references(() => locations.id), // null for chain-wide alerts
+  ruleId: text("rule_id").notNull(),
+  type: text("type").notNull(),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  priority: text("priority").notNull(),
+  data: jsonb("data"),
+  acknowledged: integer("acknowledged").notNull().default(0),
+  actionRequired: integer("action_required").notNull().default(0),
+  createdAt: timestamp("created_at").default(sql`now()`),
+});
+
+export const externalData = pgTable("external_data", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sourceId: text("source_id").notNull(),
+  dataType: text("data_type").notNull(),
+  data: jsonb("data"),
+  timestamp: timestamp("timestamp").notNull(),
+  createdAt: timestamp("created_at").default(sql`now()`),
+});
+
+export const advancedPredictions = pgTable("advanced_predictions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  locationId: varchar("location_id").references(() => locations.id),
+  itemName: text("item_name").notNull(),
+  category: text("category").notNull(),
+  modelType: text("model_type").notNull(),
+  predictions: jsonb("predictions"),
+  confidence: jsonb("confidence"),
+  quantiles: jsonb("quantiles"), // { p10, p50, p90 } per horizon step
+  hyperparameters: jsonb("hyperparameters"),
+  seasonalComponents: jsonb("seasonal_components"),
+  anomalies: jsonb("anomalies"),
+  externalFactorsImpact: jsonb("external_factors_impact"),
+  forecastHorizon: integer("forecast_horizon").notNull(),
+  forecastPeriod: text("forecast_period").notNull().default("daily"), // 'daily', 'weekly', 'monthly'; step 1 is the period containing createdAt
+  forecastEnd: timestamp("forecast_end"), // End of the last step's period
+  createdAt: timestamp("created_at").default(sql`now()`),
+});
+
+// Realised error of a stored forecast once the actual sales for its date have arrived
+export const forecastAccuracy = pgTable("forecast_accuracy", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  locationId: varchar("location_id").references(() => locations.id),
+  predictionId: varchar("prediction_id").notNull(), // predictions.id or advanced_predictions.id
+  horizonStep: integer("horizon_step").notNull().default(1),
+  itemName: text("item_name").notNull(),
+  modelType: text("model_type").notNull(), // 'baseline' for basic predictions, otherwise the advanced model type
+  forecastDate: timestamp("forecast_date").notNull(),
+  predictedQuantity: real("predicted_quantity").notNull(),
+  actualQuantity: real("actual_quantity").notNull(),
+  absoluteError: real("absolute_error").notNull(),
+  percentageError: real("percentage_error"), // null when nothing sold
+  createdAt: timestamp("created_at").default(sql`now()`),
+}, (table) => [
+  uniqueIndex("forecast_accuracy_prediction_step_idx").on(table.predictionId, table.horizonStep),
+]);
+
+// Point-in-time copy of the real-time metrics, written at the configured resolution
+export const metricsSnapshots = pgTable("metrics_snapshots", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  locationId: varchar("location_id").references(() => locations.id), // null for the all-locations roll-up
+  timestamp: timestamp("timestamp").notNull(),
+  totalSales: real("total_sales").notNull(), // Units sold today
+  totalRevenue: real("total_revenue").notNull(),
+  transactions: integer("transactions").notNull(),
+  activeItems: integer("active_items").notNull(),
+  averageOrderValue: real("average_order_value").notNull(),
+  topPerformingCategory: text("top_performing_category"),
+  inventoryTurnover: real("inventory_turnover").notNull(),
+  demandForecastAccuracy: real("demand_forecast_accuracy"),
+  alerts: integer("alerts").notNull(),
+});
+
+// Application-wide configuration, stored as a single row keyed "default"
+export const appSettings = pgTable("app_settings", {
+  id: varchar("id").primaryKey(),
+  values: jsonb("values").notNull(),
+  updatedAt: timestamp("updated_at").default(sql`now()`),
+});
+
+export const insertLocationSchema = createInsertSchema(locations).omit({
+  id: true,
+  createdAt: true,
+});
+
+const menuItemFields = createInsertSchema(menuItems).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  sku: z.string().trim().min(1, "SKU is required"),
+  name: z.string().trim().min(1, "Name is required"),
+  category: z.string().trim().min(1, "Category is required"),
+  price: z.number().min(0),
+  foodCost: z.number().min(0).nullish(),
+  aliases: z.array(z.string().trim().min(1)).default([]),
+  icon: z.enum(menuItemIcons).default("utensils"),
+  activeFrom: z.coerce.date().nullish(),
+  activeUntil: z.coerce.date().nullish(),
+});
+
+const activeDatesInOrder = (item: { activeFrom?: Date | null; activeUntil?: Date | null }) =>
+  !item.activeFrom || !item.activeUntil || item.activeFrom <= item.activeUntil;
+
+export const insertMenuItemSchema = menuItemFields
+  .refine(activeDatesInOrder, { message: "activeUntil cannot be before activeFrom", path: ["activeUntil"] });
+
+export const updateMenuItemSchema = menuItemFields.partial()
+  .refine(activeDatesInOrder, { message: "activeUntil cannot be before activeFrom", path: ["activeUntil"] });
+
+export const insertSalesDataSchema = createInsertSchema(salesData).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  date: z.coerce.date(), // Keep the time of sale when there is one; intraday profiles are built from it
+});
+
+export const insertPredictionSchema = createInsertSchema(predictions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertInventorySchema = createInsertSchema(inventory).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertIngredientSchema = createInsertSchema(ingredients).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const recipeLineSchema = z.object({
+  ingredientId: z.string().min(1),
+  quantity: z.number().positive(),
+  yieldPercentage: z.number().gt(0).max(1).default(1),
+});
+
+export const insertRecipeSchema = createInsertSchema(recipes).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  yield: z.number().positive().default(1),
+  ingredients: z.array(recipeLineSchema).min(1, "A recipe needs at least one ingredient"),
+});
+
+export const insertSupplierSchema = createInsertSchema(suppliers).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  email: z.string().email().nullish(),
+  leadTimeDays: z.number().int().min(0).default(1),
+});
+
+export const purchaseOrderLineSchema = z.object({
+  inventoryId: z.string().min(1),
+  quantity: z.number().positive(),
+  unitCost: z.number().min(0).nullish(),
+});
+
+export const insertPurchaseOrderSchema = z.object({
+  supplierId: z.string().min(1),
+  locationId: z.string().nullish(),
+  notes: z.string().nullish(),
+  expectedDeliveryDate: z.coerce.date().nullish(),
+  lines: z.array(purchaseOrderLineSchema).min(1, "A purchase order needs at least one line"),
+});
+
+export const receivePurchaseOrderSchema = z.object({
+  // Per-line received quantities; lines left out are received in full
+  lines: z.array(z.object({
+    lineId: z.string().min(1),
+    receivedQuantity: z.number().min(0),
+  })).default([]),
+});
+
+export const updateInventorySchema = insertInventorySchema.omit({
+  currentStock: true,
+}).partial().strict();
+
+const movementDetails = {
+  notes: z.string().nullish(),
+  occurredAt: z.coerce.date().optional(),
+};
+
+// Stock changes recorded by hand; sales and purchase order receipts are posted automatically
+export const recordInventoryMovementSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("receipt"), inventoryId: z.string().min(1), quantity: z.number().positive(), reference: z.string().nullish(),
+    batchCode: z.string().nullish(), expiresAt: z.coerce.date().nullish(), // Expiry defaults to the item's shelf life
+    ...movementDetails,
+  }),
+  z.object({
+    type: z.literal("waste"), inventoryId: z.string().min(1), quantity: z.number().positive(), reason: z.enum(wasteReasons),
+    batchId: z.string().optional(), // Discard from this batch first, e.g. an expired one
+    ...movementDetails,
+  }),
+  z.object({ type: z.literal("count"), inventoryId: z.string().min(1), countedQuantity: z.number().min(0), ...movementDetails }),
+  z.object({ type: z.literal("transfer"), inventoryId: z.string().min(1), toInventoryId: z.string().min(1), quantity: z.number().positive(), ...movementDetails }),
+]);
+
+export const insertModelMetricsSchema = createInsertSchema(modelMetrics).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertExternalDataSchema = createInsertSchema(externalData).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertAdvancedPredictionSchema = createInsertSchema(advancedPredictions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertForecastAccuracySchema = createInsertSchema(forecastAccuracy).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertMetricsSnapshotSchema = createInsertSchema(metricsSnapshots).omit({
+  id: true,
+});
+
+export const insertUserSchema = createInsertSchema(users).pick({
+  username: true,
+  password: true,
+  role: true,
+});
+
+export const registerUserSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+
+// Topics pushed over the /ws live-update channel
+export const liveTopics = ["metrics", "sales", "inventory", "predictions", "kpis", "external-data", "notifications"] as const;
+
+export const ensembleMethods = ["weighted", "average", "best_performer"] as const;
+export const forecastPeriods = ["daily", "weekly", "monthly"] as const;
+export const trainingFrequencies = ["hourly", "daily", "weekly", "monthly"] as const;
+export const dashboardViews = ["overview", "analytics", "predictions", "inventory"] as const; // Page "/" opens
+
+export const appSettingsSchema = z.object({
+  // Forecasting
+  defaultForecastPeriod: z.enum(forecastPeriods),
+  forecastHorizon: z.number().int().min(1).max(30, "Horizon must be between 1-30 days"),
+  confidenceThreshold: z.number().min(0).max(1, "Confidence threshold must be between 0 and 1"),
+  ensembleMethod: z.enum(ensembleMethods),
+  seasonalAdjustment: z.boolean(),
+  trendAnalysis: z.boolean(),
+  includeHolidays: z.boolean(),
+  includeWeather: z.boolean(),
+  enableAnomalyDetection: z.boolean(),
+
+  // Sales calendar used to build the series models are fitted on
+  timeZone: z.string().refine(isValidTimeZone, "Unknown time zone"), // Empty for the server's local time
+  gapFill: z.enum(gapFillMethods),
+  closedWeekdays: z.array(z.number().int().min(0).max(6)), // 0 = Sunday
+
+  // Model configuration
+  enableARIMA: z.boolean(),
+  enableNeuralNetwork: z.boolean(),
+  enableExponentialSmoothing: z.boolean(),
+  trainingFrequency: z.enum(trainingFrequencies),
+  dataRetentionDays: z.number().int().min(30, "Minimum retention is 30 days"),
+  autoRetraining: z.boolean(),
+  modelDriftThreshold: z.number().min(0).max(1, "Drift threshold must be between 0 and 1"),
+
+  // Notifications
+  enableNotifications: z.boolean(),
+  inventoryAlerts: z.boolean(),
+  demandSpikeAlerts: z.boolean(),
+  modelDriftAlerts: z.boolean(),
+  dailyReports: z.boolean(),
+  lowStockThreshold: z.number().min(1, "Threshold must be at least 1%").max(100, "Threshold cannot exceed 100%"), // % of max stock
+  demandSpikeMultiplier: z.number().min(1, "Multiplier must be at least 1"),
+
+  // Inventory planning
+  serviceLevel: z.number().min(0.5, "Service level must be at least 50%").max(0.999, "Service level must be below 100%"), // Target probability of no stockout during the lead time
+  autoUpdateMinimumStock: z.boolean(), // Write calculated reorder points back to minimumStock on each monitoring check
+
+  // Display
+  defaultDashboardView: z.enum(dashboardViews),
+  chartAnimations: z.boolean(),
+  darkMode: z.boolean(),
+  refreshInterval: z.number().min(10, "Minimum refresh interval is 10 seconds"),
+  metricsResolutionMinutes: z.number().int().min(1, "Minimum resolution is 1 minute").max(1440, "Maximum resolution is 1 day"),
+}).refine(settings => settings.enableARIMA || settings.enableExponentialSmoothing || settings.enableNeuralNetwork, {
+  message: "At least one forecasting algorithm must be enabled",
+  path: ["enableARIMA"],
+});
+
+export const defaultAppSettings: z.infer<typeof appSettingsSchema> = {
+  defaultForecastPeriod: "daily",
+  forecastHorizon: 7,
+  confidenceThreshold: 0.8,
+  ensembleMethod: "weighted",
+  seasonalAdjustment: true,
+  trendAnalysis: true,
+  includeHolidays: true,
+  includeWeather: false,
+  enableAnomalyDetection: true,
+
+  timeZone: "",
+  gapFill: "zero",
+  closedWeekdays: [],
+
+  enableARIMA: true,
+  enableNeuralNetwork: true,
+  enableExponentialSmoothing: true,
+  trainingFrequency: "daily",
+  dataRetentionDays: 365,
+  autoRetraining: true,
+  modelDriftThreshold: 0.1,
+
+  enableNotifications: true,
+  inventoryAlerts: true,
+  demandSpikeAlerts: true,
+  modelDriftAlerts: true,
+  dailyReports: false,
+  lowStockThreshold: 20,
+  demandSpikeMultiplier: 2.0,
+
+  serviceLevel: 0.95,
+  autoUpdateMinimumStock: false,
+
+  defaultDashboardView: "overview",
+  chartAnimations: true,
+  darkMode: false,
+  refreshInterval: 30,
+  metricsResolutionMinutes: 5,
+};
+
+// Every backtest fold refits every model, so a run costs items x folds model fits
+export const MAX_BACKTEST_FOLDS = 10;
+
+export const backtestQuerySchema = z.object({
+  itemName: z.string().min(1).optional(),
+  horizon: z.coerce.number({ invalid_type_error: "horizon must be a number" }).int("horizon must be a whole number")
+    .min(1, "horizon must be between 1 and 30 periods").max(30, "horizon must be between 1 and 30 periods").optional(),
+  folds: z.coerce.number({ invalid_type_error: "folds must be a number" }).int("folds must be a whole number")
+    .min(1, `folds must be between 1 and ${MAX_BACKTEST_FOLDS}`).max(MAX_BACKTEST_FOLDS, `folds must be between 1 and ${MAX_BACKTEST_FOLDS}`).optional(),
+});
+
+export type UserRole = typeof userRoles[number];
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type RegisterUser = z.infer<typeof registerUserSchema>;
+export type User = typeof users.$inferSelect;
+export type Location = typeof locations.$inferSelect;
+export type InsertLocation = z.infer<typeof insertLocationSchema>;
+export type MenuItemIcon = typeof menuItemIcons[number];
+export type MenuItem = typeof menuItems.$inferSelect;
+export type InsertMenuItem = z.infer<typeof insertMenuItemSchema>;
+export type UpdateMenuItem = z.infer<typeof updateMenuItemSchema>;
+export type SalesData = typeof salesData.$inferSelect;
+export type InsertSalesData = z.infer<typeof insertSalesDataSchema>;
+export type Prediction = typeof predictions.$inferSelect;
+export type InsertPrediction = z.infer<typeof insertPredictionSchema>;
+export type Inventory = typeof inventory.$inferSelect;
+export type InsertInventory = z.infer<typeof insertInventorySchema>;
+export type Ingredient = typeof ingredients.$inferSelect;
+export type InsertIngredient = z.infer<typeof insertIngredientSchema>;
+export type Recipe = typeof recipes.$inferSelect;
+export type RecipeIngredient = typeof recipeIngredients.$inferSelect;
+export type RecipeLine = z.infer<typeof recipeLineSchema>;
+export type InsertRecipe = z.infer<typeof insertRecipeSchema>;
+export type RecipeWithIngredients = Recipe & { ingredients: (RecipeIngredient & { ingredient: Ingredient })[] };
+export type Supplier = typeof suppliers.$inferSelect;
+export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
+export type PurchaseOrderStatus = typeof purchaseOrderStatuses[number];
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+export type PurchaseOrderLine = typeof purchaseOrderLines.$inferSelect;
+export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
+export type ReceivePurchaseOrder = z.infer<typeof receivePurchaseOrderSchema>;
+export type NewPurchaseOrder = typeof purchaseOrders.$inferInsert;
+export type NewPurchaseOrderLine = Omit<typeof purchaseOrderLines.$inferInsert, "id" | "purchaseOrderId">;
+export type PurchaseOrderWithLines = PurchaseOrder & { lines: PurchaseOrderLine[]; supplier: Supplier | null };
+export type InventoryMovementType = typeof inventoryMovementTypes[number];
+export type WasteReason = typeof wasteReasons[number];
+export type InventoryMovement = typeof inventoryMovements.$inferSelect;
+export type UpdateInventory = z.infer<typeof updateInventorySchema>;
+export type RecordInventoryMovement = z.infer<typeof recordInventoryMovementSchema>;
+export type InventoryBatch = typeof inventoryBatches.$inferSelect;
+// How a ledger entry touches batches: increases open a batch (expiry defaults to the shelf life), decreases draw from `batchId` first
+export type BatchDetails = { batchId?: string; batchCode?: string | null; expiresAt?: Date | null };
+// A ledger entry to post: either a signed quantity, or for opening balances and counts the counted stock level
+export type NewInventoryMovement = Omit<typeof inventoryMovements.$inferInsert, "id" | "locationId" | "quantity" | "balanceAfter" | "createdAt">
+  & BatchDetails
+  & ({ quantity: number; countedQuantity?: never } | { countedQuantity: number; quantity?: never });
+export type ModelMetrics = typeof modelMetrics.$inferSelect;
+export type InsertModelMetrics = z.infer<typeof insertModelMetricsSchema>;
+export type NotificationEvent = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type ExternalData = typeof externalData.$inferSelect;
+export type InsertExternalData = z.infer<typeof insertExternalDataSchema>;
+export type AdvancedPrediction = typeof advancedPredictions.$inferSelect;
+export type InsertAdvancedPrediction = z.infer<typeof insertAdvancedPredictionSchema>;
+export type ForecastAccuracy = typeof forecastAccuracy.$inferSelect;
+export type InsertForecastAccuracy = z.infer<typeof insertForecastAccuracySchema>;
+export type MetricsSnapshot = typeof metricsSnapshots.$inferSelect;
+export type InsertMetricsSnapshot = z.infer<typeof insertMetricsSnapshotSchema>;
+export type AppSettings = z.infer<typeof appSettingsSchema>;
+export type ForecastPeriod = typeof forecastPeriods[number];
+export type LiveTopic = typeof liveTopics[number];
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { buildSeries } from "./time-series";
+
+const sale = (iso: string, quantity: number) => ({ date: new Date(iso), quantity });
+
+describe("buildSeries", () => {
+  it("sums records into one bucket per day on the series time zone", () => {
+    const series = buildSeries([
+      sale("2024-03-04T23:30:00Z", 2), // 18:30 on the 4th in New York
+      sale("2024-03-05T03:00:00Z", 3), // 22:00 on the 4th in New York
+      sale("2024-03-06T15:00:00Z", 4),
+    ], { timeZone: "America/New_York" });
+
+    expect(series.map(bucket => [bucket.key, bucket.quantity])).toEqual([
+      ["2024-03-04", 5],
+      ["2024-03-05", 0],
+      ["2024-03-06", 4],
+    ]);
+    expect(series[0].start).toEqual(new Date("2024-03-04T05:00:00Z"));
+  });
+
+  it("fills empty days with zero or from their neighbours", () => {
+    const records = [sale("2024-03-04T12:00:00Z", 10), sale("2024-03-07T12:00:00Z", 40)];
+
+    expect(buildSeries(records, { timeZone: "UTC" }).map(bucket => bucket.quantity)).toEqual([10, 0, 0, 40]);
+    expect(buildSeries(records, { timeZone: "UTC", gapFill: "interpolate" }).map(bucket => bucket.quantity)).toEqual([10, 20, 30, 40]);
+  });
+
+  it("flags empty days on a closed weekday and carries an interpolated value through them", () => {
+    // Tuesday 5 March is closed and empty; Wednesday 6 March is closed but traded
+    const series = buildSeries(
+      [sale("2024-03-04T12:00:00Z", 10), sale("2024-03-06T12:00:00Z", 30), sale("2024-03-07T12:00:00Z", 30)],
+      { timeZone: "UTC", closedWeekdays: [2, 3] },
+    );
+
+    expect(series.map(bucket => [bucket.quantity, bucket.closed])).toEqual([[10, false], [20, true], [30, false], [30, false]]);
+  });
+
+  it("starts weekly buckets on Monday and covers the requested range", () => {
+    const series = buildSeries([sale("2024-03-06T12:00:00Z", 3), sale("2024-03-10T12:00:00Z", 4)], {
+      timeZone: "UTC",
+      period: "weekly",
+      start: new Date("2024-02-28T00:00:00Z"),
+      end: new Date("2024-03-12T00:00:00Z"),
+    });
+
+    expect(series.map(bucket => [bucket.key, bucket.quantity])).toEqual([
+      ["2024-02-26", 0],
+      ["2024-03-04", 7],
+      ["2024-03-11", 0],
+    ]);
+  });
+});
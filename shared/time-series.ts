@@ -0,0 +1,263 @@
+/**
+ * Calendar series building shared by the server forecasters and the client forecasting
+ * utilities. Timestamped records are summed into daily, weekly (Monday-start) or monthly
+ * buckets on the calendar of a time zone, with one bucket for every period between the first
+ * and the last, so a model sees one observation per period rather than one per sale.
+ *
+ * Buckets without records are filled with zero, interpolated from their neighbours, or treated
+ * as days the kitchen was shut. Closed buckets (empty days on a closed weekday or date, or any
+ * empty bucket under the "closed" fill) carry an interpolated value so a day without trading
+ * doesn't read as a day without demand, and are flagged so callers can forecast nothing for them.
+ */
+
+export const seriesPeriods = ["daily", "weekly", "monthly"] as const;
+export type SeriesPeriod = typeof seriesPeriods[number];
+
+export const gapFillMethods = ["zero", "interpolate", "closed"] as const;
+export type GapFillMethod = typeof gapFillMethods[number];
+
+// Observations per seasonal cycle: day of week, week of year, month of year
+export const SEASON_LENGTHS: Record<SeriesPeriod, number> = {
+  daily: 7,
+  weekly: 52,
+  monthly: 12,
+};
+
+export interface SeriesCalendar {
+  timeZone?: string; // IANA zone for day boundaries; the runtime's local zone when omitted or empty
+  gapFill?: GapFillMethod; // How empty buckets are filled; "zero" by default
+  closedWeekdays?: number[]; // 0 = Sunday; daily series only
+  closedDates?: string[]; // YYYY-MM-DD in the series time zone; daily series only
+}
+
+export interface SeriesOptions extends SeriesCalendar {
+  period?: SeriesPeriod;
+  start?: Date; // First bucket is the one containing this; the first record's by default
+  end?: Date; // Last bucket is the one containing this; the last record's by default
+}
+
+export interface SeriesRecord {
+  date: Date;
+  quantity: number;
+  revenue?: number;
+}
+
+export interface SeriesBucket {
+  start: Date;
+  key: string; // YYYY-MM-DD of the bucket's first day in the series time zone
+  quantity: number;
+  revenue: number;
+  observed: boolean; // At least one record fell in the bucket
+  closed: boolean;
+}
+
+/**
+ * Sum records into consecutive period buckets and fill the gaps between them
+ */
+export function buildSeries(records: SeriesRecord[], options: SeriesOptions = {}): SeriesBucket[] {
+  const period = options.period ?? "daily";
+  const timeZone = options.timeZone || undefined;
+  if (records.length === 0 && (!options.start || !options.end)) return [];
+
+  const times = records.map(record => record.date.getTime());
+  const first = plainPeriodStart(toPlainDate(options.start ?? new Date(times.reduce((min, time) => Math.min(min, time))), timeZone), period);
+  const last = plainPeriodStart(toPlainDate(options.end ?? new Date(times.reduce((max, time) => Math.max(max, time))), timeZone), period);
+
+  const buckets: SeriesBucket[] = [];
+  const byKey = new Map<string, SeriesBucket>();
+  for (let plain = first; plain <= last; plain = plainAdd(plain, period, 1)) {
+    const bucket = { start: fromPlainDate(plain, timeZone), key: plainKey(plain), quantity: 0, revenue: 0, observed: false, closed: false };
+    buckets.push(bucket);
+    byKey.set(bucket.key, bucket);
+  }
+
+  records.forEach(record => {
+    const bucket = byKey.get(plainKey(plainPeriodStart(toPlainDate(record.date, timeZone), period)));
+    if (!bucket) return;
+    bucket.quantity += record.quantity;
+    bucket.revenue += record.revenue ?? 0;
+    bucket.observed = true;
+  });
+
+  // A masked day with sales did trade, so only empty buckets are closed
+  const gapFill = options.gapFill ?? "zero";
+  buckets.forEach(bucket => {
+    bucket.closed = !bucket.observed && (gapFill === "closed" || (period === "daily" && isClosed(bucket.start, options)));
+  });
+
+  const anchored = buckets.map(bucket => bucket.observed || (!bucket.closed && gapFill === "zero"));
+  interpolateGaps(buckets, anchored);
+  return buckets;
+}
+
+/**
+ * Period starts from the one containing `from`, flagged when a daily calendar marks them closed
+ */
+export function upcomingPeriods(from: Date, count: number, options: SeriesOptions = {}): { start: Date; closed: boolean }[] {
+  const period = options.period ?? "daily";
+  const timeZone = options.timeZone || undefined;
+  let plain = plainPeriodStart(toPlainDate(from, timeZone), period);
+  const periods: { start: Date; closed: boolean }[] = [];
+  for (let i = 0; i < count; i++, plain = plainAdd(plain, period, 1)) {
+    const start = fromPlainDate(plain, timeZone);
+    periods.push({ start, closed: period === "daily" && isClosed(start, options) });
+  }
+  return periods;
+}
+
+/**
+ * Start of the period containing `date`
+ */
+export function periodStart(date: Date, period: SeriesPeriod, timeZone?: string): Date {
+  const zone = timeZone || undefined;
+  return fromPlainDate(plainPeriodStart(toPlainDate(date, zone), period), zone);
+}
+
+/**
+ * Start of the day `count` whole periods after the day of `date`
+ */
+export function addPeriods(date: Date, period: SeriesPeriod, count: number, timeZone?: string): Date {
+  const zone = timeZone || undefined;
+  return fromPlainDate(plainAdd(toPlainDate(date, zone), period, count), zone);
+}
+
+/**
+ * Start of the latest period that has fully ended by `now`, so a half-finished week or month
+ * isn't read as a drop in demand
+ */
+export function lastCompletePeriod(now: Date, period: SeriesPeriod, timeZone?: string): Date {
+  return addPeriods(periodStart(now, period, timeZone), period, -1, timeZone);
+}
+
+/**
+ * Position of `date` within its seasonal cycle: weekday (0 = Sunday), week of year (0-51) or month (0-11)
+ */
+export function seasonPosition(date: Date, period: SeriesPeriod, timeZone?: string): number {
+  const plain = toPlainDate(date, timeZone || undefined);
+  if (period === "daily") return plain.getUTCDay();
+  if (period === "monthly") return plain.getUTCMonth();
+  const dayOfYear = (plain.getTime() - Date.UTC(plain.getUTCFullYear(), 0, 1)) / DAY_MS;
+  return Math.min(SEASON_LENGTHS.weekly - 1, Math.floor(dayOfYear / 7));
+}
+
+/**
+ * Calendar date of `date` in the time zone, as YYYY-MM-DD
+ */
+export function dateKey(date: Date, timeZone?: string): string {
+  return plainKey(toPlainDate(date, timeZone || undefined));
+}
+
+/**
+ * Whether the calendar marks the day of `date` as closed
+ */
+export function isClosed(date: Date, calendar: SeriesCalendar): boolean {
+  const plain = toPlainDate(date, calendar.timeZone || undefined);
+  return (calendar.closedWeekdays ?? []).includes(plain.getUTCDay()) || (calendar.closedDates ?? []).includes(plainKey(plain));
+}
+
+/**
+ * Whether `timeZone` is empty (local time) or a zone the runtime knows
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (timeZone === "") return true;
+  try {
+    formatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Replace non-anchor values with a straight line between the nearest anchors either side
+function interpolateGaps(buckets: SeriesBucket[], anchored: boolean[]): void {
+  const anchors = anchored.map((isAnchor, index) => isAnchor ? index : -1).filter(index => index >= 0);
+  buckets.forEach((bucket, index) => {
+    if (anchored[index]) return;
+    const before = anchors.filter(anchor => anchor < index).pop();
+    const after = anchors.find(anchor => anchor > index);
+    const fill = (value: (anchor: SeriesBucket) => number): number => {
+      if (before === undefined && after === undefined) return 0;
+      if (before === undefined) return value(buckets[after!]);
+      if (after === undefined) return value(buckets[before]);
+      const weight = (index - before) / (after - before);
+      return value(buckets[before]) + (value(buckets[after]) - value(buckets[before])) * weight;
+    };
+    bucket.quantity = fill(anchor => anchor.quantity);
+    bucket.revenue = fill(anchor => anchor.revenue);
+  });
+}
+
+// Calendar dates are carried as UTC midnights so day arithmetic ignores daylight saving
+function toPlainDate(date: Date, timeZone: string | undefined): Date {
+  if (!timeZone) return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+  const parts = zonedParts(date, timeZone);
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day));
+}
+
+// The instant a calendar date starts in the time zone
+function fromPlainDate(plain: Date, timeZone: string | undefined): Date {
+  if (!timeZone) return new Date(plain.getUTCFullYear(), plain.getUTCMonth(), plain.getUTCDate());
+  const wallClock = plain.getTime();
+  const firstGuess = wallClock - offsetMs(new Date(wallClock), timeZone);
+  return new Date(wallClock - offsetMs(new Date(firstGuess), timeZone));
+}
+
+function plainPeriodStart(plain: Date, period: SeriesPeriod): Date {
+  const start = new Date(plain);
+  if (period === "weekly") start.setUTCDate(start.getUTCDate() - (start.getUTCDay() + 6) % 7);
+  if (period === "monthly") start.setUTCDate(1);
+  return start;
+}
+
+function plainAdd(plain: Date, period: SeriesPeriod, count: number): Date {
+  const result = new Date(plain);
+  if (period === "daily") result.setUTCDate(result.getUTCDate() + count);
+  if (period === "weekly") result.setUTCDate(result.getUTCDate() + count * 7);
+  if (period === "monthly") {
+    // Clamp to the month's last day rather than rolling over, e.g. 31 Jan + 1 month is 28/29 Feb
+    const day = result.getUTCDate();
+    result.setUTCDate(1);
+    result.setUTCMonth(result.getUTCMonth() + count);
+    const daysInMonth = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+    result.setUTCDate(Math.min(day, daysInMonth));
+  }
+  return result;
+}
+
+function plainKey(plain: Date): string {
+  return plain.toISOString().slice(0, 10);
+}
+
+// How far the time zone's wall clock is ahead of UTC at `date`
+function offsetMs(date: Date, timeZone: string): number {
+  const parts = zonedParts(date, timeZone);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wallClock - (date.getTime() - date.getMilliseconds());
+}
+
+function zonedParts(date: Date, timeZone: string): { year: number; month: number; day: number; hour: number; minute: number; second: number } {
+  const parts = formatter(timeZone).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value ?? 0);
+  return { year: get("year"), month: get("month"), day: get("day"), hour: get("hour") % 24, minute: get("minute"), second: get("second") };
+}
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+  let cached = formatters.get(timeZone);
+  if (!cached) {
+    cached = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, cached);
+  }
+  return cached;
+}